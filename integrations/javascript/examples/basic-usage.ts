@@ -120,16 +120,12 @@ async function exampleUserOperation() {
     nonce: await entryPoint.getNonce('0x...'), // Get nonce
   });
 
-  // Get user operation hash
-  const userOpHash = await entryPoint.getUserOpHash(userOp);
-
-  // Sign user operation
-  const signature = await signer.signMessage(ethers.getBytes(userOpHash));
-  userOp.signature = signature;
+  // Sign user operation (hash is computed locally)
+  const signedUserOp = await entryPoint.signUserOperation(await userOp, signer);
 
   // Submit via bundler (e.g., Pimlico)
   const bundlerUrl = 'https://api.pimlico.io/v1/base-sepolia/rpc';
-  const userOpHashResult = await entryPoint.submitUserOperation(userOp, bundlerUrl);
+  const userOpHashResult = await entryPoint.submitUserOperation(signedUserOp, bundlerUrl);
 
   console.log('User operation submitted:', userOpHashResult);
 }
@@ -12,7 +12,11 @@ import {
   InsuranceVaultContract,
   ZKAdapterContract,
   OracleAdapterContract,
+  ProofJobManager,
+  ZKProviderRegistry,
+  ReputationProofPipeline,
   loadConfig,
+  createSigner,
 } from '@kya-protocol/integrations';
 
 /**
@@ -26,9 +30,7 @@ async function completeWorkflow() {
   }
 
   const provider = new ethers.JsonRpcProvider(config.rpcUrl);
-  const signer = config.privateKey
-    ? new ethers.Wallet(config.privateKey, provider)
-    : undefined;
+  const signer = config.signer ? await createSigner(config.signer, provider) : undefined;
 
   // Contract addresses (should be from deployment)
   const REPUTATION_SCORE_ADDRESS = process.env.REPUTATION_SCORE_ADDRESS || '0x...';
@@ -68,53 +70,33 @@ async function completeWorkflow() {
     }
 
     const axiom = new AxiomClient(config.axiom);
+    const jobs = new ProofJobManager(new ZKProviderRegistry([axiom]));
+    const pipeline = new ReputationProofPipeline(zkAdapter, reputationScore, jobs, provider);
     const tokenId = 1;
     const tbaAddress = '0x...'; // Agent TBA address
 
-    // Step 1: Generate proof via Axiom
-    console.log('Generating ZK proof via Axiom...');
-    const proof = await axiom.generateProof({
-      agentAddress: tbaAddress,
-      proofType: 'UniswapVolume',
-      queryData: {
-        contract: 'UniswapV3Router',
-        minVolume: 10000,
-      },
-      startBlock: 10000000,
-      endBlock: 11000000,
-    });
-
-    console.log('Proof generated:', proof.queryId);
-    console.log('Verified:', proof.verified);
-
-    // Step 2: Submit query to ZKAdapter
-    console.log('Submitting query to ZKAdapter...');
-    const queryId = await zkAdapter.submitQuery({
-      agentAddress: tbaAddress,
-      proofType: 'UniswapVolume',
-      queryData: {
-        contract: 'UniswapV3Router',
-        minVolume: 10000,
+    // Submit the query on-chain, generate the proof via Axiom and
+    // process it (requires admin role); re-running resumes the same run
+    console.log('Running reputation proof pipeline...');
+    const receipt = await pipeline.run({
+      tokenId,
+      query: {
+        agentAddress: tbaAddress,
+        proofType: 'UniswapVolume',
+        queryData: {
+          contract: 'UniswapV3Router',
+          minVolume: 10000,
+        },
+        startBlock: 10000000,
+        endBlock: 11000000,
       },
-      startBlock: 10000000,
-      endBlock: 11000000,
     });
 
-    // Step 3: Process proof and update reputation (requires admin role)
-    console.log('Processing proof and updating reputation...');
-    await zkAdapter.processProofAndUpdate(
-      queryId,
-      tokenId,
-      proof.proof,
-      proof.metadata
-    );
-
-    // Step 4: Verify reputation updated
-    const reputation = await reputationScore.getReputation(tokenId);
     console.log('Reputation updated:', {
-      score: reputation.score.toString(),
-      tier: reputation.tier,
-      verifiedProofs: reputation.verifiedProofs,
+      queryId: receipt.queryId,
+      score: `${receipt.oldScore} -> ${receipt.newScore}`,
+      tier: `${receipt.oldTier} -> ${receipt.newTier}`,
+      badges: receipt.badgesAwarded,
     });
   }
 
@@ -135,12 +117,12 @@ async function completeWorkflow() {
       throw new Error('Signer required for submitClaim');
     }
 
-    const claimId = await insuranceVault.submitClaim(
+    const { claimId, transactionHash } = await insuranceVault.submitClaim(
       tokenId,
       claimAmount,
       reason
     );
-    console.log('Claim submitted:', claimId);
+    console.log('Claim submitted:', claimId, transactionHash);
 
     // Step 2: Submit to UMA oracle
     console.log('Submitting claim to UMA oracle...');
@@ -159,7 +141,7 @@ async function completeWorkflow() {
 
     // Step 3: Submit to OracleAdapter
     console.log('Submitting to OracleAdapter...');
-    const oracleRequestId = await oracleAdapter.submitClaim({
+    const { requestId: oracleRequestId } = await oracleAdapter.submitClaim({
       claimId: claimId,
       tokenId: tokenId,
       merchant: signer.address,
@@ -178,12 +160,12 @@ async function completeWorkflow() {
     // Step 5: Process resolution on-chain (requires admin role)
     if (resolution.resolved) {
       console.log('Processing resolution on-chain...');
-      await oracleAdapter.processResolution(
+      const { approved, vaultClaim } = await oracleAdapter.processResolution(
         oracleRequestId,
         resolution.result,
         JSON.stringify(resolution.resolutionData || {})
       );
-      console.log('Resolution processed');
+      console.log('Resolution processed:', { approved, status: vaultClaim?.status });
     }
   }
 
@@ -195,28 +177,17 @@ async function completeWorkflow() {
 
     const entryPoint = new EntryPointClient(config.entryPoint, provider, signer);
     const tbaAddress = '0x...'; // Agent TBA address
-    const paymasterAddress = process.env.PAYMASTER_ADDRESS || '0x...';
 
-    // Create user operation
-    const userOp = await entryPoint.createUserOperation({
+    // Create user operation sponsored by the KYA Paymaster
+    // (entryPoint config needs paymasterAddress, e.g. PAYMASTER_ADDRESS env)
+    let userOp = await entryPoint.createSponsoredUserOperation(1, {
       sender: tbaAddress,
       callData: '0x...', // Encoded function call
     });
 
-    // Add paymaster data
-    const paymasterData = ethers.AbiCoder.defaultAbiCoder().encode(
-      ['uint256', 'bytes'],
-      [1, '0x'] // tokenId, userOp
-    );
-    userOp.paymasterAndData = ethers.concat([paymasterAddress, paymasterData]);
-
-    // Get user operation hash
-    const userOpHash = await entryPoint.getUserOpHash(userOp);
-
     // Sign user operation (if needed)
     if (signer) {
-      const signature = await signer.signMessage(ethers.getBytes(userOpHash));
-      userOp.signature = signature;
+      userOp = await entryPoint.signUserOperation(userOp);
     }
 
     // Submit via bundler
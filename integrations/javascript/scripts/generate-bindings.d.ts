@@ -0,0 +1,28 @@
+/**
+ * Types for the bindings generator, as used by the binding drift tests
+ */
+
+/** Contracts wrapped in src/contracts */
+export const CONTRACTS: string[];
+export const ABI_DIR: string;
+export const GENERATED_DIR: string;
+export const DEFAULT_OUT_DIR: string;
+
+/**
+ * Read the ABIs from the Foundry artifacts
+ * @returns File name in abi/ to contents
+ */
+export function extractAbis(outDir: string): Record<string, string>;
+
+/**
+ * Render every generated file
+ * @param abiDir Directory holding <Contract>.json ABIs
+ * @returns File name to contents
+ */
+export function generate(abiDir?: string): Record<string, string>;
+
+/**
+ * Render the bindings module for one contract ABI
+ * @param source ABI path recorded in the header
+ */
+export function renderBindings(name: string, abi: unknown[], source?: string): string;
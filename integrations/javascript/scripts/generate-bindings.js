@@ -0,0 +1,354 @@
+#!/usr/bin/env node
+/**
+ * Typed contract bindings generator
+ * Reads the contract ABIs checked in under abi/<Contract>.json and writes
+ * src/generated/<Contract>.ts with the JSON ABI, struct and event types, an
+ * event map and a typed ethers v6 contract interface
+ *
+ * Usage: node scripts/generate-bindings.js [--artifacts[=<foundry out dir>]] [--check]
+ *   --artifacts  First copy the ABIs from the Foundry artifacts
+ *                (out/<Contract>.sol/<Contract>.json, after `forge build`) into abi/
+ *   --check      Exit non-zero if abi/ or the committed bindings are out of date
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+/** Contracts wrapped in src/contracts */
+const CONTRACTS = [
+  'AgentLicense',
+  'AgentRegistry',
+  'InsuranceVault',
+  'MerchantSDK',
+  'OracleAdapter',
+  'Paymaster',
+  'ReputationScore',
+  'ZKAdapter',
+];
+
+const ABI_DIR = path.join(__dirname, '..', 'abi');
+const GENERATED_DIR = path.join(__dirname, '..', 'src', 'generated');
+const DEFAULT_OUT_DIR = path.join(__dirname, '..', '..', '..', 'out');
+
+/** BaseContract members a contract function must not shadow */
+const RESERVED = new Set([
+  'target', 'interface', 'runner', 'filters', 'fallback', 'connect', 'attach',
+  'getAddress', 'getDeployedCode', 'waitForDeployment', 'deploymentTransaction',
+  'getFunction', 'getEvent', 'queryTransaction', 'queryFilter', 'on', 'once',
+  'emit', 'listenerCount', 'listeners', 'off', 'removeAllListeners',
+  'addListener', 'removeListener',
+]);
+
+const HEADER = (source) => `/* Generated by scripts/generate-bindings.js${source ? ` from ${source}` : ''} - do not edit */
+/* eslint-disable */
+`;
+
+function structName(param) {
+  const match = /^struct (?:[\w]+\.)?(\w+)/.exec(param.internalType || '');
+  return match ? match[1] : undefined;
+}
+
+function arraySuffix(type) {
+  const match = /(\[\d*\])+$/.exec(type);
+  return match ? match[0] : '';
+}
+
+/**
+ * Map an ABI parameter to a TypeScript type
+ * @param input Input types accept ethers' loose values (BigNumberish, BytesLike, AddressLike)
+ */
+function tsType(param, input) {
+  const suffix = arraySuffix(param.type);
+  const base = param.type.slice(0, param.type.length - suffix.length);
+  const dims = '[]'.repeat((suffix.match(/\[/g) || []).length);
+
+  let type;
+  if (base === 'tuple') {
+    const name = structName(param);
+    type = name
+      ? `${name}${input ? 'Input' : ''}`
+      : `{ ${param.components.map((c) => `${c.name}: ${tsType(c, input)}`).join('; ')} }`;
+  } else if (/^u?int\d*$/.test(base)) {
+    type = input ? 'BigNumberish' : 'bigint';
+  } else if (base === 'address') {
+    type = input ? 'AddressLike' : 'string';
+  } else if (base === 'bool') {
+    type = 'boolean';
+  } else if (base === 'string') {
+    type = 'string';
+  } else if (/^bytes\d*$/.test(base)) {
+    type = input ? 'BytesLike' : 'string';
+  } else {
+    throw new Error(`Unsupported ABI type ${param.type}`);
+  }
+  return dims ? `${type.includes(' ') ? `(${type})` : type}${dims}` : type;
+}
+
+function canonicalType(param) {
+  if (!param.type.startsWith('tuple')) {
+    return param.type;
+  }
+  return `(${param.components.map(canonicalType).join(',')})${param.type.slice(5)}`;
+}
+
+function signature(fragment) {
+  return `${fragment.name}(${fragment.inputs.map(canonicalType).join(',')})`;
+}
+
+function argName(param, index) {
+  return param.name || `arg${index}`;
+}
+
+function collectStructs(params, structs) {
+  for (const param of params) {
+    if (!param.type.startsWith('tuple')) {
+      continue;
+    }
+    collectStructs(param.components, structs);
+    const name = structName(param);
+    if (name && !structs.has(name)) {
+      structs.set(name, param.components);
+    }
+  }
+}
+
+function renderStructs(structs) {
+  const out = [];
+  for (const [name, components] of structs) {
+    out.push(`export interface ${name} {`);
+    for (const c of components) out.push(`  ${c.name}: ${tsType(c, false)};`);
+    out.push('}', '');
+    out.push(`export interface ${name}Input {`);
+    for (const c of components) out.push(`  ${c.name}: ${tsType(c, true)};`);
+    out.push('}', '');
+  }
+  return out;
+}
+
+function renderResult(outputs) {
+  if (outputs.length === 0) {
+    return 'void';
+  }
+  if (outputs.length === 1) {
+    return tsType(outputs[0], false);
+  }
+  const tuple = outputs.map((o, i) => `${argName(o, i)}: ${tsType(o, false)}`).join(', ');
+  const named = outputs.filter((o) => o.name).map((o) => `${o.name}: ${tsType(o, false)}`).join('; ');
+  return named ? `[${tuple}] & { ${named} }` : `[${tuple}]`;
+}
+
+function renderMethod(fragment) {
+  const args = fragment.inputs.map((p, i) => `${argName(p, i)}: ${tsType(p, true)}`).join(', ');
+  const mutability = fragment.stateMutability === 'pure' ? 'view' : fragment.stateMutability;
+  return `TypedContractMethod<[${args}], ${renderResult(fragment.outputs)}, '${mutability}'>`;
+}
+
+function renderEventArgs(fragment) {
+  return fragment.inputs
+    .map((p, i) => `${argName(p, i)}: ${p.indexed ? `${tsType(p, true)} | null` : 'null'}`)
+    .join(', ');
+}
+
+/**
+ * Render the bindings module for one contract ABI
+ * @param source ABI path recorded in the header
+ */
+function renderBindings(name, abi, source) {
+  const functions = abi.filter((f) => f.type === 'function');
+  const events = abi.filter((f) => f.type === 'event');
+
+  const structs = new Map();
+  for (const f of [...functions, ...events]) {
+    collectStructs(f.inputs, structs);
+    collectStructs(f.outputs || [], structs);
+  }
+
+  const counts = new Map();
+  for (const f of functions) counts.set(f.name, (counts.get(f.name) || 0) + 1);
+
+  const out = [
+    HEADER(source),
+    "import { Contract } from 'ethers';",
+    "import type { AddressLike, BaseContract, BigNumberish, BytesLike, ContractRunner } from 'ethers';",
+    "import type { TypedContractEvent, TypedContractMethod } from './common';",
+    '',
+    `export const ${name}Abi = ${JSON.stringify(abi, null, 2)};`,
+    '',
+    ...renderStructs(structs),
+  ];
+
+  for (const event of events) {
+    out.push(`export interface ${event.name}Event {`);
+    event.inputs.forEach((p, i) => out.push(`  ${argName(p, i)}: ${tsType(p, false)};`));
+    out.push('}', '');
+  }
+
+  out.push(`/** Event name to decoded arguments */`);
+  out.push(`export interface ${name}Events {`);
+  for (const event of events) out.push(`  ${event.name}: ${event.name}Event;`);
+  out.push('}', '');
+
+  out.push(`export interface ${name} extends Omit<BaseContract, 'filters' | 'connect'> {`);
+  out.push(`  connect(runner: ContractRunner | null): ${name};`);
+  for (const f of functions) {
+    // Overloads are only reachable by signature, as in ethers
+    const key = counts.get(f.name) > 1 ? `'${signature(f)}'` : f.name;
+    if (RESERVED.has(key)) {
+      continue;
+    }
+    out.push(`  ${key}: ${renderMethod(f)};`);
+  }
+  out.push('  filters: {');
+  for (const event of events) {
+    out.push(`    ${event.name}: TypedContractEvent<[${renderEventArgs(event)}]>;`);
+  }
+  out.push('  };');
+  out.push('}', '');
+
+  out.push(`export function connect${name}(address: string, runner?: ContractRunner | null): ${name} {`);
+  out.push(`  return new Contract(address, ${name}Abi, runner) as unknown as ${name};`);
+  out.push('}', '');
+
+  return out.join('\n');
+}
+
+function renderCommon() {
+  return `${HEADER()}
+import type {
+  ContractTransaction,
+  ContractTransactionResponse,
+  DeferredTopicFilter,
+  EventFragment,
+  FunctionFragment,
+  Overrides,
+  Result,
+} from 'ethers';
+
+export type StateMutability = 'view' | 'nonpayable' | 'payable';
+
+/** Method arguments followed by optional overrides (\`value\` only for payable methods) */
+export type MethodArgs<A extends any[], S extends StateMutability> = [
+  ...A,
+  overrides?: S extends 'payable' ? Overrides : Omit<Overrides, 'value'>,
+];
+
+/**
+ * Typed view of an ethers v6 BaseContractMethod
+ */
+export interface TypedContractMethod<A extends any[] = any[], R = any, S extends StateMutability = 'payable'> {
+  (...args: MethodArgs<A, S>): Promise<S extends 'view' ? R : ContractTransactionResponse>;
+  name: string;
+  fragment: FunctionFragment;
+  getFragment(...args: MethodArgs<A, S>): FunctionFragment;
+  populateTransaction(...args: MethodArgs<A, S>): Promise<ContractTransaction>;
+  staticCall(...args: MethodArgs<A, S>): Promise<R>;
+  staticCallResult(...args: MethodArgs<A, S>): Promise<Result>;
+  send(...args: MethodArgs<A, S>): Promise<ContractTransactionResponse>;
+  estimateGas(...args: MethodArgs<A, S>): Promise<bigint>;
+}
+
+/**
+ * Typed view of an ethers v6 ContractEvent (arguments are topic filters)
+ */
+export interface TypedContractEvent<A extends any[] = any[]> {
+  (...args: Partial<A>): DeferredTopicFilter;
+  name: string;
+  fragment: EventFragment;
+  getFragment(...args: Partial<A>): EventFragment;
+}
+`;
+}
+
+function renderIndex() {
+  return `${HEADER()}
+export type { TypedContractMethod, TypedContractEvent } from './common';
+${CONTRACTS.map((name) => `export * as ${name} from './${name}';`).join('\n')}
+`;
+}
+
+/**
+ * Read the ABIs from the Foundry artifacts
+ * @returns File name in abi/ to contents
+ */
+function extractAbis(outDir) {
+  const files = {};
+  for (const name of CONTRACTS) {
+    const artifact = path.join(outDir, `${name}.sol`, `${name}.json`);
+    if (!fs.existsSync(artifact)) {
+      throw new Error(`Missing artifact ${artifact}; run \`forge build\` first`);
+    }
+    const { abi } = JSON.parse(fs.readFileSync(artifact, 'utf8'));
+    files[`${name}.json`] = `${JSON.stringify(abi, null, 2)}\n`;
+  }
+  return files;
+}
+
+/**
+ * Render every generated file
+ * @param abiDir Directory holding <Contract>.json ABIs
+ * @returns File name to contents
+ */
+function generate(abiDir = ABI_DIR) {
+  const files = { 'common.ts': renderCommon(), 'index.ts': renderIndex() };
+  for (const name of CONTRACTS) {
+    const abi = JSON.parse(fs.readFileSync(path.join(abiDir, `${name}.json`), 'utf8'));
+    files[`${name}.ts`] = renderBindings(name, abi, `abi/${name}.json`);
+  }
+  return files;
+}
+
+/**
+ * Names of the files in `dir` whose contents differ from `files`
+ */
+function staleFiles(dir, files) {
+  return Object.keys(files).filter((file) => {
+    const target = path.join(dir, file);
+    return !fs.existsSync(target) || fs.readFileSync(target, 'utf8') !== files[file];
+  });
+}
+
+function writeFiles(dir, files) {
+  fs.mkdirSync(dir, { recursive: true });
+  for (const [file, contents] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, file), contents);
+  }
+  console.log(`Wrote ${Object.keys(files).length} files in ${path.relative(process.cwd(), dir)}`);
+}
+
+function main() {
+  const args = process.argv.slice(2);
+  const check = args.includes('--check');
+  const artifactsArg = args.find((arg) => arg === '--artifacts' || arg.startsWith('--artifacts='));
+
+  if (artifactsArg) {
+    const outDir = artifactsArg.includes('=') ? path.resolve(artifactsArg.slice('--artifacts='.length)) : DEFAULT_OUT_DIR;
+    const abis = extractAbis(outDir);
+    if (check) {
+      const stale = staleFiles(ABI_DIR, abis);
+      if (stale.length > 0) {
+        console.error(`ABIs out of date: ${stale.join(', ')}; run \`npm run generate:bindings -- --artifacts\``);
+        process.exit(1);
+      }
+    } else {
+      writeFiles(ABI_DIR, abis);
+    }
+  }
+
+  const files = generate();
+  if (check) {
+    const stale = staleFiles(GENERATED_DIR, files);
+    if (stale.length > 0) {
+      console.error(`Bindings out of date: ${stale.join(', ')}; run \`npm run generate:bindings\``);
+      process.exit(1);
+    }
+    console.log('Bindings up to date');
+    return;
+  }
+  writeFiles(GENERATED_DIR, files);
+}
+
+if (require.main === module) {
+  main();
+}
+
+module.exports = { ABI_DIR, CONTRACTS, DEFAULT_OUT_DIR, GENERATED_DIR, extractAbis, generate, renderBindings };
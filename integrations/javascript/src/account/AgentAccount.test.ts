@@ -0,0 +1,195 @@
+/**
+ * AgentAccount tests (in-process chain stub)
+ */
+
+import { ethers } from 'ethers';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { AccountCall, AgentAccount } from './AgentAccount';
+import { UserOperation } from '../types';
+
+const CHAIN_ID = 31337n;
+const TBA = '0x1306b01bC3e4AD202612D3843387e94737673F53';
+const USDC = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const LICENSE = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const RECIPIENT = '0x90F79bf6EB2c4f870365E785982E1f101E93b906';
+
+// Hardhat/anvil accounts #1 (NFT owner) and #2
+const OWNER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const OTHER_KEY = '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a';
+
+const accountInterface = new ethers.Interface([
+  'function execute(address target, uint256 value, bytes data, uint8 operation) payable returns (bytes)',
+  'function executeBatch(address[] targets, uint256[] values, bytes[] datas) payable returns (bytes[] results)',
+  'function owner() view returns (address)',
+  'function state() view returns (uint256)',
+  'function token() view returns (uint256 chainId, address tokenContract, uint256 tokenId)',
+  'function isValidSigner(address signer, bytes context) view returns (bytes4 magicValue)',
+]);
+const tokenInterface = new ethers.Interface([
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+]);
+
+interface AccountState {
+  owner: string;
+  /** Bumped by every transaction the stub mines */
+  state: bigint;
+}
+
+/**
+ * Provider answering the TBA's view calls from `account`
+ */
+function fakeProvider(account: AccountState) {
+  const provider = {
+    call: jest.fn(async (tx: ethers.TransactionRequest) => {
+      const call = accountInterface.parseTransaction({ data: tx.data! })!;
+      const result = (() => {
+        switch (call.name) {
+          case 'owner':
+            return [account.owner];
+          case 'state':
+            return [account.state];
+          case 'token':
+            return [CHAIN_ID, LICENSE, 7n];
+          case 'isValidSigner':
+            return [call.args[0] === account.owner ? call.selector : '0x00000000'];
+          default:
+            throw new Error(`unexpected call ${call.name}`);
+        }
+      })();
+      return accountInterface.encodeFunctionResult(call.fragment, result);
+    }),
+    getNetwork: async () => new ethers.Network('anvil', CHAIN_ID),
+    getTransactionReceipt: async (hash: string) => new ethers.TransactionReceipt({
+      to: TBA, from: account.owner, contractAddress: null, hash, index: 0, blockHash: ethers.ZeroHash, blockNumber: 12,
+      logsBloom: '0x', gasUsed: 90000n, cumulativeGasUsed: 90000n, gasPrice: 1n, blobGasUsed: null, blobGasPrice: null,
+      type: 2, status: 1, root: null, logs: [],
+    }, provider as any),
+  };
+  return provider;
+}
+
+/**
+ * Signer that "mines" every transaction, bumping the account state
+ */
+function fakeSigner(key: string, provider: ReturnType<typeof fakeProvider>, account: AccountState) {
+  const wallet = new ethers.Wallet(key, provider as any);
+  return Object.assign(wallet, {
+    sendTransaction: jest.fn(async (tx: ethers.TransactionRequest) => {
+      account.state += 1n;
+      return new ethers.TransactionResponse({
+        blockNumber: null, blockHash: null, hash: ethers.id(`tx ${account.state}`), index: 0, type: 2, to: tx.to as string,
+        from: wallet.address, nonce: 0, gasLimit: 100000n, gasPrice: 1n, maxPriorityFeePerGas: 1n, maxFeePerGas: 1n,
+        maxFeePerBlobGas: null, data: tx.data!, value: BigInt(tx.value ?? 0), chainId: CHAIN_ID,
+        signature: ethers.Signature.from({ r: ethers.ZeroHash, s: ethers.ZeroHash, v: 27 }),
+        accessList: null, blobVersionedHashes: null, authorizationList: null,
+      }, provider as any);
+    }),
+  });
+}
+
+const TRANSFER = AgentAccount.erc20Transfer(USDC, RECIPIENT, 5_000000n);
+const APPROVE = AgentAccount.erc20Approve(USDC, RECIPIENT, 10_000000n);
+
+describe('AgentAccount', () => {
+  let account: AccountState;
+  let provider: ReturnType<typeof fakeProvider>;
+  let signer: ReturnType<typeof fakeSigner>;
+  let tba: AgentAccount;
+
+  beforeEach(() => {
+    account = { owner: new ethers.Wallet(OWNER_KEY).address, state: 4n };
+    provider = fakeProvider(account);
+    signer = fakeSigner(OWNER_KEY, provider, account);
+    tba = new AgentAccount(TBA, provider as any, signer);
+  });
+
+  function sentCall(index = 0) {
+    const tx = signer.sendTransaction.mock.calls[index][0];
+    const { name, args } = accountInterface.parseTransaction({ data: tx.data! })!;
+    return { to: tx.to, value: BigInt(tx.value ?? 0), name, args };
+  }
+
+  it('builds ERC20 and arbitrary contract calls', () => {
+    expect(tokenInterface.parseTransaction({ data: TRANSFER.data! })).toMatchObject({
+      name: 'transfer',
+      args: [RECIPIENT, 5_000000n],
+    });
+    expect(tokenInterface.parseTransaction({ data: APPROVE.data! })).toMatchObject({
+      name: 'approve',
+      args: [RECIPIENT, 10_000000n],
+    });
+    expect(AgentAccount.contractCall(LICENSE, ['function burn(uint256 tokenId)'], 'burn', [7n], 1n)).toEqual({
+      target: LICENSE,
+      value: 1n,
+      data: new ethers.Interface(['function burn(uint256 tokenId)']).encodeFunctionData('burn', [7n]),
+    });
+  });
+
+  it('reads the bound token and validates signers', async () => {
+    await expect(tba.token()).resolves.toEqual({ chainId: CHAIN_ID, tokenContract: LICENSE, tokenId: 7n });
+    await expect(tba.isValidSigner(account.owner)).resolves.toBe(true);
+    await expect(tba.isValidSigner(RECIPIENT)).resolves.toBe(false);
+  });
+
+  it('executes a call as the owner with its value', async () => {
+    const call: AccountCall = { target: RECIPIENT, value: 3n };
+
+    await expect(tba.execute(call)).resolves.toMatchObject({ status: 1, blockNumber: 12 });
+
+    expect(sentCall()).toMatchObject({ to: TBA, value: 3n, name: 'execute', args: [RECIPIENT, 3n, '0x', 0n] });
+  });
+
+  it('executes a batch atomically, paying the summed value', async () => {
+    await tba.executeBatch([TRANSFER, { target: RECIPIENT, value: 2n }, { ...APPROVE, value: 1n }]);
+
+    expect(sentCall()).toMatchObject({
+      value: 3n,
+      name: 'executeBatch',
+      args: [[USDC, RECIPIENT, USDC], [0n, 2n, 1n], [TRANSFER.data, '0x', APPROVE.data]],
+    });
+    await expect(tba.executeBatch([])).rejects.toMatchObject({ code: 'INVALID_INPUT' });
+  });
+
+  it('refuses to execute when the account was used since it was last seen', async () => {
+    await tba.execute(TRANSFER);
+    // Another client executes through the account
+    account.state += 1n;
+
+    await expect(tba.execute(TRANSFER)).rejects.toMatchObject({
+      code: 'STATE_MISMATCH',
+      message: 'Account state changed (expected 5, found 6)',
+    });
+    // The mismatch refreshes the tracked state, so a deliberate retry goes through
+    await expect(tba.execute(TRANSFER)).resolves.toBeDefined();
+    await expect(tba.execute(TRANSFER, { expectedState: 3n })).rejects.toMatchObject({ code: 'STATE_MISMATCH' });
+    expect(signer.sendTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('requires the NFT owner as signer', async () => {
+    const other = new AgentAccount(TBA, provider as any, fakeSigner(OTHER_KEY, provider, account));
+    await expect(other.execute(TRANSFER)).rejects.toMatchObject({ code: 'UNAUTHORIZED' });
+
+    const readOnly = new AgentAccount(TBA, provider as any);
+    await expect(readOnly.execute(TRANSFER)).rejects.toMatchObject({ code: 'SIGNER_REQUIRED' });
+  });
+
+  it('wraps calls into user operations sent from the TBA', async () => {
+    const userOp = { sender: TBA } as UserOperation;
+    const entryPoint = {
+      createUserOperation: jest.fn(async (_params: { sender: string; callData: string }) => userOp),
+      createSponsoredUserOperation: jest.fn(async (_tokenId: number | bigint, _params: { sender: string; callData: string }) => userOp),
+    };
+    const viaEntryPoint = new AgentAccount(TBA, provider as any, undefined, entryPoint as any);
+
+    await viaEntryPoint.toUserOperation(TRANSFER);
+    await viaEntryPoint.toUserOperation([TRANSFER, APPROVE], 7n);
+
+    expect(entryPoint.createUserOperation).toHaveBeenCalledWith({ sender: TBA, callData: tba.encodeExecute(TRANSFER) });
+    expect(entryPoint.createSponsoredUserOperation).toHaveBeenCalledWith(7n, {
+      sender: TBA,
+      callData: tba.encodeExecuteBatch([TRANSFER, APPROVE]),
+    });
+    await expect(tba.toUserOperation(TRANSFER)).rejects.toMatchObject({ code: 'ENTRY_POINT_REQUIRED' });
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Agent Account
+ * Drives an agent's ERC-6551 Token Bound Account (SimpleAccountImplementation)
+ */
+
+import { ethers } from 'ethers';
+import { UserOperation } from '../types';
+import { AgentRegistryContract } from '../contracts/AgentRegistry';
+import { EntryPointClient } from '../entrypoint/client';
+import { AgentAccountError } from '../utils/errors';
+
+export interface AccountCall {
+  target: string;
+  value?: bigint;
+  data?: string;
+}
+
+export interface ExecuteOptions {
+  /** Expected `state()` before execution; defaults to the last state seen by this instance */
+  expectedState?: bigint;
+}
+
+const ERC20_INTERFACE = new ethers.Interface([
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+]);
+
+export class AgentAccount {
+  readonly address: string;
+  private contract: ethers.Contract;
+  private signer?: ethers.Signer;
+  private entryPoint?: EntryPointClient;
+  private knownState?: bigint;
+
+  constructor(
+    address: string,
+    provider: ethers.Provider,
+    signer?: ethers.Signer,
+    entryPoint?: EntryPointClient
+  ) {
+    const abi = [
+      'function execute(address target, uint256 value, bytes calldata data, uint8 operation) external payable returns (bytes memory)',
+      'function executeBatch(address[] calldata targets, uint256[] calldata values, bytes[] calldata datas) external payable returns (bytes[] memory results)',
+      'function owner() external view returns (address)',
+      'function state() external view returns (uint256)',
+      'function token() external view returns (uint256 chainId, address tokenContract, uint256 tokenId)',
+      'function isValidSigner(address signer, bytes calldata context) external view returns (bytes4 magicValue)',
+      'event Executed(address indexed target, uint256 value, bytes data, bool success)',
+    ];
+
+    this.address = address;
+    this.signer = signer;
+    this.entryPoint = entryPoint;
+    this.contract = new ethers.Contract(address, abi, signer || provider);
+  }
+
+  /**
+   * Resolve an agent's TBA from the registry
+   */
+  static async fromTokenId(
+    registry: AgentRegistryContract,
+    tokenId: number | bigint,
+    provider: ethers.Provider,
+    signer?: ethers.Signer,
+    entryPoint?: EntryPointClient
+  ): Promise<AgentAccount> {
+    const address = await registry.computeTBAAddress(tokenId);
+    return new AgentAccount(address, provider, signer, entryPoint);
+  }
+
+  /**
+   * Build an ERC20 transfer call from the TBA
+   */
+  static erc20Transfer(token: string, to: string, amount: bigint): AccountCall {
+    return { target: token, data: ERC20_INTERFACE.encodeFunctionData('transfer', [to, amount]) };
+  }
+
+  /**
+   * Build an ERC20 approval call from the TBA
+   */
+  static erc20Approve(token: string, spender: string, amount: bigint): AccountCall {
+    return { target: token, data: ERC20_INTERFACE.encodeFunctionData('approve', [spender, amount]) };
+  }
+
+  /**
+   * Build an arbitrary contract call from the TBA
+   * @param abi ABI containing the function (human-readable or JSON)
+   */
+  static contractCall(
+    target: string,
+    abi: ethers.InterfaceAbi,
+    method: string,
+    args: unknown[] = [],
+    value?: bigint
+  ): AccountCall {
+    return { target, value, data: new ethers.Interface(abi).encodeFunctionData(method, args) };
+  }
+
+  /**
+   * Get the account owner (owner of the agent NFT)
+   */
+  async owner(): Promise<string> {
+    return await this.contract.owner();
+  }
+
+  /**
+   * Get the account state counter; also updates the tracked state
+   */
+  async state(): Promise<bigint> {
+    const state: bigint = await this.contract.state();
+    this.knownState = state;
+    return state;
+  }
+
+  /**
+   * Get the agent NFT bound to this account
+   */
+  async token(): Promise<{ chainId: bigint; tokenContract: string; tokenId: bigint }> {
+    const result = await this.contract.token();
+    return {
+      chainId: result.chainId,
+      tokenContract: result.tokenContract,
+      tokenId: result.tokenId,
+    };
+  }
+
+  /**
+   * Check if an address is a valid signer for the account
+   */
+  async isValidSigner(signer: string, context: string = '0x'): Promise<boolean> {
+    const magicValue: string = await this.contract.isValidSigner(signer, context);
+    return magicValue === this.contract.interface.getFunction('isValidSigner')!.selector;
+  }
+
+  /**
+   * Encode `execute` calldata for a single call
+   */
+  encodeExecute(call: AccountCall): string {
+    return this.contract.interface.encodeFunctionData('execute', [
+      call.target,
+      call.value ?? 0n,
+      call.data ?? '0x',
+      0, // CALL (delegatecall not supported)
+    ]);
+  }
+
+  /**
+   * Encode `executeBatch` calldata for several calls
+   */
+  encodeExecuteBatch(calls: AccountCall[]): string {
+    return this.contract.interface.encodeFunctionData('executeBatch', [
+      calls.map((call) => call.target),
+      calls.map((call) => call.value ?? 0n),
+      calls.map((call) => call.data ?? '0x'),
+    ]);
+  }
+
+  /**
+   * Execute a call directly (signer must be the NFT owner)
+   */
+  async execute(call: AccountCall, options: ExecuteOptions = {}): Promise<ethers.TransactionReceipt> {
+    await this.prepareDirectExecution(options);
+    const tx = await this.contract.execute(call.target, call.value ?? 0n, call.data ?? '0x', 0, {
+      value: call.value ?? 0n,
+    });
+    return await this.confirm(tx);
+  }
+
+  /**
+   * Execute several calls atomically (signer must be the NFT owner)
+   */
+  async executeBatch(calls: AccountCall[], options: ExecuteOptions = {}): Promise<ethers.TransactionReceipt> {
+    if (calls.length === 0) {
+      throw new AgentAccountError('executeBatch requires at least one call', 'INVALID_INPUT');
+    }
+    await this.prepareDirectExecution(options);
+    const value = calls.reduce((sum, call) => sum + (call.value ?? 0n), 0n);
+    const tx = await this.contract.executeBatch(
+      calls.map((call) => call.target),
+      calls.map((call) => call.value ?? 0n),
+      calls.map((call) => call.data ?? '0x'),
+      { value }
+    );
+    return await this.confirm(tx);
+  }
+
+  /**
+   * Wrap one or more calls into a UserOperation sent from the TBA
+   * Note: the account implementation must accept calls from the EntryPoint
+   * @param sponsorTokenId Agent token ID to charge to the KYA Paymaster, if sponsored
+   */
+  async toUserOperation(
+    calls: AccountCall | AccountCall[],
+    sponsorTokenId?: number | bigint
+  ): Promise<UserOperation> {
+    if (!this.entryPoint) {
+      throw new AgentAccountError('EntryPointClient required to build user operations', 'ENTRY_POINT_REQUIRED');
+    }
+    const callData = Array.isArray(calls) ? this.encodeExecuteBatch(calls) : this.encodeExecute(calls);
+    const params = { sender: this.address, callData };
+
+    return sponsorTokenId !== undefined
+      ? await this.entryPoint.createSponsoredUserOperation(sponsorTokenId, params)
+      : await this.entryPoint.createUserOperation(params);
+  }
+
+  /**
+   * Check ownership and replay-safety before a direct execution
+   */
+  private async prepareDirectExecution(options: ExecuteOptions): Promise<void> {
+    if (!this.signer) {
+      throw new AgentAccountError('Signer required for execute', 'SIGNER_REQUIRED');
+    }
+
+    const [owner, signerAddress] = await Promise.all([this.owner(), this.signer.getAddress()]);
+    if (owner.toLowerCase() !== signerAddress.toLowerCase()) {
+      throw new AgentAccountError(`Signer ${signerAddress} is not the account owner ${owner}`, 'UNAUTHORIZED');
+    }
+
+    // state() changes on every execution, so a mismatch means the account was
+    // used (or the NFT transferred) since we last looked
+    const expected = options.expectedState ?? this.knownState;
+    const current = await this.state();
+    if (expected !== undefined && expected !== current) {
+      throw new AgentAccountError(`Account state changed (expected ${expected}, found ${current})`, 'STATE_MISMATCH');
+    }
+  }
+
+  private async confirm(tx: ethers.ContractTransactionResponse): Promise<ethers.TransactionReceipt> {
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new AgentAccountError('Transaction receipt not found', 'RECEIPT_NOT_FOUND');
+    }
+    await this.state();
+    return receipt;
+  }
+}
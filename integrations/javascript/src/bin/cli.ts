@@ -0,0 +1,64 @@
+/**
+ * Shared helpers for the keeper CLIs
+ */
+
+import { ethers } from 'ethers';
+import { IntegrationConfig, KYAContractAddresses, createSigner } from '../config';
+
+/**
+ * Read a `--name` or `--name=value` command-line flag
+ */
+export function flag(name: string): string | boolean | undefined {
+  const arg = process.argv.slice(2).find((a) => a === `--${name}` || a.startsWith(`--${name}=`));
+  if (!arg) {
+    return undefined;
+  }
+  return arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : true;
+}
+
+/**
+ * Read a required environment variable
+ */
+export function required(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} is required`);
+  }
+  return value;
+}
+
+/**
+ * Connect to the configured RPC endpoint and load the configured signer
+ * @throws Error when no signer is configured, unless in dry-run mode
+ */
+export async function connect(
+  config: IntegrationConfig,
+  dryRun: boolean
+): Promise<{ provider: ethers.JsonRpcProvider; signer?: ethers.Signer }> {
+  const provider = new ethers.JsonRpcProvider(config.rpcUrl);
+  if (!config.signer) {
+    if (!dryRun) {
+      throw new Error('PRIVATE_KEY or KEYSTORE_PATH is required (or run with --dry-run)');
+    }
+    return { provider };
+  }
+  return { provider, signer: await createSigner(config.signer, provider) };
+}
+
+/**
+ * Address of a KYA contract: the environment variable when set, otherwise
+ * the deployment's address
+ */
+export function contractAddress(config: IntegrationConfig, name: keyof KYAContractAddresses, variable: string): string | undefined {
+  return process.env[variable] || config.network?.contracts[name];
+}
+
+/**
+ * Run until SIGINT/SIGTERM
+ */
+export async function runUntilSignal(start: (signal: AbortSignal) => Promise<void>): Promise<void> {
+  const controller = new AbortController();
+  process.once('SIGINT', () => controller.abort());
+  process.once('SIGTERM', () => controller.abort());
+  await start(controller.signal);
+}
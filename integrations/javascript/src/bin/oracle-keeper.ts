@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+/**
+ * Oracle keeper CLI
+ *
+ * Usage: kya-oracle-keeper [--dry-run] [--once] [--data-dir=<dir>] [--start-block=<n>]
+ *
+ * Configuration comes from `loadConfig` (KYA_CONFIG, NETWORK, KYA_DEPLOYMENT,
+ * RPC_URL, UMA_API_KEY, KLEROS_API_KEY, ...); the signer (PRIVATE_KEY or
+ * KEYSTORE_PATH/KEYSTORE_PASSWORD) must hold ORACLE_ROLE
+ *
+ * Environment:
+ *   INSURANCE_VAULT_ADDRESS  InsuranceVault to watch (default: the deployment's)
+ *   DISPUTE_THRESHOLD        Largest claim (USDC base units) sent to UMA when both oracles are configured
+ *   AGENT_REGISTRY_ADDRESS   Optional, to name the agent owner on escalations (default: the deployment's)
+ *   KEEPER_DATA_DIR          Checkpoint directory (default ./.kya-keeper)
+ */
+
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { IntegrationConfig, loadConfig } from '../config';
+import { InsuranceVaultContract } from '../contracts/InsuranceVault';
+import { AgentRegistryContract } from '../contracts/AgentRegistry';
+import { UMAClient } from '../uma/client';
+import { KlerosClient } from '../kleros/client';
+import { DisputeOracleRouter } from '../oracle/router';
+import { JsonFileStore } from '../utils/store';
+import { BlockCheckpoint } from '../keeper/checkpoint';
+import { OracleKeeper, KeeperClaim } from '../keeper/oracle';
+import { connect, contractAddress, flag, required, runUntilSignal } from './cli';
+
+function createRouter(config: IntegrationConfig): DisputeOracleRouter {
+  const uma = config.uma ? new UMAClient(config.uma) : undefined;
+  const kleros = config.kleros ? new KlerosClient(config.kleros) : undefined;
+
+  if (uma && kleros) {
+    return DisputeOracleRouter.byThreshold(uma, kleros, BigInt(required('DISPUTE_THRESHOLD')));
+  }
+  if (uma || kleros) {
+    return new DisputeOracleRouter([{ oracle: (uma || kleros)! }]);
+  }
+  throw new Error('UMA_API_KEY or KLEROS_API_KEY is required');
+}
+
+async function main(): Promise<void> {
+  const dryRun = flag('dry-run') === true;
+  const dataDir = String(flag('data-dir') || process.env.KEEPER_DATA_DIR || './.kya-keeper');
+  const startBlock = flag('start-block') ?? process.env.START_BLOCK;
+
+  const config = loadConfig();
+  const router = createRouter(config);
+  const vaultAddress = contractAddress(config, 'insuranceVault', 'INSURANCE_VAULT_ADDRESS');
+  if (!vaultAddress) {
+    throw new Error('INSURANCE_VAULT_ADDRESS (or a KYA_DEPLOYMENT with an InsuranceVault) is required');
+  }
+  const registryAddress = contractAddress(config, 'agentRegistry', 'AGENT_REGISTRY_ADDRESS');
+  const { provider, signer } = await connect(config, dryRun);
+
+  const vault = new InsuranceVaultContract(vaultAddress, provider, signer);
+  const agentRegistry = registryAddress ? new AgentRegistryContract(registryAddress, provider) : undefined;
+
+  await fs.mkdir(dataDir, { recursive: true });
+  const keeper = new OracleKeeper(vault, router, provider, {
+    claims: new JsonFileStore<KeeperClaim>(path.join(dataDir, 'oracle-claims.json')),
+    checkpoints: new JsonFileStore<BlockCheckpoint>(path.join(dataDir, 'checkpoints.json')),
+    agentRegistry,
+    dryRun,
+    startBlock: startBlock !== undefined ? Number(startBlock) : undefined,
+    pollInterval: process.env.KEEPER_POLL_INTERVAL ? Number(process.env.KEEPER_POLL_INTERVAL) : undefined,
+  });
+
+  if (flag('once')) {
+    await keeper.tick();
+  } else {
+    await runUntilSignal((signal) => keeper.start(signal));
+  }
+  provider.destroy();
+}
+
+main().catch((error) => {
+  console.error(`[oracle-keeper] ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+/**
+ * Prover keeper CLI
+ *
+ * Usage: kya-prover-keeper [--dry-run] [--once] [--data-dir=<dir>] [--start-block=<n>] [--retry=<queryId>]
+ *
+ * Configuration comes from `loadConfig` (KYA_CONFIG, NETWORK, KYA_DEPLOYMENT,
+ * RPC_URL, AXIOM_API_KEY, BREVIS_API_KEY, ...; Axiom is tried first); the
+ * signer (PRIVATE_KEY or KEYSTORE_PATH/KEYSTORE_PASSWORD) must hold
+ * DEFAULT_ADMIN_ROLE on the ZKAdapter
+ *
+ * Environment:
+ *   ZK_ADAPTER_ADDRESS  ZKAdapter to watch (default: the deployment's)
+ *   KEEPER_DATA_DIR     Checkpoint directory (default ./.kya-keeper)
+ */
+
+import * as path from 'path';
+import { promises as fs } from 'fs';
+import { loadConfig } from '../config';
+import { ZKAdapterContract } from '../contracts/ZKAdapter';
+import { AxiomClient } from '../axiom/client';
+import { BrevisClient } from '../brevis/client';
+import { ZKProviderRegistry } from '../zk/registry';
+import { ProofJobManager } from '../zk/jobs';
+import { FileProofJobStore } from '../zk/store';
+import { JsonFileStore } from '../utils/store';
+import { BlockCheckpoint } from '../keeper/checkpoint';
+import { ProverKeeper, ProverQuery } from '../keeper/prover';
+import { connect, contractAddress, flag, runUntilSignal } from './cli';
+
+async function main(): Promise<void> {
+  const dryRun = flag('dry-run') === true;
+  const dataDir = String(flag('data-dir') || process.env.KEEPER_DATA_DIR || './.kya-keeper');
+  const startBlock = flag('start-block') ?? process.env.START_BLOCK;
+
+  const config = loadConfig();
+  const providers = [
+    config.axiom ? new AxiomClient(config.axiom) : undefined,
+    config.brevis ? new BrevisClient(config.brevis) : undefined,
+  ].filter((p) => p !== undefined);
+  if (providers.length === 0) {
+    throw new Error('AXIOM_API_KEY or BREVIS_API_KEY is required');
+  }
+
+  const adapterAddress = contractAddress(config, 'zkAdapter', 'ZK_ADAPTER_ADDRESS');
+  if (!adapterAddress) {
+    throw new Error('ZK_ADAPTER_ADDRESS (or a KYA_DEPLOYMENT with a ZKAdapter) is required');
+  }
+  const { provider, signer } = await connect(config, dryRun);
+
+  await fs.mkdir(dataDir, { recursive: true });
+  const jobs = new ProofJobManager(new ZKProviderRegistry(providers), {
+    store: new FileProofJobStore(path.join(dataDir, 'proof-jobs.json')),
+  });
+  const keeper = new ProverKeeper(new ZKAdapterContract(adapterAddress, provider, signer), jobs, provider, {
+    queries: new JsonFileStore<ProverQuery>(path.join(dataDir, 'prover-queries.json')),
+    checkpoints: new JsonFileStore<BlockCheckpoint>(path.join(dataDir, 'prover-checkpoints.json')),
+    dryRun,
+    startBlock: startBlock !== undefined ? Number(startBlock) : undefined,
+    pollInterval: process.env.KEEPER_POLL_INTERVAL ? Number(process.env.KEEPER_POLL_INTERVAL) : undefined,
+  });
+
+  const retry = flag('retry');
+  if (typeof retry === 'string') {
+    const query = await keeper.retry(retry);
+    console.log(`[prover-keeper] Query ${query.id} re-queued (${query.stage})`);
+  } else if (flag('once')) {
+    await jobs.resume();
+    await keeper.tick();
+    jobs.stop();
+  } else {
+    await runUntilSignal((signal) => keeper.start(signal));
+  }
+  provider.destroy();
+}
+
+main().catch((error) => {
+  console.error(`[prover-keeper] ${error.message}`);
+  process.exit(1);
+});
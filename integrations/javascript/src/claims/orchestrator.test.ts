@@ -0,0 +1,199 @@
+/**
+ * Claim orchestrator tests
+ * Drives a claim through mocked vault, OracleAdapter and dispute oracle
+ */
+
+import { ethers } from 'ethers';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ClaimOrchestrator } from './orchestrator';
+import { DisputeOracleRouter } from '../oracle/router';
+import { Claim } from '../contracts/InsuranceVault';
+
+const CLAIM_ID = ethers.id('claim-1');
+const ORACLE_REQUEST_ID = ethers.id('oracle-request-1');
+
+function receipt(hash: string, status = 1): ethers.TransactionReceipt {
+  return { hash, status, blockNumber: 100 } as unknown as ethers.TransactionReceipt;
+}
+
+function setup() {
+  const claim: Claim = {
+    claimId: CLAIM_ID,
+    tokenId: 7n,
+    merchant: '0x000000000000000000000000000000000000dEaD',
+    amount: 500n,
+    reason: 'Service not delivered',
+    submittedAt: 0n,
+    status: 0,
+    challengeDeadline: 0n,
+  };
+
+  const vault = {
+    getClaim: jest.fn(async () => ({ ...claim })),
+    challengeClaim: jest.fn(async () => ({ transactionHash: '0xchallenge' })),
+  };
+
+  const oracleAdapter = {
+    getOracleRequestId: jest.fn(async () => ''),
+    submitClaim: jest.fn(async () => ({ transactionHash: '0xforward' })),
+    parseOracleSubmission: jest.fn(() => ({ requestId: ORACLE_REQUEST_ID })),
+    getClaimStatus: jest.fn(async () => ({ status: 0 })),
+    findClaimResolved: jest.fn(async () => undefined),
+    processResolution: jest.fn(async () => ({ transactionHash: '0xprocess' })),
+  };
+
+  const resolved = new Map<string, boolean>();
+  const uma = {
+    name: 'uma',
+    submitClaim: jest.fn(async () => 'uma-1'),
+    getClaimStatus: jest.fn(async (requestId: string) => ({
+      requestId,
+      resolved: resolved.has(requestId),
+      result: resolved.get(requestId) ?? false,
+    })),
+    pollForResolution: jest.fn(),
+    escalate: jest.fn(async () => 'uma-escalation-1'),
+    finalize: jest.fn(async (requestId: string) => ({
+      requestId,
+      resolved: true,
+      result: resolved.get(requestId) ?? false,
+    })),
+  };
+
+  const provider = {
+    waitForTransaction: jest.fn(async (hash: string) => receipt(hash)),
+    getTransaction: jest.fn(async () => null),
+  };
+
+  const orchestrator = new ClaimOrchestrator(
+    vault as any,
+    oracleAdapter as any,
+    new DisputeOracleRouter([{ oracle: uma as any }]),
+    provider as any,
+    { awaitChallengePeriod: false, pollInterval: 10 }
+  );
+
+  return { claim, vault, oracleAdapter, uma, resolved, provider, orchestrator };
+}
+
+describe('ClaimOrchestrator', () => {
+  let ctx: ReturnType<typeof setup>;
+
+  beforeEach(() => {
+    ctx = setup();
+  });
+
+  it('forwards, disputes and processes an unchallenged claim', async () => {
+    const { orchestrator, uma, resolved, oracleAdapter } = ctx;
+    await orchestrator.track(CLAIM_ID);
+
+    let run = await orchestrator.advance(CLAIM_ID);
+    expect(run.stage).toBe('disputed');
+    expect(run.oracleRequestId).toBe(ORACLE_REQUEST_ID);
+    expect(run.dispute).toEqual({ oracle: 'uma', requestId: 'uma-1' });
+
+    resolved.set('uma-1', true);
+    run = await orchestrator.advance(CLAIM_ID);
+
+    expect(uma.finalize).toHaveBeenCalledWith('uma-1');
+    expect(run.resolution!.approved).toBe(true);
+    expect(oracleAdapter.processResolution).toHaveBeenCalledWith(
+      ORACLE_REQUEST_ID,
+      true,
+      expect.any(String),
+      { wait: false }
+    );
+    expect(run.stage).toBe('processed');
+    expect(run.vaultStatus).toBe(1);
+  });
+
+  it('polls and finalizes the escalated dispute after a challenge', async () => {
+    const { orchestrator, claim, uma, resolved, oracleAdapter } = ctx;
+    await orchestrator.track(CLAIM_ID);
+    await orchestrator.advance(CLAIM_ID);
+
+    // The original request resolves in the merchant's favour, then the agent challenges
+    resolved.set('uma-1', true);
+    claim.status = 3;
+    let run = await orchestrator.advance(CLAIM_ID);
+
+    expect(uma.escalate).toHaveBeenCalledWith('uma-1', ethers.ZeroAddress, expect.anything());
+    expect(uma.getClaimStatus).toHaveBeenLastCalledWith('uma-escalation-1');
+    expect(uma.finalize).not.toHaveBeenCalled();
+    expect(run.stage).toBe('challenged');
+    expect(run.dispute!.escalationId).toBe('uma-escalation-1');
+    expect(run.resolution).toBeUndefined();
+
+    resolved.set('uma-escalation-1', false);
+    run = await orchestrator.advance(CLAIM_ID);
+
+    expect(uma.escalate).toHaveBeenCalledTimes(1);
+    expect(uma.finalize).toHaveBeenCalledWith('uma-escalation-1');
+    expect(uma.finalize).not.toHaveBeenCalledWith('uma-1');
+    expect(run.resolution!.approved).toBe(false);
+    expect(oracleAdapter.processResolution).toHaveBeenCalledWith(
+      ORACLE_REQUEST_ID,
+      false,
+      expect.any(String),
+      { wait: false }
+    );
+    expect(run.stage).toBe('processed');
+    expect(run.vaultStatus).toBe(2);
+  });
+
+  describe('transaction timeout', () => {
+    const timeout = () => ethers.makeError('timeout', 'TIMEOUT', { operation: 'waitForTransaction', reason: 'timeout' });
+
+    it('forgets a dropped transaction and sends it again on the next pass', async () => {
+      const { orchestrator, oracleAdapter, provider } = ctx;
+      await orchestrator.track(CLAIM_ID);
+
+      provider.waitForTransaction.mockRejectedValueOnce(timeout());
+      await expect(orchestrator.advance(CLAIM_ID)).rejects.toMatchObject({
+        code: 'TRANSACTION_NOT_MINED',
+        context: { txHash: '0xforward', state: 'dropped' },
+      });
+      expect((await orchestrator.get(CLAIM_ID))!.forwardTransactionHash).toBeUndefined();
+
+      const run = await orchestrator.advance(CLAIM_ID);
+      expect(oracleAdapter.submitClaim).toHaveBeenCalledTimes(2);
+      expect(run.stage).toBe('disputed');
+    });
+
+    it('keeps waiting for a transaction still in the mempool', async () => {
+      const { orchestrator, oracleAdapter, provider } = ctx;
+      await orchestrator.track(CLAIM_ID);
+
+      provider.waitForTransaction.mockRejectedValueOnce(timeout());
+      provider.getTransaction.mockResolvedValueOnce({ hash: '0xforward' } as never);
+      await expect(orchestrator.advance(CLAIM_ID)).rejects.toMatchObject({
+        code: 'TRANSACTION_NOT_MINED',
+        context: { state: 'pending' },
+      });
+      expect((await orchestrator.get(CLAIM_ID))!.forwardTransactionHash).toBe('0xforward');
+
+      await orchestrator.advance(CLAIM_ID);
+      expect(oracleAdapter.submitClaim).toHaveBeenCalledTimes(1);
+      expect(provider.waitForTransaction).toHaveBeenLastCalledWith('0xforward', 1, 300000);
+    });
+  });
+
+  it('stops resolve() during the wait between passes when aborted', async () => {
+    const { vault, claim } = ctx;
+    const orchestrator = new ClaimOrchestrator(
+      vault as any,
+      ctx.oracleAdapter as any,
+      new DisputeOracleRouter([{ oracle: ctx.uma as any }]),
+      ctx.provider as any,
+      { pollInterval: 60000 }
+    );
+    await orchestrator.track(CLAIM_ID);
+    claim.status = 0;
+
+    const controller = new AbortController();
+    const resolving = orchestrator.resolve(CLAIM_ID, controller.signal);
+    setTimeout(() => controller.abort(), 20);
+
+    await expect(resolving).rejects.toThrow('aborted');
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Claim Orchestrator
+ * Drives an InsuranceVault claim through its lifecycle: forwards it to the
+ * OracleAdapter, submits it to a dispute oracle (UMA or Kleros by amount),
+ * escalates when the agent challenges, and processes the resolution on-chain
+ *
+ * Progress is checkpointed per vault claim ID with an auditable timeline,
+ * so a restarted orchestrator resumes without repeating a step.
+ */
+
+import { ethers } from 'ethers';
+import { ClaimData } from '../types';
+import { InsuranceVaultContract, Claim } from '../contracts/InsuranceVault';
+import { OracleAdapterContract } from '../contracts/OracleAdapter';
+import { AgentRegistryContract } from '../contracts/AgentRegistry';
+import { DisputeOracleRouter } from '../oracle/router';
+import { waitForReceipt } from '../contracts/transaction';
+import { MemoryStore } from '../utils/store';
+import { KYASDKError } from '../utils/errors';
+import { sleep } from '../utils/retry';
+
+export type ClaimStage =
+  | 'submitted'   // Vault claim exists
+  | 'forwarded'   // OracleAdapter request created
+  | 'disputed'    // Submitted to the dispute oracle
+  | 'challenged'  // Agent challenged; dispute escalated
+  | 'resolved'    // Dispute oracle resolved and finalized
+  | 'processed';  // Resolution applied on-chain (terminal)
+
+export interface ClaimTimelineEntry {
+  at: number;
+  stage: ClaimStage;
+  message: string;
+  transactionHash?: string;
+}
+
+export interface ClaimRun {
+  /** InsuranceVault claim ID */
+  id: string;
+  tokenId: string;
+  merchant: string;
+  amount: string;
+  reason: string;
+  evidence?: any;
+  stage: ClaimStage;
+  oracleRequestId?: string;
+  forwardTransactionHash?: string;
+  forwardBlock?: number;
+  dispute?: { oracle: string; requestId: string; escalationId?: string };
+  resolution?: { approved: boolean; resolutionData: string };
+  processTransactionHash?: string;
+  /** Last observed vault status (0=pending, 1=approved, 2=rejected, 3=challenged) */
+  vaultStatus?: number;
+  timeline: ClaimTimelineEntry[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ClaimRunStore {
+  get(id: string): Promise<ClaimRun | undefined>;
+  save(run: ClaimRun): Promise<void>;
+}
+
+export interface ClaimOrchestratorOptions {
+  /** Resolves the agent owner recorded as the challenging party on escalation */
+  agentRegistry?: AgentRegistryContract;
+  /** Run checkpoints (in-memory when omitted; use a JsonFileStore to survive restarts) */
+  store?: ClaimRunStore;
+  /** Confirmations to wait for on each transaction (default 1) */
+  confirmations?: number;
+  /**
+   * Milliseconds to wait for each transaction (default 300000); a transaction
+   * the node has dropped by then is sent again on the next pass
+   */
+  confirmTimeout?: number;
+  /** Delay between advance() passes in resolve() (default 30000ms) */
+  pollInterval?: number;
+  /** Apply approvals only after the vault challenge period ends (default true) */
+  awaitChallengePeriod?: boolean;
+}
+
+export class ClaimOrchestrator {
+  private vault: InsuranceVaultContract;
+  private oracleAdapter: OracleAdapterContract;
+  private disputes: DisputeOracleRouter;
+  private provider: ethers.Provider;
+  private agentRegistry?: AgentRegistryContract;
+  private store: ClaimRunStore;
+  private confirmations: number;
+  private confirmTimeout: number;
+  private pollInterval: number;
+  private awaitChallengePeriod: boolean;
+  private inflight = new Map<string, Promise<ClaimRun>>();
+
+  /**
+   * @param vault InsuranceVault (merchant signer for open(), agent owner for challenge())
+   * @param oracleAdapter OracleAdapter (DEFAULT_ADMIN_ROLE signer to process resolutions)
+   * @param disputes Router choosing the dispute oracle by claim amount
+   */
+  constructor(
+    vault: InsuranceVaultContract,
+    oracleAdapter: OracleAdapterContract,
+    disputes: DisputeOracleRouter,
+    provider: ethers.Provider,
+    options: ClaimOrchestratorOptions = {}
+  ) {
+    this.vault = vault;
+    this.oracleAdapter = oracleAdapter;
+    this.disputes = disputes;
+    this.provider = provider;
+    this.agentRegistry = options.agentRegistry;
+    this.store = options.store ?? new MemoryStore<ClaimRun>();
+    this.confirmations = options.confirmations ?? 1;
+    this.confirmTimeout = options.confirmTimeout ?? 300000;
+    this.pollInterval = options.pollInterval ?? 30000;
+    this.awaitChallengePeriod = options.awaitChallengePeriod ?? true;
+  }
+
+  /**
+   * Submit a new claim to the InsuranceVault and start tracking it
+   */
+  async open(tokenId: number, amount: bigint, reason: string, evidence?: any): Promise<ClaimRun> {
+    const { claimId } = await this.vault.submitClaim(tokenId, amount, reason);
+    return await this.track(claimId, evidence);
+  }
+
+  /**
+   * Start tracking an existing vault claim (no-op when already tracked)
+   */
+  async track(claimId: string, evidence?: any): Promise<ClaimRun> {
+    const existing = await this.store.get(claimId);
+    if (existing) {
+      return existing;
+    }
+
+    const claim = await this.vault.getClaim(claimId);
+    if (claim.claimId === ethers.ZeroHash) {
+      throw new KYASDKError(`Claim ${claimId} not found`, 'CLAIM_NOT_FOUND');
+    }
+
+    const now = Date.now();
+    const run: ClaimRun = {
+      id: claimId,
+      tokenId: claim.tokenId.toString(),
+      merchant: claim.merchant,
+      amount: claim.amount.toString(),
+      reason: claim.reason,
+      evidence: evidence,
+      stage: 'submitted',
+      vaultStatus: claim.status,
+      timeline: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.record(run, 'submitted', `Claim of ${claim.amount} against token ${claim.tokenId} by ${claim.merchant}`);
+    return run;
+  }
+
+  /**
+   * Challenge a pending claim as the agent owner; the next advance() escalates the dispute
+   */
+  async challenge(claimId: string): Promise<ClaimRun> {
+    const run = await this.require(claimId);
+    const tx = await this.vault.challengeClaim(claimId, { wait: false });
+    const receipt = await this.confirm(tx.transactionHash);
+    if (receipt.status !== 1) {
+      throw new KYASDKError(`challengeClaim reverted in ${receipt.hash}`, 'TRANSACTION_REVERTED', undefined, {
+        contract: 'InsuranceVault',
+        method: 'challengeClaim',
+        txHash: receipt.hash,
+      });
+    }
+    return await this.advance(run.id);
+  }
+
+  /**
+   * Perform every step currently possible for a claim
+   * Concurrent calls for the same claim share one pass
+   */
+  async advance(claimId: string): Promise<ClaimRun> {
+    let pending = this.inflight.get(claimId);
+    if (!pending) {
+      pending = this.step(claimId).finally(() => this.inflight.delete(claimId));
+      this.inflight.set(claimId, pending);
+    }
+    return await pending;
+  }
+
+  /**
+   * Advance a claim until its resolution is processed on-chain
+   */
+  async resolve(claimId: string, signal?: AbortSignal): Promise<ClaimRun> {
+    for (;;) {
+      signal?.throwIfAborted();
+      const run = await this.advance(claimId);
+      if (run.stage === 'processed') {
+        return run;
+      }
+      await sleep(this.pollInterval, signal);
+    }
+  }
+
+  /**
+   * Get a tracked claim
+   */
+  async get(claimId: string): Promise<ClaimRun | undefined> {
+    return await this.store.get(claimId);
+  }
+
+  /**
+   * Get the audit timeline for a claim
+   */
+  async getTimeline(claimId: string): Promise<ClaimTimelineEntry[]> {
+    return (await this.require(claimId)).timeline;
+  }
+
+  private async step(claimId: string): Promise<ClaimRun> {
+    const run = await this.require(claimId);
+    if (run.stage === 'processed') {
+      return run;
+    }
+
+    const claim = await this.vault.getClaim(claimId);
+    if (claim.status === 1 || claim.status === 2) {
+      await this.record(run, 'processed', `Resolved on-chain as ${claim.status === 1 ? 'approved' : 'rejected'}`, undefined, {
+        vaultStatus: claim.status,
+      });
+      return run;
+    }
+
+    if (!run.oracleRequestId) {
+      await this.forward(run);
+    }
+    if (!run.dispute) {
+      const { oracle, requestId } = await this.disputes.submitClaim(this.toClaimData(run));
+      await this.record(run, 'disputed', `Submitted to ${oracle} as ${requestId}`, undefined, {
+        dispute: { oracle, requestId },
+      });
+    }
+
+    if (claim.status === 3 && !run.dispute!.escalationId) {
+      await this.escalate(run, claim);
+    }
+
+    if (!run.resolution) {
+      // After a challenge the escalated dispute decides the claim
+      const { oracle: name, requestId, escalationId } = run.dispute!;
+      const disputeId = escalationId ?? requestId;
+      const oracle = this.disputes.get(name);
+      const status = await oracle.getClaimStatus(disputeId);
+      if (!status.resolved) {
+        return run;
+      }
+      const final = await oracle.finalize(disputeId);
+      await this.record(run, 'resolved', `${name} ${final.result ? 'approved' : 'rejected'} the claim`, undefined, {
+        resolution: {
+          approved: final.result,
+          resolutionData: ethers.hexlify(ethers.toUtf8Bytes(JSON.stringify({
+            oracle: name,
+            requestId: disputeId,
+            resolutionData: final.resolutionData ?? null,
+          }))),
+        },
+      });
+    }
+
+    // Leave the challenge window open before slashing
+    const deadline = Number(claim.challengeDeadline) * 1000;
+    if (this.awaitChallengePeriod && claim.status === 0 && run.resolution!.approved && Date.now() <= deadline) {
+      return run;
+    }
+
+    await this.process(run);
+    return run;
+  }
+
+  private async forward(run: ClaimRun): Promise<void> {
+    // The request may exist from an interrupted run or another orchestrator
+    let requestId: string | undefined;
+    try {
+      requestId = await this.oracleAdapter.getOracleRequestId(run.id);
+    } catch (error: any) {
+      if (error.code !== 'CALL_EXCEPTION') {
+        throw error;
+      }
+    }
+
+    if (!requestId) {
+      if (!run.forwardTransactionHash) {
+        const tx = await this.oracleAdapter.submitClaim(this.toClaimData(run), { wait: false });
+        await this.checkpoint(run, { forwardTransactionHash: tx.transactionHash });
+      }
+
+      const receipt = await this.confirm(run.forwardTransactionHash!, () =>
+        this.checkpoint(run, { forwardTransactionHash: undefined })
+      );
+      if (receipt.status !== 1) {
+        await this.checkpoint(run, { forwardTransactionHash: undefined });
+        throw new KYASDKError(`OracleAdapter.submitClaim reverted in ${receipt.hash}`, 'TRANSACTION_REVERTED', undefined, {
+          contract: 'OracleAdapter',
+          method: 'submitClaim',
+          txHash: receipt.hash,
+        });
+      }
+      requestId = this.oracleAdapter.parseOracleSubmission(receipt).requestId;
+      run.forwardBlock = receipt.blockNumber;
+    }
+
+    await this.record(run, 'forwarded', `Forwarded to OracleAdapter as ${requestId}`, run.forwardTransactionHash, {
+      oracleRequestId: requestId,
+    });
+  }
+
+  private async escalate(run: ClaimRun, claim: Claim): Promise<void> {
+    const party = this.agentRegistry
+      ? (await this.agentRegistry.getAgentInfoByTokenId(claim.tokenId)).owner
+      : ethers.ZeroAddress;
+    const oracle = this.disputes.get(run.dispute!.oracle);
+    const escalationId = await oracle.escalate(run.dispute!.requestId, party, {
+      claimId: run.id,
+      reason: 'Challenged by agent owner',
+    });
+
+    await this.record(run, 'challenged', `Agent challenged; escalated on ${oracle.name} as ${escalationId}`, undefined, {
+      vaultStatus: 3,
+      dispute: { ...run.dispute!, escalationId },
+      // The escalated dispute replaces any earlier resolution
+      resolution: undefined,
+    });
+  }
+
+  private async process(run: ClaimRun): Promise<void> {
+    if (!run.processTransactionHash) {
+      const { status } = await this.oracleAdapter.getClaimStatus(run.oracleRequestId!);
+      const existing = status === 1
+        ? await this.oracleAdapter.findClaimResolved(run.oracleRequestId!, run.forwardBlock)
+        : undefined;
+
+      if (existing) {
+        await this.checkpoint(run, { processTransactionHash: existing });
+      } else {
+        const tx = await this.oracleAdapter.processResolution(
+          run.oracleRequestId!,
+          run.resolution!.approved,
+          run.resolution!.resolutionData,
+          { wait: false }
+        );
+        await this.checkpoint(run, { processTransactionHash: tx.transactionHash });
+      }
+    }
+
+    const receipt = await this.confirm(run.processTransactionHash!, () =>
+      this.checkpoint(run, { processTransactionHash: undefined })
+    );
+    if (receipt.status !== 1) {
+      await this.checkpoint(run, { processTransactionHash: undefined });
+      throw new KYASDKError(`processResolution reverted in ${receipt.hash}`, 'TRANSACTION_REVERTED', undefined, {
+        contract: 'OracleAdapter',
+        method: 'processResolution',
+        txHash: receipt.hash,
+      });
+    }
+
+    await this.record(run, 'processed', `Resolution applied on-chain (${run.resolution!.approved ? 'approved' : 'rejected'})`, receipt.hash, {
+      vaultStatus: run.resolution!.approved ? 1 : 2,
+    });
+  }
+
+  private toClaimData(run: ClaimRun): ClaimData {
+    return {
+      claimId: run.id,
+      tokenId: Number(run.tokenId),
+      merchant: run.merchant,
+      amount: run.amount,
+      reason: run.reason,
+      evidence: run.evidence,
+    };
+  }
+
+  /**
+   * Wait for a transaction; on timeout, forget a dropped one so the next pass re-sends it
+   * @param onDropped Clear the recorded hash
+   */
+  private async confirm(hash: string, onDropped?: () => Promise<void>): Promise<ethers.TransactionReceipt> {
+    const receipt = await waitForReceipt(this.provider, hash, this.confirmations, this.confirmTimeout);
+    if (receipt === 'dropped') {
+      await onDropped?.();
+    }
+    if (typeof receipt === 'string') {
+      throw new KYASDKError(`Transaction ${hash} not mined after ${this.confirmTimeout}ms (${receipt})`, 'TRANSACTION_NOT_MINED', undefined, {
+        txHash: hash,
+        state: receipt,
+      });
+    }
+    return receipt;
+  }
+
+  private async record(
+    run: ClaimRun,
+    stage: ClaimStage,
+    message: string,
+    transactionHash?: string,
+    fields: Partial<ClaimRun> = {}
+  ): Promise<void> {
+    run.timeline.push({ at: Date.now(), stage, message, transactionHash });
+    await this.checkpoint(run, { ...fields, stage });
+  }
+
+  private async checkpoint(run: ClaimRun, fields: Partial<ClaimRun>): Promise<void> {
+    Object.assign(run, fields, { updatedAt: Date.now() });
+    await this.store.save(run);
+  }
+
+  private async require(claimId: string): Promise<ClaimRun> {
+    const run = await this.store.get(claimId);
+    if (!run) {
+      throw new KYASDKError(`Claim ${claimId} is not tracked`, 'CLAIM_NOT_TRACKED');
+    }
+    return run;
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * KYAClient facade tests (no RPC requests are made)
+ */
+
+import { ethers } from 'ethers';
+import { describe, expect, it, jest } from '@jest/globals';
+import { KYAClient, KYAClientConfig } from './client';
+import { AgentRegistryContract } from './contracts/AgentRegistry';
+import { InsuranceVaultContract } from './contracts/InsuranceVault';
+import { KYAEventStream } from './events/stream';
+
+const RPC_URL = 'http://127.0.0.1:8545';
+const REGISTRY = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const VAULT = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const OTHER_VAULT = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+const TBA = '0x1306b01bC3e4AD202612D3843387e94737673F53';
+
+// Hardhat/anvil account #1
+const OWNER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const OWNER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+describe('KYAClient', () => {
+  it('resolves the network and prefers explicit addresses over the per-network ones', () => {
+    const client = new KYAClient({
+      rpcUrl: RPC_URL,
+      network: 'anvil',
+      insuranceVaultAddress: OTHER_VAULT,
+      networks: { local: { agentRegistry: REGISTRY, insuranceVault: VAULT } },
+    });
+
+    expect(client.network).toBe('local');
+    expect(client.addresses).toMatchObject({ agentRegistry: REGISTRY, insuranceVault: OTHER_VAULT });
+    expect(client.agentRegistry).toBeInstanceOf(AgentRegistryContract);
+    expect(client.insuranceVault).toBeInstanceOf(InsuranceVaultContract);
+    expect(client.zkAdapter).toBeUndefined();
+    expect(client.reputationProofs).toBeUndefined();
+  });
+
+  it('takes addresses from the integrations network and accepts custom networks', () => {
+    const config: KYAClientConfig = {
+      rpcUrl: RPC_URL,
+      integrations: {
+        network: { name: 'base-sepolia', chainId: 84532, rpcUrl: RPC_URL, contracts: { agentRegistry: REGISTRY } },
+      },
+    };
+    const fromIntegrations = new KYAClient(config);
+    expect(fromIntegrations.network).toBe('base-sepolia');
+    expect(fromIntegrations.addresses.agentRegistry).toBe(REGISTRY);
+
+    // The integrations network only applies when it is the selected one
+    expect(new KYAClient({ ...config, network: 'base' }).addresses.agentRegistry).toBeUndefined();
+
+    const custom = new KYAClient({ rpcUrl: RPC_URL, network: 'devnet', networks: { devnet: { insuranceVault: VAULT } } });
+    expect(custom.network).toBe('devnet');
+    expect(custom.addresses.insuranceVault).toBe(VAULT);
+
+    expect(() => new KYAClient({ rpcUrl: RPC_URL, network: 'devnet' })).toThrow(
+      expect.objectContaining({ code: 'UNKNOWN_NETWORK' })
+    );
+  });
+
+  it('uses the signer, or a wallet for the private key', async () => {
+    await expect(new KYAClient({ rpcUrl: RPC_URL, privateKey: OWNER_KEY }).getAddress()).resolves.toBe(OWNER);
+    await expect(
+      new KYAClient({ rpcUrl: RPC_URL, signer: ethers.Wallet.createRandom() }).getAddress()
+    ).resolves.toMatch(/^0x[0-9a-fA-F]{40}$/);
+    await expect(new KYAClient({ rpcUrl: RPC_URL }).getAddress()).resolves.toBeUndefined();
+  });
+
+  it('reports unconfigured contracts and a missing signer', async () => {
+    const client = new KYAClient({ rpcUrl: RPC_URL, agentRegistryAddress: REGISTRY });
+
+    await expect(client.getStakeInfo(7)).rejects.toMatchObject({
+      code: 'NOT_CONFIGURED',
+      message: 'InsuranceVault address not configured for base-sepolia',
+    });
+    await expect(client.createAgent({ name: 'a', description: 'b', category: 'c' })).rejects.toMatchObject({
+      code: 'SIGNER_REQUIRED',
+    });
+    expect(() => new KYAClient({ rpcUrl: RPC_URL }).events()).toThrow(expect.objectContaining({ code: 'NOT_CONFIGURED' }));
+    expect(client.events()).toBeInstanceOf(KYAEventStream);
+  });
+
+  it('creates an agent and returns its info, metadata and agent ID', async () => {
+    const client = new KYAClient({ rpcUrl: RPC_URL, privateKey: OWNER_KEY, agentRegistryAddress: REGISTRY });
+    const registry = {
+      mintAgent: jest.fn(async () => ({ agentId: ethers.id('agent-7'), tokenId: 7n })),
+      getAgentInfoByTokenId: jest.fn(async () => ({ tokenId: 7n, tbaAddress: TBA, owner: OWNER, createdAt: 1700000000n })),
+      getAgentMetadata: jest.fn(async () => ({
+        name: 'Shopper',
+        description: 'Buys things',
+        category: 'commerce',
+        createdAt: 1700000000n,
+        status: 0,
+      })),
+    };
+    (client as any).agentRegistry = registry;
+
+    await expect(client.createAgent({ name: 'Shopper', description: 'Buys things', category: 'commerce' })).resolves.toEqual({
+      agentId: ethers.id('agent-7'),
+      tokenId: 7n,
+      tbaAddress: TBA,
+      owner: OWNER,
+      createdAt: 1700000000n,
+      name: 'Shopper',
+      description: 'Buys things',
+      category: 'commerce',
+      status: 0,
+    });
+    expect(registry.mintAgent).toHaveBeenCalledWith('Shopper', 'Buys things', 'commerce');
+    expect(registry.getAgentInfoByTokenId).toHaveBeenCalledWith(7n);
+  });
+
+  it('passes bigint token IDs through unchanged', async () => {
+    const client = new KYAClient({ rpcUrl: RPC_URL, insuranceVaultAddress: VAULT });
+    const vault = { isVerified: jest.fn(async (_tokenId: number | bigint) => true) };
+    (client as any).insuranceVault = vault;
+    const tokenId = 2n ** 64n + 1n;
+
+    await expect(client.isVerified(tokenId)).resolves.toBe(true);
+    expect(vault.isVerified).toHaveBeenCalledWith(tokenId);
+  });
+
+  it('forwards claims to the OracleAdapter and applies their resolution', async () => {
+    const client = new KYAClient({ rpcUrl: RPC_URL, privateKey: OWNER_KEY, oracleAdapterAddress: OTHER_VAULT });
+    const requestId = ethers.id('request');
+    const oracleAdapter = {
+      submitClaim: jest.fn(async () => ({ requestId, oracleAddress: OWNER })),
+      getClaimStatus: jest.fn(async () => ({ status: 1, result: { requestId, resolved: true, result: true } })),
+      processResolution: jest.fn(async () => ({ requestId, approved: true })),
+    };
+    (client as any).oracleAdapter = oracleAdapter;
+    const claim = { claimId: ethers.id('claim'), tokenId: 7, merchant: OWNER, amount: '5', reason: 'late' };
+
+    await expect(client.forwardClaimToOracle(claim)).resolves.toEqual({ requestId, oracleAddress: OWNER });
+    await expect(client.getOracleClaimStatus(requestId)).resolves.toMatchObject({ status: 1, result: { result: true } });
+    await expect(client.processOracleResolution(requestId, true, '0x')).resolves.toEqual({ requestId, approved: true });
+
+    expect(oracleAdapter.submitClaim).toHaveBeenCalledWith(claim, undefined);
+    expect(oracleAdapter.processResolution).toHaveBeenCalledWith(requestId, true, '0x', undefined);
+    await expect(new KYAClient({ rpcUrl: RPC_URL }).getOracleClaimStatus(requestId)).rejects.toMatchObject({
+      code: 'NOT_CONFIGURED',
+      message: 'OracleAdapter address not configured for base-sepolia',
+    });
+  });
+});
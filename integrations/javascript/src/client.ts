@@ -0,0 +1,434 @@
+/**
+ * KYA Client
+ * Top-level facade composing the contract helpers and external service clients
+ */
+
+import { ethers } from 'ethers';
+import { IntegrationConfig, KYAContractAddresses, getNetwork } from './config';
+import { ClaimData, ProofQuery, ProofResult, ResolutionResult } from './types';
+import { AxiomClient } from './axiom/client';
+import { BrevisClient } from './brevis/client';
+import { UMAClient } from './uma/client';
+import { KlerosClient } from './kleros/client';
+import { EntryPointClient } from './entrypoint/client';
+import { ZKProviderRegistry, ProofGenerationOptions } from './zk/registry';
+import { ProofJobManager, ProofJobManagerOptions } from './zk/jobs';
+import { ReputationProofPipeline, ReputationProofPipelineOptions } from './reputation/pipeline';
+import { AgentRegistryContract } from './contracts/AgentRegistry';
+import { ReputationScoreContract, ReputationData } from './contracts/ReputationScore';
+import {
+  InsuranceVaultContract,
+  StakeInfo,
+  Claim,
+  StakeOptions,
+  StakeResult,
+  UnstakeResult,
+  ClaimSubmission,
+} from './contracts/InsuranceVault';
+import { ZKAdapterContract, QuerySubmission, ProofProcessing } from './contracts/ZKAdapter';
+import { WriteOptions, WriteResult, NoResult } from './contracts/transaction';
+import { SimulateOptions, Simulation } from './contracts/simulation';
+import { KYAEventStream, KYAEventStreamOptions, KYAEventSources } from './events/stream';
+import { OracleAdapterContract, OracleResolution, OracleSubmission } from './contracts/OracleAdapter';
+import { KYASDKError, SignerRequiredError } from './utils/errors';
+
+export interface KYAClientConfig {
+  rpcUrl: string;
+  /** Supported network name, or a key of `networks` (default base-sepolia) */
+  network?: string;
+  signer?: ethers.Signer;
+  privateKey?: string;
+  agentRegistryAddress?: string;
+  reputationScoreAddress?: string;
+  insuranceVaultAddress?: string;
+  zkAdapterAddress?: string;
+  oracleAdapterAddress?: string;
+  /** Contract addresses keyed by network name, selected by `network` (overrides `integrations.network`) */
+  networks?: Record<string, KYAContractAddresses>;
+  /** External service configuration (Axiom, Brevis, UMA, Kleros, EntryPoint) */
+  integrations?: IntegrationConfig;
+  /** Proof job store and polling used by `proofJobs` */
+  proofJobs?: ProofJobManagerOptions;
+  /** Checkpoint store and confirmations used by `reputationProofs` */
+  reputationProofs?: ReputationProofPipelineOptions;
+}
+
+export interface CreateAgentParams {
+  name: string;
+  description: string;
+  category: string;
+}
+
+export interface AgentInfo {
+  agentId?: string; // Only known from the AgentCreated event
+  tokenId: bigint;
+  tbaAddress: string;
+  owner: string;
+  createdAt: bigint;
+  name: string;
+  description: string;
+  category: string;
+  status: number; // 0=Active, 1=Suspended, 2=Revoked
+}
+
+export class KYAClient {
+  readonly provider: ethers.Provider;
+  readonly network: string;
+  readonly addresses: KYAContractAddresses;
+
+  readonly agentRegistry?: AgentRegistryContract;
+  readonly reputationScore?: ReputationScoreContract;
+  readonly insuranceVault?: InsuranceVaultContract;
+  readonly zkAdapter?: ZKAdapterContract;
+  readonly oracleAdapter?: OracleAdapterContract;
+
+  readonly axiom?: AxiomClient;
+  readonly brevis?: BrevisClient;
+  readonly uma?: UMAClient;
+  readonly kleros?: KlerosClient;
+  readonly entryPoint?: EntryPointClient;
+  readonly zkProviders: ZKProviderRegistry;
+  readonly proofJobs: ProofJobManager;
+  readonly reputationProofs?: ReputationProofPipeline;
+
+  protected signer?: ethers.Signer;
+
+  constructor(config: KYAClientConfig) {
+    this.provider = new ethers.JsonRpcProvider(config.rpcUrl);
+    const network =
+      config.network || config.integrations?.network?.name || config.integrations?.entryPoint?.network || 'base-sepolia';
+    // Networks outside the registry must come with their own addresses
+    this.network = config.networks?.[network] ? network : getNetwork(network).name;
+    this.signer = config.signer
+      ? config.signer
+      : config.privateKey
+        ? new ethers.Wallet(config.privateKey, this.provider)
+        : undefined;
+
+    // Explicit addresses take precedence over the per-network entry
+    const networkAddresses =
+      config.networks?.[this.network] ||
+      (config.integrations?.network?.name === this.network ? config.integrations.network.contracts : {});
+    this.addresses = {
+      ...networkAddresses,
+      agentRegistry: config.agentRegistryAddress || networkAddresses.agentRegistry,
+      reputationScore: config.reputationScoreAddress || networkAddresses.reputationScore,
+      insuranceVault: config.insuranceVaultAddress || networkAddresses.insuranceVault,
+      zkAdapter: config.zkAdapterAddress || networkAddresses.zkAdapter,
+      oracleAdapter: config.oracleAdapterAddress || networkAddresses.oracleAdapter,
+    };
+
+    if (this.addresses.agentRegistry) {
+      this.agentRegistry = new AgentRegistryContract(this.addresses.agentRegistry, this.provider, this.signer);
+    }
+    if (this.addresses.reputationScore) {
+      this.reputationScore = new ReputationScoreContract(this.addresses.reputationScore, this.provider, this.signer);
+    }
+    if (this.addresses.insuranceVault) {
+      this.insuranceVault = new InsuranceVaultContract(this.addresses.insuranceVault, this.provider, this.signer);
+    }
+    if (this.addresses.zkAdapter) {
+      this.zkAdapter = new ZKAdapterContract(this.addresses.zkAdapter, this.provider, this.signer);
+    }
+    if (this.addresses.oracleAdapter) {
+      this.oracleAdapter = new OracleAdapterContract(this.addresses.oracleAdapter, this.provider, this.signer);
+    }
+
+    const integrations = config.integrations || {};
+    this.axiom = integrations.axiom ? new AxiomClient(integrations.axiom) : undefined;
+    this.brevis = integrations.brevis ? new BrevisClient(integrations.brevis) : undefined;
+    this.uma = integrations.uma ? new UMAClient(integrations.uma) : undefined;
+    this.kleros = integrations.kleros ? new KlerosClient(integrations.kleros) : undefined;
+    this.zkProviders = new ZKProviderRegistry([this.axiom, this.brevis].filter((p) => p !== undefined));
+    this.proofJobs = new ProofJobManager(this.zkProviders, config.proofJobs);
+    if (this.zkAdapter && this.reputationScore) {
+      this.reputationProofs = new ReputationProofPipeline(
+        this.zkAdapter,
+        this.reputationScore,
+        this.proofJobs,
+        this.provider,
+        config.reputationProofs
+      );
+    }
+    this.entryPoint = integrations.entryPoint
+      ? new EntryPointClient(integrations.entryPoint, this.provider, this.signer)
+      : undefined;
+  }
+
+  /**
+   * Create an agent (mints the AgentLicense NFT and its TBA)
+   * Pays the current minting fee
+   */
+  async createAgent(params: CreateAgentParams): Promise<AgentInfo> {
+    const registry = this.requireContract(this.agentRegistry, 'AgentRegistry');
+    this.requireSigner('createAgent');
+
+    const created = await registry.mintAgent(params.name, params.description, params.category);
+    const agent = await this.getAgent(created.tokenId);
+    return { ...agent, agentId: created.agentId };
+  }
+
+  /**
+   * Get agent information and metadata by token ID
+   */
+  async getAgent(tokenId: number | bigint): Promise<AgentInfo> {
+    const registry = this.requireContract(this.agentRegistry, 'AgentRegistry');
+    const [info, metadata] = await Promise.all([
+      registry.getAgentInfoByTokenId(tokenId),
+      registry.getAgentMetadata(tokenId),
+    ]);
+
+    return {
+      tokenId: info.tokenId,
+      tbaAddress: info.tbaAddress,
+      owner: info.owner,
+      createdAt: info.createdAt,
+      name: metadata.name,
+      description: metadata.description,
+      category: metadata.category,
+      status: metadata.status,
+    };
+  }
+
+  /**
+   * Get the deterministic TBA address for an agent
+   */
+  async getTBAAddress(tokenId: number | bigint): Promise<string> {
+    return await this.requireContract(this.agentRegistry, 'AgentRegistry').computeTBAAddress(tokenId);
+  }
+
+  /**
+   * Stake USDC for an agent from its TBA (see InsuranceVaultContract.stake for funding options)
+   */
+  async stake<O extends StakeOptions>(
+    tokenId: number | bigint,
+    amount: bigint,
+    options?: O
+  ): Promise<WriteResult<StakeResult, O>> {
+    return await this.requireContract(this.insuranceVault, 'InsuranceVault').stake(tokenId, amount, options);
+  }
+
+  /**
+   * Simulate stake and estimate its gas and fee without sending it
+   */
+  async simulateStake(tokenId: number | bigint, amount: bigint, options?: SimulateOptions): Promise<Simulation<void>> {
+    return await this.requireContract(this.insuranceVault, 'InsuranceVault').simulateStake(tokenId, amount, options);
+  }
+
+  /**
+   * Request unstake (starts cooldown for verified agents)
+   */
+  async requestUnstake<O extends WriteOptions>(tokenId: number | bigint, options?: O): Promise<WriteResult<NoResult, O>> {
+    return await this.requireContract(this.insuranceVault, 'InsuranceVault').requestUnstake(tokenId, options);
+  }
+
+  /**
+   * Unstake USDC (after cooldown for verified agents)
+   */
+  async unstake<O extends WriteOptions>(
+    tokenId: number | bigint,
+    amount: bigint,
+    options?: O
+  ): Promise<WriteResult<UnstakeResult, O>> {
+    return await this.requireContract(this.insuranceVault, 'InsuranceVault').unstake(tokenId, amount, options);
+  }
+
+  /**
+   * Get stake information for an agent
+   */
+  async getStakeInfo(tokenId: number | bigint): Promise<StakeInfo> {
+    return await this.requireContract(this.insuranceVault, 'InsuranceVault').getStakeInfo(tokenId);
+  }
+
+  /**
+   * Check if agent is verified
+   */
+  async isVerified(tokenId: number | bigint): Promise<boolean> {
+    return await this.requireContract(this.insuranceVault, 'InsuranceVault').isVerified(tokenId);
+  }
+
+  /**
+   * Submit a claim against an agent (signer is the merchant)
+   * @returns The vault claim
+   */
+  async submitClaim<O extends WriteOptions>(
+    tokenId: number | bigint,
+    amount: bigint,
+    reason: string,
+    options?: O
+  ): Promise<WriteResult<ClaimSubmission, O>> {
+    return await this.requireContract(this.insuranceVault, 'InsuranceVault').submitClaim(tokenId, amount, reason, options);
+  }
+
+  /**
+   * Simulate submitClaim and estimate its gas and fee without sending it
+   * @returns The claim ID it would assign as `result`
+   */
+  async simulateSubmitClaim(
+    tokenId: number | bigint,
+    amount: bigint,
+    reason: string,
+    options?: SimulateOptions
+  ): Promise<Simulation<string>> {
+    return await this.requireContract(this.insuranceVault, 'InsuranceVault').simulateSubmitClaim(
+      tokenId,
+      amount,
+      reason,
+      options
+    );
+  }
+
+  /**
+   * Get claim information
+   */
+  async getClaim(claimId: string): Promise<Claim> {
+    return await this.requireContract(this.insuranceVault, 'InsuranceVault').getClaim(claimId);
+  }
+
+  /**
+   * Forward a vault claim to the OracleAdapter for dispute resolution
+   * @returns The oracle request ID
+   */
+  async forwardClaimToOracle<O extends WriteOptions>(
+    claimData: ClaimData,
+    options?: O
+  ): Promise<WriteResult<OracleSubmission, O>> {
+    return await this.requireContract(this.oracleAdapter, 'OracleAdapter').submitClaim(claimData, options);
+  }
+
+  /**
+   * Get the OracleAdapter status of a claim request (0=pending, 1=resolved, 2=failed)
+   */
+  async getOracleClaimStatus(requestId: string): Promise<{ status: number; result: ResolutionResult }> {
+    return await this.requireContract(this.oracleAdapter, 'OracleAdapter').getClaimStatus(requestId);
+  }
+
+  /**
+   * Apply a dispute oracle's resolution, which also resolves the vault claim
+   * (requires admin role on OracleAdapter)
+   */
+  async processOracleResolution<O extends WriteOptions>(
+    requestId: string,
+    approved: boolean,
+    resolutionData: string,
+    options?: O
+  ): Promise<WriteResult<OracleResolution, O>> {
+    return await this.requireContract(this.oracleAdapter, 'OracleAdapter').processResolution(
+      requestId,
+      approved,
+      resolutionData,
+      options
+    );
+  }
+
+  /**
+   * Get reputation data for an agent
+   */
+  async getReputation(tokenId: number | bigint): Promise<ReputationData> {
+    return await this.requireContract(this.reputationScore, 'ReputationScore').getReputation(tokenId);
+  }
+
+  /**
+   * Get badges for an agent
+   */
+  async getBadges(tokenId: number | bigint): Promise<string[]> {
+    return await this.requireContract(this.reputationScore, 'ReputationScore').getBadges(tokenId);
+  }
+
+  /**
+   * Submit a proof query to the ZKAdapter
+   * @returns The on-chain query ID and proof type
+   */
+  async submitProofQuery<O extends WriteOptions>(
+    query: ProofQuery,
+    options?: O
+  ): Promise<WriteResult<QuerySubmission, O>> {
+    return await this.requireContract(this.zkAdapter, 'ZKAdapter').submitQuery(query, options);
+  }
+
+  /**
+   * Process proof and update reputation (requires admin role on ZKAdapter)
+   */
+  async processProof<O extends WriteOptions>(
+    queryId: string,
+    tokenId: number | bigint,
+    proof: ProofResult,
+    options?: O
+  ): Promise<WriteResult<ProofProcessing, O>> {
+    return await this.requireContract(this.zkAdapter, 'ZKAdapter').processProofAndUpdate(
+      queryId,
+      tokenId,
+      proof.proof,
+      proof.metadata,
+      options
+    );
+  }
+
+  /**
+   * Simulate processProof and estimate its gas and fee without sending it
+   */
+  async simulateProcessProof(
+    queryId: string,
+    tokenId: number | bigint,
+    proof: ProofResult,
+    options?: SimulateOptions
+  ): Promise<Simulation<void>> {
+    return await this.requireContract(this.zkAdapter, 'ZKAdapter').simulateProcessProofAndUpdate(
+      queryId,
+      tokenId,
+      proof.proof,
+      proof.metadata,
+      options
+    );
+  }
+
+  /**
+   * Generate a ZK proof off-chain with the configured coprocessors
+   * Tries Axiom first and falls back to Brevis
+   */
+  async generateProof(query: ProofQuery, options?: ProofGenerationOptions): Promise<ProofResult> {
+    return await this.zkProviders.generateProof(query, options);
+  }
+
+  /**
+   * Stream typed events from the configured contracts
+   * (or `options.contracts`, e.g. to add the AgentLicense or Paymaster)
+   */
+  events(
+    options: Omit<KYAEventStreamOptions, 'contracts'> & { contracts?: KYAEventSources } = {}
+  ): KYAEventStream {
+    return new KYAEventStream(this.provider, {
+      ...options,
+      contracts: options.contracts ?? {
+        AgentLicense: this.addresses.agentLicense,
+        AgentRegistry: this.addresses.agentRegistry,
+        ReputationScore: this.addresses.reputationScore,
+        InsuranceVault: this.addresses.insuranceVault,
+        ZKAdapter: this.addresses.zkAdapter,
+        OracleAdapter: this.addresses.oracleAdapter,
+        Paymaster: this.addresses.paymaster,
+      },
+    });
+  }
+
+  /**
+   * Get the signer address, if a signer is configured
+   */
+  async getAddress(): Promise<string | undefined> {
+    return this.signer ? await this.signer.getAddress() : undefined;
+  }
+
+  private requireContract<T>(contract: T | undefined, name: string): T {
+    if (!contract) {
+      throw new KYASDKError(`${name} address not configured for ${this.network}`, 'NOT_CONFIGURED');
+    }
+    return contract;
+  }
+
+  private requireSigner(method: string): ethers.Signer {
+    if (!this.signer) {
+      throw new SignerRequiredError('KYAClient', method);
+    }
+    return this.signer;
+  }
+}
@@ -0,0 +1,227 @@
+/**
+ * Configuration loading, validation and redaction tests
+ */
+
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { inspect } from 'util';
+import { ethers } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import {
+  ConfigInput,
+  createSigner,
+  getNetwork,
+  getNetworkByChainId,
+  loadConfig,
+  loadDeployment,
+  loadNetwork,
+  redactConfig,
+} from './config';
+import { ConfigValidationError } from './utils/errors';
+
+// Hardhat/anvil account #1
+const PRIVATE_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const ADDRESS = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+function issuesOf(env: Record<string, string>, overrides?: ConfigInput): string[] {
+  try {
+    loadConfig({ env, overrides });
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigValidationError);
+    expect(error).toMatchObject({ code: 'INVALID_CONFIG' });
+    return (error as ConfigValidationError).issues;
+  }
+  throw new Error('expected a ConfigValidationError');
+}
+
+describe('loadConfig', () => {
+  it('layers the environment over the defaults and overrides over the environment', () => {
+    const config = loadConfig({
+      env: { NETWORK: 'anvil', UMA_API_KEY: 'uma-key', PRIVATE_KEY },
+      overrides: { rpcUrl: 'http://127.0.0.1:9545' },
+    });
+
+    expect(config.network).toMatchObject({ name: 'local', chainId: 31337 });
+    expect(config.rpcUrl).toBe('http://127.0.0.1:9545');
+    expect(config.uma).toEqual({ apiKey: 'uma-key', network: 'local' });
+    expect(config.signer).toEqual({ type: 'privateKey', privateKey: PRIVATE_KEY });
+    expect(config.axiom).toBeUndefined();
+  });
+
+  it('defaults to base-sepolia with its public RPC and EntryPoint', () => {
+    const config = loadConfig({ env: {} });
+    expect(config.network?.name).toBe('base-sepolia');
+    expect(config.rpcUrl).toBe('https://sepolia.base.org');
+    expect(config.entryPoint).toMatchObject({ network: 'base-sepolia', chainId: 84532 });
+  });
+
+  it.each<[string, Record<string, string>, ConfigInput | undefined, string]>([
+    ['an unknown network', { NETWORK: 'goerli' }, undefined, 'network: expected one of'],
+    ['an empty variable', { UMA_API_KEY: ' ' }, undefined, 'UMA_API_KEY: set but empty (unset it instead)'],
+    ['a service without an API key', { AXIOM_BASE_URL: 'https://axiom.test' }, undefined, 'axiom.apiKey: required'],
+    ['an invalid address', { UMA_API_KEY: 'k', UMA_ADDRESS: '0x1234' }, undefined, 'uma.address: expected an address, got "0x1234"'],
+    ['an invalid URL', { RPC_URL: 'sepolia.base.org' }, undefined, 'rpcUrl: expected an http(s) or ws(s) URL'],
+    ['a malformed private key', { PRIVATE_KEY: '0xabc' }, undefined, 'signer.privateKey: expected a 32-byte hex private key'],
+    ['two signer sources', { PRIVATE_KEY, KEYSTORE_PATH: './key.json' }, undefined, 'PRIVATE_KEY, KEYSTORE_PATH: set only one signer source'],
+    ['a keystore without a password', { KEYSTORE_PATH: './key.json' }, undefined, 'signer.password: required'],
+    ['an unknown setting', {}, { axiom: { apiKey: 'k', pollIntervall: 5 } as any }, 'axiom.pollIntervall: unknown setting'],
+    ['an unknown signer type', {}, { signer: { type: 'ledger' } as any }, 'signer.type: expected one of privateKey, keystore, external'],
+    ['a non-integer poll interval', {}, { brevis: { apiKey: 'k', pollInterval: 1.5 } }, 'brevis.pollInterval: expected an integer of at least 1'],
+    ['a zero rate limit', {}, { uma: { apiKey: 'k', http: { rateLimit: { requestsPerSecond: 0 } } } }, 'uma.http.rateLimit.requestsPerSecond: expected a positive number'],
+  ])('rejects %s', (_name, env, overrides, issue) => {
+    expect(issuesOf(env, overrides)).toEqual(expect.arrayContaining([expect.stringContaining(issue)]));
+  });
+
+  it('lists every issue at once', () => {
+    const issues = issuesOf({ UMA_API_KEY: '', RPC_URL: 'nope', PRIVATE_KEY: 'nope' });
+    expect(issues).toHaveLength(3);
+  });
+
+  it('keeps secrets out of validation messages', () => {
+    const error = (() => {
+      try {
+        loadConfig({ env: { PRIVATE_KEY: `${PRIVATE_KEY}ff` } });
+      } catch (e) {
+        return e as Error;
+      }
+    })();
+    expect(error?.message).toContain('signer.privateKey');
+    expect(error?.message).not.toContain(PRIVATE_KEY.slice(2));
+  });
+});
+
+describe('redaction', () => {
+  const env = {
+    UMA_API_KEY: 'uma-secret',
+    KLEROS_API_KEY: 'kleros-secret',
+    PRIVATE_KEY,
+    RPC_URL: 'https://base-sepolia.g.alchemy.com/v2/alchemy-secret',
+    BUNDLER_URL: 'https://api.pimlico.io/v1/base-sepolia/rpc?apikey=pimlico-secret',
+  };
+  const secrets = ['uma-secret', 'kleros-secret', PRIVATE_KEY, 'alchemy-secret', 'pimlico-secret'];
+
+  it('redacts API keys, private keys and URL paths in JSON.stringify', () => {
+    const json = JSON.stringify(loadConfig({ env }));
+    for (const secret of secrets) {
+      expect(json).not.toContain(secret);
+    }
+    expect(JSON.parse(json)).toMatchObject({
+      uma: { apiKey: '[REDACTED]' },
+      signer: { type: 'privateKey', privateKey: '[REDACTED]' },
+      rpcUrl: 'https://base-sepolia.g.alchemy.com/[REDACTED]',
+      entryPoint: { bundlerUrl: 'https://api.pimlico.io/[REDACTED]' },
+    });
+  });
+
+  it('redacts the same fields in util.inspect (console.log)', () => {
+    const printed = inspect(loadConfig({ env }), { depth: null });
+    for (const secret of secrets) {
+      expect(printed).not.toContain(secret);
+    }
+    expect(printed).toContain('[REDACTED]');
+  });
+
+  it('leaves the loaded values usable', () => {
+    const config = loadConfig({ env });
+    expect(config.uma?.apiKey).toBe('uma-secret');
+    expect(config.rpcUrl).toBe(env.RPC_URL);
+  });
+
+  it('keeps URLs without a path or query', () => {
+    expect(redactConfig({ rpcUrl: 'http://127.0.0.1:8545' })).toEqual({ rpcUrl: 'http://127.0.0.1:8545' });
+    expect(redactConfig({ keystore: { password: 'pw', path: './key.json' } })).toEqual({
+      keystore: { password: '[REDACTED]', path: './key.json' },
+    });
+  });
+});
+
+describe('createSigner', () => {
+  it('loads a private key signer connected to the provider', async () => {
+    const provider = new ethers.JsonRpcProvider('http://127.0.0.1:8545', 31337, { staticNetwork: true });
+    const signer = await createSigner({ type: 'privateKey', privateKey: PRIVATE_KEY }, provider);
+    expect(await signer.getAddress()).toBe(ADDRESS);
+    expect(signer.provider).toBe(provider);
+    provider.destroy();
+  });
+
+  it('wraps load failures in SIGNER_UNAVAILABLE', async () => {
+    await expect(createSigner({ type: 'keystore', path: '/nonexistent/key.json', password: 'pw' })).rejects.toMatchObject({
+      code: 'SIGNER_UNAVAILABLE',
+    });
+  });
+
+  it('calls an external signer factory', async () => {
+    const wallet = new ethers.Wallet(PRIVATE_KEY);
+    await expect(createSigner({ type: 'external', getSigner: () => wallet })).resolves.toBe(wallet);
+  });
+});
+
+describe('network registry', () => {
+  const VAULT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+  const ORACLE_ADAPTER = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+  const OLD_ORACLE_ADAPTER = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'kya-deployment-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function broadcast(script: string, chainId: number, timestamp: number, created: Record<string, string>) {
+    const runDir = join(dir, script, String(chainId));
+    mkdirSync(runDir, { recursive: true });
+    writeFileSync(join(runDir, 'run-latest.json'), JSON.stringify({
+      chain: chainId,
+      timestamp,
+      transactions: [
+        ...Object.entries(created).map(([contractName, contractAddress]) => ({ transactionType: 'CREATE', contractName, contractAddress })),
+        { transactionType: 'CALL', contractName: 'InsuranceVault', contractAddress: VAULT },
+      ],
+    }));
+  }
+
+  it('looks networks up by name, alias and chain ID', () => {
+    expect(getNetwork('anvil')).toMatchObject({ name: 'local', chainId: 31337 });
+    expect(getNetworkByChainId(8453n)).toMatchObject({ name: 'base', rpcUrl: 'https://mainnet.base.org' });
+    expect(() => getNetwork('goerli')).toThrow(expect.objectContaining({ code: 'UNKNOWN_NETWORK' }));
+    expect(() => getNetwork('toString')).toThrow(expect.objectContaining({ code: 'UNKNOWN_NETWORK' }));
+    expect(() => getNetworkByChainId(1)).toThrow(expect.objectContaining({ code: 'UNKNOWN_NETWORK' }));
+
+    // Lookups return copies
+    getNetwork('base').contracts.insuranceVault = VAULT;
+    expect(getNetwork('base').contracts).toEqual({});
+  });
+
+  it('merges the latest broadcast of every script for the chain', () => {
+    broadcast('SetupIntegrations.s.sol', 84532, 200, { OracleAdapter: ORACLE_ADAPTER.toLowerCase() });
+    broadcast('DeployBaseSepolia.s.sol', 84532, 100, { InsuranceVault: VAULT, OracleAdapter: OLD_ORACLE_ADAPTER });
+    broadcast('DeployLocal.s.sol', 31337, 300, { InsuranceVault: OLD_ORACLE_ADAPTER });
+
+    expect(loadNetwork('base-sepolia', dir)).toMatchObject({
+      chainId: 84532,
+      contracts: { insuranceVault: VAULT, oracleAdapter: ORACLE_ADAPTER },
+    });
+    expect(() => loadDeployment(dir)).toThrow(expect.objectContaining({ code: 'INVALID_DEPLOYMENT' }));
+    expect(() => loadNetwork('base', dir)).toThrow(expect.objectContaining({ code: 'INVALID_DEPLOYMENT' }));
+  });
+
+  it('reads a deployment file and rejects one for another chain or with bad addresses', () => {
+    const file = join(dir, 'deployment.json');
+    writeFileSync(file, JSON.stringify({ chainId: 31337, entryPoint: VAULT, contracts: { insuranceVault: VAULT } }));
+
+    expect(loadNetwork('local', file)).toMatchObject({ entryPoint: VAULT, contracts: { insuranceVault: VAULT } });
+    expect(() => loadNetwork('base', file)).toThrow(expect.objectContaining({
+      code: 'INVALID_DEPLOYMENT',
+      message: `${file} is for chain 31337, not base (8453)`,
+    }));
+
+    writeFileSync(file, JSON.stringify({ chainId: 31337, contracts: { insuranceVault: '0x1234' } }));
+    expect(() => loadDeployment(file)).toThrow(`Invalid insuranceVault address in ${file}: 0x1234`);
+    writeFileSync(file, JSON.stringify({ chainId: 31337, contracts: { vault: VAULT } }));
+    expect(() => loadDeployment(file)).toThrow(`Unknown contract "vault" in ${file}`);
+  });
+});
@@ -2,11 +2,105 @@
  * Configuration for KYA Protocol integrations
  */
 
+import { readFileSync, readdirSync, statSync } from 'fs';
+import { readFile } from 'fs/promises';
+import { dirname, extname, join, resolve } from 'path';
+import { inspect } from 'util';
+import { ethers } from 'ethers';
+import { load as parseYaml } from 'js-yaml';
+import { EntryPointVersion } from './types';
+import { HttpTransportOptions } from './utils/http';
+import { ENTRY_POINT_V07_ADDRESS } from './entrypoint/userop';
+import { ConfigValidationError, KYASDKError } from './utils/errors';
+
+/**
+ * KYA contract addresses for a single network
+ */
+export interface KYAContractAddresses {
+  agentLicense?: string;
+  agentRegistry?: string;
+  reputationScore?: string;
+  insuranceVault?: string;
+  paymaster?: string;
+  merchantSDK?: string;
+  zkAdapter?: string;
+  oracleAdapter?: string;
+  accountImplementation?: string; // SimpleAccountImplementation used for agent TBAs
+}
+
+export type KYANetworkName = 'local' | 'base-sepolia' | 'base';
+
+export interface NetworkDefinition {
+  name: KYANetworkName;
+  chainId: number;
+  rpcUrl: string;
+  entryPoint?: string; // Deployed by DeployLocal (MockEntryPoint) on local
+  contracts: KYAContractAddresses;
+}
+
+/**
+ * Deployment read from JSON, see `loadDeployment`
+ */
+export interface Deployment {
+  chainId: number;
+  entryPoint?: string;
+  contracts: KYAContractAddresses;
+}
+
+/**
+ * Supported networks; contract addresses come from deployment files
+ */
+export const NETWORKS: Readonly<Record<KYANetworkName, Readonly<NetworkDefinition>>> = {
+  local: {
+    name: 'local',
+    chainId: 31337,
+    rpcUrl: 'http://127.0.0.1:8545',
+    contracts: {},
+  },
+  'base-sepolia': {
+    name: 'base-sepolia',
+    chainId: 84532,
+    rpcUrl: 'https://sepolia.base.org',
+    entryPoint: ENTRY_POINT_V07_ADDRESS,
+    contracts: {},
+  },
+  base: {
+    name: 'base',
+    chainId: 8453,
+    rpcUrl: 'https://mainnet.base.org',
+    entryPoint: ENTRY_POINT_V07_ADDRESS,
+    contracts: {},
+  },
+};
+
+const NETWORK_ALIASES: Record<string, KYANetworkName> = {
+  anvil: 'local',
+  localhost: 'local',
+  'base-mainnet': 'base',
+};
+
+// Contract names as deployed by script/Deploy*.s.sol and script/SetupIntegrations.s.sol
+const DEPLOYED_CONTRACTS: Record<string, keyof KYAContractAddresses> = {
+  AgentLicense: 'agentLicense',
+  AgentRegistry: 'agentRegistry',
+  ReputationScore: 'reputationScore',
+  InsuranceVault: 'insuranceVault',
+  Paymaster: 'paymaster',
+  MerchantSDK: 'merchantSDK',
+  ZKAdapter: 'zkAdapter',
+  OracleAdapter: 'oracleAdapter',
+  SimpleAccountImplementation: 'accountImplementation',
+};
+
 export interface AxiomConfig {
   apiKey: string;
   address?: string;
   network: string;
   baseUrl?: string;
+  proofTypes?: string[]; // Proof types served by this coprocessor (all when omitted)
+  pollInterval?: number; // Milliseconds between proof status polls
+  pollAttempts?: number; // Status polls before a proof times out
+  http?: HttpTransportOptions; // Timeout, rate limit, circuit breaker and interceptors
 }
 
 export interface BrevisConfig {
@@ -14,6 +108,10 @@ export interface BrevisConfig {
   address?: string;
   network: string;
   baseUrl?: string;
+  proofTypes?: string[]; // Proof types served by this coprocessor (all when omitted)
+  pollInterval?: number; // Milliseconds between proof status polls
+  pollAttempts?: number; // Status polls before a proof times out
+  http?: HttpTransportOptions; // Timeout, rate limit, circuit breaker and interceptors
 }
 
 export interface UMAConfig {
@@ -21,6 +119,7 @@ export interface UMAConfig {
   address?: string;
   network: string;
   baseUrl?: string;
+  http?: HttpTransportOptions; // Timeout, rate limit, circuit breaker and interceptors
 }
 
 export interface KlerosConfig {
@@ -28,11 +127,18 @@ export interface KlerosConfig {
   address?: string;
   network: string;
   baseUrl?: string;
+  http?: HttpTransportOptions; // Timeout, rate limit, circuit breaker and interceptors
 }
 
 export interface EntryPointConfig {
   address: string;
   network: string;
+  version?: EntryPointVersion; // Detected from the address when omitted
+  chainId?: number; // Read from the provider when omitted
+  paymasterAddress?: string;
+  bundlerUrl?: string;
+  beneficiary?: string; // Receives handleOps fees when self-bundling
+  http?: HttpTransportOptions; // Timeout, rate limit, circuit breaker and interceptors for bundler requests
 }
 
 export interface IntegrationConfig {
@@ -42,44 +148,559 @@ export interface IntegrationConfig {
   kleros?: KlerosConfig;
   entryPoint?: EntryPointConfig;
   rpcUrl?: string;
-  privateKey?: string;
+  signer?: SignerSource;
+  network?: NetworkDefinition;
+}
+
+/**
+ * Where the transaction signer comes from, see `createSigner`
+ */
+export type SignerSource =
+  | { type: 'privateKey'; privateKey: string }
+  | { type: 'keystore'; path: string; password: string } // Encrypted JSON wallet
+  | { type: 'external'; getSigner: (provider?: ethers.Provider) => ethers.Signer | Promise<ethers.Signer> }; // KMS, hardware wallet, ...
+
+/**
+ * Configuration as written in a file or passed as overrides; service
+ * sections inherit `network`
+ */
+export interface ConfigInput {
+  network?: string;
+  /** Deployment JSON or broadcast directory, see `loadDeployment` */
+  deployment?: string;
+  rpcUrl?: string;
+  signer?: Partial<SignerSource>;
+  axiom?: Partial<Omit<AxiomConfig, 'network'>>;
+  brevis?: Partial<Omit<BrevisConfig, 'network'>>;
+  uma?: Partial<Omit<UMAConfig, 'network'>>;
+  kleros?: Partial<Omit<KlerosConfig, 'network'>>;
+  entryPoint?: Partial<Omit<EntryPointConfig, 'network' | 'chainId'>>;
+}
+
+export interface LoadConfigOptions {
+  /** JSON or YAML file (default: the KYA_CONFIG environment variable) */
+  file?: string;
+  /** Environment variables, applied over the file (default process.env) */
+  env?: Record<string, string | undefined>;
+  /** Applied last, over the file and the environment */
+  overrides?: ConfigInput;
 }
 
 /**
- * Load configuration from environment variables
+ * Look up a supported network by name ('anvil' is an alias of 'local')
+ * @throws KYASDKError UNKNOWN_NETWORK for any other name
  */
-export function loadConfig(): IntegrationConfig {
+export function getNetwork(name: string): NetworkDefinition {
+  const key = Object.prototype.hasOwnProperty.call(NETWORK_ALIASES, name) ? NETWORK_ALIASES[name] : name;
+  if (!Object.prototype.hasOwnProperty.call(NETWORKS, key)) {
+    throw new KYASDKError(
+      `Unknown network "${name}" (expected one of ${Object.keys(NETWORKS).join(', ')})`,
+      'UNKNOWN_NETWORK'
+    );
+  }
+  const network = NETWORKS[key as KYANetworkName];
+  return { ...network, contracts: { ...network.contracts } };
+}
+
+/**
+ * Look up a supported network by chain ID
+ * @throws KYASDKError UNKNOWN_NETWORK for other chains
+ */
+export function getNetworkByChainId(chainId: number | bigint): NetworkDefinition {
+  const network = Object.values(NETWORKS).find((candidate) => candidate.chainId === Number(chainId));
+  if (!network) {
+    throw new KYASDKError(`Unknown chain ID ${chainId}`, 'UNKNOWN_NETWORK');
+  }
+  return getNetwork(network.name);
+}
+
+/**
+ * Read the addresses of a deployment
+ * @param path One of:
+ *   - a Foundry broadcast (`broadcast/DeployBaseSepolia.s.sol/84532/run-latest.json`)
+ *   - a broadcast directory (`broadcast/`), merging the latest run of every script
+ *     for `chainId` so DeployX and SetupIntegrations combine
+ *   - a `{ chainId, entryPoint?, contracts }` file
+ * @throws KYASDKError INVALID_DEPLOYMENT for unreadable files or bad addresses
+ */
+export function loadDeployment(path: string, chainId?: number): Deployment {
+  if (statSync(path).isDirectory()) {
+    if (chainId === undefined) {
+      throw new KYASDKError(`Chain ID required to read broadcasts in ${path}`, 'INVALID_DEPLOYMENT');
+    }
+    const runs = readdirSync(path)
+      .map((script) => join(path, script, String(chainId), 'run-latest.json'))
+      .filter((file) => statSync(file, { throwIfNoEntry: false })?.isFile())
+      .map((file) => ({ file, json: readDeploymentJson(file) }))
+      .sort((a, b) => (a.json.timestamp ?? 0) - (b.json.timestamp ?? 0));
+    if (runs.length === 0) {
+      throw new KYASDKError(`No broadcasts for chain ${chainId} in ${path}`, 'INVALID_DEPLOYMENT');
+    }
+
+    // Later runs override earlier ones
+    return runs
+      .map(({ file, json }) => parseDeployment(file, json))
+      .reduce((merged, run) => ({
+        chainId: run.chainId,
+        entryPoint: run.entryPoint ?? merged.entryPoint,
+        contracts: { ...merged.contracts, ...run.contracts },
+      }));
+  }
+
+  return parseDeployment(path, readDeploymentJson(path));
+}
+
+/**
+ * Resolve a network and overlay a deployment's addresses
+ * @param deployment Path accepted by `loadDeployment`
+ * @throws KYASDKError UNKNOWN_NETWORK, or INVALID_DEPLOYMENT when the deployment is for another chain
+ */
+export function loadNetwork(name: string, deployment?: string): NetworkDefinition {
+  const network = getNetwork(name);
+  if (!deployment) {
+    return network;
+  }
+
+  const deployed = loadDeployment(deployment, network.chainId);
+  if (deployed.chainId !== network.chainId) {
+    throw new KYASDKError(
+      `${deployment} is for chain ${deployed.chainId}, not ${network.name} (${network.chainId})`,
+      'INVALID_DEPLOYMENT'
+    );
+  }
   return {
-    axiom: process.env.AXIOM_API_KEY ? {
-      apiKey: process.env.AXIOM_API_KEY,
-      address: process.env.AXIOM_ADDRESS,
-      network: process.env.NETWORK || 'base-sepolia',
-      baseUrl: process.env.AXIOM_BASE_URL
-    } : undefined,
-    brevis: process.env.BREVIS_API_KEY ? {
-      apiKey: process.env.BREVIS_API_KEY,
-      address: process.env.BREVIS_ADDRESS,
-      network: process.env.NETWORK || 'base-sepolia',
-      baseUrl: process.env.BREVIS_BASE_URL
-    } : undefined,
-    uma: process.env.UMA_API_KEY ? {
-      apiKey: process.env.UMA_API_KEY,
-      address: process.env.UMA_ADDRESS,
-      network: process.env.NETWORK || 'base-sepolia',
-      baseUrl: process.env.UMA_BASE_URL
-    } : undefined,
-    kleros: process.env.KLEROS_API_KEY ? {
-      apiKey: process.env.KLEROS_API_KEY,
-      address: process.env.KLEROS_ADDRESS,
-      network: process.env.NETWORK || 'base-sepolia',
-      baseUrl: process.env.KLEROS_BASE_URL
+    ...network,
+    entryPoint: deployed.entryPoint ?? network.entryPoint,
+    contracts: { ...network.contracts, ...deployed.contracts },
+  };
+}
+
+function readDeploymentJson(file: string): any {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    throw new KYASDKError(`Cannot read deployment ${file}: ${(error as Error).message}`, 'INVALID_DEPLOYMENT');
+  }
+}
+
+function parseDeployment(file: string, json: any): Deployment {
+  const address = (value: unknown, field: string): string => {
+    if (typeof value !== 'string' || !ethers.isAddress(value)) {
+      throw new KYASDKError(`Invalid ${field} address in ${file}: ${value}`, 'INVALID_DEPLOYMENT');
+    }
+    return ethers.getAddress(value);
+  };
+
+  // Foundry broadcast: CREATE transactions named after the deployed contract
+  if (Array.isArray(json?.transactions)) {
+    const deployment: Deployment = { chainId: Number(json.chain), contracts: {} };
+    for (const tx of json.transactions) {
+      if (tx.transactionType !== 'CREATE' && tx.transactionType !== 'CREATE2') {
+        continue;
+      }
+      if (tx.contractName === 'MockEntryPoint') {
+        deployment.entryPoint = address(tx.contractAddress, tx.contractName);
+      } else if (DEPLOYED_CONTRACTS[tx.contractName]) {
+        deployment.contracts[DEPLOYED_CONTRACTS[tx.contractName]] = address(tx.contractAddress, tx.contractName);
+      }
+    }
+    if (!Number.isInteger(deployment.chainId)) {
+      throw new KYASDKError(`Missing chain in ${file}`, 'INVALID_DEPLOYMENT');
+    }
+    return deployment;
+  }
+
+  if (!Number.isInteger(json?.chainId) || typeof json.contracts !== 'object' || json.contracts === null) {
+    throw new KYASDKError(`${file} is neither a broadcast nor a { chainId, contracts } deployment`, 'INVALID_DEPLOYMENT');
+  }
+  const known = new Set<string>(Object.values(DEPLOYED_CONTRACTS));
+  const contracts: KYAContractAddresses = {};
+  for (const [key, value] of Object.entries(json.contracts)) {
+    if (!known.has(key)) {
+      throw new KYASDKError(`Unknown contract "${key}" in ${file}`, 'INVALID_DEPLOYMENT');
+    }
+    contracts[key as keyof KYAContractAddresses] = address(value, key);
+  }
+  return {
+    chainId: json.chainId,
+    entryPoint: json.entryPoint === undefined ? undefined : address(json.entryPoint, 'entryPoint'),
+    contracts,
+  };
+}
+
+/**
+ * Load configuration from a JSON/YAML file, environment variables and code,
+ * in increasing precedence, and validate the result
+ * NETWORK defaults to base-sepolia; KYA_DEPLOYMENT points at the deployment
+ * JSON (or broadcast directory) holding its contract addresses
+ * The returned config redacts its secrets when logged or serialized
+ * @throws ConfigValidationError listing every invalid, unknown or empty setting
+ */
+export function loadConfig(options: LoadConfigOptions = {}): IntegrationConfig {
+  const env = options.env ?? process.env;
+  const issues: string[] = [];
+  const file = options.file ?? readEnv(env, 'KYA_CONFIG', issues);
+
+  const input = [file ? readConfigFile(file) : {}, readEnvConfig(env, issues), options.overrides ?? {}].reduce(mergeConfig);
+  validateSection(CONFIG_SCHEMA, input, '', issues);
+  if (issues.length > 0) {
+    throw new ConfigValidationError(issues);
+  }
+
+  const network = loadNetwork(input.network ?? 'base-sepolia', input.deployment);
+  const service = <T extends object>(section: T | undefined) =>
+    section ? ({ ...section, network: network.name } as T & { network: string }) : undefined;
+  const entryPointAddress = input.entryPoint?.address ?? network.entryPoint;
+
+  const config: IntegrationConfig = {
+    axiom: service(input.axiom) as AxiomConfig | undefined,
+    brevis: service(input.brevis) as BrevisConfig | undefined,
+    uma: service(input.uma) as UMAConfig | undefined,
+    kleros: service(input.kleros) as KlerosConfig | undefined,
+    entryPoint: entryPointAddress ? {
+      ...input.entryPoint,
+      address: entryPointAddress,
+      network: network.name,
+      chainId: network.chainId,
+      paymasterAddress: input.entryPoint?.paymasterAddress ?? network.contracts.paymaster
     } : undefined,
-    entryPoint: {
-      address: process.env.ENTRY_POINT_ADDRESS || '0x0000000071727De22E5E9d8BAf0edAc6f37da032',
-      network: process.env.NETWORK || 'base-sepolia'
-    },
-    rpcUrl: process.env.RPC_URL,
-    privateKey: process.env.PRIVATE_KEY
+    rpcUrl: input.rpcUrl ?? network.rpcUrl,
+    signer: input.signer as SignerSource | undefined,
+    network
+  };
+
+  // console.log(config) and JSON.stringify(config) show the redacted copy
+  return Object.defineProperties(config, {
+    toJSON: { value: () => redactConfig(config) },
+    [inspect.custom]: { value: () => redactConfig(config) },
+  });
+}
+
+/**
+ * Copy of a config with API keys, private keys, passwords and the path and
+ * query of RPC/bundler URLs (which often embed API keys) masked
+ */
+export function redactConfig<T>(config: T): T {
+  const redact = (value: unknown, key?: string): unknown => {
+    if (typeof value === 'string' && key && SECRET_KEYS.has(key)) {
+      return REDACTED;
+    }
+    if (typeof value === 'string' && key && SECRET_URL_KEYS.has(key)) {
+      try {
+        const url = new URL(value);
+        return url.pathname === '/' && !url.search && !url.username ? value : `${url.protocol}//${url.host}/${REDACTED}`;
+      } catch {
+        return REDACTED;
+      }
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => redact(item));
+    }
+    if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(Object.entries(value).map(([field, item]) => [field, redact(item, field)]));
+    }
+    return value;
   };
+  return redact(config) as T;
+}
+
+/**
+ * Create the signer a config describes
+ * @throws KYASDKError SIGNER_UNAVAILABLE when the key cannot be loaded or decrypted
+ */
+export async function createSigner(source: SignerSource, provider?: ethers.Provider): Promise<ethers.Signer> {
+  try {
+    switch (source.type) {
+      case 'privateKey':
+        return new ethers.Wallet(source.privateKey, provider);
+      case 'keystore': {
+        const wallet = await ethers.Wallet.fromEncryptedJson(await readFile(source.path, 'utf8'), source.password);
+        return wallet.connect(provider ?? null);
+      }
+      case 'external':
+        return await source.getSigner(provider);
+    }
+  } catch (error) {
+    throw new KYASDKError(
+      `Cannot load ${source.type} signer: ${(error as Error).message}`,
+      'SIGNER_UNAVAILABLE',
+      error as Error
+    );
+  }
+}
+
+const REDACTED = '[REDACTED]';
+const SECRET_KEYS = new Set(['apiKey', 'privateKey', 'password']);
+const SECRET_URL_KEYS = new Set(['rpcUrl', 'bundlerUrl']);
+
+type FieldSchema =
+  | { type: 'string' | 'url' | 'address' | 'privateKey' | 'function'; required?: boolean; values?: readonly string[] }
+  | { type: 'integer'; required?: boolean; min: number }
+  | { type: 'number'; required?: boolean } // Positive
+  | { type: 'list'; items: FieldSchema; required?: boolean }
+  | { type: 'section'; fields: SectionSchema; required?: boolean }
+  // Object whose `type` field selects its schema
+  | { type: 'variant'; variants: Record<string, SectionSchema>; required?: boolean };
+
+type SectionSchema = Record<string, FieldSchema>;
+
+const HTTP_SCHEMA: FieldSchema = {
+  type: 'section',
+  fields: {
+    timeout: { type: 'integer', min: 0 },
+    rateLimit: {
+      type: 'section',
+      fields: { requestsPerSecond: { type: 'number', required: true }, burst: { type: 'integer', min: 1 } },
+    },
+    circuitBreaker: {
+      type: 'section',
+      fields: { failureThreshold: { type: 'integer', min: 1 }, resetTimeout: { type: 'integer', min: 0 } },
+    },
+    interceptors: { type: 'list', items: { type: 'section', fields: {
+      request: { type: 'function' },
+      response: { type: 'function' },
+      error: { type: 'function' },
+    } } },
+  },
+};
+
+const SERVICE_SCHEMA: SectionSchema = {
+  apiKey: { type: 'string', required: true },
+  address: { type: 'address' },
+  baseUrl: { type: 'url' },
+  http: HTTP_SCHEMA,
+};
+
+const COPROCESSOR_SCHEMA: SectionSchema = {
+  ...SERVICE_SCHEMA,
+  proofTypes: { type: 'list', items: { type: 'string' } },
+  pollInterval: { type: 'integer', min: 1 },
+  pollAttempts: { type: 'integer', min: 1 },
+};
+
+const CONFIG_SCHEMA: SectionSchema = {
+  network: { type: 'string', values: [...Object.keys(NETWORKS), ...Object.keys(NETWORK_ALIASES)] },
+  deployment: { type: 'string' },
+  rpcUrl: { type: 'url' },
+  signer: {
+    type: 'variant',
+    variants: {
+      privateKey: { privateKey: { type: 'privateKey', required: true } },
+      keystore: { path: { type: 'string', required: true }, password: { type: 'string', required: true } },
+      external: { getSigner: { type: 'function', required: true } },
+    },
+  },
+  axiom: { type: 'section', fields: COPROCESSOR_SCHEMA },
+  brevis: { type: 'section', fields: COPROCESSOR_SCHEMA },
+  uma: { type: 'section', fields: SERVICE_SCHEMA },
+  kleros: { type: 'section', fields: SERVICE_SCHEMA },
+  entryPoint: {
+    type: 'section',
+    fields: {
+      address: { type: 'address' },
+      version: { type: 'string', values: ['0.6', '0.7'] },
+      paymasterAddress: { type: 'address' },
+      bundlerUrl: { type: 'url' },
+      beneficiary: { type: 'address' },
+      http: HTTP_SCHEMA,
+    },
+  },
+};
+
+// Environment variable for each config path
+const ENV_VARS: [string, string][] = [
+  ['NETWORK', 'network'],
+  ['KYA_DEPLOYMENT', 'deployment'],
+  ['RPC_URL', 'rpcUrl'],
+  ...['axiom', 'brevis', 'uma', 'kleros'].flatMap((service): [string, string][] => [
+    [`${service.toUpperCase()}_API_KEY`, `${service}.apiKey`],
+    [`${service.toUpperCase()}_ADDRESS`, `${service}.address`],
+    [`${service.toUpperCase()}_BASE_URL`, `${service}.baseUrl`],
+  ]),
+  ['ENTRY_POINT_ADDRESS', 'entryPoint.address'],
+  ['PAYMASTER_ADDRESS', 'entryPoint.paymasterAddress'],
+  ['BUNDLER_URL', 'entryPoint.bundlerUrl'],
+  ['BENEFICIARY_ADDRESS', 'entryPoint.beneficiary'],
+];
+
+/**
+ * Read a variable, reporting one that is set but empty (it would otherwise
+ * silently disable the setting)
+ */
+function readEnv(env: Record<string, string | undefined>, name: string, issues: string[]): string | undefined {
+  const value = env[name];
+  if (value !== undefined && value.trim() === '') {
+    issues.push(`${name}: set but empty (unset it instead)`);
+    return undefined;
+  }
+  return value;
+}
+
+function readEnvConfig(env: Record<string, string | undefined>, issues: string[]): ConfigInput {
+  const input: Record<string, any> = {};
+  for (const [name, path] of ENV_VARS) {
+    const value = readEnv(env, name, issues);
+    if (value !== undefined) {
+      const [section, field] = path.split('.');
+      if (field) {
+        input[section] = { ...input[section], [field]: value };
+      } else {
+        input[section] = value;
+      }
+    }
+  }
+
+  const privateKey = readEnv(env, 'PRIVATE_KEY', issues);
+  const keystore = readEnv(env, 'KEYSTORE_PATH', issues);
+  const password = readEnv(env, 'KEYSTORE_PASSWORD', issues);
+  if (privateKey && keystore) {
+    issues.push('PRIVATE_KEY, KEYSTORE_PATH: set only one signer source');
+  }
+  if (privateKey) {
+    input.signer = { type: 'privateKey', privateKey };
+  } else if (keystore || password) {
+    // A password alone completes a keystore named in the config file
+    input.signer = { type: 'keystore', path: keystore, password };
+  }
+  return input;
 }
 
+function readConfigFile(file: string): ConfigInput {
+  let input: any;
+  try {
+    const text = readFileSync(file, 'utf8');
+    const extension = extname(file).toLowerCase();
+    if (extension === '.json') {
+      input = JSON.parse(text);
+    } else if (extension === '.yaml' || extension === '.yml') {
+      input = parseYaml(text, { filename: file });
+    } else {
+      throw new Error('expected a .json, .yaml or .yml file');
+    }
+  } catch (error) {
+    throw new ConfigValidationError([`${file}: ${(error as Error).message}`]);
+  }
+  if (input === null || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ConfigValidationError([`${file}: expected a mapping of settings`]);
+  }
+
+  // Paths in the file are relative to it
+  const base = dirname(resolve(file));
+  if (typeof input.deployment === 'string') {
+    input.deployment = resolve(base, input.deployment);
+  }
+  if (typeof input.signer?.path === 'string') {
+    input.signer.path = resolve(base, input.signer.path);
+  }
+  return input;
+}
+
+/**
+ * Merge a config layer over another: sections merge field by field, except a
+ * signer of a different type, which replaces the lower one
+ */
+function mergeConfig(lower: ConfigInput, upper: ConfigInput): ConfigInput {
+  const merged: Record<string, any> = { ...lower };
+  for (const [key, value] of Object.entries(upper)) {
+    if (value === undefined) {
+      continue;
+    }
+    const current = merged[key];
+    const replace =
+      !isPlainObject(value) ||
+      !isPlainObject(current) ||
+      (key === 'signer' && value.type !== undefined && current.type !== undefined && value.type !== current.type);
+    merged[key] = replace
+      ? value
+      : { ...current, ...Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) };
+  }
+  return merged;
+}
+
+function validateSection(schema: SectionSchema, value: unknown, path: string, issues: string[]): void {
+  if (!isPlainObject(value)) {
+    issues.push(`${path}: expected a mapping`);
+    return;
+  }
+  for (const key of Object.keys(value)) {
+    if (!(key in schema)) {
+      issues.push(`${path ? `${path}.` : ''}${key}: unknown setting`);
+    }
+  }
+  for (const [key, field] of Object.entries(schema)) {
+    validateField(field, value[key], path ? `${path}.${key}` : key, issues);
+  }
+}
+
+function validateField(schema: FieldSchema, value: unknown, path: string, issues: string[]): void {
+  if (value === undefined || value === null) {
+    if (schema.required) {
+      issues.push(`${path}: required`);
+    }
+    return;
+  }
+
+  switch (schema.type) {
+    case 'string':
+      // Values are left out of messages, since they may be secrets
+      if (typeof value !== 'string' || value.trim() === '') {
+        issues.push(`${path}: expected a non-empty string`);
+      } else if (schema.values && !schema.values.includes(value)) {
+        issues.push(`${path}: expected one of ${schema.values.join(', ')}, got "${value}"`);
+      }
+      break;
+    case 'url':
+      if (typeof value !== 'string' || !/^(https?|wss?):\/\/[^\s/]+/.test(value)) {
+        issues.push(`${path}: expected an http(s) or ws(s) URL`);
+      }
+      break;
+    case 'address':
+      if (typeof value !== 'string' || !ethers.isAddress(value)) {
+        issues.push(`${path}: expected an address, got ${JSON.stringify(value)}`);
+      }
+      break;
+    case 'privateKey':
+      if (typeof value !== 'string' || !ethers.isHexString(value.startsWith('0x') ? value : `0x${value}`, 32)) {
+        issues.push(`${path}: expected a 32-byte hex private key`);
+      }
+      break;
+    case 'function':
+      if (typeof value !== 'function') {
+        issues.push(`${path}: expected a function`);
+      }
+      break;
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value) || value < schema.min) {
+        issues.push(`${path}: expected an integer of at least ${schema.min}`);
+      }
+      break;
+    case 'number':
+      if (typeof value !== 'number' || !(value > 0) || !Number.isFinite(value)) {
+        issues.push(`${path}: expected a positive number`);
+      }
+      break;
+    case 'list':
+      if (!Array.isArray(value)) {
+        issues.push(`${path}: expected a list`);
+      } else {
+        value.forEach((item, index) => validateField(schema.items, item, `${path}[${index}]`, issues));
+      }
+      break;
+    case 'section':
+      validateSection(schema.fields, value, path, issues);
+      break;
+    case 'variant': {
+      const type = isPlainObject(value) ? value.type : undefined;
+      if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(schema.variants, type)) {
+        issues.push(`${path}.type: expected one of ${Object.keys(schema.variants).join(', ')}`);
+      } else {
+        validateSection({ type: { type: 'string' }, ...schema.variants[type] }, value, path, issues);
+      }
+      break;
+    }
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,90 @@
+/**
+ * AgentLicense Contract Helper
+ * Helper functions for interacting with AgentLicense NFT contract
+ */
+
+import { ethers } from 'ethers';
+import { AgentLicense, connectAgentLicense } from '../generated/AgentLicense';
+import { WriteOptions, WriteResult, findEvent, sendTransaction } from './transaction';
+import { SignerRequiredError } from '../utils/errors';
+
+export interface AgentMetadata {
+  name: string;
+  description: string;
+  category: string;
+  createdAt: bigint;
+  status: number; // 0=Active, 1=Suspended, 2=Revoked
+}
+
+export interface AgentStatusChange {
+  tokenId: bigint;
+  oldStatus: number;
+  newStatus: number;
+}
+
+export class AgentLicenseContract {
+  private contract: AgentLicense;
+  private signer?: ethers.Signer;
+
+  constructor(
+    address: string,
+    provider: ethers.Provider,
+    signer?: ethers.Signer
+  ) {
+    this.signer = signer;
+    this.contract = connectAgentLicense(address, signer || provider);
+  }
+
+  /**
+   * Get the metadata for an agent
+   */
+  async getAgentMetadata(tokenId: number | bigint): Promise<AgentMetadata> {
+    const metadata = await this.contract.getAgentMetadata(tokenId);
+    return {
+      name: metadata.name,
+      description: metadata.description,
+      category: metadata.category,
+      createdAt: metadata.createdAt,
+      status: Number(metadata.status),
+    };
+  }
+
+  /**
+   * Update an agent's status (requires admin role)
+   * @param newStatus 0=Active, 1=Suspended, 2=Revoked
+   */
+  async updateAgentStatus<O extends WriteOptions>(
+    tokenId: number | bigint,
+    newStatus: number,
+    options?: O
+  ): Promise<WriteResult<AgentStatusChange, O>> {
+    if (!this.signer) {
+      throw new SignerRequiredError('AgentLicense', 'updateAgentStatus');
+    }
+    return await sendTransaction(this.contract.updateAgentStatus(tokenId, newStatus), (receipt) => {
+      const { args } = findEvent(this.contract.interface, receipt, 'AgentStatusChanged', this.contract.target as string);
+      return { tokenId: args.tokenId, oldStatus: Number(args.oldStatus), newStatus: Number(args.newStatus) };
+    }, options);
+  }
+
+  /**
+   * Get the token URI for an agent
+   */
+  async tokenURI(tokenId: number | bigint): Promise<string> {
+    return await this.contract.tokenURI(tokenId);
+  }
+
+  /**
+   * Get the owner of an agent NFT
+   */
+  async ownerOf(tokenId: number | bigint): Promise<string> {
+    return await this.contract.ownerOf(tokenId);
+  }
+
+  /**
+   * Get the total number of agents minted
+   */
+  async totalSupply(): Promise<bigint> {
+    return await this.contract.totalSupply();
+  }
+}
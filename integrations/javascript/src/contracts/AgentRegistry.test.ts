@@ -0,0 +1,190 @@
+/**
+ * AgentRegistry and AgentLicense wrapper tests (in-process chain stub)
+ */
+
+import { ethers } from 'ethers';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { AgentRegistryContract } from './AgentRegistry';
+import { AgentLicenseContract } from './AgentLicense';
+import { AgentRegistryAbi } from '../generated/AgentRegistry';
+import { AgentLicenseAbi } from '../generated/AgentLicense';
+
+const CHAIN_ID = 31337n;
+const REGISTRY = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const LICENSE = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const TBA = '0x1306b01bC3e4AD202612D3843387e94737673F53';
+const AGENT_ID = ethers.id('agent-7');
+const FEE = 10n ** 15n;
+
+// Hardhat/anvil account #1
+const OWNER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const OWNER = new ethers.Wallet(OWNER_KEY).address;
+
+const registryInterface = new ethers.Interface(AgentRegistryAbi);
+const licenseInterface = new ethers.Interface(AgentLicenseAbi);
+
+interface ChainLog {
+  address: string;
+  topics: readonly string[];
+  data: string;
+}
+
+/**
+ * Provider answering the registry and license view calls, with receipts
+ * holding the logs `mined` for each transaction hash
+ */
+function fakeProvider(mined: Map<string, ChainLog[]>) {
+  const answer = (iface: ethers.Interface, data: string, handle: (name: string) => unknown[]) => {
+    const call = iface.parseTransaction({ data })!;
+    return iface.encodeFunctionResult(call.fragment, handle(call.name));
+  };
+
+  const provider = {
+    call: jest.fn(async (tx: ethers.TransactionRequest) => {
+      if (ethers.getAddress(tx.to as string) === REGISTRY) {
+        return answer(registryInterface, tx.data!, (name) => {
+          switch (name) {
+            case 'getMintingFee':
+              return [FEE];
+            case 'agentLicense':
+              return [LICENSE];
+            case 'getAgentInfo':
+            case 'getAgentInfoByTokenId':
+              return [[7n, TBA, OWNER, 1700000000n]];
+            default:
+              throw new Error(`unexpected registry call ${name}`);
+          }
+        });
+      }
+      return answer(licenseInterface, tx.data!, (name) => {
+        switch (name) {
+          case 'getAgentMetadata':
+            return [['Shopper', 'Buys things', 'commerce', 1700000000n, 1n]];
+          case 'tokenURI':
+            return ['ipfs://agent-7'];
+          default:
+            throw new Error(`unexpected license call ${name}`);
+        }
+      });
+    }),
+    getNetwork: async () => new ethers.Network('anvil', CHAIN_ID),
+    getTransactionReceipt: async (hash: string) => new ethers.TransactionReceipt({
+      to: REGISTRY, from: OWNER, contractAddress: null, hash, index: 0, blockHash: ethers.ZeroHash, blockNumber: 12,
+      logsBloom: '0x', gasUsed: 250000n, cumulativeGasUsed: 250000n, gasPrice: 1n, blobGasUsed: null, blobGasPrice: null,
+      type: 2, status: 1, root: null,
+      logs: (mined.get(hash) ?? []).map((log, index) => ({
+        ...log, index, transactionHash: hash, transactionIndex: 0, blockHash: ethers.ZeroHash, blockNumber: 12, removed: false,
+      })),
+    }, provider as any),
+  };
+  return provider;
+}
+
+/**
+ * Signer "mining" every transaction with the logs `emit` returns for it
+ */
+function fakeSigner(provider: ReturnType<typeof fakeProvider>, mined: Map<string, ChainLog[]>, emit: () => ChainLog[]) {
+  const wallet = new ethers.Wallet(OWNER_KEY, provider as any);
+  return Object.assign(wallet, {
+    sendTransaction: jest.fn(async (tx: ethers.TransactionRequest) => {
+      const hash = ethers.id(`tx ${mined.size}`);
+      mined.set(hash, emit());
+      return new ethers.TransactionResponse({
+        blockNumber: null, blockHash: null, hash, index: 0, type: 2, to: tx.to as string,
+        from: wallet.address, nonce: 0, gasLimit: 300000n, gasPrice: 1n, maxPriorityFeePerGas: 1n, maxFeePerGas: 1n,
+        maxFeePerBlobGas: null, data: tx.data!, value: BigInt(tx.value ?? 0), chainId: CHAIN_ID,
+        signature: ethers.Signature.from({ r: ethers.ZeroHash, s: ethers.ZeroHash, v: 27 }),
+        accessList: null, blobVersionedHashes: null, authorizationList: null,
+      }, provider as any);
+    }),
+  });
+}
+
+function agentCreated(address: string, tokenId: bigint, name: string): ChainLog {
+  return { address, ...registryInterface.encodeEventLog('AgentCreated', [AGENT_ID, tokenId, TBA, OWNER, name]) };
+}
+
+describe('AgentRegistryContract', () => {
+  let mined: Map<string, ChainLog[]>;
+  let provider: ReturnType<typeof fakeProvider>;
+  let logs: ChainLog[];
+  let signer: ReturnType<typeof fakeSigner>;
+  let registry: AgentRegistryContract;
+
+  beforeEach(() => {
+    mined = new Map();
+    provider = fakeProvider(mined);
+    logs = [];
+    signer = fakeSigner(provider, mined, () => logs);
+    registry = new AgentRegistryContract(REGISTRY, provider as any, signer);
+  });
+
+  it('mints an agent paying the minting fee and decodes the registry event', async () => {
+    // An AgentCreated log from another contract comes first and is skipped
+    logs = [agentCreated(LICENSE, 99n, 'Impostor'), agentCreated(REGISTRY, 7n, 'Shopper')];
+
+    await expect(registry.mintAgent('Shopper', 'Buys things', 'commerce')).resolves.toMatchObject({
+      agentId: AGENT_ID,
+      tokenId: 7n,
+      tbaAddress: TBA,
+      owner: OWNER,
+      name: 'Shopper',
+      blockNumber: 12,
+      gasUsed: 250000n,
+    });
+
+    const tx = signer.sendTransaction.mock.calls[0][0];
+    expect(tx).toMatchObject({ to: REGISTRY, value: FEE });
+    expect(registryInterface.decodeFunctionData('mintAgent', tx.data!)).toEqual(['Shopper', 'Buys things', 'commerce']);
+  });
+
+  it('returns the pending mint when not waiting', async () => {
+    logs = [agentCreated(REGISTRY, 7n, 'Shopper')];
+
+    const pending = await registry.mintAgent('Shopper', 'Buys things', 'commerce', { wait: false });
+
+    expect(mined.has(pending.transactionHash)).toBe(true);
+    await expect(pending.wait()).resolves.toMatchObject({ tokenId: 7n });
+  });
+
+  it('reads agent info and the license metadata', async () => {
+    const info = { tokenId: 7n, tbaAddress: TBA, owner: OWNER, createdAt: 1700000000n };
+
+    await expect(registry.getAgentInfo(AGENT_ID)).resolves.toEqual(info);
+    await expect(registry.getAgentInfoByTokenId(7)).resolves.toEqual(info);
+    await expect(registry.getAgentMetadata(7)).resolves.toEqual({
+      name: 'Shopper',
+      description: 'Buys things',
+      category: 'commerce',
+      createdAt: 1700000000n,
+      status: 1,
+    });
+    await expect(registry.tokenURI(7)).resolves.toBe('ipfs://agent-7');
+
+    // The license address is resolved from the registry once
+    const licenseLookups = provider.call.mock.calls.filter(
+      ([tx]) => registryInterface.parseTransaction({ data: tx.data! })?.name === 'agentLicense'
+    );
+    expect(licenseLookups).toHaveLength(1);
+  });
+
+  it('updates the agent status through the license', async () => {
+    logs = [{ address: LICENSE, ...licenseInterface.encodeEventLog('AgentStatusChanged', [7n, 0n, 2n]) }];
+
+    await expect(registry.updateAgentStatus(7, 2)).resolves.toMatchObject({ tokenId: 7n, oldStatus: 0, newStatus: 2 });
+
+    const tx = signer.sendTransaction.mock.calls[0][0];
+    expect(tx.to).toBe(LICENSE);
+    expect(licenseInterface.decodeFunctionData('updateAgentStatus', tx.data!)).toEqual([7n, 2n]);
+  });
+
+  it('requires a signer to write', async () => {
+    await expect(new AgentRegistryContract(REGISTRY, provider as any).mintAgent('a', 'b', 'c')).rejects.toMatchObject({
+      code: 'SIGNER_REQUIRED',
+    });
+    await expect(new AgentLicenseContract(LICENSE, provider as any).updateAgentStatus(7, 1)).rejects.toMatchObject({
+      code: 'SIGNER_REQUIRED',
+    });
+    expect(provider.call).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * AgentRegistry Contract Helper
+ * Helper functions for interacting with AgentRegistry contract
+ * and the AgentLicense NFT it mints
+ */
+
+import { ethers } from 'ethers';
+import { AgentRegistry, AgentInfo, connectAgentRegistry } from '../generated/AgentRegistry';
+import { AgentLicenseContract, AgentMetadata, AgentStatusChange } from './AgentLicense';
+import { WriteOptions, WriteResult, findEvent, sendTransaction } from './transaction';
+import { SignerRequiredError } from '../utils/errors';
+
+export interface AgentRegistryInfo {
+  tokenId: bigint;
+  tbaAddress: string;
+  owner: string;
+  createdAt: bigint;
+}
+
+export interface AgentCreated {
+  agentId: string;
+  tokenId: bigint;
+  tbaAddress: string;
+  owner: string;
+  name: string;
+}
+
+export class AgentRegistryContract {
+  private contract: AgentRegistry;
+  private provider: ethers.Provider;
+  private signer?: ethers.Signer;
+  private license?: AgentLicenseContract;
+
+  constructor(
+    address: string,
+    provider: ethers.Provider,
+    signer?: ethers.Signer
+  ) {
+    this.provider = provider;
+    this.signer = signer;
+    this.contract = connectAgentRegistry(address, signer || provider);
+  }
+
+  /**
+   * Mint a new agent (creates NFT + TBA atomically)
+   * Pays the current minting fee automatically
+   * @returns Decoded AgentCreated event
+   */
+  async mintAgent<O extends WriteOptions>(
+    name: string,
+    description: string,
+    category: string,
+    options?: O
+  ): Promise<WriteResult<AgentCreated, O>> {
+    if (!this.signer) {
+      throw new SignerRequiredError('AgentRegistry', 'mintAgent');
+    }
+    const fee = await this.getMintingFee();
+    return await sendTransaction(this.contract.mintAgent(name, description, category, { value: fee }), (receipt) => {
+      const { args } = findEvent(this.contract.interface, receipt, 'AgentCreated', this.contract.target as string);
+      return {
+        agentId: args.agentId,
+        tokenId: args.tokenId,
+        tbaAddress: args.tbaAddress,
+        owner: args.owner,
+        name: args.name,
+      };
+    }, options);
+  }
+
+  /**
+   * Get agent information by agent ID
+   */
+  async getAgentInfo(agentId: string): Promise<AgentRegistryInfo> {
+    return this.toAgentInfo(await this.contract.getAgentInfo(agentId));
+  }
+
+  /**
+   * Get agent information by token ID
+   */
+  async getAgentInfoByTokenId(tokenId: number | bigint): Promise<AgentRegistryInfo> {
+    return this.toAgentInfo(await this.contract.getAgentInfoByTokenId(tokenId));
+  }
+
+  /**
+   * Compute the deterministic TBA address for a token
+   */
+  async computeTBAAddress(tokenId: number | bigint): Promise<string> {
+    return await this.contract.computeTBAAddress(tokenId);
+  }
+
+  /**
+   * Get the current minting fee in wei
+   */
+  async getMintingFee(): Promise<bigint> {
+    return await this.contract.getMintingFee();
+  }
+
+  /**
+   * Get the total number of agents created
+   */
+  async totalAgents(): Promise<bigint> {
+    return await this.contract.totalAgents();
+  }
+
+  /**
+   * Get the AgentLicense contract helper (resolved from the registry)
+   */
+  async getAgentLicense(): Promise<AgentLicenseContract> {
+    if (!this.license) {
+      const address = await this.contract.agentLicense();
+      this.license = new AgentLicenseContract(address, this.provider, this.signer);
+    }
+    return this.license;
+  }
+
+  /**
+   * Get the AgentLicense metadata for an agent
+   */
+  async getAgentMetadata(tokenId: number | bigint): Promise<AgentMetadata> {
+    return await (await this.getAgentLicense()).getAgentMetadata(tokenId);
+  }
+
+  /**
+   * Update an agent's status on AgentLicense (requires admin role)
+   * @param newStatus 0=Active, 1=Suspended, 2=Revoked
+   */
+  async updateAgentStatus<O extends WriteOptions>(
+    tokenId: number | bigint,
+    newStatus: number,
+    options?: O
+  ): Promise<WriteResult<AgentStatusChange, O>> {
+    return await (await this.getAgentLicense()).updateAgentStatus(tokenId, newStatus, options);
+  }
+
+  /**
+   * Get the AgentLicense token URI for an agent
+   */
+  async tokenURI(tokenId: number | bigint): Promise<string> {
+    return await (await this.getAgentLicense()).tokenURI(tokenId);
+  }
+
+  private toAgentInfo(info: AgentInfo): AgentRegistryInfo {
+    return {
+      tokenId: info.tokenId,
+      tbaAddress: info.tbaAddress,
+      owner: info.owner,
+      createdAt: info.createdAt,
+    };
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * InsuranceVault stake funding tests (in-process chain stub)
+ */
+
+import { ethers } from 'ethers';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { InsuranceVaultContract } from './InsuranceVault';
+import { ERC20_PERMIT_ABI, signPermit } from './erc20';
+import { InsuranceVaultAbi } from '../generated/InsuranceVault';
+import { AccountCall } from '../account/AgentAccount';
+import { InsufficientAllowanceError, InsufficientBalanceError } from '../utils/errors';
+
+const CHAIN_ID = 31337n;
+const VAULT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const USDC = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const TBA = '0x1306b01bC3e4AD202612D3843387e94737673F53';
+const TOKEN_ID = 7n;
+const AMOUNT = 1000_000000n;
+const STAKE_TX = `0x${'ab'.repeat(32)}`;
+
+// Hardhat/anvil accounts #1 (agent owner) and #2 (funder)
+const OWNER_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+const FUNDER_KEY = '0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a';
+
+const vaultInterface = new ethers.Interface(InsuranceVaultAbi);
+const tokenInterface = new ethers.Interface(ERC20_PERMIT_ABI);
+
+interface ChainState {
+  balances: Record<string, bigint>;
+  allowance: bigint;
+  /** Contract emitting the Staked log in the stake receipt */
+  stakedEmitter: string;
+}
+
+/**
+ * Provider answering the vault and USDC calls from `state` and mining any
+ * sent transaction into a receipt with a Staked log
+ */
+function fakeProvider(state: ChainState) {
+  const answer = (iface: ethers.Interface, data: string, handle: (name: string, args: ethers.Result) => unknown[]) => {
+    const call = iface.parseTransaction({ data })!;
+    return iface.encodeFunctionResult(call.fragment, handle(call.name, call.args));
+  };
+
+  const provider = {
+    call: jest.fn(async (tx: ethers.TransactionRequest) => {
+      if (ethers.getAddress(tx.to as string) === VAULT) {
+        return answer(vaultInterface, tx.data!, (name) => {
+          switch (name) {
+            case 'usdc':
+              return [USDC];
+            case 'getStakeInfo':
+              return [[0n, 0n, TBA, false]];
+            default:
+              throw new Error(`unexpected vault call ${name}`);
+          }
+        });
+      }
+      return answer(tokenInterface, tx.data!, (name, args) => {
+        switch (name) {
+          case 'name':
+            return ['USD Coin'];
+          case 'version':
+            return ['2'];
+          case 'nonces':
+            return [0n];
+          case 'balanceOf':
+            return [state.balances[ethers.getAddress(args[0])] ?? 0n];
+          case 'allowance':
+            return [state.allowance];
+          default:
+            throw new Error(`unexpected token call ${name}`);
+        }
+      });
+    }),
+    getNetwork: async () => new ethers.Network('anvil', CHAIN_ID),
+    getTransactionReceipt: async (hash: string) => {
+      const log = vaultInterface.encodeEventLog('Staked', [TOKEN_ID, AMOUNT, TBA]);
+      return new ethers.TransactionReceipt({
+        to: VAULT, from: TBA, contractAddress: null, hash, index: 0, blockHash: ethers.ZeroHash, blockNumber: 12,
+        logsBloom: '0x', gasUsed: 90000n, cumulativeGasUsed: 90000n, gasPrice: 1n, blobGasUsed: null, blobGasPrice: null,
+        type: 2, status: 1, root: null,
+        logs: [{
+          address: state.stakedEmitter, topics: log.topics, data: log.data, blockNumber: 12, blockHash: ethers.ZeroHash,
+          transactionHash: hash, transactionIndex: 0, index: 0, removed: false,
+        }],
+      }, provider as any);
+    },
+  };
+  return provider;
+}
+
+/**
+ * Signer that "sends" every transaction as STAKE_TX
+ */
+function fakeSigner(provider: ReturnType<typeof fakeProvider>) {
+  const wallet = new ethers.Wallet(OWNER_KEY, provider as any);
+  const signer = Object.assign(wallet, {
+    sendTransaction: jest.fn(async (tx: ethers.TransactionRequest) => new ethers.TransactionResponse({
+      blockNumber: null, blockHash: null, hash: STAKE_TX, index: 0, type: 2, to: tx.to as string, from: wallet.address,
+      nonce: 0, gasLimit: 100000n, gasPrice: 1n, maxPriorityFeePerGas: 1n, maxFeePerGas: 1n, maxFeePerBlobGas: null,
+      data: tx.data!, value: 0n, chainId: CHAIN_ID, signature: ethers.Signature.from({ r: ethers.ZeroHash, s: ethers.ZeroHash, v: 27 }),
+      accessList: null, blobVersionedHashes: null, authorizationList: null,
+    }, provider as any)),
+  });
+  return signer;
+}
+
+function fakeAccount(address = TBA) {
+  return {
+    address,
+    execute: jest.fn<(call: AccountCall) => Promise<unknown>>(async () => ({})),
+    executeBatch: jest.fn<(calls: AccountCall[]) => Promise<unknown>>(async () => ({})),
+  };
+}
+
+function decodeCall(call: AccountCall) {
+  return tokenInterface.parseTransaction({ data: call.data! })!;
+}
+
+describe('InsuranceVaultContract.stake', () => {
+  let state: ChainState;
+  let provider: ReturnType<typeof fakeProvider>;
+  let vault: InsuranceVaultContract;
+  let signer: ReturnType<typeof fakeSigner>;
+
+  beforeEach(() => {
+    state = { balances: { [TBA]: AMOUNT }, allowance: AMOUNT, stakedEmitter: VAULT };
+    provider = fakeProvider(state);
+    signer = fakeSigner(provider);
+    vault = new InsuranceVaultContract(VAULT, provider as any, signer);
+  });
+
+  it('stakes when the TBA already holds and has approved the amount', async () => {
+    const account = fakeAccount();
+
+    const result = await vault.stake(TOKEN_ID, AMOUNT, { account: account as any });
+
+    expect(result).toMatchObject({ tokenId: TOKEN_ID, amount: AMOUNT, tbaAddress: TBA, transactionHash: STAKE_TX, blockNumber: 12 });
+    expect(account.execute).not.toHaveBeenCalled();
+    expect(account.executeBatch).not.toHaveBeenCalled();
+    expect(vaultInterface.parseTransaction({ data: signer.sendTransaction.mock.calls[0][0].data! })).toMatchObject({
+      name: 'stake',
+      args: [TOKEN_ID, AMOUNT],
+    });
+  });
+
+  it('ignores Staked logs from other contracts', async () => {
+    state.stakedEmitter = USDC;
+
+    await expect(vault.stake(TOKEN_ID, AMOUNT)).rejects.toMatchObject({
+      code: 'EVENT_NOT_FOUND',
+      context: { txHash: STAKE_TX, event: 'Staked' },
+    });
+  });
+
+  it('reports the funding the stake draws on', async () => {
+    state.allowance = 5n;
+    await expect(vault.getStakeFunding(TOKEN_ID)).resolves.toEqual({ usdc: USDC, tbaAddress: TBA, balance: AMOUNT, allowance: 5n });
+  });
+
+  it('rejects a short balance without a permit source', async () => {
+    state.balances[TBA] = AMOUNT - 1n;
+
+    const error = await vault.stake(TOKEN_ID, AMOUNT).catch((e) => e);
+
+    expect(error).toBeInstanceOf(InsufficientBalanceError);
+    expect(error).toMatchObject({ account: TBA, balance: AMOUNT - 1n, required: AMOUNT });
+    expect(signer.sendTransaction).not.toHaveBeenCalled();
+  });
+
+  it('rejects a short allowance without the agent account', async () => {
+    state.allowance = 0n;
+
+    const error = await vault.stake(TOKEN_ID, AMOUNT).catch((e) => e);
+
+    expect(error).toBeInstanceOf(InsufficientAllowanceError);
+    expect(error).toMatchObject({ owner: TBA, spender: VAULT, allowance: 0n, required: AMOUNT });
+  });
+
+  it('approves the amount from the TBA, or the maximum when asked', async () => {
+    state.allowance = 0n;
+    const account = fakeAccount();
+
+    await vault.stake(TOKEN_ID, AMOUNT, { account: account as any });
+    await vault.stake(TOKEN_ID, AMOUNT, { account: account as any, approveMax: true });
+
+    const approvals = account.execute.mock.calls.map(([call]) => ({ target: call.target, ...decodeCall(call) }));
+    expect(approvals).toMatchObject([
+      { target: USDC, name: 'approve', args: [VAULT, AMOUNT] },
+      { target: USDC, name: 'approve', args: [VAULT, ethers.MaxUint256] },
+    ]);
+  });
+
+  it('tops up a short balance with a permit, transfer and approval in one batch', async () => {
+    const funder = new ethers.Wallet(FUNDER_KEY, provider as any);
+    state.balances[TBA] = 400_000000n;
+    state.balances[funder.address] = 5000_000000n;
+    state.allowance = 0n;
+    const account = fakeAccount();
+
+    await vault.stake(TOKEN_ID, AMOUNT, { account: account as any, permitFrom: funder, permitDeadline: 1900000000 });
+
+    const calls = account.executeBatch.mock.calls[0][0].map(decodeCall);
+    expect(calls.map((call) => call.name)).toEqual(['permit', 'transferFrom', 'approve']);
+    const [owner, spender, value, deadline, v, r, s] = calls[0].args;
+    expect([owner, spender, value, deadline]).toEqual([funder.address, TBA, 600_000000n, 1900000000n]);
+    expect(calls[1].args).toEqual([funder.address, TBA, 600_000000n]);
+    expect(calls[2].args).toEqual([VAULT, AMOUNT]);
+
+    // The permit verifies against USDC's EIP-712 domain
+    const signed = ethers.verifyTypedData(
+      { name: 'USD Coin', version: '2', chainId: CHAIN_ID, verifyingContract: USDC },
+      { Permit: [
+        { name: 'owner', type: 'address' },
+        { name: 'spender', type: 'address' },
+        { name: 'value', type: 'uint256' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+      ] },
+      { owner, spender, value, nonce: 0n, deadline },
+      ethers.Signature.from({ v, r, s })
+    );
+    expect(signed).toBe(funder.address);
+  });
+
+  it('rejects a funder who cannot cover the shortfall', async () => {
+    const funder = new ethers.Wallet(FUNDER_KEY, provider as any);
+    state.balances[TBA] = 0n;
+    state.balances[funder.address] = AMOUNT - 1n;
+
+    const error = await vault.stake(TOKEN_ID, AMOUNT, { account: fakeAccount() as any, permitFrom: funder }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(InsufficientBalanceError);
+    expect(error).toMatchObject({ account: funder.address, balance: AMOUNT - 1n, required: AMOUNT });
+  });
+
+  it('rejects an agent account that is not the TBA', async () => {
+    state.allowance = 0n;
+    const account = fakeAccount('0x70997970C51812dc3A010C7d01b50e0d17dc79C8');
+
+    await expect(vault.stake(TOKEN_ID, AMOUNT, { account: account as any })).rejects.toMatchObject({ code: 'ACCOUNT_MISMATCH' });
+    expect(account.execute).not.toHaveBeenCalled();
+  });
+
+  it('requires a signer', async () => {
+    const readOnly = new InsuranceVaultContract(VAULT, provider as any);
+    await expect(readOnly.stake(TOKEN_ID, AMOUNT)).rejects.toMatchObject({ code: 'SIGNER_REQUIRED' });
+  });
+});
+
+describe('signPermit', () => {
+  it('requires a signer connected to a provider', async () => {
+    const error = await signPermit(USDC, new ethers.Wallet(FUNDER_KEY), TBA, 1n, 1n).catch((e) => e);
+    expect(error).toMatchObject({ code: 'SIGNER_REQUIRED', context: { token: USDC } });
+  });
+});
@@ -4,134 +4,358 @@
  */
 
 import { ethers } from 'ethers';
+import { InsuranceVault, connectInsuranceVault } from '../generated/InsuranceVault';
+import { connectAgentRegistry } from '../generated/AgentRegistry';
+import { AccountCall, AgentAccount } from '../account/AgentAccount';
+import { InsufficientAllowanceError, InsufficientBalanceError, KYASDKError, SignerRequiredError } from '../utils/errors';
+import { NoResult, WriteOptions, WriteResult, findEvent, sendTransaction } from './transaction';
+import { SimulateOptions, Simulation, simulateTransaction } from './simulation';
+import { ERC20_PERMIT_ABI, signPermit } from './erc20';
 
 export interface StakeInfo {
   amount: bigint;
+  stakedAt: bigint;
+  tbaAddress: string;
   isVerified: boolean;
-  verifiedAt: bigint;
 }
 
 export interface Claim {
+  claimId: string;
   tokenId: bigint;
   merchant: string;
   amount: bigint;
   reason: string;
-  status: number; // 0=pending, 1=approved, 2=rejected
   submittedAt: bigint;
-  resolvedAt: bigint;
+  status: number; // 0=pending, 1=approved, 2=rejected, 3=challenged
+  challengeDeadline: bigint;
 }
 
+/**
+ * USDC available to a stake: the vault pulls it from the agent's TBA
+ */
+export interface StakeFunding {
+  usdc: string;
+  tbaAddress: string;
+  /** TBA USDC balance */
+  balance: bigint;
+  /** TBA allowance for the vault */
+  allowance: bigint;
+}
+
+export interface StakeOptions extends WriteOptions {
+  /**
+   * The agent's TBA, with the agent NFT owner as signer
+   * When given, a short allowance is approved from the TBA before staking
+   */
+  account?: AgentAccount;
+  /** Approve an unlimited allowance instead of the staked amount */
+  approveMax?: boolean;
+  /**
+   * Wallet topping up a short TBA balance: it signs an EIP-2612 permit that
+   * the TBA redeems in the same batch as the approval (requires `account`)
+   */
+  permitFrom?: ethers.Signer;
+  /** Permit deadline in seconds since epoch (default: 1 hour from now) */
+  permitDeadline?: number;
+}
+
+export interface StakeResult {
+  tokenId: bigint;
+  amount: bigint;
+  tbaAddress: string;
+}
+
+export interface UnstakeResult {
+  tokenId: bigint;
+  amount: bigint;
+}
+
+export interface ClaimSubmission {
+  claimId: string;
+  tokenId: bigint;
+  merchant: string;
+  amount: bigint;
+}
+
+export interface ClaimResolution {
+  claimId: string;
+  status: number; // 1=approved, 2=rejected, 3=challenged
+  /** Amount slashed (0 unless approved) */
+  amount: bigint;
+}
+
+interface ClaimEventLocation {
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export type ClaimEvent =
+  | ({ type: 'ClaimSubmitted'; claimId: string; tokenId: bigint; merchant: string; amount: bigint } & ClaimEventLocation)
+  | ({ type: 'ClaimResolved'; claimId: string; status: number; amount: bigint } & ClaimEventLocation);
+
 export class InsuranceVaultContract {
-  private contract: ethers.Contract;
+  private contract: InsuranceVault;
+  private signer?: ethers.Signer;
 
   constructor(
     address: string,
     provider: ethers.Provider,
     signer?: ethers.Signer
   ) {
-    const abi = [
-      'function stake(uint256 tokenId, uint256 amount) external',
-      'function unstake(uint256 tokenId, uint256 amount) external',
-      'function requestUnstake(uint256 tokenId) external',
-      'function submitClaim(uint256 tokenId, uint256 amount, string calldata reason) external returns (bytes32)',
-      'function resolveClaim(bytes32 claimId, bool approved) external',
-      'function getStakeInfo(uint256 tokenId) external view returns (StakeInfo)',
-      'function getClaim(bytes32 claimId) external view returns (Claim)',
-      'function isVerified(uint256 tokenId) external view returns (bool)',
-      'function ORACLE_ROLE() external view returns (bytes32)',
-      'event Staked(uint256 indexed tokenId, uint256 amount)',
-      'event Unstaked(uint256 indexed tokenId, uint256 amount)',
-      'event ClaimSubmitted(bytes32 indexed claimId, uint256 indexed tokenId, address indexed merchant, uint256 amount)',
-      'event ClaimResolved(bytes32 indexed claimId, bool approved)',
-    ];
-
-    this.contract = new ethers.Contract(address, abi, signer || provider);
-  }
-
-  /**
-   * Stake USDC for an agent (requires approval)
-   */
-  async stake(tokenId: number, amount: bigint): Promise<ethers.ContractTransactionResponse> {
-    if (!this.contract.signer) {
-      throw new Error('Signer required for stake');
+    this.signer = signer;
+    this.contract = connectInsuranceVault(address, signer || provider);
+  }
+
+  /**
+   * Stake USDC for an agent from its TBA
+   * Checks the TBA's balance and allowance first; pass `options.account` to
+   * approve from the TBA and `options.permitFrom` to top it up
+   * @throws InsufficientBalanceError / InsufficientAllowanceError when the TBA cannot cover the stake
+   */
+  async stake<O extends StakeOptions>(
+    tokenId: number | bigint,
+    amount: bigint,
+    options?: O
+  ): Promise<WriteResult<StakeResult, O>> {
+    if (!this.signer) {
+      throw new SignerRequiredError('InsuranceVault', 'stake');
+    }
+    await this.fundStake(tokenId, amount, options ?? {});
+    return await sendTransaction(this.contract.stake(tokenId, amount), (receipt) => {
+      const { args } = findEvent(this.contract.interface, receipt, 'Staked', this.contract.target as string);
+      return { tokenId: args.tokenId, amount: args.amount, tbaAddress: args.tbaAddress };
+    }, options);
+  }
+
+  /**
+   * Get the USDC token, TBA balance and vault allowance a stake draws on
+   */
+  async getStakeFunding(tokenId: number | bigint): Promise<StakeFunding> {
+    const [usdc, stakeInfo] = await Promise.all([this.contract.usdc(), this.contract.getStakeInfo(tokenId)]);
+    let tbaAddress = stakeInfo.tbaAddress;
+    if (tbaAddress === ethers.ZeroAddress) {
+      // Cached by the vault on the first stake only
+      const registry = connectAgentRegistry(await this.contract.agentRegistry(), this.contract.runner);
+      tbaAddress = (await registry.getAgentInfoByTokenId(tokenId)).tbaAddress;
+    }
+
+    const token = new ethers.Contract(usdc, ERC20_PERMIT_ABI, this.contract.runner);
+    const [balance, allowance] = await Promise.all([
+      token.balanceOf(tbaAddress),
+      token.allowance(tbaAddress, this.contract.target),
+    ]);
+    return { usdc, tbaAddress, balance, allowance };
+  }
+
+  /**
+   * Make sure the TBA holds and has approved `amount`, topping up and
+   * approving through the agent account when configured
+   */
+  private async fundStake(tokenId: number | bigint, amount: bigint, options: StakeOptions): Promise<void> {
+    const funding = await this.getStakeFunding(tokenId);
+    const vault = this.contract.target as string;
+    const calls: AccountCall[] = [];
+
+    if (funding.balance < amount) {
+      if (!options.permitFrom || !options.account) {
+        throw new InsufficientBalanceError(funding.tbaAddress, funding.balance, amount);
+      }
+      const shortfall = amount - funding.balance;
+      const owner = await options.permitFrom.getAddress();
+      const token = new ethers.Contract(funding.usdc, ERC20_PERMIT_ABI, this.contract.runner);
+      const ownerBalance: bigint = await token.balanceOf(owner);
+      if (ownerBalance < shortfall) {
+        throw new InsufficientBalanceError(owner, ownerBalance, shortfall);
+      }
+
+      const deadline = BigInt(options.permitDeadline ?? Math.floor(Date.now() / 1000) + 3600);
+      const permit = await signPermit(funding.usdc, options.permitFrom, funding.tbaAddress, shortfall, deadline);
+      calls.push(
+        AgentAccount.contractCall(funding.usdc, ERC20_PERMIT_ABI, 'permit', [
+          permit.owner,
+          permit.spender,
+          permit.value,
+          permit.deadline,
+          permit.v,
+          permit.r,
+          permit.s,
+        ]),
+        AgentAccount.contractCall(funding.usdc, ERC20_PERMIT_ABI, 'transferFrom', [owner, funding.tbaAddress, shortfall])
+      );
+    }
+
+    if (funding.allowance < amount) {
+      if (!options.account) {
+        throw new InsufficientAllowanceError(funding.tbaAddress, vault, funding.allowance, amount);
+      }
+      calls.push(AgentAccount.erc20Approve(funding.usdc, vault, options.approveMax ? ethers.MaxUint256 : amount));
+    }
+
+    if (calls.length === 0) {
+      return;
     }
-    return await this.contract.stake(tokenId, amount);
+    if (ethers.getAddress(options.account!.address) !== ethers.getAddress(funding.tbaAddress)) {
+      throw new KYASDKError(
+        `Agent account ${options.account!.address} is not the TBA ${funding.tbaAddress} of token ${tokenId}`,
+        'ACCOUNT_MISMATCH'
+      );
+    }
+    await (calls.length === 1 ? options.account!.execute(calls[0]) : options.account!.executeBatch(calls));
+  }
+
+  /**
+   * Simulate stake and estimate its gas and fee
+   * @throws ContractRevertError if it would revert (e.g. InsufficientStake)
+   */
+  async simulateStake(tokenId: number | bigint, amount: bigint, options?: SimulateOptions): Promise<Simulation<void>> {
+    return await simulateTransaction(this.contract.stake, [tokenId, amount], this.contract.runner?.provider, options);
   }
 
   /**
    * Request unstake (starts cooldown for verified agents)
    */
-  async requestUnstake(tokenId: number): Promise<ethers.ContractTransactionResponse> {
-    if (!this.contract.signer) {
-      throw new Error('Signer required for requestUnstake');
+  async requestUnstake<O extends WriteOptions>(
+    tokenId: number | bigint,
+    options?: O
+  ): Promise<WriteResult<NoResult, O>> {
+    if (!this.signer) {
+      throw new SignerRequiredError('InsuranceVault', 'requestUnstake');
     }
-    return await this.contract.requestUnstake(tokenId);
+    return await sendTransaction(this.contract.requestUnstake(tokenId), () => ({}), options);
   }
 
   /**
    * Unstake USDC (after cooldown for verified agents)
    */
-  async unstake(tokenId: number, amount: bigint): Promise<ethers.ContractTransactionResponse> {
-    if (!this.contract.signer) {
-      throw new Error('Signer required for unstake');
+  async unstake<O extends WriteOptions>(
+    tokenId: number | bigint,
+    amount: bigint,
+    options?: O
+  ): Promise<WriteResult<UnstakeResult, O>> {
+    if (!this.signer) {
+      throw new SignerRequiredError('InsuranceVault', 'unstake');
     }
-    return await this.contract.unstake(tokenId, amount);
+    return await sendTransaction(this.contract.unstake(tokenId, amount), (receipt) => {
+      const { args } = findEvent(this.contract.interface, receipt, 'Unstaked', this.contract.target as string);
+      return { tokenId: args.tokenId, amount: args.amount };
+    }, options);
   }
 
   /**
    * Submit a claim (requires merchant to sign)
    */
-  async submitClaim(
-    tokenId: number,
+  async submitClaim<O extends WriteOptions>(
+    tokenId: number | bigint,
     amount: bigint,
-    reason: string
-  ): Promise<string> {
-    if (!this.contract.signer) {
-      throw new Error('Signer required for submitClaim');
+    reason: string,
+    options?: O
+  ): Promise<WriteResult<ClaimSubmission, O>> {
+    if (!this.signer) {
+      throw new SignerRequiredError('InsuranceVault', 'submitClaim');
     }
-    const tx = await this.contract.submitClaim(tokenId, amount, reason);
-    const receipt = await tx.wait();
-    
-    // Extract claimId from event
-    const event = receipt.logs.find((log: any) => {
-      try {
-        const parsed = this.contract.interface.parseLog(log);
-        return parsed?.name === 'ClaimSubmitted';
-      } catch {
-        return false;
-      }
-    });
-    
-    if (event) {
-      const parsed = this.contract.interface.parseLog(event);
-      return parsed?.args[0] as string;
-    }
-    
-    throw new Error('ClaimSubmitted event not found');
+    return await sendTransaction(
+      this.contract.submitClaim(tokenId, amount, reason),
+      (receipt) => this.parseClaimSubmission(receipt),
+      options
+    );
+  }
+
+  /**
+   * Simulate submitClaim and estimate its gas and fee
+   * @returns The claim ID it would assign as `result`
+   * @throws ContractRevertError if it would revert (e.g. InvalidClaim)
+   */
+  async simulateSubmitClaim(
+    tokenId: number | bigint,
+    amount: bigint,
+    reason: string,
+    options?: SimulateOptions
+  ): Promise<Simulation<string>> {
+    return await simulateTransaction(
+      this.contract.submitClaim,
+      [tokenId, amount, reason],
+      this.contract.runner?.provider,
+      options
+    );
   }
 
   /**
    * Resolve a claim (requires ORACLE_ROLE)
    */
-  async resolveClaim(
+  async resolveClaim<O extends WriteOptions>(
+    claimId: string,
+    approved: boolean,
+    options?: O
+  ): Promise<WriteResult<ClaimResolution, O>> {
+    if (!this.signer) {
+      throw new SignerRequiredError('InsuranceVault', 'resolveClaim');
+    }
+    return await sendTransaction(
+      this.contract.resolveClaim(claimId, approved),
+      (receipt) => this.parseClaimResolution(receipt),
+      options
+    );
+  }
+
+  /**
+   * Simulate resolveClaim and estimate its gas and fee
+   * @throws UnauthorizedError without ORACLE_ROLE, ContractRevertError if it would otherwise revert
+   */
+  async simulateResolveClaim(claimId: string, approved: boolean, options?: SimulateOptions): Promise<Simulation<void>> {
+    return await simulateTransaction(
+      this.contract.resolveClaim,
+      [claimId, approved],
+      this.contract.runner?.provider,
+      options
+    );
+  }
+
+  /**
+   * Challenge a pending claim within its challenge period (requires the agent owner to sign)
+   */
+  async challengeClaim<O extends WriteOptions>(
     claimId: string,
-    approved: boolean
-  ): Promise<ethers.ContractTransactionResponse> {
-    if (!this.contract.signer) {
-      throw new Error('Signer required for resolveClaim');
+    options?: O
+  ): Promise<WriteResult<ClaimResolution, O>> {
+    if (!this.signer) {
+      throw new SignerRequiredError('InsuranceVault', 'challengeClaim');
     }
-    return await this.contract.resolveClaim(claimId, approved);
+    return await sendTransaction(
+      this.contract.challengeClaim(claimId),
+      (receipt) => this.parseClaimResolution(receipt),
+      options
+    );
+  }
+
+  /**
+   * Decode the ClaimSubmitted event in a receipt
+   * (also when the claim was submitted through MerchantSDK.reportViolation)
+   */
+  parseClaimSubmission(receipt: ethers.TransactionReceipt): ClaimSubmission {
+    const { args } = findEvent(this.contract.interface, receipt, 'ClaimSubmitted', this.contract.target as string);
+    return { claimId: args.claimId, tokenId: args.tokenId, merchant: args.merchant, amount: args.amount };
+  }
+
+  /**
+   * Decode the ClaimResolved event in a resolveClaim or challengeClaim receipt
+   * (also when the claim was resolved through OracleAdapter.processResolution)
+   */
+  parseClaimResolution(receipt: ethers.TransactionReceipt): ClaimResolution {
+    const { args } = findEvent(this.contract.interface, receipt, 'ClaimResolved', this.contract.target as string);
+    return { claimId: args.claimId, status: Number(args.status), amount: args.amount };
   }
 
   /**
    * Get stake information for an agent
    */
-  async getStakeInfo(tokenId: number): Promise<StakeInfo> {
+  async getStakeInfo(tokenId: number | bigint): Promise<StakeInfo> {
     const info = await this.contract.getStakeInfo(tokenId);
     return {
       amount: info.amount,
+      stakedAt: info.stakedAt,
+      tbaAddress: info.tbaAddress,
       isVerified: info.isVerified,
-      verifiedAt: info.verifiedAt,
     };
   }
 
@@ -141,20 +365,21 @@ export class InsuranceVaultContract {
   async getClaim(claimId: string): Promise<Claim> {
     const claim = await this.contract.getClaim(claimId);
     return {
+      claimId: claim.claimId,
       tokenId: claim.tokenId,
       merchant: claim.merchant,
       amount: claim.amount,
       reason: claim.reason,
-      status: Number(claim.status),
       submittedAt: claim.submittedAt,
-      resolvedAt: claim.resolvedAt,
+      status: Number(claim.status),
+      challengeDeadline: claim.challengeDeadline,
     };
   }
 
   /**
    * Check if agent is verified
    */
-  async isVerified(tokenId: number): Promise<boolean> {
+  async isVerified(tokenId: number | bigint): Promise<boolean> {
     return await this.contract.isVerified(tokenId);
   }
 
@@ -165,21 +390,65 @@ export class InsuranceVaultContract {
     return await this.contract.ORACLE_ROLE();
   }
 
+  /**
+   * Get ClaimSubmitted and ClaimResolved events in a block range, in log order
+   */
+  async queryClaimEvents(fromBlock: number, toBlock: number): Promise<ClaimEvent[]> {
+    const [submitted, resolved] = await Promise.all([
+      this.contract.queryFilter(this.contract.filters.ClaimSubmitted(), fromBlock, toBlock),
+      this.contract.queryFilter(this.contract.filters.ClaimResolved(), fromBlock, toBlock),
+    ]);
+
+    const events: ClaimEvent[] = [];
+    for (const log of [...submitted, ...resolved]) {
+      if (!(log instanceof ethers.EventLog)) {
+        continue;
+      }
+      const location = { blockNumber: log.blockNumber, transactionHash: log.transactionHash, logIndex: log.index };
+      if (log.eventName === 'ClaimSubmitted') {
+        events.push({
+          type: 'ClaimSubmitted',
+          claimId: log.args.claimId,
+          tokenId: log.args.tokenId,
+          merchant: log.args.merchant,
+          amount: log.args.amount,
+          ...location,
+        });
+      } else {
+        events.push({
+          type: 'ClaimResolved',
+          claimId: log.args.claimId,
+          status: Number(log.args.status),
+          amount: log.args.amount,
+          ...location,
+        });
+      }
+    }
+
+    return events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
   /**
    * Listen for claim submission events
+   * @returns Removes the listener
    */
   onClaimSubmitted(
     callback: (claimId: string, tokenId: bigint, merchant: string, amount: bigint) => void
-  ): void {
-    this.contract.on('ClaimSubmitted', callback);
+  ): () => void {
+    const filter = this.contract.filters.ClaimSubmitted();
+    void this.contract.on(filter, callback);
+    return () => void this.contract.off(filter, callback);
   }
 
   /**
-   * Listen for claim resolution events
+   * Listen for claim resolution events (status 1=approved, 2=rejected, 3=challenged)
+   * @returns Removes the listener
    */
   onClaimResolved(
-    callback: (claimId: string, approved: boolean) => void
-  ): void {
-    this.contract.on('ClaimResolved', callback);
+    callback: (claimId: string, status: bigint, amount: bigint) => void
+  ): () => void {
+    const filter = this.contract.filters.ClaimResolved();
+    void this.contract.on(filter, callback);
+    return () => void this.contract.off(filter, callback);
   }
 }
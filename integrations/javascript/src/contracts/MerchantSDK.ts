@@ -0,0 +1,93 @@
+/**
+ * MerchantSDK Contract Helper
+ * Helper functions for interacting with MerchantSDK contract
+ */
+
+import { ethers } from 'ethers';
+import { MerchantSDK, connectMerchantSDK } from '../generated/MerchantSDK';
+import { InsuranceVaultAbi } from '../generated/InsuranceVault';
+import { ClaimSubmission } from './InsuranceVault';
+import { WriteOptions, WriteResult, findEvent, sendTransaction } from './transaction';
+import { SignerRequiredError } from '../utils/errors';
+
+// ClaimSubmitted is emitted by InsuranceVault during reportViolation
+const vaultInterface = new ethers.Interface(InsuranceVaultAbi);
+
+export interface VerificationResult {
+  isVerified: boolean;
+  stakeAmount: bigint;
+  reputationScore: bigint;
+  tier: number;
+  isActive: boolean;
+}
+
+export interface Violation {
+  conditionType: string;
+  description: string;
+  evidence: string; // Hex-encoded bytes
+}
+
+export class MerchantSDKContract {
+  private contract: MerchantSDK;
+  private signer?: ethers.Signer;
+
+  constructor(
+    address: string,
+    provider: ethers.Provider,
+    signer?: ethers.Signer
+  ) {
+    this.signer = signer;
+    this.contract = connectMerchantSDK(address, signer || provider);
+  }
+
+  /**
+   * Verify an agent before allowing interaction
+   * Reverts if the TBA address does not belong to the token
+   */
+  async verifyAgent(tokenId: number | bigint, tbaAddress: string): Promise<VerificationResult> {
+    const result = await this.contract.verifyAgent(tokenId, tbaAddress);
+    return {
+      isVerified: result.isVerified,
+      stakeAmount: result.stakeAmount,
+      reputationScore: result.reputationScore,
+      tier: Number(result.tier),
+      isActive: result.isActive,
+    };
+  }
+
+  /**
+   * Check if an agent meets minimum stake and reputation requirements
+   */
+  async meetsRequirements(
+    tokenId: number | bigint,
+    minStake: bigint,
+    minReputation: bigint
+  ): Promise<boolean> {
+    return await this.contract.meetsRequirements(tokenId, minStake, minReputation);
+  }
+
+  /**
+   * Get agent's insurance coverage amount (USDC)
+   */
+  async getCoverage(tokenId: number | bigint): Promise<bigint> {
+    return await this.contract.getCoverage(tokenId);
+  }
+
+  /**
+   * Report a violation (submits a claim for the full coverage)
+   * @returns The vault claim
+   */
+  async reportViolation<O extends WriteOptions>(
+    tokenId: number | bigint,
+    violation: Violation,
+    options?: O
+  ): Promise<WriteResult<ClaimSubmission, O>> {
+    if (!this.signer) {
+      throw new SignerRequiredError('MerchantSDK', 'reportViolation');
+    }
+    return await sendTransaction(this.contract.reportViolation(tokenId, violation), (receipt) => {
+      const { args } = findEvent(vaultInterface, receipt, 'ClaimSubmitted');
+      return { claimId: args.claimId, tokenId: args.tokenId, merchant: args.merchant, amount: args.amount };
+    }, options);
+  }
+}
@@ -4,66 +4,159 @@
  */
 
 import { ethers } from 'ethers';
+import { ClaimDataInput, OracleAdapter, connectOracleAdapter } from '../generated/OracleAdapter';
+import { InsuranceVaultAbi } from '../generated/InsuranceVault';
 import { ClaimData, ResolutionResult } from '../types';
+import { ClaimResolution } from './InsuranceVault';
+import { WriteOptions, WriteResult, findEvent, findEvents, sendTransaction } from './transaction';
+import { SimulateOptions, Simulation, simulateTransaction } from './simulation';
+import { SignerRequiredError } from '../utils/errors';
+
+export interface OracleSubmission {
+  requestId: string;
+  oracleAddress: string;
+}
+
+export interface OracleResolution {
+  requestId: string;
+  approved: boolean;
+  /** ClaimResolved emitted by InsuranceVault.resolveClaim */
+  vaultClaim?: ClaimResolution;
+}
+
+const vaultInterface = new ethers.Interface(InsuranceVaultAbi);
 
 export class OracleAdapterContract {
-  private contract: ethers.Contract;
+  private contract: OracleAdapter;
+  private signer?: ethers.Signer;
 
   constructor(
     address: string,
     provider: ethers.Provider,
     signer?: ethers.Signer
   ) {
-    const abi = [
-      'function submitClaim(ClaimData calldata claimData) external returns (bytes32)',
-      'function processResolution(bytes32 requestId, bool approved, bytes calldata resolutionData) external',
-      'function getClaimStatus(bytes32 requestId) external view returns (uint8 status, ResolutionResult memory result)',
-      'function getClaim(bytes32 requestId) external view returns (ClaimData memory)',
-      'function getOracleRequestId(bytes32 vaultClaimId) external view returns (bytes32)',
-      'event ClaimSubmittedToOracle(bytes32 indexed requestId, address indexed submitter)',
-      'event ClaimResolvedByOracle(bytes32 indexed requestId, bool approved)',
-    ];
-
-    this.contract = new ethers.Contract(address, abi, signer || provider);
+    this.signer = signer;
+    this.contract = connectOracleAdapter(address, signer || provider);
   }
 
   /**
    * Submit claim to oracle
+   * `claimData.claimId` is the InsuranceVault claim ID the request resolves
+   * @returns The assigned oracle request ID
    */
-  async submitClaim(claimData: ClaimData): Promise<string> {
-    if (!this.contract.signer) {
-      throw new Error('Signer required for submitClaim');
+  async submitClaim<O extends WriteOptions>(
+    claimData: ClaimData,
+    options?: O
+  ): Promise<WriteResult<OracleSubmission, O>> {
+    if (!this.signer) {
+      throw new SignerRequiredError('OracleAdapter', 'submitClaim');
     }
-    return await this.contract.submitClaim(claimData);
+    return await sendTransaction(
+      this.contract.submitClaim(toClaimDataInput(claimData)),
+      (receipt) => this.parseOracleSubmission(receipt),
+      options
+    );
+  }
+
+  /**
+   * Simulate submitClaim and estimate its gas and fee
+   * @returns The request ID it would assign as `result`
+   * @throws ContractRevertError if it would revert (e.g. InvalidClaim)
+   */
+  async simulateSubmitClaim(claimData: ClaimData, options?: SimulateOptions): Promise<Simulation<string>> {
+    return await simulateTransaction(
+      this.contract.submitClaim,
+      [toClaimDataInput(claimData)],
+      this.contract.runner?.provider,
+      options
+    );
+  }
+
+  /**
+   * Decode the ClaimSubmittedToOracle event in a submitClaim receipt
+   */
+  parseOracleSubmission(receipt: ethers.TransactionReceipt): OracleSubmission {
+    const { args } = findEvent(this.contract.interface, receipt, 'ClaimSubmittedToOracle', this.contract.target as string);
+    return { requestId: args.claimId, oracleAddress: args.oracleAddress };
+  }
+
+  /**
+   * Find the transaction that processed a request's resolution, if any
+   * @param fromBlock First block to search (the request's submission block)
+   */
+  async findClaimResolved(requestId: string, fromBlock: number = 0): Promise<string | undefined> {
+    const events = await this.contract.queryFilter(this.contract.filters.ClaimResolvedByOracle(requestId), fromBlock);
+    return events.length > 0 ? events[events.length - 1].transactionHash : undefined;
   }
 
   /**
    * Process resolution (requires admin role)
+   * Also resolves the vault claim the request was opened for
    */
-  async processResolution(
+  async processResolution<O extends WriteOptions>(
     requestId: string,
     approved: boolean,
-    resolutionData: string
-  ): Promise<ethers.ContractTransactionResponse> {
-    if (!this.contract.signer) {
-      throw new Error('Signer required for processResolution');
+    resolutionData: string,
+    options?: O
+  ): Promise<WriteResult<OracleResolution, O>> {
+    if (!this.signer) {
+      throw new SignerRequiredError('OracleAdapter', 'processResolution');
     }
-    return await this.contract.processResolution(requestId, approved, resolutionData);
+    return await sendTransaction(
+      this.contract.processResolution(requestId, approved, resolutionData),
+      (receipt) => this.parseOracleResolution(receipt),
+      options
+    );
+  }
+
+  /**
+   * Simulate processResolution and estimate its gas and fee
+   * Also runs the vault's resolveClaim, so vault errors (e.g. ClaimAlreadyResolved) are decoded too
+   * @throws UnauthorizedError without the admin role, ContractRevertError if it would otherwise revert
+   */
+  async simulateProcessResolution(
+    requestId: string,
+    approved: boolean,
+    resolutionData: string,
+    options?: SimulateOptions
+  ): Promise<Simulation<void>> {
+    return await simulateTransaction(
+      this.contract.processResolution,
+      [requestId, approved, resolutionData],
+      this.contract.runner?.provider,
+      options
+    );
+  }
+
+  /**
+   * Decode a processResolution receipt
+   */
+  parseOracleResolution(receipt: ethers.TransactionReceipt): OracleResolution {
+    const { args } = findEvent(this.contract.interface, receipt, 'ClaimResolvedByOracle', this.contract.target as string);
+    const [vaultClaim] = findEvents(vaultInterface, receipt, 'ClaimResolved');
+    return {
+      requestId: args.claimId,
+      approved: args.approved,
+      vaultClaim: vaultClaim && {
+        claimId: vaultClaim.args.claimId,
+        status: Number(vaultClaim.args.status),
+        amount: vaultClaim.args.amount,
+      },
+    };
   }
 
   /**
-   * Get claim status
+   * Get claim status (0=pending, 1=resolved, 2=failed)
    */
   async getClaimStatus(requestId: string): Promise<{ status: number; result: ResolutionResult }> {
     const result = await this.contract.getClaimStatus(requestId);
+    const status = Number(result.status);
     return {
-      status: Number(result.status),
+      status: status,
       result: {
-        requestId: result.result.requestId,
-        resolved: result.result.resolved,
-        result: result.result.result,
-        timestamp: Number(result.result.timestamp),
-        challenger: result.result.challenger,
+        requestId: requestId,
+        resolved: status === 1,
+        result: result.result.approved,
         resolutionData: result.result.resolutionData,
       },
     };
@@ -91,3 +184,24 @@ export class OracleAdapterContract {
     return await this.contract.getOracleRequestId(vaultClaimId);
   }
 }
+
+function toClaimDataInput(claimData: ClaimData): ClaimDataInput {
+  return {
+    claimId: claimData.claimId,
+    tokenId: claimData.tokenId,
+    merchant: claimData.merchant,
+    amount: claimData.amount,
+    reason: claimData.reason,
+    evidence: encodeEvidence(claimData.evidence),
+  };
+}
+
+function encodeEvidence(evidence: ClaimData['evidence']): string {
+  if (evidence === undefined || evidence === null) {
+    return '0x';
+  }
+  if (typeof evidence === 'string' && ethers.isHexString(evidence)) {
+    return evidence;
+  }
+  return ethers.hexlify(ethers.toUtf8Bytes(typeof evidence === 'string' ? evidence : JSON.stringify(evidence)));
+}
@@ -0,0 +1,132 @@
+/**
+ * Paymaster Contract Helper
+ * Helper functions for interacting with Paymaster contract
+ */
+
+import { ethers } from 'ethers';
+import { Paymaster, connectPaymaster } from '../generated/Paymaster';
+import { NoResult, WriteOptions, WriteResult, sendTransaction } from './transaction';
+import { SignerRequiredError } from '../utils/errors';
+
+export interface PaymasterEligibility {
+  eligible: boolean;
+  remainingTransactions: bigint;
+}
+
+export class PaymasterContract {
+  private contract: Paymaster;
+  private signer?: ethers.Signer;
+
+  constructor(
+    address: string,
+    provider: ethers.Provider,
+    signer?: ethers.Signer
+  ) {
+    this.signer = signer;
+    this.contract = connectPaymaster(address, signer || provider);
+  }
+
+  /**
+   * Get the Paymaster contract address
+   */
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  /**
+   * Check if an agent is eligible for gas sponsorship
+   */
+  async isEligible(tokenId: number | bigint): Promise<PaymasterEligibility> {
+    const result = await this.contract.isEligible(tokenId);
+    return {
+      eligible: result.eligible,
+      remainingTransactions: result.remainingTransactions,
+    };
+  }
+
+  /**
+   * Get sponsored transaction count for an agent
+   */
+  async getSponsoredCount(tokenId: number | bigint): Promise<bigint> {
+    return await this.contract.getSponsoredCount(tokenId);
+  }
+
+  /**
+   * Get total deposited funds
+   */
+  async getDeposited(): Promise<bigint> {
+    return await this.contract.getDeposited();
+  }
+
+  /**
+   * Deposit ETH to fund sponsorships
+   */
+  async deposit<O extends WriteOptions>(amount: bigint, options?: O): Promise<WriteResult<NoResult, O>> {
+    if (!this.signer) {
+      throw new SignerRequiredError('Paymaster', 'deposit');
+    }
+    return await sendTransaction(this.contract.deposit({ value: amount }), () => ({}), options);
+  }
+
+  /**
+   * Withdraw funds from the paymaster (requires admin role)
+   */
+  async withdrawTo<O extends WriteOptions>(
+    withdrawAddress: string,
+    amount: bigint,
+    options?: O
+  ): Promise<WriteResult<NoResult, O>> {
+    if (!this.signer) {
+      throw new SignerRequiredError('Paymaster', 'withdrawTo');
+    }
+    return await sendTransaction(this.contract.withdrawTo(withdrawAddress, amount), () => ({}), options);
+  }
+
+  /**
+   * Set Twitter verification status for an agent (requires admin role)
+   */
+  async setTwitterVerified<O extends WriteOptions>(
+    tokenId: number | bigint,
+    verified: boolean,
+    options?: O
+  ): Promise<WriteResult<NoResult, O>> {
+    if (!this.signer) {
+      throw new SignerRequiredError('Paymaster', 'setTwitterVerified');
+    }
+    return await sendTransaction(this.contract.setTwitterVerified(tokenId, verified), () => ({}), options);
+  }
+
+  /**
+   * Check Twitter verification status for an agent
+   */
+  async isTwitterVerified(tokenId: number | bigint): Promise<boolean> {
+    return await this.contract.isTwitterVerified(tokenId);
+  }
+
+  /**
+   * Get the EntryPoint address the paymaster accepts calls from
+   */
+  async getEntryPoint(): Promise<string> {
+    return await this.contract.entryPoint();
+  }
+
+  /**
+   * Encode the PaymasterData struct
+   * @param userOp Opaque bytes carried in PaymasterData (unused on-chain)
+   */
+  encodePaymasterData(tokenId: number | bigint, maxCost: bigint, userOp: string = '0x'): string {
+    return ethers.AbiCoder.defaultAbiCoder().encode(
+      ['tuple(uint256 tokenId, bytes userOp, uint256 maxCost)'],
+      [[tokenId, userOp, maxCost]]
+    );
+  }
+
+  /**
+   * Encode `paymasterAndData` as `validatePaymasterUserOp` decodes it: the
+   * paymaster address followed by abi.encode(PaymasterData) (the v0.6 layout)
+   * @param userOp Opaque bytes carried in PaymasterData (unused on-chain)
+   */
+  encodePaymasterAndData(tokenId: number | bigint, maxCost: bigint, userOp: string = '0x'): string {
+    return ethers.concat([this.address, this.encodePaymasterData(tokenId, maxCost, userOp)]);
+  }
+}
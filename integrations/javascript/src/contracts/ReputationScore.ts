@@ -4,7 +4,9 @@
  */
 
 import { ethers } from 'ethers';
-import { ProofResult } from '../types';
+import { ReputationScore, ReputationScoreAbi, connectReputationScore } from '../generated/ReputationScore';
+import { KYASDKError } from '../utils/errors';
+import { WriteOptions, WriteResult, findEvents, sendTransaction } from './transaction';
 
 export interface ReputationData {
   score: bigint;
@@ -13,82 +15,97 @@ export interface ReputationData {
   badges: string[];
 }
 
+export interface ProofUpdate {
+  tokenId: bigint;
+  proofType: string;
+  scoreIncrease: bigint;
+  oldScore: bigint;
+  newScore: bigint;
+  newTier: number;
+  badgesAwarded: string[];
+}
+
 export class ReputationScoreContract {
-  private contract: ethers.Contract;
+  private contract: ReputationScore;
 
   constructor(
     address: string,
     provider: ethers.Provider,
     signer?: ethers.Signer
   ) {
-    const abi = [
-      'function verifyProof(uint256 tokenId, string calldata proofType, bytes calldata proof, string calldata metadata) external returns (ProofResult)',
-      'function getReputation(uint256 tokenId) external view returns (ReputationData)',
-      'function getTier(uint256 tokenId) external view returns (uint8)',
-      'function getBadges(uint256 tokenId) external view returns (string[])',
-      'function hasBadge(uint256 tokenId, string calldata badgeId) external view returns (bool)',
-      'function ZK_PROVER_ROLE() external view returns (bytes32)',
-      'event ProofVerified(uint256 indexed tokenId, string indexed proofType, uint256 scoreIncrease)',
-    ];
-
-    this.contract = new ethers.Contract(address, abi, signer || provider);
+    this.contract = connectReputationScore(address, signer || provider);
   }
 
   /**
    * Verify proof (requires ZK_PROVER_ROLE)
+   * @returns The reputation update the proof produced
    */
-  async verifyProof(
-    tokenId: number,
+  async verifyProof<O extends WriteOptions>(
+    tokenId: number | bigint,
     proofType: string,
     proof: string,
-    metadata: string
-  ): Promise<ProofResult> {
-    const result = await this.contract.verifyProof(
-      tokenId,
-      proofType,
-      proof,
-      metadata
-    );
-
-    return {
-      queryId: ethers.keccak256(ethers.toUtf8Bytes(`${tokenId}-${proofType}-${Date.now()}`)),
-      verified: result.verified,
-      proof: proof,
-      metadata: metadata,
-    };
+    metadata: string,
+    options?: O
+  ): Promise<WriteResult<ProofUpdate, O>> {
+    return await sendTransaction(this.contract.verifyProof(tokenId, proofType, proof, metadata), (receipt) => {
+      const update = this.parseProofUpdate(receipt, tokenId);
+      if (!update) {
+        throw new KYASDKError(`No reputation update for token ${tokenId} in ${receipt.hash}`, 'EVENT_NOT_FOUND');
+      }
+      return update;
+    }, options);
   }
 
   /**
    * Get reputation data for an agent
    */
-  async getReputation(tokenId: number): Promise<ReputationData> {
-    const data = await this.contract.getReputation(tokenId);
+  async getReputation(tokenId: number | bigint): Promise<ReputationData> {
+    const [data, badges] = await Promise.all([
+      this.contract.getReputation(tokenId),
+      this.getBadges(tokenId),
+    ]);
     return {
       score: data.score,
       tier: Number(data.tier),
       verifiedProofs: Number(data.verifiedProofs),
-      badges: data.badges,
+      badges: badges,
     };
   }
 
   /**
    * Get tier for an agent
    */
-  async getTier(tokenId: number): Promise<number> {
-    return Number(await this.contract.getTier(tokenId));
+  async getTier(tokenId: number | bigint): Promise<number> {
+    return (await this.getReputation(tokenId)).tier;
+  }
+
+  /**
+   * Get the tier a score maps to
+   */
+  async getTierForScore(score: bigint): Promise<number> {
+    return Number(await this.contract.getTier(score));
+  }
+
+  /**
+   * Decode the reputation update emitted by a verifyProof call in a receipt
+   * (also when verifyProof ran inside ZKAdapter.processProofAndUpdate)
+   * @returns undefined when the receipt holds no update for the token
+   */
+  parseProofUpdate(receipt: ethers.TransactionReceipt, tokenId: number | bigint): ProofUpdate | undefined {
+    return decodeProofUpdate(receipt, tokenId, this.contract.target as string);
   }
 
   /**
    * Get badges for an agent
    */
-  async getBadges(tokenId: number): Promise<string[]> {
+  async getBadges(tokenId: number | bigint): Promise<string[]> {
     return await this.contract.getBadges(tokenId);
   }
 
   /**
    * Check if agent has a specific badge
    */
-  async hasBadge(tokenId: number, badgeId: string): Promise<boolean> {
+  async hasBadge(tokenId: number | bigint, badgeId: string): Promise<boolean> {
     return await this.contract.hasBadge(tokenId, badgeId);
   }
 
@@ -101,10 +118,46 @@ export class ReputationScoreContract {
 
   /**
    * Listen for proof verification events
+   * @returns Removes the listener
    */
   onProofVerified(
     callback: (tokenId: bigint, proofType: string, scoreIncrease: bigint) => void
-  ): void {
-    this.contract.on('ProofVerified', callback);
+  ): () => void {
+    const filter = this.contract.filters.ProofVerified();
+    void this.contract.on(filter, callback);
+    return () => void this.contract.off(filter, callback);
+  }
+}
+
+const reputationInterface = new ethers.Interface(ReputationScoreAbi);
+
+/**
+ * Decode a token's reputation update from ReputationScore events in a receipt
+ * @param address ReputationScore address (any emitter when omitted)
+ * @returns undefined when the receipt holds no update for the token
+ */
+export function decodeProofUpdate(
+  receipt: ethers.TransactionReceipt,
+  tokenId: number | bigint,
+  address?: string
+): ProofUpdate | undefined {
+  const id = BigInt(tokenId);
+  const forToken = (eventName: string) =>
+    findEvents(reputationInterface, receipt, eventName, address).filter((event) => event.args.tokenId === id);
+
+  const [updated] = forToken('ReputationUpdated');
+  const [verified] = forToken('ProofVerified');
+  if (!updated || !verified) {
+    return undefined;
   }
+
+  return {
+    tokenId: id,
+    proofType: verified.args.proofType,
+    scoreIncrease: verified.args.scoreIncrease,
+    oldScore: updated.args.oldScore,
+    newScore: updated.args.newScore,
+    newTier: Number(updated.args.newTier),
+    badgesAwarded: forToken('BadgeAwarded').map((event) => event.args.badgeName),
+  };
 }
@@ -4,51 +4,153 @@
  */
 
 import { ethers } from 'ethers';
+import { ZKAdapter, connectZKAdapter } from '../generated/ZKAdapter';
 import { ProofQuery, ProofResult } from '../types';
+import { ProofUpdate, decodeProofUpdate } from './ReputationScore';
+import { WriteOptions, WriteResult, findEvent, sendTransaction } from './transaction';
+import { SimulateOptions, Simulation, simulateTransaction } from './simulation';
+import { SignerRequiredError } from '../utils/errors';
+
+export interface ProofQuerySubmittedEvent {
+  queryId: string;
+  agentAddress: string;
+  proofType: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface QuerySubmission {
+  queryId: string;
+  agentAddress: string;
+  proofType: string;
+}
+
+export interface ProofProcessing {
+  queryId: string;
+  verified: boolean;
+  /** Reputation update from ReputationScore.verifyProof */
+  update?: ProofUpdate;
+}
 
 export class ZKAdapterContract {
-  private contract: ethers.Contract;
+  private contract: ZKAdapter;
+  private signer?: ethers.Signer;
 
   constructor(
     address: string,
     provider: ethers.Provider,
     signer?: ethers.Signer
   ) {
-    const abi = [
-      'function submitQuery(ProofQuery calldata query) external returns (bytes32)',
-      'function processProofAndUpdate(bytes32 queryId, uint256 tokenId, bytes calldata proof, string calldata metadata) external',
-      'function getProofStatus(bytes32 queryId) external view returns (uint8 status, ProofResult memory result)',
-      'function getQuery(bytes32 queryId) external view returns (ProofQuery memory)',
-      'event ProofQuerySubmitted(bytes32 indexed queryId, address indexed agentAddress, string indexed proofType)',
-      'event ProofGenerated(bytes32 indexed queryId, bool verified)',
-    ];
-
-    this.contract = new ethers.Contract(address, abi, signer || provider);
+    this.signer = signer;
+    this.contract = connectZKAdapter(address, signer || provider);
   }
 
   /**
    * Submit a proof query
+   * Query data is stored on-chain as UTF-8 JSON
+   * @returns The on-chain query ID
    */
-  async submitQuery(query: ProofQuery): Promise<string> {
-    if (!this.contract.signer) {
-      throw new Error('Signer required for submitQuery');
+  async submitQuery<O extends WriteOptions>(
+    query: ProofQuery,
+    options?: O
+  ): Promise<WriteResult<QuerySubmission, O>> {
+    if (!this.signer) {
+      throw new SignerRequiredError('ZKAdapter', 'submitQuery');
     }
-    return await this.contract.submitQuery(query);
+    const send = this.contract.submitQuery({
+      queryId: ethers.ZeroHash,
+      agentAddress: query.agentAddress,
+      proofType: query.proofType,
+      queryData: encodeQueryData(query.queryData),
+      startBlock: query.startBlock ?? 0,
+      endBlock: query.endBlock ?? 0,
+    });
+    return await sendTransaction(send, (receipt) => this.parseQuerySubmission(receipt), options);
+  }
+
+  /**
+   * Decode the ProofQuerySubmitted event in a submitQuery receipt
+   */
+  parseQuerySubmission(receipt: ethers.TransactionReceipt): QuerySubmission {
+    const { args } = findEvent(this.contract.interface, receipt, 'ProofQuerySubmitted', this.contract.target as string);
+    return { queryId: args.queryId, agentAddress: args.agentAddress, proofType: args.proofType };
+  }
+
+  /**
+   * Get ProofQuerySubmitted events in a block range, in log order
+   */
+  async queryProofQueries(fromBlock: number, toBlock: number): Promise<ProofQuerySubmittedEvent[]> {
+    const logs = await this.contract.queryFilter(this.contract.filters.ProofQuerySubmitted(), fromBlock, toBlock);
+    return logs
+      .filter((log): log is ethers.EventLog => log instanceof ethers.EventLog)
+      .map((log) => ({
+        queryId: log.args.queryId,
+        agentAddress: log.args.agentAddress,
+        proofType: log.args.proofType,
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+      }))
+      .sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  /**
+   * Find the transaction that processed a query's proof, if any
+   * @param fromBlock First block to search (the query's submission block)
+   */
+  async findProofGenerated(queryId: string, fromBlock: number = 0): Promise<string | undefined> {
+    const events = await this.contract.queryFilter(this.contract.filters.ProofGenerated(queryId), fromBlock);
+    return events.length > 0 ? events[events.length - 1].transactionHash : undefined;
   }
 
   /**
    * Process proof and update reputation (requires admin role)
+   * @returns The proof outcome and the reputation update it triggered
    */
-  async processProofAndUpdate(
+  async processProofAndUpdate<O extends WriteOptions>(
     queryId: string,
-    tokenId: number,
+    tokenId: number | bigint,
     proof: string,
-    metadata: string
-  ): Promise<ethers.ContractTransactionResponse> {
-    if (!this.contract.signer) {
-      throw new Error('Signer required for processProofAndUpdate');
+    metadata: string,
+    options?: O
+  ): Promise<WriteResult<ProofProcessing, O>> {
+    if (!this.signer) {
+      throw new SignerRequiredError('ZKAdapter', 'processProofAndUpdate');
     }
-    return await this.contract.processProofAndUpdate(queryId, tokenId, proof, metadata);
+    return await sendTransaction(
+      this.contract.processProofAndUpdate(queryId, tokenId, proof, metadata),
+      (receipt) => this.parseProofProcessing(receipt, tokenId),
+      options
+    );
+  }
+
+  /**
+   * Simulate processProofAndUpdate and estimate its gas and fee
+   * Also runs the reputation update, so ReputationScore errors (e.g. ProofAlreadyVerified) are decoded too
+   * @throws UnauthorizedError without the admin role, ContractRevertError if it would otherwise revert
+   */
+  async simulateProcessProofAndUpdate(
+    queryId: string,
+    tokenId: number | bigint,
+    proof: string,
+    metadata: string,
+    options?: SimulateOptions
+  ): Promise<Simulation<void>> {
+    return await simulateTransaction(
+      this.contract.processProofAndUpdate,
+      [queryId, tokenId, proof, metadata],
+      this.contract.runner?.provider,
+      options
+    );
+  }
+
+  /**
+   * Decode a processProofAndUpdate receipt
+   */
+  parseProofProcessing(receipt: ethers.TransactionReceipt, tokenId: number | bigint): ProofProcessing {
+    const { args } = findEvent(this.contract.interface, receipt, 'ProofGenerated', this.contract.target as string);
+    return { queryId: args.queryId, verified: args.verified, update: decodeProofUpdate(receipt, tokenId) };
   }
 
   /**
@@ -75,9 +177,21 @@ export class ZKAdapterContract {
     return {
       agentAddress: query.agentAddress,
       proofType: query.proofType,
-      queryData: query.queryData,
+      queryData: decodeQueryData(query.queryData),
       startBlock: Number(query.startBlock),
       endBlock: Number(query.endBlock),
     };
   }
 }
+
+function encodeQueryData(queryData: ProofQuery['queryData']): string {
+  return ethers.hexlify(ethers.toUtf8Bytes(JSON.stringify(queryData)));
+}
+
+function decodeQueryData(queryData: string): ProofQuery['queryData'] {
+  try {
+    return JSON.parse(ethers.toUtf8String(queryData));
+  } catch {
+    return { raw: queryData };
+  }
+}
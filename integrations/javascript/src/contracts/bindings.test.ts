@@ -0,0 +1,201 @@
+/**
+ * Binding drift tests
+ * Fails when the checked-in ABIs, the generated bindings, the Solidity
+ * interfaces or the wrappers in this directory disagree
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { describe, expect, it } from '@jest/globals';
+import * as generator from '../../scripts/generate-bindings';
+import * as bindings from '../generated';
+
+const REPO_ROOT = path.join(__dirname, '..', '..', '..', '..');
+
+/** Solidity interface implemented by each wrapped contract */
+const INTERFACES: Record<string, string> = {
+  AgentLicense: 'src/interfaces/IAgentLicense.sol',
+  AgentRegistry: 'src/interfaces/IAgentRegistry.sol',
+  InsuranceVault: 'src/interfaces/IInsuranceVault.sol',
+  MerchantSDK: 'src/interfaces/IMerchantSDK.sol',
+  OracleAdapter: 'src/integrations/IOracle.sol',
+  Paymaster: 'src/interfaces/IPaymaster.sol',
+  ReputationScore: 'src/interfaces/IReputationScore.sol',
+  ZKAdapter: 'src/integrations/IZKCoprocessor.sol',
+};
+
+/** Contracts whose events each wrapper decodes by name */
+const WRAPPER_EVENTS: Record<string, string[]> = {
+  AgentLicense: ['AgentLicense'],
+  AgentRegistry: ['AgentRegistry'],
+  InsuranceVault: ['InsuranceVault'],
+  MerchantSDK: ['InsuranceVault'],
+  OracleAdapter: ['OracleAdapter', 'InsuranceVault'],
+  Paymaster: ['Paymaster'],
+  ReputationScore: ['ReputationScore'],
+  ZKAdapter: ['ZKAdapter'],
+};
+
+interface Param {
+  type: string;
+  name: string;
+  indexed?: boolean;
+}
+
+interface AbiParam {
+  type: string;
+  name: string;
+  internalType?: string;
+  indexed?: boolean;
+  components?: AbiParam[];
+}
+
+interface AbiFragment {
+  type: string;
+  name?: string;
+  inputs?: AbiParam[];
+  outputs?: AbiParam[];
+}
+
+function loadAbi(contract: string): AbiFragment[] {
+  return (bindings as Record<string, any>)[contract][`${contract}Abi`];
+}
+
+/**
+ * Normalize a Solidity or ABI type to its unqualified name
+ * (`uint` → `uint256`, `IInsuranceVault.Claim[]` → `Claim[]`, `address payable` → `address`)
+ */
+function normalizeType(type: string): string {
+  const bare = type
+    .replace(/^(struct|contract|enum)\s+/, '')
+    .replace(/\s+payable$/, '')
+    .replace(/\b(u?int)\b(?!\d)/g, '$1256');
+  return bare.replace(/^[\w]+\.(?=\w)/, '');
+}
+
+function abiType(param: AbiParam): string {
+  return normalizeType(param.internalType ?? param.type);
+}
+
+function parseParams(source: string): Param[] {
+  return source
+    .split(',')
+    .map((part) => part.trim().replace(/\s+(memory|calldata|storage)\b/, ''))
+    .filter(Boolean)
+    .map((part) => {
+      const tokens = part.split(/\s+/);
+      const indexed = tokens.includes('indexed');
+      const rest = tokens.filter((token) => token !== 'indexed');
+      const type = rest[1] === 'payable' ? `${rest[0]} payable` : rest[0];
+      const name = rest[1] === 'payable' ? rest[2] ?? '' : rest[1] ?? '';
+      return { type: normalizeType(type), name, indexed };
+    });
+}
+
+function parseInterface(file: string) {
+  const source = fs
+    .readFileSync(path.join(REPO_ROOT, file), 'utf8')
+    .replace(/\/\*[\s\S]*?\*\//g, '')
+    .replace(/\/\/.*$/gm, '');
+
+  const structs = new Map<string, Param[]>();
+  for (const [, name, body] of source.matchAll(/struct\s+(\w+)\s*\{([^}]*)\}/g)) {
+    structs.set(name, parseParams(body.replace(/;/g, ',')));
+  }
+
+  const events = Array.from(source.matchAll(/event\s+(\w+)\s*\(([^)]*)\)\s*;/g)).map(([, name, params]) => ({
+    name,
+    inputs: parseParams(params),
+  }));
+
+  const functions = Array.from(source.matchAll(/function\s+(\w+)\s*\(([^)]*)\)([^;{]*)[;{]/g)).map(
+    ([, name, params, modifiers]) => {
+      const returns = /returns\s*\(([^)]*)\)/.exec(modifiers);
+      return { name, inputs: parseParams(params), outputs: returns ? parseParams(returns[1]) : [] };
+    }
+  );
+
+  return { structs, events, functions };
+}
+
+function collectAbiStructs(params: AbiParam[], structs: Map<string, AbiParam[]>): void {
+  for (const param of params) {
+    if (param.components) {
+      structs.set(abiType(param).replace(/(\[\d*\])+$/, ''), param.components);
+      collectAbiStructs(param.components, structs);
+    }
+  }
+}
+
+describe.each(Object.entries(INTERFACES))('%s bindings', (contract, file) => {
+  const abi = loadAbi(contract);
+  const solidity = parseInterface(file);
+
+  it(`declares every struct in ${path.basename(file)} field for field`, () => {
+    const abiStructs = new Map<string, AbiParam[]>();
+    for (const fragment of abi) {
+      collectAbiStructs([...(fragment.inputs ?? []), ...(fragment.outputs ?? [])], abiStructs);
+    }
+
+    for (const [name, fields] of solidity.structs) {
+      const components = abiStructs.get(name);
+      if (!components) {
+        // Structs only used off-ABI (e.g. abi.decode payloads) cannot drift here
+        continue;
+      }
+      expect({ struct: name, fields: components.map((c) => ({ type: abiType(c), name: c.name })) }).toEqual({
+        struct: name,
+        fields: fields.map(({ type, name }) => ({ type, name })),
+      });
+    }
+  });
+
+  it(`declares every event in ${path.basename(file)} with the same signature`, () => {
+    for (const event of solidity.events) {
+      const fragment = abi.find((f) => f.type === 'event' && f.name === event.name);
+      expect(fragment).toBeDefined();
+      expect({
+        event: event.name,
+        inputs: fragment!.inputs!.map((p) => ({ type: abiType(p), name: p.name, indexed: p.indexed })),
+      }).toEqual({ event: event.name, inputs: event.inputs });
+    }
+  });
+
+  it(`declares every function in ${path.basename(file)} with the same types`, () => {
+    for (const fn of solidity.functions) {
+      const candidates = abi.filter((f) => f.type === 'function' && f.name === fn.name);
+      const signature = (params: { type: string }[]) => params.map((p) => p.type).join(',');
+      const match = candidates.find(
+        (f) => signature(f.inputs!.map((p) => ({ type: abiType(p) }))) === signature(fn.inputs)
+      );
+      expect({ function: fn.name, found: match !== undefined }).toEqual({ function: fn.name, found: true });
+      expect(signature(match!.outputs!.map((p) => ({ type: abiType(p) })))).toBe(signature(fn.outputs));
+    }
+  });
+});
+
+describe('wrappers', () => {
+  it.each(Object.entries(WRAPPER_EVENTS))('%s only decodes events its bindings declare', (wrapper, contracts) => {
+    const source = fs.readFileSync(path.join(__dirname, `${wrapper}.ts`), 'utf8');
+    const used = Array.from(
+      source.matchAll(/(?:(?:name|eventName) === |findEvents?\([^)]*?, )'(\w+)'/g),
+      ([, name]) => name
+    );
+    const declared = new Set(
+      contracts.flatMap((contract) => loadAbi(contract).filter((f) => f.type === 'event').map((f) => f.name))
+    );
+
+    expect(used.filter((name) => !declared.has(name))).toEqual([]);
+  });
+});
+
+describe('generated bindings', () => {
+  // abi/ is refreshed from the Foundry artifacts with
+  // `forge build && npm run generate:bindings -- --artifacts`
+  it('match the checked-in ABIs', () => {
+    const files = generator.generate();
+    for (const [file, contents] of Object.entries(files)) {
+      expect({ file, contents: fs.readFileSync(path.join(generator.GENERATED_DIR, file), 'utf8') }).toEqual({ file, contents });
+    }
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * ERC20 Helpers
+ * USDC reads and EIP-2612 permits used by the staking flow
+ */
+
+import { ethers } from 'ethers';
+import { KYASDKError } from '../utils/errors';
+
+export const ERC20_PERMIT_ABI = [
+  'function name() view returns (string)',
+  'function version() view returns (string)',
+  'function nonces(address owner) view returns (uint256)',
+  'function balanceOf(address account) view returns (uint256)',
+  'function allowance(address owner, address spender) view returns (uint256)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function transferFrom(address from, address to, uint256 amount) returns (bool)',
+  'function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s)',
+];
+
+export interface Permit {
+  owner: string;
+  spender: string;
+  value: bigint;
+  /** Seconds since epoch */
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * Sign an EIP-2612 permit letting `spender` pull `value` from the signer
+ * @throws KYASDKError SIGNER_REQUIRED when the signer has no provider to read the nonce and chain from
+ */
+export async function signPermit(
+  token: string,
+  signer: ethers.Signer,
+  spender: string,
+  value: bigint,
+  deadline: bigint
+): Promise<Permit> {
+  const provider = signer.provider;
+  if (!provider) {
+    throw new KYASDKError('Permit signer must be connected to a provider', 'SIGNER_REQUIRED', undefined, { token });
+  }
+  const contract = new ethers.Contract(token, ERC20_PERMIT_ABI, signer);
+  const owner = await signer.getAddress();
+  const [name, version, nonce, network] = await Promise.all([
+    contract.name(),
+    // USDC uses "2"; OpenZeppelin ERC20Permit tokens have no version() and use "1"
+    contract.version().catch(() => '1'),
+    contract.nonces(owner),
+    provider.getNetwork(),
+  ]);
+
+  const signature = ethers.Signature.from(
+    await signer.signTypedData(
+      { name, version, chainId: network.chainId, verifyingContract: token },
+      {
+        Permit: [
+          { name: 'owner', type: 'address' },
+          { name: 'spender', type: 'address' },
+          { name: 'value', type: 'uint256' },
+          { name: 'nonce', type: 'uint256' },
+          { name: 'deadline', type: 'uint256' },
+        ],
+      },
+      { owner, spender, value, nonce, deadline }
+    )
+  );
+
+  return { owner, spender, value, deadline, v: signature.v, r: signature.r, s: signature.s };
+}
@@ -0,0 +1,129 @@
+/**
+ * Simulation tests (stubbed provider)
+ */
+
+import { ethers } from 'ethers';
+import { describe, expect, it, jest } from '@jest/globals';
+import { decodeContractError, simulateTransaction } from './simulation';
+import { InsuranceVaultAbi } from '../generated/InsuranceVault';
+import { ContractRevertError, UnauthorizedError } from '../utils/errors';
+
+const VAULT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const MERCHANT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const CLAIM_ID = ethers.id('claim');
+const ROLE = ethers.id('ORACLE_ROLE');
+
+const vaultInterface = new ethers.Interface(InsuranceVaultAbi);
+const erc20Errors = new ethers.Interface([
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+]);
+
+function revert(data: string) {
+  return ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'call', data, reason: null, transaction: { to: VAULT, data: '0x' }, invocation: null, revert: null,
+  });
+}
+
+/**
+ * Provider running submitClaim, or reverting with `revertData` when set
+ */
+function fakeProvider(revertData?: string, feeData = new ethers.FeeData(1n, 20n, 2n)) {
+  const provider = {
+    get provider() {
+      return provider;
+    },
+    call: jest.fn(async (_tx: ethers.TransactionRequest) => {
+      if (revertData !== undefined) {
+        throw revert(revertData);
+      }
+      return vaultInterface.encodeFunctionResult('submitClaim', [CLAIM_ID]);
+    }),
+    estimateGas: jest.fn(async (_tx: ethers.TransactionRequest) => 150000n),
+    getFeeData: jest.fn(async () => feeData),
+  };
+  return provider;
+}
+
+function submitClaim(provider: ReturnType<typeof fakeProvider>) {
+  return new ethers.Contract(VAULT, InsuranceVaultAbi, provider as any).getFunction('submitClaim') as any;
+}
+
+describe('simulateTransaction', () => {
+  it('returns the call result with its gas and maximum fee', async () => {
+    const provider = fakeProvider();
+
+    await expect(
+      simulateTransaction(submitClaim(provider), [7n, 5n, 'late'], provider as any, { from: MERCHANT, blockTag: 12 })
+    ).resolves.toEqual({ result: CLAIM_ID, gasLimit: 150000n, gasPrice: 20n, fee: 3000000n });
+
+    expect(provider.call.mock.calls[0][0]).toMatchObject({
+      to: VAULT,
+      from: MERCHANT,
+      blockTag: 12,
+      data: vaultInterface.encodeFunctionData('submitClaim', [7n, 5n, 'late']),
+    });
+    expect(provider.estimateGas.mock.calls[0][0]).toMatchObject({ from: MERCHANT });
+  });
+
+  it('prices gas at gasPrice without EIP-1559 fees', async () => {
+    const provider = fakeProvider(undefined, new ethers.FeeData(4n, null, null));
+
+    await expect(simulateTransaction(submitClaim(provider), [7n, 5n, 'late'], provider as any)).resolves.toMatchObject({
+      gasPrice: 4n,
+      fee: 600000n,
+    });
+  });
+
+  it('decodes reverts and requires a provider', async () => {
+    const provider = fakeProvider(vaultInterface.encodeErrorResult('InsufficientStake', []));
+
+    const error = await simulateTransaction(submitClaim(provider), [7n, 5n, 'late'], provider as any).catch((e) => e);
+    expect(error).toBeInstanceOf(ContractRevertError);
+    expect(error).toMatchObject({
+      code: 'INSUFFICIENT_STAKE',
+      errorName: 'InsufficientStake',
+      message: 'Reverted with InsufficientStake()',
+      context: { address: VAULT, method: 'submitClaim' },
+    });
+    expect(provider.estimateGas).not.toHaveBeenCalled();
+
+    await expect(simulateTransaction(submitClaim(provider), [7n, 5n, 'late'], null)).rejects.toMatchObject({
+      code: 'NOT_CONFIGURED',
+    });
+  });
+});
+
+describe('decodeContractError', () => {
+  it.each<[string, string, string]>([
+    [
+      'a custom error with arguments',
+      erc20Errors.encodeErrorResult('ERC20InsufficientAllowance', [VAULT, 1n, 5n]),
+      `Reverted with ERC20InsufficientAllowance(${VAULT}, 1, 5)`,
+    ],
+    ['a revert string', vaultInterface.encodeErrorResult('Error', ['paused']), 'Reverted: paused'],
+    ['a panic', vaultInterface.encodeErrorResult('Panic', [0x11]), 'Reverted with panic 0x11'],
+    ['an unknown error', '0xdeadbeef', 'Reverted: unknown custom error 0xdeadbeef'],
+    ['no data', '0x', 'Reverted: no reason'],
+  ])('describes %s', (_case, data, message) => {
+    expect(decodeContractError(revert(data))?.message).toBe(message);
+  });
+
+  it('maps access control errors to UnauthorizedError', () => {
+    const error = decodeContractError(
+      revert(vaultInterface.encodeErrorResult('AccessControlUnauthorizedAccount', [MERCHANT, ROLE])),
+      { method: 'resolveClaim' }
+    );
+
+    expect(error).toBeInstanceOf(UnauthorizedError);
+    expect(error).toMatchObject({
+      code: 'UNAUTHORIZED',
+      account: MERCHANT,
+      role: ROLE,
+      context: { address: VAULT, method: 'resolveClaim' },
+    });
+  });
+
+  it('ignores errors other than reverts', () => {
+    expect(decodeContractError(new Error('network down'))).toBeUndefined();
+  });
+});
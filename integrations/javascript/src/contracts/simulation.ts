@@ -0,0 +1,142 @@
+/**
+ * Simulation
+ * Dry runs for the wrappers' write methods: `staticCall` for the outcome,
+ * `estimateGas` and the current fee data for the cost, with reverts decoded
+ * from the KYA contracts' custom errors
+ */
+
+import { ethers } from 'ethers';
+import type { MethodArgs, StateMutability, TypedContractMethod } from '../generated/common';
+import { AgentLicenseAbi } from '../generated/AgentLicense';
+import { AgentRegistryAbi } from '../generated/AgentRegistry';
+import { InsuranceVaultAbi } from '../generated/InsuranceVault';
+import { MerchantSDKAbi } from '../generated/MerchantSDK';
+import { OracleAdapterAbi } from '../generated/OracleAdapter';
+import { PaymasterAbi } from '../generated/Paymaster';
+import { ReputationScoreAbi } from '../generated/ReputationScore';
+import { ZKAdapterAbi } from '../generated/ZKAdapter';
+import { ContractRevertError, ErrorContext, KYASDKError, UnauthorizedError } from '../utils/errors';
+
+export interface SimulateOptions {
+  /** Account to simulate as (default: the wrapper's signer) */
+  from?: string;
+  /** Block to simulate against (default latest) */
+  blockTag?: ethers.BlockTag;
+}
+
+export interface Simulation<R> {
+  /** Return value of the call */
+  result: R;
+  gasLimit: bigint;
+  /** Price per unit of gas assumed (maxFeePerGas on EIP-1559 networks) */
+  gasPrice: bigint;
+  /** Upper bound of the fee: gasLimit * gasPrice */
+  fee: bigint;
+}
+
+// Raised by USDC when stake() pulls funds (OpenZeppelin ERC20 errors)
+const ERC20_ERRORS = [
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+];
+
+/**
+ * Custom errors of every KYA contract, since calls revert with errors
+ * bubbled up from the contracts they call
+ */
+const errorInterface = new ethers.Interface(
+  Array.from(
+    new Map(
+      [
+        AgentLicenseAbi,
+        AgentRegistryAbi,
+        InsuranceVaultAbi,
+        MerchantSDKAbi,
+        OracleAdapterAbi,
+        PaymasterAbi,
+        ReputationScoreAbi,
+        ZKAdapterAbi,
+      ]
+        .flatMap((abi) => new ethers.Interface(abi).fragments)
+        .concat(ERC20_ERRORS.map((error) => ethers.Fragment.from(error)))
+        .filter((fragment): fragment is ethers.ErrorFragment => fragment.type === 'error')
+        .map((fragment) => [fragment.selector, fragment])
+    ).values()
+  )
+);
+
+/**
+ * Run a write method as a static call and estimate its gas and fee
+ * @throws ContractRevertError (or UnauthorizedError) when the call would revert
+ */
+export async function simulateTransaction<A extends any[], R, S extends StateMutability>(
+  method: TypedContractMethod<A, R, S>,
+  args: A,
+  provider: ethers.Provider | null | undefined,
+  options: SimulateOptions = {}
+): Promise<Simulation<R>> {
+  if (!provider) {
+    throw new KYASDKError('Provider required for simulation', 'NOT_CONFIGURED');
+  }
+
+  const overrides: ethers.Overrides = {};
+  if (options.from) {
+    overrides.from = options.from;
+  }
+  if (options.blockTag !== undefined) {
+    overrides.blockTag = options.blockTag;
+  }
+  const callArgs = [...args, overrides] as MethodArgs<A, S>;
+
+  try {
+    const result = await method.staticCall(...callArgs);
+    const [gasLimit, feeData] = await Promise.all([method.estimateGas(...callArgs), provider.getFeeData()]);
+    const gasPrice = feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n;
+    return { result, gasLimit, gasPrice, fee: gasLimit * gasPrice };
+  } catch (error) {
+    throw decodeContractError(error, { method: method.name }) ?? error;
+  }
+}
+
+/**
+ * Decode a reverted call into a ContractRevertError whose `code` follows
+ * CUSTOM_ERROR_CODES, with the called address in its context
+ * @returns undefined when the error is not a revert (e.g. a network failure)
+ */
+export function decodeContractError(error: unknown, context: ErrorContext = {}): ContractRevertError | undefined {
+  if (!ethers.isError(error, 'CALL_EXCEPTION')) {
+    return undefined;
+  }
+  const address = error.transaction?.to ?? undefined;
+  return decodeRevert(error).withContext(address ? { address, ...context } : context);
+}
+
+function decodeRevert(error: ethers.CallExceptionError): ContractRevertError {
+  const data = error.data ?? undefined;
+  const decoded = data && data !== '0x' ? errorInterface.parseError(data) : null;
+  if (!decoded) {
+    const message = error.reason ?? (data && data !== '0x' ? `unknown custom error ${data.slice(0, 10)}` : 'no reason');
+    return new ContractRevertError(`Reverted: ${message}`, undefined, [], data, error);
+  }
+
+  const args = Array.from(decoded.args);
+  if (decoded.name === 'AccessControlUnauthorizedAccount') {
+    return new UnauthorizedError(decoded.args.account, decoded.args.neededRole, decoded.name, args, data, error);
+  }
+  if (decoded.name === 'NotAuthorized') {
+    return new UnauthorizedError(undefined, undefined, decoded.name, args, data, error);
+  }
+  if (decoded.name === 'Error') {
+    return new ContractRevertError(`Reverted: ${decoded.args[0]}`, decoded.name, args, data, error);
+  }
+  if (decoded.name === 'Panic') {
+    return new ContractRevertError(`Reverted with panic 0x${decoded.args[0].toString(16)}`, decoded.name, args, data, error);
+  }
+  return new ContractRevertError(
+    `Reverted with ${decoded.name}(${args.map((arg) => String(arg)).join(', ')})`,
+    decoded.name,
+    args,
+    data,
+    error
+  );
+}
@@ -0,0 +1,121 @@
+/**
+ * Transaction result tests (stubbed responses and receipts)
+ */
+
+import { ethers } from 'ethers';
+import { describe, expect, it, jest } from '@jest/globals';
+import { findEvent, findEvents, sendTransaction, waitForReceipt } from './transaction';
+import { InsuranceVaultAbi } from '../generated/InsuranceVault';
+
+const VAULT = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const OTHER = '0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512';
+const TBA = '0x1306b01bC3e4AD202612D3843387e94737673F53';
+const HASH = `0x${'ab'.repeat(32)}`;
+
+const vaultInterface = new ethers.Interface(InsuranceVaultAbi);
+
+function receipt(logs: { address: string; topics: readonly string[]; data: string }[] = []) {
+  return new ethers.TransactionReceipt({
+    to: VAULT, from: TBA, contractAddress: null, hash: HASH, index: 0, blockHash: ethers.ZeroHash, blockNumber: 12,
+    logsBloom: '0x', gasUsed: 90000n, cumulativeGasUsed: 90000n, gasPrice: 3n, blobGasUsed: null, blobGasPrice: null,
+    type: 2, status: 1, root: null,
+    logs: logs.map((log, index) => ({
+      ...log, index, transactionHash: HASH, transactionIndex: 0, blockHash: ethers.ZeroHash, blockNumber: 12, removed: false,
+    })),
+  }, null as any);
+}
+
+function staked(address: string, amount: bigint) {
+  return { address, ...vaultInterface.encodeEventLog('Staked', [7n, amount, TBA]) };
+}
+
+function fakeResponse(mined: ethers.TransactionReceipt | null) {
+  return { hash: HASH, wait: jest.fn(async (_confirmations?: number) => mined) };
+}
+
+const decodeStake = (mined: ethers.TransactionReceipt) => ({
+  amount: findEvent(vaultInterface, mined, 'Staked', VAULT).args.amount as bigint,
+});
+
+describe('sendTransaction', () => {
+  it('waits for the receipt and returns the decoded result with the receipt fields', async () => {
+    const mined = receipt([staked(VAULT, 5n)]);
+    const response = fakeResponse(mined);
+
+    await expect(sendTransaction(Promise.resolve(response as any), decodeStake, { confirmations: 2 })).resolves.toEqual({
+      amount: 5n,
+      transactionHash: HASH,
+      blockNumber: 12,
+      gasUsed: 90000n,
+      gasPrice: 3n,
+      receipt: mined,
+    });
+    expect(response.wait).toHaveBeenCalledWith(2);
+  });
+
+  it('returns the pending transaction without waiting when wait is false', async () => {
+    const response = fakeResponse(receipt([staked(VAULT, 5n)]));
+
+    const pending = await sendTransaction(Promise.resolve(response as any), decodeStake, { wait: false });
+
+    expect(pending).toMatchObject({ transactionHash: HASH, response });
+    expect(response.wait).not.toHaveBeenCalled();
+    await expect(pending.wait()).resolves.toMatchObject({ amount: 5n, blockNumber: 12 });
+    expect(response.wait).toHaveBeenCalledWith(1);
+  });
+
+  it('fails when the transaction is not mined', async () => {
+    await expect(sendTransaction(Promise.resolve(fakeResponse(null) as any), decodeStake)).rejects.toMatchObject({
+      code: 'TRANSACTION_NOT_MINED',
+      context: { txHash: HASH },
+    });
+  });
+});
+
+describe('waitForReceipt', () => {
+  function fakeProvider(wait: () => Promise<ethers.TransactionReceipt | null>, known: boolean) {
+    return {
+      waitForTransaction: jest.fn(wait),
+      getTransaction: jest.fn(async () => (known ? {} : null)),
+    };
+  }
+
+  it('returns the receipt, or whether the node still knows the transaction', async () => {
+    const mined = receipt();
+    const timeout = async () => {
+      throw ethers.makeError('timeout', 'TIMEOUT', { operation: 'waitForTransaction', reason: 'timeout' });
+    };
+
+    await expect(waitForReceipt(fakeProvider(async () => mined, true) as any, HASH, 1, 1000)).resolves.toBe(mined);
+    await expect(waitForReceipt(fakeProvider(timeout, true) as any, HASH, 1, 1000)).resolves.toBe('pending');
+    await expect(waitForReceipt(fakeProvider(timeout, false) as any, HASH, 1, 1000)).resolves.toBe('dropped');
+    await expect(waitForReceipt(fakeProvider(async () => null, true) as any, HASH, 0, 1000)).resolves.toBe('pending');
+  });
+
+  it('rethrows errors other than timeouts', async () => {
+    const failure = new Error('RPC down');
+    const provider = fakeProvider(async () => {
+      throw failure;
+    }, true);
+
+    await expect(waitForReceipt(provider as any, HASH, 1, 1000)).rejects.toBe(failure);
+    expect(provider.getTransaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('findEvents', () => {
+  it('decodes only the logs of the event, and of the contract when given', () => {
+    const mined = receipt([
+      staked(OTHER, 1n),
+      { address: VAULT, ...vaultInterface.encodeEventLog('Unstaked', [7n, 2n]) },
+      staked(VAULT.toLowerCase(), 3n),
+    ]);
+
+    expect(findEvents(vaultInterface, mined, 'Staked').map((event) => event.args.amount)).toEqual([1n, 3n]);
+    expect(findEvents(vaultInterface, mined, 'Staked', VAULT).map((event) => event.args.amount)).toEqual([3n]);
+    expect(findEvent(vaultInterface, mined, 'Unstaked').args.toObject()).toEqual({ tokenId: 7n, amount: 2n });
+    expect(() => findEvent(vaultInterface, mined, 'Unstaked', OTHER)).toThrow(
+      expect.objectContaining({ code: 'EVENT_NOT_FOUND', context: { txHash: HASH, event: 'Unstaked' } })
+    );
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Transaction Results
+ * Shared send/wait/decode handling for the contract wrappers' write methods
+ */
+
+import { ethers } from 'ethers';
+import { KYASDKError } from '../utils/errors';
+
+export interface WriteOptions {
+  /** Wait for the receipt and decode the result (default true) */
+  wait?: boolean;
+  /** Confirmations to wait for (default 1) */
+  confirmations?: number;
+}
+
+/**
+ * Receipt fields included in every write result
+ */
+export interface TransactionResult {
+  transactionHash: string;
+  blockNumber: number;
+  gasUsed: bigint;
+  /** Price paid per unit of gas */
+  gasPrice: bigint;
+  receipt: ethers.TransactionReceipt;
+}
+
+/** Result of a write method that emits no event worth decoding */
+export type NoResult = Record<string, never>;
+
+/**
+ * A sent transaction that has not been waited for (`{ wait: false }`)
+ */
+export interface PendingTransaction<T> {
+  transactionHash: string;
+  response: ethers.ContractTransactionResponse;
+  wait(confirmations?: number): Promise<T & TransactionResult>;
+}
+
+export type WriteResult<T, O extends WriteOptions | undefined> = O extends { wait: false }
+  ? PendingTransaction<T>
+  : T & TransactionResult;
+
+/**
+ * Send a transaction and, unless `options.wait` is false, wait for it and decode its receipt
+ * @param decode Extract the method's result from the receipt logs
+ */
+export async function sendTransaction<T, O extends WriteOptions | undefined>(
+  send: Promise<ethers.ContractTransactionResponse>,
+  decode: (receipt: ethers.TransactionReceipt) => T,
+  options?: O
+): Promise<WriteResult<T, O>> {
+  const response = await send;
+  const pending: PendingTransaction<T> = {
+    transactionHash: response.hash,
+    response,
+    wait: async (confirmations = options?.confirmations ?? 1) => {
+      // Reverts reject with CALL_EXCEPTION
+      const receipt = await response.wait(confirmations);
+      if (!receipt) {
+        throw new KYASDKError(`Transaction ${response.hash} was not mined`, 'TRANSACTION_NOT_MINED', undefined, {
+          txHash: response.hash,
+        });
+      }
+      return { ...decode(receipt), ...toTransactionResult(receipt) };
+    },
+  };
+
+  return (options?.wait === false ? pending : await pending.wait()) as WriteResult<T, O>;
+}
+
+/**
+ * Receipt fields for a transaction waited for elsewhere (e.g. by hash after a restart)
+ */
+export function toTransactionResult(receipt: ethers.TransactionReceipt): TransactionResult {
+  return {
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber,
+    gasUsed: receipt.gasUsed,
+    gasPrice: receipt.gasPrice,
+    receipt,
+  };
+}
+
+/**
+ * Where a transaction sent earlier stands after waiting for it
+ * - `pending`: still unmined (or short of confirmations) when the wait timed out
+ * - `dropped`: no longer known to the node, so it is safe to send again
+ */
+export type ReceiptWait = ethers.TransactionReceipt | 'pending' | 'dropped';
+
+/**
+ * Wait for a transaction by hash for at most `timeout` milliseconds
+ */
+export async function waitForReceipt(
+  provider: ethers.Provider,
+  hash: string,
+  confirmations: number,
+  timeout: number
+): Promise<ReceiptWait> {
+  try {
+    const receipt = await provider.waitForTransaction(hash, confirmations, timeout);
+    if (receipt) {
+      return receipt;
+    }
+  } catch (error) {
+    if (!ethers.isError(error, 'TIMEOUT')) {
+      throw error;
+    }
+  }
+  return (await provider.getTransaction(hash)) ? 'pending' : 'dropped';
+}
+
+/**
+ * Decode the logs of one event in a receipt
+ * @param address Only decode logs emitted by this contract
+ */
+export function findEvents(
+  contractInterface: ethers.Interface,
+  receipt: ethers.TransactionReceipt,
+  eventName: string,
+  address?: string
+): ethers.LogDescription[] {
+  const topic = contractInterface.getEvent(eventName)!.topicHash;
+  return receipt.logs
+    .filter((log) => log.topics[0] === topic && (!address || ethers.getAddress(log.address) === ethers.getAddress(address)))
+    .map((log) => contractInterface.parseLog(log)!);
+}
+
+/**
+ * Decode the first log of an event in a receipt
+ * @throws KYASDKError EVENT_NOT_FOUND when the receipt holds none
+ */
+export function findEvent(
+  contractInterface: ethers.Interface,
+  receipt: ethers.TransactionReceipt,
+  eventName: string,
+  address?: string
+): ethers.LogDescription {
+  const [event] = findEvents(contractInterface, receipt, eventName, address);
+  if (!event) {
+    throw new KYASDKError(`${eventName} event not found in ${receipt.hash}`, 'EVENT_NOT_FOUND', undefined, {
+      txHash: receipt.hash,
+      event: eventName,
+    });
+  }
+  return event;
+}
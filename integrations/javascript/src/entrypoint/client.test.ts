@@ -0,0 +1,199 @@
+/**
+ * EntryPointClient tests (stubbed provider and bundler)
+ */
+
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { ethers } from 'ethers';
+import { describe, expect, it, jest } from '@jest/globals';
+import { EntryPointClient } from './client';
+import { ENTRY_POINT_ABI, ENTRY_POINT_V06_ADDRESS, ENTRY_POINT_V07_ADDRESS, toEntryPointTuple } from './userop';
+import { PaymasterAbi } from '../generated/Paymaster';
+import { EntryPointConfig } from '../config';
+import { UserOperation } from '../types';
+import { PaymasterError } from '../utils/errors';
+
+const BUNDLER_URL = 'https://bundler.test/rpc';
+const SENDER = '0x1306b01bC3e4AD202612D3843387e94737673F53';
+/** 192-bit key 0xa5…a5, sequence 3 */
+const KEYED_NONCE = 0xa5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a50000000000000003n;
+const PAYMASTER = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+const PAYMASTER_DATA_TUPLE = 'tuple(uint256 tokenId, bytes userOp, uint256 maxCost)';
+
+const entryPointInterface = new ethers.Interface(ENTRY_POINT_ABI['0.7']);
+const paymasterInterface = new ethers.Interface(PaymasterAbi);
+
+const USER_OP: UserOperation = {
+  sender: SENDER,
+  nonce: KEYED_NONCE,
+  callData: '0x',
+  callGasLimit: 100000,
+  verificationGasLimit: 100000,
+  preVerificationGas: 21000,
+  maxFeePerGas: 3000000000n,
+  maxPriorityFeePerGas: 1000000000n,
+  signature: '0x',
+};
+
+function fakeProvider() {
+  return {
+    call: jest.fn(async (tx: ethers.TransactionRequest) => {
+      if (tx.to && ethers.getAddress(tx.to as string) === PAYMASTER) {
+        const call = paymasterInterface.parseTransaction({ data: tx.data! })!;
+        return paymasterInterface.encodeFunctionResult(call.fragment, [true, 10n]);
+      }
+      const call = entryPointInterface.parseTransaction({ data: tx.data! })!;
+      if (call.name !== 'getNonce') {
+        throw new Error(`unexpected call ${call.name}`);
+      }
+      return entryPointInterface.encodeFunctionResult(call.fragment, [KEYED_NONCE]);
+    }),
+    getFeeData: async () => new ethers.FeeData(null, 3000000000n, 1000000000n),
+  };
+}
+
+/**
+ * Client whose bundler answers `respond(method, params)` in-process
+ */
+function createClient(respond: (method: string, params: unknown[]) => { status?: number; body: unknown } | Error, config: Partial<EntryPointConfig> = {}) {
+  const provider = fakeProvider();
+  const client = new EntryPointClient(
+    { address: ENTRY_POINT_V07_ADDRESS, network: 'base-sepolia', chainId: 84532, bundlerUrl: BUNDLER_URL, ...config },
+    provider as any
+  );
+  const requests: { url?: string; body: any }[] = [];
+  (client as any).bundler.defaults.adapter = async (axiosConfig: InternalAxiosRequestConfig) => {
+    const body = JSON.parse(axiosConfig.data);
+    requests.push({ url: axiosConfig.url, body });
+    const answer = respond(body.method, body.params);
+    if (answer instanceof Error) {
+      throw new AxiosError(answer.message, 'ECONNREFUSED', axiosConfig);
+    }
+    const response = { status: answer.status ?? 200, statusText: '', headers: {}, config: axiosConfig, data: answer.body };
+    if (response.status >= 400) {
+      throw new AxiosError(`Request failed with status code ${response.status}`, 'ERR_BAD_REQUEST', axiosConfig, {}, response);
+    }
+    return response;
+  };
+  return { client, provider, requests };
+}
+
+describe('EntryPointClient', () => {
+  it('reads the full 256-bit nonce as a bigint', async () => {
+    const { client, provider } = createClient(() => ({ body: {} }));
+
+    await expect(client.getNonce(SENDER, 0xa5n)).resolves.toBe(KEYED_NONCE);
+    const call = entryPointInterface.parseTransaction({ data: provider.call.mock.calls[0][0].data! })!;
+    expect(call.args).toEqual([SENDER, 0xa5n]);
+  });
+
+  it('fills the nonce and fees of a new user operation', async () => {
+    const { client } = createClient(() => ({ body: {} }));
+
+    await expect(client.createUserOperation({ sender: SENDER, callData: '0x1234' })).resolves.toMatchObject({
+      nonce: KEYED_NONCE,
+      maxFeePerGas: 3000000000n,
+      maxPriorityFeePerGas: 1000000000n,
+    });
+    await expect(client.createUserOperation({ sender: SENDER, callData: '0x', nonce: 5n })).resolves.toMatchObject({ nonce: 5n });
+  });
+
+  it('sends eth_sendUserOperation as JSON-RPC', async () => {
+    const { client, requests } = createClient(() => ({ body: { jsonrpc: '2.0', id: 1, result: '0xhash' } }));
+
+    await expect(client.submitUserOperation(USER_OP)).resolves.toBe('0xhash');
+    expect(requests[0]).toMatchObject({
+      url: BUNDLER_URL,
+      body: {
+        jsonrpc: '2.0',
+        method: 'eth_sendUserOperation',
+        params: [expect.objectContaining({ sender: SENDER, nonce: ethers.toQuantity(KEYED_NONCE) }), ENTRY_POINT_V07_ADDRESS],
+      },
+    });
+  });
+
+  it('uses a per-call bundler URL', async () => {
+    const { client, requests } = createClient(() => ({ body: { jsonrpc: '2.0', id: 1, result: null } }));
+
+    await expect(client.getUserOperationByHash('0xhash', 'https://other.test/rpc')).resolves.toBeNull();
+    expect(requests[0].url).toBe('https://other.test/rpc');
+  });
+
+  it('parses gas estimates, including the v0.6 verificationGas field', async () => {
+    const { client } = createClient(() => ({
+      body: { jsonrpc: '2.0', id: 1, result: { preVerificationGas: '0xbb80', verificationGas: '0x249f0', callGasLimit: '0x30d40' } },
+    }));
+
+    await expect(client.estimateUserOperationGas(USER_OP)).resolves.toEqual({
+      preVerificationGas: 48000n,
+      verificationGasLimit: 150000n,
+      callGasLimit: 200000n,
+    });
+  });
+
+  it.each<[string, { status?: number; body: unknown }]>([
+    ['in a 200 response', { body: { jsonrpc: '2.0', id: 1, error: { code: -32602, message: 'AA21 didn\'t pay prefund' } } }],
+    ['in an HTTP error response', { status: 400, body: { jsonrpc: '2.0', id: 1, error: { code: -32602, message: 'AA21 didn\'t pay prefund' } } }],
+  ])('throws BUNDLER_REJECTED for a JSON-RPC error %s', async (_case, answer) => {
+    const { client } = createClient(() => answer);
+
+    await expect(client.submitUserOperation(USER_OP)).rejects.toMatchObject({
+      code: 'BUNDLER_REJECTED',
+      message: 'Bundler error: AA21 didn\'t pay prefund',
+      context: { method: 'eth_sendUserOperation', rpcCode: -32602 },
+    });
+  });
+
+  it('maps transport failures to the transport error code', async () => {
+    const { client } = createClient(() => new Error('connect ECONNREFUSED'), { http: { circuitBreaker: false } });
+
+    await expect(client.submitUserOperation(USER_OP)).rejects.toMatchObject({
+      name: 'EntryPointError',
+      code: 'NETWORK_ERROR',
+      message: 'Bundler request eth_sendUserOperation failed: connect ECONNREFUSED',
+    });
+  });
+
+  it('opens the bundler circuit after repeated failures', async () => {
+    const { client, requests } = createClient(() => ({ status: 503, body: 'unavailable' }), {
+      http: { circuitBreaker: { failureThreshold: 2, resetTimeout: 60000 } },
+    });
+
+    for (let i = 0; i < 2; i++) {
+      await expect(client.submitUserOperation(USER_OP)).rejects.toMatchObject({ code: 'SERVICE_UNAVAILABLE' });
+    }
+    await expect(client.submitUserOperation(USER_OP)).rejects.toMatchObject({ code: 'CIRCUIT_OPEN' });
+    expect(requests).toHaveLength(2);
+  });
+
+  describe('createSponsoredUserOperation', () => {
+    function decodePaymasterData(data: string) {
+      return ethers.AbiCoder.defaultAbiCoder().decode([PAYMASTER_DATA_TUPLE], data)[0].toObject();
+    }
+
+    it('fills paymasterAndData the way Paymaster.sol decodes it', async () => {
+      const { client } = createClient(() => ({ body: {} }), { address: ENTRY_POINT_V06_ADDRESS, paymasterAddress: PAYMASTER });
+
+      const userOp = await client.createSponsoredUserOperation(7n, { sender: SENDER, callData: '0x' });
+
+      expect(userOp.paymaster).toBeUndefined();
+      const { paymasterAndData } = toEntryPointTuple(userOp);
+      // abi.decode(paymasterAndData[20:], (PaymasterData))
+      expect(ethers.dataSlice(paymasterAndData, 0, 20)).toBe(PAYMASTER.toLowerCase());
+      expect(decodePaymasterData(ethers.dataSlice(paymasterAndData, 20))).toEqual({
+        tokenId: 7n,
+        userOp: '0x',
+        maxCost: (100000n + 100000n + 21000n) * 3000000000n,
+      });
+    });
+
+    it('rejects v0.7 sponsorship, whose paymaster layout Paymaster.sol cannot decode', async () => {
+      const { client, provider } = createClient(() => ({ body: {} }), { paymasterAddress: PAYMASTER });
+
+      const error = await client.createSponsoredUserOperation(7n, { sender: SENDER, callData: '0x' }).catch((e) => e);
+
+      expect(error).toBeInstanceOf(PaymasterError);
+      expect(error.code).toBe('PAYMASTER_UNSUPPORTED');
+      expect(provider.call).not.toHaveBeenCalled();
+    });
+  });
+});
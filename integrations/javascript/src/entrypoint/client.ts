@@ -2,19 +2,88 @@
  * ERC-4337 EntryPoint Client
  */
 
+import axios, { AxiosInstance } from 'axios';
 import { ethers } from 'ethers';
 import { EntryPointConfig } from '../config';
-import { UserOperation, PaymasterData } from '../types';
+import {
+  EntryPointVersion,
+  UserOperation,
+  UserOperationGasEstimate,
+  UserOperationLookup,
+  UserOperationReceipt,
+} from '../types';
+import { PaymasterContract } from '../contracts/Paymaster';
+import {
+  ENTRY_POINT_ABI,
+  fromRpcUserOperation,
+  getEntryPointVersion,
+  getUserOperationHash,
+  packUserOperation,
+  signUserOperation,
+  toEntryPointTuple,
+  toRpcUserOperation,
+} from './userop';
+import { createHttpTransport } from '../utils/http';
+import { EntryPointError, PaymasterError, PaymasterNotEligibleError, toErrorCode } from '../utils/errors';
+
+interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+interface JsonRpcResponse<T> {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: T;
+  error?: JsonRpcError;
+}
+
+// Bundler results; quantities are hex strings
+interface RpcGasEstimate {
+  preVerificationGas: string;
+  verificationGasLimit?: string;
+  verificationGas?: string; // v0.6 bundlers
+  callGasLimit: string;
+}
+
+interface RpcUserOperationLookup {
+  userOperation: Record<string, string>;
+  entryPoint: string;
+  transactionHash?: string | null;
+  blockNumber?: string | null;
+}
+
+interface RpcUserOperationReceipt {
+  userOpHash: string;
+  sender: string;
+  nonce: string;
+  success: boolean;
+  actualGasCost: string;
+  actualGasUsed: string;
+  receipt: { transactionHash: string; blockNumber: string };
+}
 
 export class EntryPointClient {
   private config: EntryPointConfig;
   private provider: ethers.Provider;
   private signer?: ethers.Signer;
+  private paymaster?: PaymasterContract;
+  private version?: EntryPointVersion;
+  private bundler: AxiosInstance;
 
   constructor(config: EntryPointConfig, provider: ethers.Provider, signer?: ethers.Signer) {
     this.config = config;
     this.provider = provider;
     this.signer = signer;
+    this.version = config.version || getEntryPointVersion(config.address);
+    // Requests go to absolute URLs, so one transport serves per-call bundler URLs too
+    this.bundler = createHttpTransport('bundler', config.bundlerUrl ?? '', {
+      'Content-Type': 'application/json',
+    }, config.http);
+    if (config.paymasterAddress) {
+      this.paymaster = new PaymasterContract(config.paymasterAddress, provider, signer);
+    }
   }
 
   /**
@@ -23,13 +92,13 @@ export class EntryPointClient {
   async createUserOperation(params: {
     sender: string;
     callData: string;
-    nonce?: number;
+    nonce?: bigint;
     callGasLimit?: number;
     verificationGasLimit?: number;
     maxFeePerGas?: bigint;
     maxPriorityFeePerGas?: bigint;
   }): Promise<UserOperation> {
-    const nonce = params.nonce ?? await this.getNonce(params.sender);
+    const nonce = params.nonce ?? (await this.getNonce(params.sender));
     
     // Get current gas prices if not provided
     let maxFeePerGas = params.maxFeePerGas;
@@ -53,92 +122,337 @@ export class EntryPointClient {
     };
   }
 
+  /**
+   * Create a user operation sponsored by the KYA Paymaster
+   * Checks eligibility before filling `paymasterAndData`
+   * @param tokenId Agent token ID the sponsorship is charged to
+   * @throws PaymasterError PAYMASTER_UNSUPPORTED on an EntryPoint v0.7
+   * @throws PaymasterNotEligibleError if the agent is not eligible or has used its quota
+   */
+  async createSponsoredUserOperation(
+    tokenId: number | bigint,
+    params: Parameters<EntryPointClient['createUserOperation']>[0]
+  ): Promise<UserOperation> {
+    if (!this.paymaster) {
+      throw new EntryPointError('Paymaster address not configured', 'PAYMASTER_NOT_CONFIGURED');
+    }
+    // Paymaster.sol decodes PaymasterData right after the paymaster address,
+    // where v0.7 packs the paymaster gas limits
+    if ((await this.getVersion()) === '0.7') {
+      throw new PaymasterError(
+        'The KYA Paymaster only decodes the v0.6 paymasterAndData layout; sponsor through an EntryPoint v0.6',
+        'PAYMASTER_UNSUPPORTED'
+      );
+    }
+
+    const { eligible, remainingTransactions } = await this.paymaster.isEligible(tokenId);
+    if (!eligible || remainingTransactions === 0n) {
+      const sponsoredCount = await this.paymaster.getSponsoredCount(tokenId);
+      throw new PaymasterNotEligibleError(BigInt(tokenId), sponsoredCount, remainingTransactions);
+    }
+
+    const userOp = await this.createUserOperation(params);
+
+    // Cap the sponsorship at the maximum gas the operation can consume
+    const totalGas =
+      BigInt(userOp.callGasLimit) + BigInt(userOp.verificationGasLimit) + BigInt(userOp.preVerificationGas);
+    userOp.paymasterAndData = this.paymaster.encodePaymasterAndData(tokenId, totalGas * userOp.maxFeePerGas);
+    return userOp;
+  }
+
   /**
    * Submit user operation to EntryPoint via bundler
+   * Without a bundler (e.g. local anvil devnet) the operation is signed if
+   * needed and self-bundled through `handleOps`
    * @param userOp User operation to submit
-   * @param bundlerUrl Bundler RPC URL (e.g., Pimlico, Alchemy)
+   * @param bundlerUrl Bundler RPC URL (e.g., Pimlico, Alchemy); defaults to config.bundlerUrl
    * @returns User operation hash
    */
   async submitUserOperation(
     userOp: UserOperation,
     bundlerUrl?: string
   ): Promise<string> {
-    if (!bundlerUrl) {
-      // Use default bundler or direct EntryPoint call
-      if (!this.signer) {
-        throw new Error('Signer required for direct EntryPoint submission');
-      }
-      
-      const entryPoint = new ethers.Contract(
-        this.config.address,
-        [
-          'function handleOps(tuple(address,uint256,bytes,bytes,uint256,uint256,uint256,uint256,uint256,bytes,bytes)[],address)',
-          'function getUserOpHash(tuple(address,uint256,bytes,bytes,uint256,uint256,uint256,uint256,uint256,bytes,bytes)) view returns (bytes32)'
-        ],
-        this.signer
-      );
-      
-      // Get user operation hash
-      const userOpHash = await entryPoint.getUserOpHash(userOp);
-      
-      // Submit via handleOps (requires bundler or direct call)
-      // Note: In production, use a bundler service
-      throw new Error('Direct EntryPoint submission requires bundler. Use submitUserOperation with bundlerUrl.');
+    const url = bundlerUrl || this.config.bundlerUrl;
+    if (!url) {
+      return await this.selfBundle(userOp);
     }
-    
-    // Submit via bundler RPC
-    try {
-      const response = await fetch(bundlerUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          jsonrpc: '2.0',
-          id: 1,
-          method: 'eth_sendUserOperation',
-          params: [userOp, this.config.address],
-        }),
-      });
-      
-      const data = await response.json();
-      if (data.error) {
-        throw new Error(`Bundler error: ${data.error.message}`);
+
+    return await this.bundlerRequest<string>(url, 'eth_sendUserOperation', [
+      toRpcUserOperation(userOp, await this.getVersion()),
+      this.config.address,
+    ]);
+  }
+
+  /**
+   * Estimate gas limits for a user operation via the bundler
+   */
+  async estimateUserOperationGas(
+    userOp: UserOperation,
+    bundlerUrl?: string
+  ): Promise<UserOperationGasEstimate> {
+    const result = await this.bundlerRequest<RpcGasEstimate>(
+      this.requireBundlerUrl(bundlerUrl),
+      'eth_estimateUserOperationGas',
+      [toRpcUserOperation(userOp, await this.getVersion()), this.config.address]
+    );
+
+    const verificationGasLimit = result.verificationGasLimit ?? result.verificationGas;
+    if (verificationGasLimit === undefined) {
+      throw new EntryPointError('Bundler returned no verification gas limit', 'BUNDLER_REJECTED');
+    }
+
+    return {
+      preVerificationGas: BigInt(result.preVerificationGas),
+      verificationGasLimit: BigInt(verificationGasLimit),
+      callGasLimit: BigInt(result.callGasLimit),
+    };
+  }
+
+  /**
+   * Look up a user operation by hash via the bundler
+   * @returns The user operation, or null if unknown to the bundler
+   */
+  async getUserOperationByHash(
+    userOpHash: string,
+    bundlerUrl?: string
+  ): Promise<UserOperationLookup | null> {
+    const result = await this.bundlerRequest<RpcUserOperationLookup | null>(
+      this.requireBundlerUrl(bundlerUrl),
+      'eth_getUserOperationByHash',
+      [userOpHash]
+    );
+    if (!result) {
+      return null;
+    }
+
+    return {
+      userOperation: fromRpcUserOperation(result.userOperation),
+      entryPoint: result.entryPoint,
+      transactionHash: result.transactionHash ?? null,
+      blockNumber: result.blockNumber != null ? Number(result.blockNumber) : null,
+    };
+  }
+
+  /**
+   * Wait for a user operation to be included on-chain
+   * Uses `eth_getUserOperationReceipt` when a bundler is configured,
+   * otherwise reads the EntryPoint's UserOperationEvent logs
+   * @param timeout Maximum wait in milliseconds
+   * @param interval Delay between polls in milliseconds
+   */
+  async waitForUserOperationReceipt(
+    userOpHash: string,
+    timeout: number = 60000,
+    interval: number = 2000,
+    bundlerUrl?: string
+  ): Promise<UserOperationReceipt> {
+    const url = bundlerUrl || this.config.bundlerUrl;
+    const deadline = Date.now() + timeout;
+
+    while (Date.now() < deadline) {
+      const receipt = url
+        ? await this.getBundlerReceipt(url, userOpHash)
+        : await this.getOnChainReceipt(userOpHash);
+
+      if (receipt) {
+        return receipt;
       }
-      
-      return data.result;
-    } catch (error: any) {
-      throw new Error(`Failed to submit user operation: ${error.message}`);
+
+      // Wait before next poll
+      await new Promise(resolve => setTimeout(resolve, interval));
     }
+
+    throw new EntryPointError(`Timed out waiting for user operation ${userOpHash}`, 'TIMEOUT');
   }
 
   /**
    * Get user operation hash
+   * Computed locally (no EntryPoint call); only the chain ID is read from
+   * the provider when not configured
    * @param userOp User operation
    * @returns User operation hash
    */
   async getUserOpHash(userOp: UserOperation): Promise<string> {
-    const entryPoint = new ethers.Contract(
+    return getUserOperationHash(userOp, this.config.address, await this.getChainId(), await this.getVersion());
+  }
+
+  /**
+   * Get user operation hash from the EntryPoint contract
+   * Useful to cross-check the local computation against a deployment
+   */
+  async getUserOpHashOnChain(userOp: UserOperation): Promise<string> {
+    const version = await this.getVersion();
+    const entryPoint = new ethers.Contract(this.config.address, ENTRY_POINT_ABI[version], this.provider);
+    return await entryPoint.getUserOpHash(this.toEntryPointOp(userOp, version));
+  }
+
+  /**
+   * Sign a user operation
+   * @param signer Defaults to the client signer
+   * @returns A copy of the user operation with `signature` set
+   */
+  async signUserOperation(userOp: UserOperation, signer?: ethers.Signer): Promise<UserOperation> {
+    const signingKey = signer || this.signer;
+    if (!signingKey) {
+      throw new EntryPointError('Signer required for signUserOperation', 'SIGNER_REQUIRED');
+    }
+    return await signUserOperation(
+      userOp,
+      signingKey,
       this.config.address,
-      ['function getUserOpHash(tuple(address,uint256,bytes,bytes,uint256,uint256,uint256,uint256,uint256,bytes,bytes)) view returns (bytes32)'],
-      this.provider
+      await this.getChainId(),
+      await this.getVersion()
     );
-    
-    return await entryPoint.getUserOpHash(userOp);
+  }
+
+  /**
+   * Get the EntryPoint version
+   * Uses config.version or the canonical address, otherwise probes the
+   * v0.7 `getUserOpHash` (non-canonical deployments, e.g. local devnets)
+   */
+  async getVersion(): Promise<EntryPointVersion> {
+    if (!this.version) {
+      const probe = new ethers.Contract(this.config.address, ENTRY_POINT_ABI['0.7'], this.provider);
+      try {
+        await probe.getUserOpHash(
+          packUserOperation({
+            sender: ethers.ZeroAddress,
+            nonce: 0n,
+            callData: '0x',
+            callGasLimit: 0,
+            verificationGasLimit: 0,
+            preVerificationGas: 0,
+            maxFeePerGas: 0n,
+            maxPriorityFeePerGas: 0n,
+          })
+        );
+        this.version = '0.7';
+      } catch {
+        this.version = '0.6';
+      }
+    }
+    return this.version;
   }
 
   /**
    * Get nonce for account
+   * @param key 192-bit nonce key
+   * @returns The full nonce (key in the upper 192 bits, sequence in the lower 64)
    */
-  async getNonce(sender: string, key: number = 0): Promise<number> {
-    // TODO: Implement EntryPoint.getNonce call
-    const entryPoint = new ethers.Contract(
-      this.config.address,
-      ['function getNonce(address,uint192) view returns (uint256)'],
-      this.provider
-    );
-    
-    return Number(await entryPoint.getNonce(sender, key));
+  async getNonce(sender: string, key: bigint | number = 0n): Promise<bigint> {
+    // getNonce is identical in v0.6 and v0.7
+    const entryPoint = new ethers.Contract(this.config.address, ENTRY_POINT_ABI['0.7'], this.provider);
+    return await entryPoint.getNonce(sender, key);
   }
-}
 
+  /**
+   * Sign (if unsigned) and submit a user operation directly via handleOps
+   */
+  private async selfBundle(userOp: UserOperation): Promise<string> {
+    if (!this.signer) {
+      throw new EntryPointError('Signer required for direct EntryPoint submission', 'SIGNER_REQUIRED');
+    }
+
+    if (!userOp.signature || userOp.signature === '0x') {
+      userOp = await this.signUserOperation(userOp);
+    }
+    const userOpHash = await this.getUserOpHash(userOp);
+
+    const version = await this.getVersion();
+    const beneficiary = this.config.beneficiary || (await this.signer.getAddress());
+    const entryPoint = new ethers.Contract(this.config.address, ENTRY_POINT_ABI[version], this.signer);
+
+    try {
+      const tx = await entryPoint.handleOps([this.toEntryPointOp(userOp, version)], beneficiary);
+      await tx.wait();
+    } catch (error: any) {
+      throw new EntryPointError(`Failed to submit user operation: ${error.message}`, toErrorCode(error), error);
+    }
+
+    return userOpHash;
+  }
+
+  private async getBundlerReceipt(url: string, userOpHash: string): Promise<UserOperationReceipt | null> {
+    const result = await this.bundlerRequest<RpcUserOperationReceipt | null>(url, 'eth_getUserOperationReceipt', [userOpHash]);
+    if (!result) {
+      return null;
+    }
+
+    return {
+      userOpHash: result.userOpHash,
+      sender: result.sender,
+      nonce: BigInt(result.nonce),
+      success: result.success,
+      actualGasCost: BigInt(result.actualGasCost),
+      actualGasUsed: BigInt(result.actualGasUsed),
+      transactionHash: result.receipt.transactionHash,
+      blockNumber: Number(result.receipt.blockNumber),
+    };
+  }
+
+  private async getOnChainReceipt(userOpHash: string): Promise<UserOperationReceipt | null> {
+    const entryPoint = new ethers.Contract(this.config.address, ENTRY_POINT_ABI[await this.getVersion()], this.provider);
+    const logs = await entryPoint.queryFilter(entryPoint.filters.UserOperationEvent(userOpHash));
+    const log = logs[logs.length - 1] as ethers.EventLog | undefined;
+    if (!log) {
+      return null;
+    }
+
+    return {
+      userOpHash: log.args.userOpHash,
+      sender: log.args.sender,
+      nonce: log.args.nonce,
+      success: log.args.success,
+      actualGasCost: log.args.actualGasCost,
+      actualGasUsed: log.args.actualGasUsed,
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+    };
+  }
+
+  private async getChainId(): Promise<number> {
+    if (this.config.chainId === undefined) {
+      this.config = { ...this.config, chainId: Number((await this.provider.getNetwork()).chainId) };
+    }
+    return this.config.chainId!;
+  }
+
+  private toEntryPointOp(userOp: UserOperation, version: EntryPointVersion) {
+    return version === '0.7' ? packUserOperation(userOp) : toEntryPointTuple(userOp);
+  }
+
+  private requireBundlerUrl(bundlerUrl?: string): string {
+    const url = bundlerUrl || this.config.bundlerUrl;
+    if (!url) {
+      throw new EntryPointError('Bundler URL required', 'BUNDLER_REQUIRED');
+    }
+    return url;
+  }
+
+  /**
+   * Send a JSON-RPC request to a bundler over the shared HTTP transport
+   * @throws EntryPointError BUNDLER_REJECTED for JSON-RPC errors, or the transport's code (TIMEOUT, ...)
+   */
+  private async bundlerRequest<T>(url: string, method: string, params: unknown[]): Promise<T> {
+    let data: JsonRpcResponse<T>;
+    try {
+      data = (await this.bundler.post<JsonRpcResponse<T>>(url, { jsonrpc: '2.0', id: 1, method, params })).data;
+    } catch (error: any) {
+      // Some bundlers answer JSON-RPC errors with an HTTP error status
+      const body = axios.isAxiosError<JsonRpcResponse<T>>(error) ? error.response?.data : undefined;
+      if (!body?.error) {
+        throw new EntryPointError(`Bundler request ${method} failed: ${error.message}`, toErrorCode(error, 'NETWORK_ERROR'), error);
+      }
+      data = body;
+    }
+
+    if (data.error) {
+      throw new EntryPointError(`Bundler error: ${data.error.message}`, 'BUNDLER_REJECTED').withContext({
+        method,
+        rpcCode: data.error.code,
+      });
+    }
+
+    return data.result as T;
+  }
+}
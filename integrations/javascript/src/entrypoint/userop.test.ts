@@ -0,0 +1,175 @@
+/**
+ * UserOperation layout and hashing tests
+ * Expected hashes match EntryPoint.getUserOpHash as computed by the
+ * eth-infinitism reference utils (v0.6) and viem (v0.6 and v0.7)
+ */
+
+import { ethers } from 'ethers';
+import { describe, expect, it } from '@jest/globals';
+import {
+  ENTRY_POINT_V06_ADDRESS,
+  ENTRY_POINT_V07_ADDRESS,
+  fromRpcUserOperation,
+  getUserOperationHash,
+  packUserOperation,
+  signUserOperation,
+  toRpcUserOperation,
+  unpackUserOperation,
+} from './userop';
+import { EntryPointVersion, UserOperation } from '../types';
+
+// Hardhat/anvil account #1
+const SIGNER = new ethers.Wallet('0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d');
+
+const FACTORY = '0x9406Cc6185a346906296840746125a0E44976454';
+const FACTORY_DATA = '0x5fbfb9cf000000000000000000000000000000000000000000000000000000000000002a';
+const PAYMASTER = '0xE93ECa6595fe94091DC1af46aaC2A8b5D7990770';
+const PAYMASTER_DATA = '0xdeadbeef';
+
+/** 192-bit key 0xa5…a5, sequence 3 */
+const KEYED_NONCE = 0xa5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a5a50000000000000003n;
+
+const BASE: UserOperation = {
+  sender: '0x1306b01bC3e4AD202612D3843387e94737673F53',
+  nonce: KEYED_NONCE,
+  callData: '0xb61d27f60000000000000000000000000000000000000000000000000000000000000001',
+  callGasLimit: 200000,
+  verificationGasLimit: 150000,
+  preVerificationGas: 48000,
+  maxFeePerGas: 3000000000n,
+  maxPriorityFeePerGas: 1000000000n,
+  signature: '0x',
+};
+
+const V06_OP: UserOperation = {
+  ...BASE,
+  initCode: ethers.concat([FACTORY, FACTORY_DATA]),
+  paymasterAndData: ethers.concat([PAYMASTER, PAYMASTER_DATA]),
+};
+
+const V07_OP: UserOperation = {
+  ...BASE,
+  factory: FACTORY,
+  factoryData: FACTORY_DATA,
+  paymaster: PAYMASTER,
+  paymasterVerificationGasLimit: 100000n,
+  paymasterPostOpGasLimit: 50000n,
+  paymasterData: PAYMASTER_DATA,
+};
+
+describe('getUserOperationHash', () => {
+  it.each<[EntryPointVersion, string, UserOperation, string, number, string]>([
+    ['0.6', 'with initCode and paymasterAndData', V06_OP, ENTRY_POINT_V06_ADDRESS, 84532, '0x5668fa98c8c50c6d3a6a87bf89b507bda7e378806a3789d36229b480ae0aada4'],
+    ['0.6', 'without initCode or paymaster', { ...BASE, nonce: 0n }, ENTRY_POINT_V06_ADDRESS, 1, '0xebb307b82c3fed437e35fbb35da2f9f1b1d56ff0f4adae7db6c268dbafedef00'],
+    ['0.7', 'with factory and paymaster fields', V07_OP, ENTRY_POINT_V07_ADDRESS, 84532, '0x9f55cb99cc234e3245e6a876414681e657408aa06c35ace07564c8dd9d45103e'],
+    ['0.7', 'without factory or paymaster', { ...BASE, nonce: 0n }, ENTRY_POINT_V07_ADDRESS, 1, '0x34c0c023939ce4f67e551c8488ab764cc6cb25b6742a270be31fe2e53838037a'],
+  ])('matches EntryPoint v%s %s', (version, _case, userOp, entryPoint, chainId, expected) => {
+    expect(getUserOperationHash(userOp, entryPoint, chainId, version)).toBe(expected);
+  });
+
+  it('changes with the chain ID and EntryPoint address', () => {
+    const hash = getUserOperationHash(V07_OP, ENTRY_POINT_V07_ADDRESS, 84532, '0.7');
+    expect(getUserOperationHash(V07_OP, ENTRY_POINT_V07_ADDRESS, 8453, '0.7')).not.toBe(hash);
+    expect(getUserOperationHash(V07_OP, ENTRY_POINT_V06_ADDRESS, 84532, '0.7')).not.toBe(hash);
+  });
+
+  it('ignores the signature', () => {
+    const signed = { ...V07_OP, signature: '0x1234' };
+    expect(getUserOperationHash(signed, ENTRY_POINT_V07_ADDRESS, 84532, '0.7')).toBe(
+      getUserOperationHash(V07_OP, ENTRY_POINT_V07_ADDRESS, 84532, '0.7')
+    );
+  });
+});
+
+describe('signUserOperation', () => {
+  it.each<[EntryPointVersion, UserOperation, string, string]>([
+    ['0.6', V06_OP, ENTRY_POINT_V06_ADDRESS, '0x1f3fa26ef5a9487262dc7005388abdbd56af6974d64bfe9ff6a199d2656818124a786e079feaadd7bebbd2383f3eda3c0456d6e404b7ec5d3a2bbc2c7b3725171c'],
+    ['0.7', V07_OP, ENTRY_POINT_V07_ADDRESS, '0x20731574d16f91fc0602fe524ee460d98ccdef97f0eed6a77f452471db4211b319b8b8f89865012f23616387cd216b97a8610155e9fab889145448ca3f37ed271c'],
+  ])('signs the v%s hash as an EIP-191 message', async (version, userOp, entryPoint, expected) => {
+    const signed = await signUserOperation(userOp, SIGNER, entryPoint, 84532, version);
+
+    expect(signed.signature).toBe(expected);
+    expect(signed).toEqual({ ...userOp, signature: expected });
+    const hash = getUserOperationHash(userOp, entryPoint, 84532, version);
+    expect(ethers.verifyMessage(ethers.getBytes(hash), signed.signature!)).toBe(SIGNER.address);
+  });
+});
+
+describe('packUserOperation', () => {
+  it('packs gas limits, fees, initCode and the v0.7 paymaster fields', () => {
+    expect(packUserOperation(V07_OP)).toEqual({
+      sender: BASE.sender,
+      nonce: KEYED_NONCE,
+      initCode: ethers.concat([FACTORY, FACTORY_DATA]),
+      callData: BASE.callData,
+      accountGasLimits: '0x000000000000000000000000000249f000000000000000000000000000030d40',
+      preVerificationGas: 48000n,
+      gasFees: '0x0000000000000000000000003b9aca00000000000000000000000000b2d05e00',
+      paymasterAndData: ethers.concat([
+        PAYMASTER,
+        '0x000000000000000000000000000186a0',
+        '0x0000000000000000000000000000c350',
+        PAYMASTER_DATA,
+      ]),
+      signature: '0x',
+    });
+  });
+
+  it('round-trips through unpackUserOperation', () => {
+    const unpacked = unpackUserOperation(packUserOperation(V07_OP));
+
+    expect(unpacked).toEqual({
+      ...V07_OP,
+      factory: FACTORY.toLowerCase(),
+    });
+    expect(packUserOperation(unpacked)).toEqual(packUserOperation(V07_OP));
+  });
+
+  it('round-trips an operation without factory or paymaster', () => {
+    const userOp = { ...BASE, nonce: 1n };
+    expect(unpackUserOperation(packUserOperation(userOp))).toEqual(userOp);
+  });
+
+  it('keeps the full 256-bit nonce', () => {
+    expect(unpackUserOperation(packUserOperation(V07_OP)).nonce).toBe(KEYED_NONCE);
+  });
+});
+
+describe('bundler JSON-RPC layout', () => {
+  it.each<[EntryPointVersion, UserOperation]>([
+    ['0.6', V06_OP],
+    ['0.7', V07_OP],
+  ])('round-trips a v%s operation', (version, userOp) => {
+    const rpc = toRpcUserOperation(userOp, version);
+    const parsed = fromRpcUserOperation(rpc);
+
+    expect(rpc.nonce).toBe(ethers.toQuantity(KEYED_NONCE));
+    expect(parsed.nonce).toBe(KEYED_NONCE);
+    expect(getUserOperationHash(parsed, ENTRY_POINT_V07_ADDRESS, 1, version)).toBe(
+      getUserOperationHash(userOp, ENTRY_POINT_V07_ADDRESS, 1, version)
+    );
+  });
+
+  it('encodes the paymaster fields in the v0.6 layout for v0.6', () => {
+    const v06PaymasterAndData = ethers.concat([PAYMASTER, PAYMASTER_DATA]);
+
+    expect(toRpcUserOperation(V07_OP, '0.6').paymasterAndData).toBe(v06PaymasterAndData);
+    expect(getUserOperationHash(V07_OP, ENTRY_POINT_V06_ADDRESS, 84532, '0.6')).toBe(
+      getUserOperationHash({ ...V06_OP, paymasterAndData: v06PaymasterAndData }, ENTRY_POINT_V06_ADDRESS, 84532, '0.6')
+    );
+  });
+
+  it('sends initCode/paymasterAndData for v0.6 and the split fields for v0.7', () => {
+    expect(Object.keys(toRpcUserOperation(V06_OP, '0.6'))).toEqual(
+      expect.arrayContaining(['initCode', 'paymasterAndData'])
+    );
+    expect(toRpcUserOperation(V07_OP, '0.7')).toMatchObject({
+      factory: FACTORY.toLowerCase(),
+      factoryData: FACTORY_DATA,
+      paymaster: PAYMASTER,
+      paymasterVerificationGasLimit: '0x186a0',
+      paymasterPostOpGasLimit: '0xc350',
+      paymasterData: PAYMASTER_DATA,
+    });
+  });
+});
@@ -0,0 +1,297 @@
+/**
+ * ERC-4337 UserOperation layouts
+ * Conversions between the unpacked UserOperation and the EntryPoint v0.6
+ * tuple, v0.7 PackedUserOperation and bundler JSON-RPC shapes
+ */
+
+import { ethers } from 'ethers';
+import { EntryPointVersion, PackedUserOperation, UserOperation } from '../types';
+
+export const ENTRY_POINT_V06_ADDRESS = '0x5FF137D4b0FDCD49DcA30c7CF57E578a026d2789';
+export const ENTRY_POINT_V07_ADDRESS = '0x0000000071727De22E5E9d8BAf0edAc6f37da032';
+
+const KNOWN_ENTRY_POINTS: Record<string, EntryPointVersion> = {
+  [ENTRY_POINT_V06_ADDRESS.toLowerCase()]: '0.6',
+  [ENTRY_POINT_V07_ADDRESS.toLowerCase()]: '0.7',
+};
+
+const USER_OP_TUPLE_V06 =
+  'tuple(address sender, uint256 nonce, bytes initCode, bytes callData, uint256 callGasLimit, uint256 verificationGasLimit, uint256 preVerificationGas, uint256 maxFeePerGas, uint256 maxPriorityFeePerGas, bytes paymasterAndData, bytes signature)';
+
+const PACKED_USER_OP_TUPLE =
+  'tuple(address sender, uint256 nonce, bytes initCode, bytes callData, bytes32 accountGasLimits, uint256 preVerificationGas, bytes32 gasFees, bytes paymasterAndData, bytes signature)';
+
+const USER_OPERATION_EVENT =
+  'event UserOperationEvent(bytes32 indexed userOpHash, address indexed sender, address indexed paymaster, uint256 nonce, bool success, uint256 actualGasCost, uint256 actualGasUsed)';
+
+export const ENTRY_POINT_ABI: Record<EntryPointVersion, string[]> = {
+  '0.6': [
+    `function handleOps(${USER_OP_TUPLE_V06}[] ops, address beneficiary)`,
+    `function getUserOpHash(${USER_OP_TUPLE_V06} userOp) view returns (bytes32)`,
+    'function getNonce(address sender, uint192 key) view returns (uint256)',
+    USER_OPERATION_EVENT,
+  ],
+  '0.7': [
+    `function handleOps(${PACKED_USER_OP_TUPLE}[] ops, address beneficiary)`,
+    `function getUserOpHash(${PACKED_USER_OP_TUPLE} userOp) view returns (bytes32)`,
+    'function getNonce(address sender, uint192 key) view returns (uint256)',
+    USER_OPERATION_EVENT,
+  ],
+};
+
+/**
+ * Get the EntryPoint version for a canonical EntryPoint address
+ * @returns The version, or undefined for non-canonical deployments
+ */
+export function getEntryPointVersion(address: string): EntryPointVersion | undefined {
+  return KNOWN_ENTRY_POINTS[address.toLowerCase()];
+}
+
+/**
+ * Convert a user operation to the v0.6 EntryPoint tuple layout
+ */
+export function toEntryPointTuple(userOp: UserOperation) {
+  return {
+    sender: userOp.sender,
+    nonce: BigInt(userOp.nonce),
+    initCode: getInitCode(userOp),
+    callData: userOp.callData,
+    callGasLimit: BigInt(userOp.callGasLimit),
+    verificationGasLimit: BigInt(userOp.verificationGasLimit),
+    preVerificationGas: BigInt(userOp.preVerificationGas),
+    maxFeePerGas: userOp.maxFeePerGas,
+    maxPriorityFeePerGas: userOp.maxPriorityFeePerGas,
+    paymasterAndData: getPaymasterAndData(userOp, '0.6'),
+    signature: userOp.signature || '0x',
+  };
+}
+
+/**
+ * Pack a user operation into the v0.7 PackedUserOperation layout
+ */
+export function packUserOperation(userOp: UserOperation): PackedUserOperation {
+  return {
+    sender: userOp.sender,
+    nonce: BigInt(userOp.nonce),
+    initCode: getInitCode(userOp),
+    callData: userOp.callData,
+    accountGasLimits: packUint128Pair(userOp.verificationGasLimit, userOp.callGasLimit),
+    preVerificationGas: BigInt(userOp.preVerificationGas),
+    gasFees: packUint128Pair(userOp.maxPriorityFeePerGas, userOp.maxFeePerGas),
+    paymasterAndData: getPaymasterAndData(userOp, '0.7'),
+    signature: userOp.signature || '0x',
+  };
+}
+
+/**
+ * Unpack a v0.7 PackedUserOperation into the unpacked layout
+ */
+export function unpackUserOperation(packed: PackedUserOperation): UserOperation {
+  const [verificationGasLimit, callGasLimit] = unpackUint128Pair(packed.accountGasLimits);
+  const [maxPriorityFeePerGas, maxFeePerGas] = unpackUint128Pair(packed.gasFees);
+
+  const userOp: UserOperation = {
+    sender: packed.sender,
+    nonce: packed.nonce,
+    callData: packed.callData,
+    callGasLimit: Number(callGasLimit),
+    verificationGasLimit: Number(verificationGasLimit),
+    preVerificationGas: Number(packed.preVerificationGas),
+    maxFeePerGas: maxFeePerGas,
+    maxPriorityFeePerGas: maxPriorityFeePerGas,
+    signature: packed.signature,
+  };
+
+  if (ethers.dataLength(packed.initCode) >= 20) {
+    userOp.factory = ethers.dataSlice(packed.initCode, 0, 20);
+    userOp.factoryData = ethers.dataSlice(packed.initCode, 20);
+  }
+
+  if (ethers.dataLength(packed.paymasterAndData) >= 52) {
+    userOp.paymaster = ethers.getAddress(ethers.dataSlice(packed.paymasterAndData, 0, 20));
+    userOp.paymasterVerificationGasLimit = ethers.toBigInt(ethers.dataSlice(packed.paymasterAndData, 20, 36));
+    userOp.paymasterPostOpGasLimit = ethers.toBigInt(ethers.dataSlice(packed.paymasterAndData, 36, 52));
+    userOp.paymasterData = ethers.dataSlice(packed.paymasterAndData, 52);
+  }
+
+  return userOp;
+}
+
+/**
+ * Convert a user operation to the hex-encoded JSON-RPC layout used by bundlers
+ * (v0.6 sends initCode/paymasterAndData, v0.7 sends the factory/paymaster fields)
+ */
+export function toRpcUserOperation(userOp: UserOperation, version: EntryPointVersion): Record<string, string> {
+  const rpc: Record<string, string> = {
+    sender: userOp.sender,
+    nonce: ethers.toQuantity(userOp.nonce),
+    callData: userOp.callData,
+    callGasLimit: ethers.toQuantity(userOp.callGasLimit),
+    verificationGasLimit: ethers.toQuantity(userOp.verificationGasLimit),
+    preVerificationGas: ethers.toQuantity(userOp.preVerificationGas),
+    maxFeePerGas: ethers.toQuantity(userOp.maxFeePerGas),
+    maxPriorityFeePerGas: ethers.toQuantity(userOp.maxPriorityFeePerGas),
+    signature: userOp.signature || '0x',
+  };
+
+  if (version === '0.6') {
+    rpc.initCode = getInitCode(userOp);
+    rpc.paymasterAndData = getPaymasterAndData(userOp, version);
+    return rpc;
+  }
+
+  const unpacked = unpackUserOperation(packUserOperation(userOp));
+  if (unpacked.factory) {
+    rpc.factory = unpacked.factory;
+    rpc.factoryData = unpacked.factoryData || '0x';
+  }
+  if (unpacked.paymaster) {
+    rpc.paymaster = unpacked.paymaster;
+    rpc.paymasterVerificationGasLimit = ethers.toQuantity(unpacked.paymasterVerificationGasLimit || 0);
+    rpc.paymasterPostOpGasLimit = ethers.toQuantity(unpacked.paymasterPostOpGasLimit || 0);
+    rpc.paymasterData = unpacked.paymasterData || '0x';
+  }
+  return rpc;
+}
+
+/**
+ * Convert a bundler JSON-RPC user operation (either version) to the unpacked layout
+ */
+export function fromRpcUserOperation(op: Record<string, any>): UserOperation {
+  const userOp: UserOperation = {
+    sender: op.sender,
+    nonce: BigInt(op.nonce),
+    callData: op.callData,
+    callGasLimit: Number(op.callGasLimit),
+    verificationGasLimit: Number(op.verificationGasLimit),
+    preVerificationGas: Number(op.preVerificationGas),
+    maxFeePerGas: BigInt(op.maxFeePerGas),
+    maxPriorityFeePerGas: BigInt(op.maxPriorityFeePerGas),
+    signature: op.signature,
+  };
+
+  if (op.initCode !== undefined) userOp.initCode = op.initCode;
+  if (op.paymasterAndData !== undefined) userOp.paymasterAndData = op.paymasterAndData;
+  if (op.factory) {
+    userOp.factory = op.factory;
+    userOp.factoryData = op.factoryData;
+  }
+  if (op.paymaster) {
+    userOp.paymaster = op.paymaster;
+    userOp.paymasterVerificationGasLimit = BigInt(op.paymasterVerificationGasLimit);
+    userOp.paymasterPostOpGasLimit = BigInt(op.paymasterPostOpGasLimit);
+    userOp.paymasterData = op.paymasterData;
+  }
+  return userOp;
+}
+
+/**
+ * Compute the user operation hash exactly as EntryPoint.getUserOpHash does:
+ * keccak256(abi.encode(keccak256(pack(userOp)), entryPoint, chainId))
+ * Pure computation, no RPC round trip
+ */
+export function getUserOperationHash(
+  userOp: UserOperation,
+  entryPoint: string,
+  chainId: bigint | number,
+  version: EntryPointVersion
+): string {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  let packed: string;
+
+  if (version === '0.7') {
+    const op = packUserOperation(userOp);
+    packed = coder.encode(
+      ['address', 'uint256', 'bytes32', 'bytes32', 'bytes32', 'uint256', 'bytes32', 'bytes32'],
+      [
+        op.sender,
+        op.nonce,
+        ethers.keccak256(op.initCode),
+        ethers.keccak256(op.callData),
+        op.accountGasLimits,
+        op.preVerificationGas,
+        op.gasFees,
+        ethers.keccak256(op.paymasterAndData),
+      ]
+    );
+  } else {
+    const op = toEntryPointTuple(userOp);
+    packed = coder.encode(
+      ['address', 'uint256', 'bytes32', 'bytes32', 'uint256', 'uint256', 'uint256', 'uint256', 'uint256', 'bytes32'],
+      [
+        op.sender,
+        op.nonce,
+        ethers.keccak256(op.initCode),
+        ethers.keccak256(op.callData),
+        op.callGasLimit,
+        op.verificationGasLimit,
+        op.preVerificationGas,
+        op.maxFeePerGas,
+        op.maxPriorityFeePerGas,
+        ethers.keccak256(op.paymasterAndData),
+      ]
+    );
+  }
+
+  return ethers.keccak256(
+    coder.encode(['bytes32', 'address', 'uint256'], [ethers.keccak256(packed), entryPoint, chainId])
+  );
+}
+
+/**
+ * Sign a user operation offline
+ * Signs the user operation hash as an EIP-191 personal message, as
+ * validated by ECDSA-owner accounts
+ * @returns A copy of the user operation with `signature` set
+ */
+export async function signUserOperation(
+  userOp: UserOperation,
+  signer: ethers.Signer,
+  entryPoint: string,
+  chainId: bigint | number,
+  version: EntryPointVersion
+): Promise<UserOperation> {
+  const userOpHash = getUserOperationHash(userOp, entryPoint, chainId, version);
+  const signature = await signer.signMessage(ethers.getBytes(userOpHash));
+  return { ...userOp, signature };
+}
+
+/**
+ * Get the initCode, built from factory/factoryData when set
+ */
+function getInitCode(userOp: UserOperation): string {
+  if (userOp.factory) {
+    return ethers.concat([userOp.factory, userOp.factoryData || '0x']);
+  }
+  return userOp.initCode || '0x';
+}
+
+/**
+ * Get paymasterAndData, built from the paymaster fields when set: the
+ * paymaster followed by its data for v0.6, with the paymaster gas limits
+ * (uint128 each) in between for v0.7
+ * These are the standard IPaymaster layouts; the KYA Paymaster decodes its
+ * data right after the address, so it only accepts the v0.6 one
+ */
+function getPaymasterAndData(userOp: UserOperation, version: EntryPointVersion): string {
+  if (!userOp.paymaster) {
+    return userOp.paymasterAndData || '0x';
+  }
+  if (version === '0.6') {
+    return ethers.concat([userOp.paymaster, userOp.paymasterData || '0x']);
+  }
+  return ethers.concat([
+    userOp.paymaster,
+    ethers.toBeHex(userOp.paymasterVerificationGasLimit || 0, 16),
+    ethers.toBeHex(userOp.paymasterPostOpGasLimit || 0, 16),
+    userOp.paymasterData || '0x',
+  ]);
+}
+
+function packUint128Pair(high: bigint | number, low: bigint | number): string {
+  return ethers.concat([ethers.toBeHex(high, 16), ethers.toBeHex(low, 16)]);
+}
+
+function unpackUint128Pair(packed: string): [bigint, bigint] {
+  return [ethers.toBigInt(ethers.dataSlice(packed, 0, 16)), ethers.toBigInt(ethers.dataSlice(packed, 16, 32))];
+}
@@ -0,0 +1,217 @@
+/**
+ * KYA event stream tests (in-memory chain)
+ */
+
+import { ethers } from 'ethers';
+import { describe, expect, it, jest } from '@jest/globals';
+import { KYAEventStream } from './stream';
+import { ReputationScoreAbi } from '../generated/ReputationScore';
+import { PaymasterAbi } from '../generated/Paymaster';
+
+const REPUTATION = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const PAYMASTER = '0x9fE46736679d2D9a65F0992F2272dE9f3c7fa6e0';
+
+const reputationInterface = new ethers.Interface(ReputationScoreAbi);
+const paymasterInterface = new ethers.Interface(PaymasterAbi);
+
+interface ChainLog {
+  address: string;
+  topics: readonly string[];
+  data: string;
+}
+
+/**
+ * Chain whose blocks, and the logs in them, are set by the test
+ */
+function fakeChain() {
+  const blocks = new Map<number, { hash: string; logs: ChainLog[] }>();
+  const listeners = new Set<() => void>();
+  let head = 0;
+
+  const provider = {
+    get provider() {
+      return provider;
+    },
+    getBlockNumber: jest.fn(async () => head),
+    getBlock: async (number: number) => {
+      const block = blocks.get(number);
+      return block ? { number, hash: block.hash } : null;
+    },
+    getLogs: jest.fn(async (filter: ethers.Filter) => {
+      const logs: object[] = [];
+      for (let number = Number(filter.fromBlock); number <= Number(filter.toBlock); number++) {
+        const block = blocks.get(number);
+        block?.logs.forEach((log, index) => {
+          if (log.address === filter.address) {
+            logs.push({
+              ...log, blockNumber: number, blockHash: block.hash, index, transactionIndex: 0,
+              transactionHash: ethers.id(`${block.hash}:${index}`), removed: false, provider,
+            });
+          }
+        });
+      }
+      return logs;
+    }),
+    on: jest.fn(async (_event: string, listener: () => void) => {
+      listeners.add(listener);
+    }),
+    off: jest.fn(async (_event: string, listener: () => void) => {
+      listeners.delete(listener);
+    }),
+  };
+
+  return {
+    provider,
+    listeners,
+    /** Set block `number` (replacing any previous one) and move the head to it */
+    mine(number: number, logs: ChainLog[] = [], fork = '') {
+      for (let n = head + 1; n < number; n++) {
+        blocks.set(n, { hash: ethers.id(`block ${n}`), logs: [] });
+      }
+      blocks.set(number, { hash: ethers.id(`block ${number}${fork}`), logs });
+      head = Math.max(head, number);
+      listeners.forEach((listener) => listener());
+    },
+  };
+}
+
+/** Let the stream run until it waits for the next block */
+async function settle(): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+function badgeAwarded(tokenId: bigint, badgeName: string): ChainLog {
+  return { address: REPUTATION, ...reputationInterface.encodeEventLog('BadgeAwarded', [tokenId, badgeName]) };
+}
+
+function proofVerified(tokenId: bigint, proofType: string, scoreIncrease: bigint): ChainLog {
+  return { address: REPUTATION, ...reputationInterface.encodeEventLog('ProofVerified', [tokenId, proofType, scoreIncrease]) };
+}
+
+function gasSponsored(tokenId: bigint, amount: bigint): ChainLog {
+  return { address: PAYMASTER, ...paymasterInterface.encodeEventLog('GasSponsored', [tokenId, amount, ethers.ZeroHash]) };
+}
+
+describe('KYAEventStream', () => {
+  it('decodes a closed range across contracts in log order', async () => {
+    const chain = fakeChain();
+    chain.mine(3, [gasSponsored(1n, 500n), badgeAwarded(1n, 'early-adopter')]);
+    chain.mine(4, [proofVerified(2n, 'reputation', 10n)]);
+    chain.mine(10);
+
+    const events = await new KYAEventStream(chain.provider as any, {
+      contracts: { ReputationScore: REPUTATION, Paymaster: PAYMASTER },
+      fromBlock: 1,
+      toBlock: 8,
+      batchSize: 2,
+    }).toArray();
+
+    expect(events).toEqual([
+      expect.objectContaining({ contract: 'Paymaster', name: 'GasSponsored', blockNumber: 3, logIndex: 0, removed: false }),
+      expect.objectContaining({
+        contract: 'ReputationScore',
+        name: 'BadgeAwarded',
+        args: { tokenId: 1n, badgeName: 'early-adopter' },
+        address: REPUTATION,
+        blockNumber: 3,
+        logIndex: 1,
+      }),
+      expect.objectContaining({ name: 'ProofVerified', args: { tokenId: 2n, proofType: 'reputation', scoreIncrease: 10n } }),
+    ]);
+    // 4 batches of 2 blocks per contract
+    expect(chain.provider.getLogs).toHaveBeenCalledTimes(8);
+  });
+
+  it('delivers only the selected events', async () => {
+    const chain = fakeChain();
+    chain.mine(3, [badgeAwarded(1n, 'early-adopter'), proofVerified(1n, 'reputation', 10n)]);
+    chain.mine(5);
+
+    const events = await new KYAEventStream(chain.provider as any, {
+      contracts: { ReputationScore: REPUTATION },
+      events: { ReputationScore: ['ProofVerified'] },
+      fromBlock: 1,
+      toBlock: 3,
+    }).toArray();
+
+    expect(events.map((event) => event.name)).toEqual(['ProofVerified']);
+  });
+
+  it('waits for confirmations, then re-delivers events dropped by a reorg', async () => {
+    const chain = fakeChain();
+    chain.mine(10, [badgeAwarded(1n, 'dropped')]);
+    const stream = new KYAEventStream(chain.provider as any, {
+      contracts: { ReputationScore: REPUTATION },
+      fromBlock: 10,
+      confirmations: 1,
+    });
+    const iterator = stream[Symbol.asyncIterator]();
+
+    const first = iterator.next();
+    await settle();
+    expect(chain.listeners.size).toBe(1);
+    chain.mine(11);
+    expect(await first).toMatchObject({ value: { args: { badgeName: 'dropped' }, blockNumber: 10, removed: false } });
+
+    const next = iterator.next();
+    chain.mine(10, [badgeAwarded(1n, 'replacement')], ' (fork)');
+    chain.mine(12);
+    expect(await next).toMatchObject({ value: { args: { badgeName: 'dropped' }, removed: true } });
+    expect(await iterator.next()).toMatchObject({ value: { args: { badgeName: 'replacement' }, removed: false } });
+
+    await iterator.return!();
+    expect(chain.listeners.size).toBe(0);
+  });
+
+  it('reports a failing listener to onError once and stops', async () => {
+    const chain = fakeChain();
+    chain.mine(3, [badgeAwarded(1n, 'a'), badgeAwarded(1n, 'b')]);
+    chain.mine(5);
+    const failure = new Error('listener failed');
+    const listener = jest.fn(async () => {
+      throw failure;
+    });
+    const onError = jest.fn();
+
+    new KYAEventStream(chain.provider as any, { contracts: { ReputationScore: REPUTATION }, fromBlock: 1 }).subscribe(
+      listener,
+      onError
+    );
+    await settle();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(failure);
+  });
+
+  it('stops following blocks on unsubscribe', async () => {
+    const chain = fakeChain();
+    chain.mine(3);
+    const listener = jest.fn(async () => undefined);
+
+    const unsubscribe = new KYAEventStream(chain.provider as any, {
+      contracts: { ReputationScore: REPUTATION },
+      confirmations: 0,
+    }).subscribe(listener, jest.fn());
+    await settle();
+    expect(chain.listeners.size).toBe(1);
+
+    unsubscribe();
+    await settle();
+    chain.mine(4, [badgeAwarded(1n, 'late')]);
+    await settle();
+
+    expect(chain.listeners.size).toBe(0);
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  it('requires a contract address and toBlock for toArray', async () => {
+    const chain = fakeChain();
+    expect(() => new KYAEventStream(chain.provider as any, { contracts: {} })).toThrow(
+      expect.objectContaining({ code: 'NOT_CONFIGURED' })
+    );
+    await expect(
+      new KYAEventStream(chain.provider as any, { contracts: { Paymaster: PAYMASTER } }).toArray()
+    ).rejects.toMatchObject({ code: 'INVALID_RANGE' });
+  });
+});
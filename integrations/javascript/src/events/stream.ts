@@ -0,0 +1,364 @@
+/**
+ * KYA Event Stream
+ * Typed events across the KYA contracts: replays history with chunked
+ * `queryFilter` calls, then follows new blocks. Events are delivered once
+ * they are `confirmations` blocks deep; a reorg deeper than that re-delivers
+ * the dropped events with `removed: true` before the replacement chain
+ */
+
+import { ethers } from 'ethers';
+import { AgentLicenseAbi, AgentLicenseEvents } from '../generated/AgentLicense';
+import { AgentRegistryAbi, AgentRegistryEvents } from '../generated/AgentRegistry';
+import { InsuranceVaultAbi, InsuranceVaultEvents } from '../generated/InsuranceVault';
+import { OracleAdapterAbi, OracleAdapterEvents } from '../generated/OracleAdapter';
+import { PaymasterAbi, PaymasterEvents } from '../generated/Paymaster';
+import { ReputationScoreAbi, ReputationScoreEvents } from '../generated/ReputationScore';
+import { ZKAdapterAbi, ZKAdapterEvents } from '../generated/ZKAdapter';
+import { KYASDKError } from '../utils/errors';
+import { retry } from '../utils/retry';
+
+/**
+ * Event name to decoded arguments for each streamable contract
+ */
+export interface KYAEventMaps {
+  AgentLicense: AgentLicenseEvents;
+  AgentRegistry: AgentRegistryEvents;
+  InsuranceVault: InsuranceVaultEvents;
+  OracleAdapter: OracleAdapterEvents;
+  Paymaster: PaymasterEvents;
+  ReputationScore: ReputationScoreEvents;
+  ZKAdapter: ZKAdapterEvents;
+}
+
+export type KYAContractName = keyof KYAEventMaps;
+
+/** Contract addresses to stream from */
+export type KYAEventSources = { [C in KYAContractName]?: string };
+
+export interface KYAEventLocation {
+  address: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  /** True when a reorg dropped this previously delivered event */
+  removed: boolean;
+}
+
+/**
+ * A decoded event, discriminated by `contract` and `name`
+ */
+export type KYAEvent<C extends KYAContractName = KYAContractName> = {
+  [K in C]: {
+    [E in keyof KYAEventMaps[K]]: KYAEventLocation & { contract: K; name: E; args: KYAEventMaps[K][E] };
+  }[keyof KYAEventMaps[K]];
+}[C];
+
+export interface KYAEventStreamOptions<C extends KYAContractName = KYAContractName> {
+  /** Addresses by contract name; unset entries are skipped */
+  contracts: { [K in C]?: string };
+  /** Event names to deliver per contract (all when omitted) */
+  events?: { [K in C]?: (keyof KYAEventMaps[K])[] };
+  /** First block to replay (default: only blocks confirmed after the stream starts) */
+  fromBlock?: number;
+  /** Last block to deliver; the stream ends there instead of following new blocks */
+  toBlock?: number;
+  /** Blocks behind the head before an event is delivered (default 2) */
+  confirmations?: number;
+  /** Maximum blocks per `queryFilter` call (default 2000) */
+  batchSize?: number;
+  /** Delivered blocks checked for reorgs deeper than `confirmations` (default 128) */
+  reorgDepth?: number;
+  /** Ends every iteration of the stream when aborted */
+  signal?: AbortSignal;
+}
+
+const ABIS: Record<KYAContractName, ethers.InterfaceAbi> = {
+  AgentLicense: AgentLicenseAbi,
+  AgentRegistry: AgentRegistryAbi,
+  InsuranceVault: InsuranceVaultAbi,
+  OracleAdapter: OracleAdapterAbi,
+  Paymaster: PaymasterAbi,
+  ReputationScore: ReputationScoreAbi,
+  ZKAdapter: ZKAdapterAbi,
+};
+
+/** A delivered block, kept until it is `reorgDepth` blocks deep */
+interface DeliveredBlock {
+  number: number;
+  hash: string;
+  events: KYAEvent[];
+}
+
+export class KYAEventStream<C extends KYAContractName = KYAContractName> implements AsyncIterable<KYAEvent<C>> {
+  private provider: ethers.Provider;
+  private options: KYAEventStreamOptions<C>;
+  private sources: { name: KYAContractName; contract: ethers.Contract; events?: Set<string> }[];
+
+  constructor(provider: ethers.Provider, options: KYAEventStreamOptions<C>) {
+    this.provider = provider;
+    this.options = options;
+    const contracts = Object.entries<string | undefined>(options.contracts).filter(
+      (entry): entry is [string, string] => entry[1] !== undefined
+    );
+    if (contracts.length === 0) {
+      throw new KYASDKError('No contract addresses to stream from', 'NOT_CONFIGURED');
+    }
+    this.sources = contracts.map(([name, address]) => {
+      const abi = ABIS[name as KYAContractName];
+      if (!abi) {
+        throw new KYASDKError(`No event bindings for ${name}`, 'UNKNOWN_CONTRACT');
+      }
+      const events = options.events?.[name as C] as string[] | undefined;
+      return {
+        name: name as KYAContractName,
+        contract: new ethers.Contract(address, abi, provider),
+        events: events ? new Set(events) : undefined,
+      };
+    });
+  }
+
+  /**
+   * Iterate the stream; each iterator scans independently and holds the
+   * stream back until the previous event is consumed
+   * Breaking out of the loop unsubscribes
+   */
+  [Symbol.asyncIterator](): AsyncIterator<KYAEvent<C>> {
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    this.options.signal?.addEventListener('abort', abort, { once: true });
+    if (this.options.signal?.aborted) {
+      controller.abort();
+    }
+
+    const events = this.scan(controller.signal);
+    const close = () => {
+      this.options.signal?.removeEventListener('abort', abort);
+      controller.abort();
+    };
+
+    return {
+      next: async () => {
+        const result = await events.next().catch((error) => {
+          close();
+          throw error;
+        });
+        if (result.done) {
+          close();
+        }
+        return result;
+      },
+      return: async () => {
+        // Wakes a scan waiting for the next block before finishing it
+        close();
+        return await events.return(undefined);
+      },
+    };
+  }
+
+  /**
+   * Call `listener` for each event until the returned function is called
+   * Listeners are awaited, so events stay in order
+   * @param onError Called once if the stream or the listener fails (the stream then stops)
+   */
+  subscribe(
+    listener: (event: KYAEvent<C>) => void | Promise<void>,
+    onError: (error: Error) => void
+  ): () => void {
+    const iterator = this[Symbol.asyncIterator]();
+
+    (async () => {
+      for (let result = await iterator.next(); !result.done; result = await iterator.next()) {
+        await listener(result.value);
+      }
+    })().catch(async (error) => {
+      await iterator.return?.();
+      onError(error);
+    });
+
+    return () => {
+      void iterator.return?.();
+    };
+  }
+
+  /**
+   * Collect the events of a closed block range (`toBlock` is required)
+   */
+  async toArray(): Promise<KYAEvent<C>[]> {
+    if (this.options.toBlock === undefined) {
+      throw new KYASDKError('toArray() requires toBlock', 'INVALID_RANGE');
+    }
+    const events: KYAEvent<C>[] = [];
+    for await (const event of this) {
+      events.push(event);
+    }
+    return events;
+  }
+
+  private async *scan(signal: AbortSignal): AsyncGenerator<KYAEvent<C>> {
+    const confirmations = this.options.confirmations ?? 2;
+    const batchSize = this.options.batchSize ?? 2000;
+    const reorgDepth = this.options.reorgDepth ?? 128;
+    const { toBlock } = this.options;
+
+    const delivered: DeliveredBlock[] = [];
+    let head = await this.call(() => this.provider.getBlockNumber());
+    // Last fully delivered block
+    let cursor = (this.options.fromBlock ?? head - confirmations + 1) - 1;
+
+    let newBlock = false;
+    let wake: (() => void) | undefined;
+    const onBlock = () => {
+      newBlock = true;
+      wake?.();
+    };
+    let following = false;
+
+    try {
+      while (!signal.aborted) {
+        const reorg = await this.unwind(delivered);
+        if (reorg) {
+          for (const event of reorg.removed) {
+            yield event as KYAEvent<C>;
+          }
+          cursor = Math.min(cursor, reorg.forkBlock);
+        }
+
+        const safeHead = Math.min(head - confirmations, toBlock ?? Infinity);
+        while (cursor < safeHead && !signal.aborted) {
+          const from = cursor + 1;
+          const to = Math.min(cursor + batchSize, safeHead);
+          const track = to > head - confirmations - reorgDepth;
+
+          // Hash the range end before querying, so a reorg in between is caught on the next pass
+          const end = track ? await this.call(() => this.provider.getBlock(to)) : null;
+          const events = await this.query(from, to);
+          if (track) {
+            this.record(delivered, events, end, head - confirmations - reorgDepth);
+          }
+
+          for (const event of events) {
+            if (signal.aborted) {
+              return;
+            }
+            yield event as KYAEvent<C>;
+          }
+          cursor = to;
+        }
+
+        if (toBlock !== undefined && cursor >= toBlock) {
+          return;
+        }
+
+        if (!following) {
+          await this.provider.on('block', onBlock);
+          following = true;
+        }
+        if (!newBlock) {
+          await new Promise<void>((resolve) => {
+            wake = () => resolve();
+            signal.addEventListener('abort', wake, { once: true });
+          });
+          signal.removeEventListener('abort', wake!);
+          wake = undefined;
+        }
+        newBlock = false;
+        if (!signal.aborted) {
+          head = await this.call(() => this.provider.getBlockNumber());
+        }
+      }
+    } finally {
+      if (following) {
+        await this.provider.off('block', onBlock);
+      }
+    }
+  }
+
+  /**
+   * Query and decode the watched events in a block range, in log order
+   */
+  private async query(fromBlock: number, toBlock: number): Promise<KYAEvent[]> {
+    const logs = await Promise.all(
+      this.sources.map(async (source) => {
+        const found = await this.call(() => source.contract.queryFilter('*', fromBlock, toBlock));
+        return found
+          .filter((log): log is ethers.EventLog => log instanceof ethers.EventLog)
+          .filter((log) => !source.events || source.events.has(log.eventName))
+          .map((log) => toEvent(source.name, log));
+      })
+    );
+
+    return logs.flat().sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+  }
+
+  /**
+   * Remember delivered blocks within the reorg depth
+   */
+  private record(delivered: DeliveredBlock[], events: KYAEvent[], end: ethers.Block | null, oldest: number): void {
+    for (const event of events) {
+      const last = delivered[delivered.length - 1];
+      if (last?.number === event.blockNumber) {
+        last.events.push(event);
+      } else if (event.blockNumber > oldest) {
+        delivered.push({ number: event.blockNumber, hash: event.blockHash, events: [event] });
+      }
+    }
+    if (end?.hash && delivered[delivered.length - 1]?.number !== end.number) {
+      delivered.push({ number: end.number, hash: end.hash, events: [] });
+    }
+
+    while (delivered.length > 0 && delivered[0].number <= oldest) {
+      delivered.shift();
+    }
+  }
+
+  /**
+   * Drop delivered blocks the chain no longer contains
+   * @returns Their events, newest first and marked removed, and the last block
+   * still on the chain; undefined without a reorg
+   */
+  private async unwind(
+    delivered: DeliveredBlock[]
+  ): Promise<{ removed: KYAEvent[]; forkBlock: number } | undefined> {
+    const removed: KYAEvent[] = [];
+    let forkBlock: number | undefined;
+
+    while (delivered.length > 0) {
+      const last = delivered[delivered.length - 1];
+      const block = await this.call(() => this.provider.getBlock(last.number));
+      if (block?.hash === last.hash) {
+        break;
+      }
+      delivered.pop();
+      forkBlock = last.number - 1;
+      removed.push(...last.events.reverse().map((event) => ({ ...event, removed: true })));
+    }
+
+    if (forkBlock === undefined) {
+      return undefined;
+    }
+    // Blocks between the last matching record and the first dropped one may have changed too
+    return { removed, forkBlock: delivered.length > 0 ? delivered[delivered.length - 1].number : forkBlock };
+  }
+
+  /**
+   * Retry transient RPC failures
+   */
+  private async call<T>(fn: () => Promise<T>): Promise<T> {
+    return await retry(fn);
+  }
+}
+
+function toEvent(contract: KYAContractName, log: ethers.EventLog): KYAEvent {
+  return {
+    contract,
+    name: log.eventName,
+    args: log.args.toObject(true),
+    address: log.address,
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+    removed: false,
+  } as KYAEvent;
+}
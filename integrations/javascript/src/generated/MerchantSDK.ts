@@ -0,0 +1,277 @@
+/* Generated by scripts/generate-bindings.js from abi/MerchantSDK.json - do not edit */
+/* eslint-disable */
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, BytesLike, ContractRunner } from 'ethers';
+import type { TypedContractEvent, TypedContractMethod } from './common';
+
+export const MerchantSDKAbi = [
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "insuranceVault_",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "reputationScore_",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "agentLicense_",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "agentRegistry_",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [],
+    "name": "agentLicense",
+    "outputs": [
+      {
+        "internalType": "contract IAgentLicense",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "agentRegistry",
+    "outputs": [
+      {
+        "internalType": "contract IAgentRegistry",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "tokenId",
+        "type": "uint256"
+      }
+    ],
+    "name": "getCoverage",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "coverage",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "insuranceVault",
+    "outputs": [
+      {
+        "internalType": "contract IInsuranceVault",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "tokenId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "minStake",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "minReputation",
+        "type": "uint256"
+      }
+    ],
+    "name": "meetsRequirements",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "tokenId",
+        "type": "uint256"
+      },
+      {
+        "components": [
+          {
+            "internalType": "string",
+            "name": "conditionType",
+            "type": "string"
+          },
+          {
+            "internalType": "string",
+            "name": "description",
+            "type": "string"
+          },
+          {
+            "internalType": "bytes",
+            "name": "evidence",
+            "type": "bytes"
+          }
+        ],
+        "internalType": "struct IMerchantSDK.Violation",
+        "name": "violation",
+        "type": "tuple"
+      }
+    ],
+    "name": "reportViolation",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "claimId",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "reputationScore",
+    "outputs": [
+      {
+        "internalType": "contract IReputationScore",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "tokenId",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "tbaAddress",
+        "type": "address"
+      }
+    ],
+    "name": "verifyAgent",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "bool",
+            "name": "isVerified",
+            "type": "bool"
+          },
+          {
+            "internalType": "uint256",
+            "name": "stakeAmount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint256",
+            "name": "reputationScore",
+            "type": "uint256"
+          },
+          {
+            "internalType": "uint8",
+            "name": "tier",
+            "type": "uint8"
+          },
+          {
+            "internalType": "bool",
+            "name": "isActive",
+            "type": "bool"
+          }
+        ],
+        "internalType": "struct IMerchantSDK.VerificationResult",
+        "name": "result",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+];
+
+export interface Violation {
+  conditionType: string;
+  description: string;
+  evidence: string;
+}
+
+export interface ViolationInput {
+  conditionType: string;
+  description: string;
+  evidence: BytesLike;
+}
+
+export interface VerificationResult {
+  isVerified: boolean;
+  stakeAmount: bigint;
+  reputationScore: bigint;
+  tier: bigint;
+  isActive: boolean;
+}
+
+export interface VerificationResultInput {
+  isVerified: boolean;
+  stakeAmount: BigNumberish;
+  reputationScore: BigNumberish;
+  tier: BigNumberish;
+  isActive: boolean;
+}
+
+/** Event name to decoded arguments */
+export interface MerchantSDKEvents {
+}
+
+export interface MerchantSDK extends Omit<BaseContract, 'filters' | 'connect'> {
+  connect(runner: ContractRunner | null): MerchantSDK;
+  agentLicense: TypedContractMethod<[], string, 'view'>;
+  agentRegistry: TypedContractMethod<[], string, 'view'>;
+  getCoverage: TypedContractMethod<[tokenId: BigNumberish], bigint, 'view'>;
+  insuranceVault: TypedContractMethod<[], string, 'view'>;
+  meetsRequirements: TypedContractMethod<[tokenId: BigNumberish, minStake: BigNumberish, minReputation: BigNumberish], boolean, 'view'>;
+  reportViolation: TypedContractMethod<[tokenId: BigNumberish, violation: ViolationInput], string, 'nonpayable'>;
+  reputationScore: TypedContractMethod<[], string, 'view'>;
+  verifyAgent: TypedContractMethod<[tokenId: BigNumberish, tbaAddress: AddressLike], VerificationResult, 'view'>;
+  filters: {
+  };
+}
+
+export function connectMerchantSDK(address: string, runner?: ContractRunner | null): MerchantSDK {
+  return new Contract(address, MerchantSDKAbi, runner) as unknown as MerchantSDK;
+}
@@ -0,0 +1,591 @@
+/* Generated by scripts/generate-bindings.js from abi/OracleAdapter.json - do not edit */
+/* eslint-disable */
+
+import { Contract } from 'ethers';
+import type { AddressLike, BaseContract, BigNumberish, BytesLike, ContractRunner } from 'ethers';
+import type { TypedContractEvent, TypedContractMethod } from './common';
+
+export const OracleAdapterAbi = [
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "insuranceVault_",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [],
+    "name": "AccessControlBadConfirmation",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      },
+      {
+        "internalType": "bytes32",
+        "name": "neededRole",
+        "type": "bytes32"
+      }
+    ],
+    "name": "AccessControlUnauthorizedAccount",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidClaim",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidStatus",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "RequestNotFound",
+    "type": "error"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "claimId",
+        "type": "bytes32"
+      },
+      {
+        "indexed": false,
+        "internalType": "bool",
+        "name": "approved",
+        "type": "bool"
+      }
+    ],
+    "name": "ClaimResolvedByOracle",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "claimId",
+        "type": "bytes32"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "oracleAddress",
+        "type": "address"
+      }
+    ],
+    "name": "ClaimSubmittedToOracle",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "role",
+        "type": "bytes32"
+      },
+      {
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "previousAdminRole",
+        "type": "bytes32"
+      },
+      {
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "newAdminRole",
+        "type": "bytes32"
+      }
+    ],
+    "name": "RoleAdminChanged",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "role",
+        "type": "bytes32"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      }
+    ],
+    "name": "RoleGranted",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "bytes32",
+        "name": "role",
+        "type": "bytes32"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      }
+    ],
+    "name": "RoleRevoked",
+    "type": "event"
+  },
+  {
+    "inputs": [],
+    "name": "DEFAULT_ADMIN_ROLE",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "requestId",
+        "type": "bytes32"
+      }
+    ],
+    "name": "getClaim",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "bytes32",
+            "name": "claimId",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "uint256",
+            "name": "tokenId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "merchant",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "string",
+            "name": "reason",
+            "type": "string"
+          },
+          {
+            "internalType": "bytes",
+            "name": "evidence",
+            "type": "bytes"
+          }
+        ],
+        "internalType": "struct IOracle.ClaimData",
+        "name": "claim",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "requestId",
+        "type": "bytes32"
+      }
+    ],
+    "name": "getClaimStatus",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "status",
+        "type": "uint8"
+      },
+      {
+        "components": [
+          {
+            "internalType": "bytes32",
+            "name": "claimId",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "bool",
+            "name": "approved",
+            "type": "bool"
+          },
+          {
+            "internalType": "bytes",
+            "name": "resolutionData",
+            "type": "bytes"
+          }
+        ],
+        "internalType": "struct IOracle.ResolutionResult",
+        "name": "result",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "vaultClaimId",
+        "type": "bytes32"
+      }
+    ],
+    "name": "getOracleRequestId",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "requestId",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "role",
+        "type": "bytes32"
+      }
+    ],
+    "name": "getRoleAdmin",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "role",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      }
+    ],
+    "name": "grantRole",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "role",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      }
+    ],
+    "name": "hasRole",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "insuranceVault",
+    "outputs": [
+      {
+        "internalType": "contract IInsuranceVault",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "requestId",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "bool",
+        "name": "approved",
+        "type": "bool"
+      },
+      {
+        "internalType": "bytes",
+        "name": "resolutionData",
+        "type": "bytes"
+      }
+    ],
+    "name": "processResolution",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "role",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "address",
+        "name": "callerConfirmation",
+        "type": "address"
+      }
+    ],
+    "name": "renounceRole",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes32",
+        "name": "role",
+        "type": "bytes32"
+      },
+      {
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      }
+    ],
+    "name": "revokeRole",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "components": [
+          {
+            "internalType": "bytes32",
+            "name": "claimId",
+            "type": "bytes32"
+          },
+          {
+            "internalType": "uint256",
+            "name": "tokenId",
+            "type": "uint256"
+          },
+          {
+            "internalType": "address",
+            "name": "merchant",
+            "type": "address"
+          },
+          {
+            "internalType": "uint256",
+            "name": "amount",
+            "type": "uint256"
+          },
+          {
+            "internalType": "string",
+            "name": "reason",
+            "type": "string"
+          },
+          {
+            "internalType": "bytes",
+            "name": "evidence",
+            "type": "bytes"
+          }
+        ],
+        "internalType": "struct IOracle.ClaimData",
+        "name": "claimData",
+        "type": "tuple"
+      }
+    ],
+    "name": "submitClaim",
+    "outputs": [
+      {
+        "internalType": "bytes32",
+        "name": "requestId",
+        "type": "bytes32"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes4",
+        "name": "interfaceId",
+        "type": "bytes4"
+      }
+    ],
+    "name": "supportsInterface",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+];
+
+export interface ClaimData {
+  claimId: string;
+  tokenId: bigint;
+  merchant: string;
+  amount: bigint;
+  reason: string;
+  evidence: string;
+}
+
+export interface ClaimDataInput {
+  claimId: BytesLike;
+  tokenId: BigNumberish;
+  merchant: AddressLike;
+  amount: BigNumberish;
+  reason: string;
+  evidence: BytesLike;
+}
+
+export interface ResolutionResult {
+  claimId: string;
+  approved: boolean;
+  resolutionData: string;
+}
+
+export interface ResolutionResultInput {
+  claimId: BytesLike;
+  approved: boolean;
+  resolutionData: BytesLike;
+}
+
+export interface ClaimResolvedByOracleEvent {
+  claimId: string;
+  approved: boolean;
+}
+
+export interface ClaimSubmittedToOracleEvent {
+  claimId: string;
+  oracleAddress: string;
+}
+
+export interface RoleAdminChangedEvent {
+  role: string;
+  previousAdminRole: string;
+  newAdminRole: string;
+}
+
+export interface RoleGrantedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+export interface RoleRevokedEvent {
+  role: string;
+  account: string;
+  sender: string;
+}
+
+/** Event name to decoded arguments */
+export interface OracleAdapterEvents {
+  ClaimResolvedByOracle: ClaimResolvedByOracleEvent;
+  ClaimSubmittedToOracle: ClaimSubmittedToOracleEvent;
+  RoleAdminChanged: RoleAdminChangedEvent;
+  RoleGranted: RoleGrantedEvent;
+  RoleRevoked: RoleRevokedEvent;
+}
+
+export interface OracleAdapter extends Omit<BaseContract, 'filters' | 'connect'> {
+  connect(runner: ContractRunner | null): OracleAdapter;
+  DEFAULT_ADMIN_ROLE: TypedContractMethod<[], string, 'view'>;
+  getClaim: TypedContractMethod<[requestId: BytesLike], ClaimData, 'view'>;
+  getClaimStatus: TypedContractMethod<[requestId: BytesLike], [status: bigint, result: ResolutionResult] & { status: bigint; result: ResolutionResult }, 'view'>;
+  getOracleRequestId: TypedContractMethod<[vaultClaimId: BytesLike], string, 'view'>;
+  getRoleAdmin: TypedContractMethod<[role: BytesLike], string, 'view'>;
+  grantRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  hasRole: TypedContractMethod<[role: BytesLike, account: AddressLike], boolean, 'view'>;
+  insuranceVault: TypedContractMethod<[], string, 'view'>;
+  processResolution: TypedContractMethod<[requestId: BytesLike, approved: boolean, resolutionData: BytesLike], void, 'nonpayable'>;
+  renounceRole: TypedContractMethod<[role: BytesLike, callerConfirmation: AddressLike], void, 'nonpayable'>;
+  revokeRole: TypedContractMethod<[role: BytesLike, account: AddressLike], void, 'nonpayable'>;
+  submitClaim: TypedContractMethod<[claimData: ClaimDataInput], string, 'nonpayable'>;
+  supportsInterface: TypedContractMethod<[interfaceId: BytesLike], boolean, 'view'>;
+  filters: {
+    ClaimResolvedByOracle: TypedContractEvent<[claimId: BytesLike | null, approved: null]>;
+    ClaimSubmittedToOracle: TypedContractEvent<[claimId: BytesLike | null, oracleAddress: AddressLike | null]>;
+    RoleAdminChanged: TypedContractEvent<[role: BytesLike | null, previousAdminRole: BytesLike | null, newAdminRole: BytesLike | null]>;
+    RoleGranted: TypedContractEvent<[role: BytesLike | null, account: AddressLike | null, sender: AddressLike | null]>;
+    RoleRevoked: TypedContractEvent<[role: BytesLike | null, account: AddressLike | null, sender: AddressLike | null]>;
+  };
+}
+
+export function connectOracleAdapter(address: string, runner?: ContractRunner | null): OracleAdapter {
+  return new Contract(address, OracleAdapterAbi, runner) as unknown as OracleAdapter;
+}
@@ -0,0 +1,45 @@
+/* Generated by scripts/generate-bindings.js - do not edit */
+/* eslint-disable */
+
+import type {
+  ContractTransaction,
+  ContractTransactionResponse,
+  DeferredTopicFilter,
+  EventFragment,
+  FunctionFragment,
+  Overrides,
+  Result,
+} from 'ethers';
+
+export type StateMutability = 'view' | 'nonpayable' | 'payable';
+
+/** Method arguments followed by optional overrides (`value` only for payable methods) */
+export type MethodArgs<A extends any[], S extends StateMutability> = [
+  ...A,
+  overrides?: S extends 'payable' ? Overrides : Omit<Overrides, 'value'>,
+];
+
+/**
+ * Typed view of an ethers v6 BaseContractMethod
+ */
+export interface TypedContractMethod<A extends any[] = any[], R = any, S extends StateMutability = 'payable'> {
+  (...args: MethodArgs<A, S>): Promise<S extends 'view' ? R : ContractTransactionResponse>;
+  name: string;
+  fragment: FunctionFragment;
+  getFragment(...args: MethodArgs<A, S>): FunctionFragment;
+  populateTransaction(...args: MethodArgs<A, S>): Promise<ContractTransaction>;
+  staticCall(...args: MethodArgs<A, S>): Promise<R>;
+  staticCallResult(...args: MethodArgs<A, S>): Promise<Result>;
+  send(...args: MethodArgs<A, S>): Promise<ContractTransactionResponse>;
+  estimateGas(...args: MethodArgs<A, S>): Promise<bigint>;
+}
+
+/**
+ * Typed view of an ethers v6 ContractEvent (arguments are topic filters)
+ */
+export interface TypedContractEvent<A extends any[] = any[]> {
+  (...args: Partial<A>): DeferredTopicFilter;
+  name: string;
+  fragment: EventFragment;
+  getFragment(...args: Partial<A>): EventFragment;
+}
@@ -0,0 +1,12 @@
+/* Generated by scripts/generate-bindings.js - do not edit */
+/* eslint-disable */
+
+export type { TypedContractMethod, TypedContractEvent } from './common';
+export * as AgentLicense from './AgentLicense';
+export * as AgentRegistry from './AgentRegistry';
+export * as InsuranceVault from './InsuranceVault';
+export * as MerchantSDK from './MerchantSDK';
+export * as OracleAdapter from './OracleAdapter';
+export * as Paymaster from './Paymaster';
+export * as ReputationScore from './ReputationScore';
+export * as ZKAdapter from './ZKAdapter';
@@ -4,19 +4,119 @@
  * KYA Protocol external service integrations
  */
 
+export { KYAClient } from './client';
+export type { KYAClientConfig, CreateAgentParams, AgentInfo } from './client';
+
+export { HttpZKProofProvider, supportsProofType } from './zk/provider';
+export type { ZKProofProvider, ZKProviderCapabilities, HttpZKProofProviderConfig, ProofState, ProofStatus } from './zk/provider';
+export { ZKProviderRegistry } from './zk/registry';
+export type { FallbackPolicy, ProofGenerationOptions, ProviderAttempt } from './zk/registry';
+export { ProofJobManager } from './zk/jobs';
+export type { ProofJobManagerOptions, ProofPollingOptions, SubmitProofJobOptions, ProofJobEvents } from './zk/jobs';
+export { InMemoryProofJobStore, FileProofJobStore } from './zk/store';
+export type { ProofJob, ProofJobStatus, ProofJobStore } from './zk/store';
+export { ReputationProofPipeline } from './reputation/pipeline';
+export type {
+  ReputationProofRequest,
+  ReputationProofReceipt,
+  ReputationProofRun,
+  ReputationProofRunStore,
+  ReputationProofStage,
+  ReputationProofPipelineOptions,
+} from './reputation/pipeline';
+export { MemoryStore, JsonFileStore } from './utils/store';
+export type { StoredRecord } from './utils/store';
 export { AxiomClient } from './axiom/client';
 export { BrevisClient } from './brevis/client';
+export { HttpDisputeOracle } from './oracle/dispute';
+export type { DisputeOracle, HttpDisputeOracleConfig } from './oracle/dispute';
+export { DisputeOracleRouter } from './oracle/router';
+export type { DisputeRoute, RoutedClaim } from './oracle/router';
+export { ClaimOrchestrator } from './claims/orchestrator';
+export type { ClaimStage, ClaimTimelineEntry, ClaimRun, ClaimRunStore, ClaimOrchestratorOptions } from './claims/orchestrator';
+export { OracleKeeper } from './keeper/oracle';
+export type { KeeperClaim, KeeperClaimStage, KeeperClaimStore, OracleKeeperOptions } from './keeper/oracle';
+export { ProverKeeper } from './keeper/prover';
+export type { ProverQuery, ProverQueryStage, ProverQueryStore, ProverKeeperOptions } from './keeper/prover';
+export { KYAEventStream } from './events/stream';
+export type {
+  KYAEvent,
+  KYAEventMaps,
+  KYAEventLocation,
+  KYAEventSources,
+  KYAEventStreamOptions,
+  KYAContractName,
+} from './events/stream';
+export { scanBlocks } from './keeper/checkpoint';
+export type { BlockCheckpoint, BlockCheckpointStore, BlockScanOptions } from './keeper/checkpoint';
 export { UMAClient } from './uma/client';
 export { KlerosClient } from './kleros/client';
 export { EntryPointClient } from './entrypoint/client';
+export {
+  ENTRY_POINT_V06_ADDRESS,
+  ENTRY_POINT_V07_ADDRESS,
+  getEntryPointVersion,
+  getUserOperationHash,
+  signUserOperation,
+  packUserOperation,
+  unpackUserOperation,
+  toEntryPointTuple,
+  toRpcUserOperation,
+  fromRpcUserOperation,
+} from './entrypoint/userop';
 
-export { ReputationScoreContract } from './contracts/ReputationScore';
+export { AgentRegistryContract } from './contracts/AgentRegistry';
+export type { AgentRegistryInfo, AgentCreated } from './contracts/AgentRegistry';
+export { AgentLicenseContract } from './contracts/AgentLicense';
+export type { AgentMetadata, AgentStatusChange } from './contracts/AgentLicense';
+export { MerchantSDKContract } from './contracts/MerchantSDK';
+export type { VerificationResult, Violation } from './contracts/MerchantSDK';
+export { PaymasterContract } from './contracts/Paymaster';
+export type { PaymasterEligibility } from './contracts/Paymaster';
+export { ReputationScoreContract, decodeProofUpdate } from './contracts/ReputationScore';
+export type { ReputationData, ProofUpdate } from './contracts/ReputationScore';
 export { InsuranceVaultContract } from './contracts/InsuranceVault';
+export type {
+  StakeInfo,
+  Claim,
+  ClaimEvent,
+  StakeFunding,
+  StakeOptions,
+  StakeResult,
+  UnstakeResult,
+  ClaimSubmission,
+  ClaimResolution,
+} from './contracts/InsuranceVault';
 export { ZKAdapterContract } from './contracts/ZKAdapter';
+export type { ProofQuerySubmittedEvent, QuerySubmission, ProofProcessing } from './contracts/ZKAdapter';
 export { OracleAdapterContract } from './contracts/OracleAdapter';
+export type { OracleSubmission, OracleResolution } from './contracts/OracleAdapter';
+export type {
+  WriteOptions,
+  WriteResult,
+  TransactionResult,
+  PendingTransaction,
+  NoResult,
+} from './contracts/transaction';
+export { simulateTransaction, decodeContractError } from './contracts/simulation';
+export { ERC20_PERMIT_ABI, signPermit } from './contracts/erc20';
+export type { Permit } from './contracts/erc20';
+export type { SimulateOptions, Simulation } from './contracts/simulation';
+export * as bindings from './generated';
+
+export { AgentAccount } from './account/AgentAccount';
+export type { AccountCall, ExecuteOptions } from './account/AgentAccount';
+
+export { AgentGate } from './merchant/gate';
+export type {
+  AgentGatePolicy,
+  AgentGateDecision,
+  AgentGateReason,
+  AgentGateReasonCode,
+} from './merchant/gate';
 
 export * from './types';
 export * from './config';
 export * from './utils/retry';
+export * from './utils/http';
 export * from './utils/errors';
-
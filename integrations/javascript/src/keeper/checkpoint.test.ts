@@ -0,0 +1,65 @@
+/**
+ * Block checkpoint tests
+ */
+
+import { describe, expect, it, jest } from '@jest/globals';
+import { BlockCheckpoint, scanBlocks } from './checkpoint';
+import { MemoryStore } from '../utils/store';
+
+function fakeProvider(head: number) {
+  return { getBlockNumber: jest.fn(async () => head) };
+}
+
+describe('scanBlocks', () => {
+  it('scans confirmed blocks after the checkpoint in batches', async () => {
+    const store = new MemoryStore<BlockCheckpoint>();
+    await store.save({ id: 'oracle-keeper', block: 100, updatedAt: 0 });
+    const ranges: [number, number][] = [];
+
+    const block = await scanBlocks(fakeProvider(352) as any, store, 'oracle-keeper', { batchSize: 100 }, async (from, to) => {
+      ranges.push([from, to]);
+    });
+
+    expect(ranges).toEqual([[101, 200], [201, 300], [301, 350]]);
+    expect(block).toBe(350);
+    expect(await store.get('oracle-keeper')).toMatchObject({ block: 350 });
+  });
+
+  it('starts at startBlock, or the safe head, without a checkpoint', async () => {
+    const handle = jest.fn(async (_from: number, _to: number) => undefined);
+
+    await scanBlocks(fakeProvider(50) as any, new MemoryStore<BlockCheckpoint>(), 'k', { startBlock: 40, confirmations: 5 }, handle);
+    expect(handle.mock.calls).toEqual([[40, 45]]);
+
+    handle.mockClear();
+    await expect(scanBlocks(fakeProvider(50) as any, new MemoryStore<BlockCheckpoint>(), 'k', {}, handle)).resolves.toBe(48);
+    expect(handle.mock.calls).toEqual([[48, 48]]);
+  });
+
+  it('does nothing until new blocks are confirmed', async () => {
+    const store = new MemoryStore<BlockCheckpoint>();
+    await store.save({ id: 'k', block: 48, updatedAt: 0 });
+    const handle = jest.fn(async () => undefined);
+
+    await expect(scanBlocks(fakeProvider(50) as any, store, 'k', {}, handle)).resolves.toBe(48);
+    expect(handle).not.toHaveBeenCalled();
+  });
+
+  it('keeps the checkpoint before a failed range so it is replayed', async () => {
+    const store = new MemoryStore<BlockCheckpoint>();
+    await store.save({ id: 'k', block: 0, updatedAt: 0 });
+    const failure = new Error('RPC down');
+    const handle = jest.fn(async (from: number) => {
+      if (from === 11) {
+        throw failure;
+      }
+    });
+
+    await expect(scanBlocks(fakeProvider(32) as any, store, 'k', { batchSize: 10 }, handle)).rejects.toBe(failure);
+    expect(await store.get('k')).toMatchObject({ block: 10 });
+
+    handle.mockImplementation(async () => undefined);
+    await scanBlocks(fakeProvider(32) as any, store, 'k', { batchSize: 10 }, handle);
+    expect(handle.mock.calls.slice(-2)).toEqual([[11, 20], [21, 30]]);
+  });
+});
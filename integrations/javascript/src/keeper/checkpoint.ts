@@ -0,0 +1,59 @@
+/**
+ * Block Checkpoints
+ * Restart-safe block scanning for keepers: each range is handled before
+ * the checkpoint moves past it, so a crash replays at most one range
+ */
+
+import { ethers } from 'ethers';
+
+export interface BlockCheckpoint {
+  /** Keeper name */
+  id: string;
+  /** Last fully handled block */
+  block: number;
+  updatedAt: number;
+}
+
+export interface BlockCheckpointStore {
+  get(id: string): Promise<BlockCheckpoint | undefined>;
+  save(checkpoint: BlockCheckpoint): Promise<void>;
+}
+
+export interface BlockScanOptions {
+  /** First block to scan when no checkpoint exists (default: current safe head) */
+  startBlock?: number;
+  /** Blocks behind the head treated as final (default 2) */
+  confirmations?: number;
+  /** Maximum blocks per range (default 2000) */
+  batchSize?: number;
+}
+
+/**
+ * Scan new confirmed blocks since the last checkpoint in ranges
+ * @returns The block the checkpoint now points at
+ */
+export async function scanBlocks(
+  provider: ethers.Provider,
+  store: BlockCheckpointStore,
+  id: string,
+  options: BlockScanOptions,
+  handle: (fromBlock: number, toBlock: number) => Promise<void>
+): Promise<number> {
+  const confirmations = options.confirmations ?? 2;
+  const batchSize = options.batchSize ?? 2000;
+  const safeHead = (await provider.getBlockNumber()) - confirmations;
+
+  const checkpoint = await store.get(id);
+  let from = checkpoint
+    ? checkpoint.block + 1
+    : options.startBlock ?? safeHead;
+
+  while (from <= safeHead) {
+    const to = Math.min(from + batchSize - 1, safeHead);
+    await handle(from, to);
+    await store.save({ id, block: to, updatedAt: Date.now() });
+    from = to + 1;
+  }
+
+  return from - 1;
+}
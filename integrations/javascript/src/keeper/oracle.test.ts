@@ -0,0 +1,151 @@
+/**
+ * Oracle keeper tests
+ * Applies resolutions through a mocked vault and provider
+ */
+
+import { ethers } from 'ethers';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { KeeperClaim, OracleKeeper } from './oracle';
+import { DisputeOracleRouter } from '../oracle/router';
+import { MemoryStore } from '../utils/store';
+
+const CLAIM_ID = ethers.id('claim-1');
+
+const timeout = () => ethers.makeError('timeout', 'TIMEOUT', { operation: 'waitForTransaction', reason: 'timeout' });
+
+function setup() {
+  const onChain = { status: 0, reason: 'Service not delivered', challengeDeadline: 0n };
+  const vault = {
+    queryClaimEvents: jest.fn(async () => []),
+    getClaim: jest.fn(async () => ({ ...onChain })),
+    resolveClaim: jest.fn(async () => ({ transactionHash: `0xresolve${vault.resolveClaim.mock.calls.length}` })),
+  };
+
+  const provider = {
+    getBlockNumber: jest.fn(async () => 100),
+    waitForTransaction: jest.fn(async (hash: string) => ({ hash, status: 1 }) as unknown as ethers.TransactionReceipt),
+    getTransaction: jest.fn(async () => null),
+  };
+
+  const uma = {
+    name: 'uma',
+    submitClaim: jest.fn(async () => 'uma-1'),
+    getClaimStatus: jest.fn(async (requestId: string) => ({ requestId, resolved: false, result: false })),
+    pollForResolution: jest.fn(),
+    escalate: jest.fn(async () => 'uma-escalation-1'),
+    finalize: jest.fn(),
+  };
+
+  const claims = new MemoryStore<KeeperClaim>();
+  const keeper = new OracleKeeper(vault as any, new DisputeOracleRouter([{ oracle: uma as any }]), provider as any, {
+    claims,
+    awaitChallengePeriod: false,
+    log: () => undefined,
+  });
+
+  return { onChain, vault, uma, provider, claims, keeper };
+}
+
+describe('OracleKeeper', () => {
+  let ctx: ReturnType<typeof setup>;
+
+  beforeEach(async () => {
+    ctx = setup();
+    await ctx.claims.save({
+      id: CLAIM_ID,
+      tokenId: '7',
+      merchant: ethers.ZeroAddress,
+      amount: '500',
+      stage: 'resolving',
+      blockNumber: 90,
+      oracle: 'uma',
+      requestId: 'uma-1',
+      approved: true,
+      attempts: 0,
+      updatedAt: 0,
+    });
+  });
+
+  it('applies a resolution with resolveClaim', async () => {
+    const { keeper, vault, provider } = ctx;
+    await keeper.tick();
+
+    expect(vault.resolveClaim).toHaveBeenCalledWith(CLAIM_ID, true, { wait: false });
+    expect(provider.waitForTransaction).toHaveBeenCalledWith('0xresolve1', 2, 300000);
+    expect(await keeper.getClaim(CLAIM_ID)).toMatchObject({ stage: 'resolved', resolveTransactionHash: '0xresolve1' });
+  });
+
+  it('sends resolveClaim again when the first transaction was dropped', async () => {
+    const { keeper, vault, provider } = ctx;
+    provider.waitForTransaction.mockRejectedValueOnce(timeout());
+    await keeper.tick();
+
+    expect(await keeper.getClaim(CLAIM_ID)).toMatchObject({
+      stage: 'resolving',
+      resolveTransactionHash: undefined,
+      attempts: 1,
+    });
+
+    await keeper.tick();
+    expect(vault.resolveClaim).toHaveBeenCalledTimes(2);
+    expect(await keeper.getClaim(CLAIM_ID)).toMatchObject({ stage: 'resolved', resolveTransactionHash: '0xresolve2' });
+  });
+
+  it('keeps the hash of a transaction still pending after the timeout', async () => {
+    const { keeper, vault, provider } = ctx;
+    provider.waitForTransaction.mockRejectedValueOnce(timeout());
+    provider.getTransaction.mockResolvedValueOnce({ hash: '0xresolve1' } as never);
+    await keeper.tick();
+
+    expect(await keeper.getClaim(CLAIM_ID)).toMatchObject({ stage: 'resolving', resolveTransactionHash: '0xresolve1' });
+
+    await keeper.tick();
+    expect(vault.resolveClaim).toHaveBeenCalledTimes(1);
+    expect((await keeper.getClaim(CLAIM_ID))!.stage).toBe('resolved');
+  });
+
+  it('marks the claim resolved when the vault resolved it during the wait', async () => {
+    const { keeper, vault, provider, onChain } = ctx;
+    provider.waitForTransaction.mockImplementationOnce(async () => {
+      onChain.status = 2;
+      throw timeout();
+    });
+    await keeper.tick();
+
+    expect(vault.resolveClaim).toHaveBeenCalledTimes(1);
+    expect(await keeper.getClaim(CLAIM_ID)).toMatchObject({ stage: 'resolved', approved: false, attempts: 0 });
+  });
+
+  it('clears the hash of a reverted transaction', async () => {
+    const { keeper, provider } = ctx;
+    provider.waitForTransaction.mockResolvedValueOnce({ hash: '0xresolve1', status: 0 } as never);
+    await keeper.tick();
+
+    expect(await keeper.getClaim(CLAIM_ID)).toMatchObject({
+      stage: 'resolving',
+      resolveTransactionHash: undefined,
+      error: 'resolveClaim failed in 0xresolve1',
+    });
+  });
+
+  it('polls the escalated dispute once a challenged claim is escalated', async () => {
+    const { keeper, claims, uma } = ctx;
+    const claim = (await claims.get(CLAIM_ID))!;
+    await claims.save({ ...claim, stage: 'disputed', approved: undefined, challenged: true });
+
+    await keeper.tick();
+    expect(uma.escalate).toHaveBeenCalledWith('uma-1', ethers.ZeroAddress, { claimId: CLAIM_ID });
+    expect(uma.getClaimStatus).toHaveBeenLastCalledWith('uma-escalation-1');
+
+    uma.getClaimStatus.mockImplementation(async (requestId: string) => ({
+      requestId,
+      resolved: true,
+      result: requestId === 'uma-1',
+    }));
+    await keeper.tick();
+
+    expect(uma.escalate).toHaveBeenCalledTimes(1);
+    expect(uma.getClaimStatus).not.toHaveBeenCalledWith('uma-1');
+    expect(await keeper.getClaim(CLAIM_ID)).toMatchObject({ stage: 'resolved', approved: false });
+  });
+});
@@ -0,0 +1,314 @@
+/**
+ * Oracle Keeper
+ * Watches InsuranceVault claim events, forwards new claims to the dispute
+ * oracle, polls for resolutions and applies them with `resolveClaim`
+ * (requires ORACLE_ROLE on the vault)
+ */
+
+import { ethers } from 'ethers';
+import { InsuranceVaultContract, ClaimEvent } from '../contracts/InsuranceVault';
+import { AgentRegistryContract } from '../contracts/AgentRegistry';
+import { DisputeOracleRouter } from '../oracle/router';
+import { waitForReceipt } from '../contracts/transaction';
+import { MemoryStore } from '../utils/store';
+import { KYASDKError } from '../utils/errors';
+import { sleep } from '../utils/retry';
+import { BlockCheckpoint, BlockCheckpointStore, BlockScanOptions, scanBlocks } from './checkpoint';
+
+export type KeeperClaimStage = 'pending' | 'disputed' | 'resolving' | 'resolved' | 'failed';
+
+export interface KeeperClaim {
+  /** InsuranceVault claim ID */
+  id: string;
+  tokenId: string;
+  merchant: string;
+  amount: string;
+  stage: KeeperClaimStage;
+  /** Block the claim was submitted in */
+  blockNumber: number;
+  oracle?: string;
+  requestId?: string;
+  challenged?: boolean;
+  escalationId?: string;
+  approved?: boolean;
+  resolveTransactionHash?: string;
+  /** Consecutive failed attempts */
+  attempts: number;
+  error?: string;
+  updatedAt: number;
+}
+
+export interface KeeperClaimStore {
+  get(id: string): Promise<KeeperClaim | undefined>;
+  save(claim: KeeperClaim): Promise<void>;
+  values(filter?: (claim: KeeperClaim) => boolean): Promise<KeeperClaim[]>;
+}
+
+export interface OracleKeeperOptions extends BlockScanOptions {
+  claims?: KeeperClaimStore;
+  checkpoints?: BlockCheckpointStore;
+  /** Resolves the agent owner recorded as the challenging party on escalation */
+  agentRegistry?: AgentRegistryContract;
+  /** Delay between ticks in start() (default 15000ms) */
+  pollInterval?: number;
+  /** Log intended actions without submitting disputes or transactions */
+  dryRun?: boolean;
+  /** Consecutive failures before a claim is marked failed (default 5) */
+  maxAttempts?: number;
+  /** Apply approvals only after the vault challenge period ends (default true) */
+  awaitChallengePeriod?: boolean;
+  /**
+   * Milliseconds to wait for a resolveClaim transaction (default 300000); the
+   * claim is then re-checked on-chain and a dropped transaction sent again
+   */
+  confirmTimeout?: number;
+  log?: (message: string) => void;
+}
+
+const CHECKPOINT_ID = 'oracle-keeper';
+
+export class OracleKeeper {
+  private vault: InsuranceVaultContract;
+  private disputes: DisputeOracleRouter;
+  private provider: ethers.Provider;
+  private claims: KeeperClaimStore;
+  private checkpoints: BlockCheckpointStore;
+  private options: OracleKeeperOptions;
+  private log: (message: string) => void;
+
+  /**
+   * @param vault InsuranceVault with an ORACLE_ROLE signer
+   * @param disputes Router choosing the dispute oracle by claim amount
+   */
+  constructor(
+    vault: InsuranceVaultContract,
+    disputes: DisputeOracleRouter,
+    provider: ethers.Provider,
+    options: OracleKeeperOptions = {}
+  ) {
+    this.vault = vault;
+    this.disputes = disputes;
+    this.provider = provider;
+    this.claims = options.claims ?? new MemoryStore<KeeperClaim>();
+    this.checkpoints = options.checkpoints ?? new MemoryStore<BlockCheckpoint>();
+    this.options = options;
+    this.log = options.log ?? ((message) => console.log(`[oracle-keeper] ${message}`));
+  }
+
+  /**
+   * Run until the signal is aborted
+   * Tick errors are logged and retried on the next tick
+   */
+  async start(signal?: AbortSignal): Promise<void> {
+    const interval = this.options.pollInterval ?? 15000;
+    this.log(`Starting${this.options.dryRun ? ' (dry run)' : ''}`);
+
+    while (!signal?.aborted) {
+      try {
+        await this.tick();
+      } catch (error: any) {
+        this.log(`Tick failed: ${error.message}`);
+      }
+      await sleep(interval, signal);
+    }
+
+    this.log('Stopped');
+  }
+
+  /**
+   * Scan new blocks, then advance every open claim once
+   */
+  async tick(): Promise<void> {
+    const block = await scanBlocks(this.provider, this.checkpoints, CHECKPOINT_ID, this.options, async (from, to) => {
+      for (const event of await this.vault.queryClaimEvents(from, to)) {
+        await this.handleEvent(event);
+      }
+    });
+
+    const open = await this.claims.values((claim) => claim.stage !== 'resolved' && claim.stage !== 'failed');
+    for (const claim of open) {
+      await this.advance(claim);
+    }
+
+    this.log(`Checkpoint at block ${block}, ${open.length} open claim(s)`);
+  }
+
+  /**
+   * Get a tracked claim
+   */
+  async getClaim(claimId: string): Promise<KeeperClaim | undefined> {
+    return await this.claims.get(claimId);
+  }
+
+  private async handleEvent(event: ClaimEvent): Promise<void> {
+    const existing = await this.claims.get(event.claimId);
+
+    if (event.type === 'ClaimSubmitted') {
+      if (!existing) {
+        this.log(`Claim ${event.claimId}: ${event.amount} against token ${event.tokenId}`);
+        await this.claims.save({
+          id: event.claimId,
+          tokenId: event.tokenId.toString(),
+          merchant: event.merchant,
+          amount: event.amount.toString(),
+          stage: 'pending',
+          blockNumber: event.blockNumber,
+          attempts: 0,
+          updatedAt: Date.now(),
+        });
+      }
+      return;
+    }
+
+    if (!existing || existing.stage === 'resolved') {
+      return;
+    }
+    if (event.status === 3) {
+      this.log(`Claim ${event.claimId}: challenged by agent`);
+      await this.update(existing, { challenged: true });
+    } else {
+      this.log(`Claim ${event.claimId}: resolved on-chain (${event.status === 1 ? 'approved' : 'rejected'})`);
+      await this.update(existing, { stage: 'resolved', approved: event.status === 1 });
+    }
+  }
+
+  private async advance(claim: KeeperClaim): Promise<void> {
+    try {
+      if (claim.stage === 'pending') {
+        await this.forward(claim);
+      }
+      if (claim.stage === 'disputed') {
+        await this.poll(claim);
+      }
+      if (claim.stage === 'resolving') {
+        await this.resolve(claim);
+      }
+      if (claim.attempts > 0) {
+        await this.update(claim, { attempts: 0, error: undefined });
+      }
+    } catch (error: any) {
+      const attempts = claim.attempts + 1;
+      const maxAttempts = this.options.maxAttempts ?? 5;
+      this.log(`Claim ${claim.id}: attempt ${attempts}/${maxAttempts} failed: ${error.message}`);
+      await this.update(claim, {
+        attempts,
+        error: error.message,
+        stage: attempts >= maxAttempts ? 'failed' : claim.stage,
+      });
+    }
+  }
+
+  private async forward(claim: KeeperClaim): Promise<void> {
+    const oracle = this.disputes.select(claim.amount);
+    if (this.options.dryRun) {
+      this.log(`Claim ${claim.id}: would submit to ${oracle.name}`);
+      return;
+    }
+
+    const onChain = await this.vault.getClaim(claim.id);
+    const { oracle: name, requestId } = await this.disputes.submitClaim({
+      claimId: claim.id,
+      tokenId: Number(claim.tokenId),
+      merchant: claim.merchant,
+      amount: claim.amount,
+      reason: onChain.reason,
+    });
+    this.log(`Claim ${claim.id}: submitted to ${name} as ${requestId}`);
+    await this.update(claim, { stage: 'disputed', oracle: name, requestId });
+  }
+
+  private async poll(claim: KeeperClaim): Promise<void> {
+    const oracle = this.disputes.get(claim.oracle!);
+
+    if (claim.challenged && !claim.escalationId) {
+      const party = this.options.agentRegistry
+        ? (await this.options.agentRegistry.getAgentInfoByTokenId(BigInt(claim.tokenId))).owner
+        : ethers.ZeroAddress;
+      if (this.options.dryRun) {
+        this.log(`Claim ${claim.id}: would escalate on ${oracle.name}`);
+        return;
+      }
+      const escalationId = await oracle.escalate(claim.requestId!, party, { claimId: claim.id });
+      this.log(`Claim ${claim.id}: escalated on ${oracle.name} as ${escalationId}`);
+      await this.update(claim, { escalationId });
+    }
+
+    // After a challenge the escalated dispute decides the claim
+    const status = await oracle.getClaimStatus(claim.escalationId ?? claim.requestId!);
+    if (!status.resolved) {
+      return;
+    }
+
+    this.log(`Claim ${claim.id}: ${oracle.name} ${status.result ? 'approved' : 'rejected'}`);
+    await this.update(claim, { stage: 'resolving', approved: status.result });
+  }
+
+  private async resolve(claim: KeeperClaim): Promise<void> {
+    const onChain = await this.vault.getClaim(claim.id);
+    if (onChain.status === 1 || onChain.status === 2) {
+      await this.update(claim, { stage: 'resolved', approved: onChain.status === 1 });
+      return;
+    }
+
+    // A challenge after the resolution sends the claim back to the oracle
+    if (onChain.status === 3 && !claim.escalationId) {
+      await this.update(claim, { stage: 'disputed', challenged: true, approved: undefined });
+      return;
+    }
+
+    // Leave the challenge window open before slashing
+    const deadline = Number(onChain.challengeDeadline) * 1000;
+    if ((this.options.awaitChallengePeriod ?? true) && onChain.status === 0 && claim.approved && Date.now() <= deadline) {
+      return;
+    }
+
+    let hash = claim.resolveTransactionHash;
+    if (!hash) {
+      if (this.options.dryRun) {
+        this.log(`Claim ${claim.id}: would call resolveClaim(${claim.approved})`);
+        return;
+      }
+      const tx = await this.vault.resolveClaim(claim.id, claim.approved!, { wait: false });
+      hash = tx.transactionHash;
+      // Record the hash before waiting so a restart never re-sends
+      await this.update(claim, { resolveTransactionHash: hash });
+    }
+
+    const timeout = this.options.confirmTimeout ?? 300000;
+    const receipt = await waitForReceipt(this.provider, hash, this.options.confirmations ?? 2, timeout);
+    if (typeof receipt === 'string') {
+      // The claim may have been resolved anyway (e.g. by another keeper)
+      const { status } = await this.vault.getClaim(claim.id);
+      if (status === 1 || status === 2) {
+        this.log(`Claim ${claim.id}: resolved on-chain (${status === 1 ? 'approved' : 'rejected'})`);
+        await this.update(claim, { stage: 'resolved', approved: status === 1, resolveTransactionHash: undefined });
+        return;
+      }
+      if (receipt === 'dropped') {
+        await this.update(claim, { resolveTransactionHash: undefined });
+      }
+      throw new KYASDKError(`resolveClaim ${hash} not mined after ${timeout}ms (${receipt})`, 'TRANSACTION_NOT_MINED', undefined, {
+        contract: 'InsuranceVault',
+        method: 'resolveClaim',
+        txHash: hash,
+        state: receipt,
+      });
+    }
+    if (receipt.status !== 1) {
+      await this.update(claim, { resolveTransactionHash: undefined });
+      throw new KYASDKError(`resolveClaim failed in ${hash}`, 'TRANSACTION_REVERTED', undefined, {
+        contract: 'InsuranceVault',
+        method: 'resolveClaim',
+        txHash: hash,
+      });
+    }
+
+    this.log(`Claim ${claim.id}: resolveClaim confirmed in ${receipt.hash}`);
+    await this.update(claim, { stage: 'resolved' });
+  }
+
+  private async update(claim: KeeperClaim, fields: Partial<KeeperClaim>): Promise<void> {
+    Object.assign(claim, fields, { updatedAt: Date.now() });
+    await this.claims.save(claim);
+  }
+}
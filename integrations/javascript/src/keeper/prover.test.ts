@@ -0,0 +1,171 @@
+/**
+ * Prover keeper tests
+ * Submits proofs through a mocked ZKAdapter, job manager and provider
+ */
+
+import { ethers } from 'ethers';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ProverKeeper, ProverKeeperOptions, ProverQuery } from './prover';
+import { MemoryStore } from '../utils/store';
+
+const QUERY_ID = ethers.id('query-1');
+
+const timeout = () => ethers.makeError('timeout', 'TIMEOUT', { operation: 'waitForTransaction', reason: 'timeout' });
+
+function setup(options: ProverKeeperOptions = {}) {
+  const proofStatus = { status: 0 };
+  const zkAdapter = {
+    queryProofQueries: jest.fn(async () => []),
+    getQuery: jest.fn(async (queryId: string) => ({ queryId, proofType: 'reputation' })),
+    getProofStatus: jest.fn(async () => ({ ...proofStatus })),
+    processProofAndUpdate: jest.fn(async () => ({
+      transactionHash: `0xprocess${zkAdapter.processProofAndUpdate.mock.calls.length}`,
+    })),
+  };
+
+  const jobs = {
+    submit: jest.fn(async () => ({ id: 'job-1' })),
+    get: jest.fn(async (id: string): Promise<object> => ({
+      id,
+      status: 'completed',
+      result: { verified: true, proof: '0x1234', metadata: '0x' },
+    })),
+  };
+
+  const provider = {
+    getBlockNumber: jest.fn(async () => 100),
+    waitForTransaction: jest.fn(async (hash: string) => ({ hash, status: 1 }) as unknown as ethers.TransactionReceipt),
+    getTransaction: jest.fn(async () => null),
+  };
+
+  const queries = new MemoryStore<ProverQuery>();
+  const keeper = new ProverKeeper(zkAdapter as any, jobs as any, provider as any, {
+    queries,
+    log: () => undefined,
+    ...options,
+  });
+
+  return { proofStatus, zkAdapter, jobs, provider, queries, keeper };
+}
+
+describe('ProverKeeper', () => {
+  let ctx: ReturnType<typeof setup>;
+
+  beforeEach(async () => {
+    ctx = setup();
+    await ctx.queries.save({
+      id: QUERY_ID,
+      agentAddress: ethers.ZeroAddress,
+      proofType: 'reputation',
+      blockNumber: 90,
+      stage: 'processing',
+      tokenId: '7',
+      proofJobId: 'job-1',
+      attempts: 0,
+      updatedAt: 0,
+    });
+  });
+
+  it('submits processProofAndUpdate and waits for it', async () => {
+    const { keeper, zkAdapter, provider } = ctx;
+    await keeper.tick();
+
+    expect(zkAdapter.processProofAndUpdate).toHaveBeenCalledWith(QUERY_ID, 7n, '0x1234', '0x', { wait: false });
+    expect(provider.waitForTransaction).toHaveBeenCalledWith('0xprocess1', 2, 300000);
+    expect(await keeper.getQuery(QUERY_ID)).toMatchObject({ stage: 'done', processTransactionHash: '0xprocess1' });
+  });
+
+  it('sends the transaction again after the first was dropped', async () => {
+    const { keeper, zkAdapter, provider, queries } = ctx;
+    provider.waitForTransaction.mockRejectedValueOnce(timeout());
+    await keeper.tick();
+
+    const query = (await keeper.getQuery(QUERY_ID))!;
+    expect(query).toMatchObject({ stage: 'processing', processTransactionHash: undefined, attempts: 1 });
+    expect(query.error).toMatch(/not mined after 300000ms \(dropped\)/);
+
+    // Skip the retry backoff
+    await queries.save({ ...query, nextAttemptAt: undefined });
+    await keeper.tick();
+    expect(zkAdapter.processProofAndUpdate).toHaveBeenCalledTimes(2);
+    expect(await keeper.getQuery(QUERY_ID)).toMatchObject({ stage: 'done', processTransactionHash: '0xprocess2' });
+  });
+
+  it('keeps the hash of a transaction still pending after the timeout', async () => {
+    const { keeper, zkAdapter, provider, queries } = ctx;
+    provider.waitForTransaction.mockRejectedValueOnce(timeout());
+    provider.getTransaction.mockResolvedValueOnce({ hash: '0xprocess1' } as never);
+    await keeper.tick();
+
+    const query = (await keeper.getQuery(QUERY_ID))!;
+    expect(query).toMatchObject({ stage: 'processing', processTransactionHash: '0xprocess1' });
+
+    await queries.save({ ...query, nextAttemptAt: undefined });
+    await keeper.tick();
+    expect(zkAdapter.processProofAndUpdate).toHaveBeenCalledTimes(1);
+    expect((await keeper.getQuery(QUERY_ID))!.stage).toBe('done');
+  });
+
+  it('finishes the query when it was processed on-chain during the wait', async () => {
+    const { keeper, provider, proofStatus } = ctx;
+    provider.waitForTransaction.mockImplementationOnce(async () => {
+      proofStatus.status = 1;
+      throw timeout();
+    });
+    await keeper.tick();
+
+    expect(await keeper.getQuery(QUERY_ID)).toMatchObject({ stage: 'done', attempts: 0 });
+  });
+
+  describe('retries', () => {
+    const PENDING: ProverQuery = {
+      id: QUERY_ID,
+      agentAddress: ethers.ZeroAddress,
+      proofType: 'reputation',
+      blockNumber: 90,
+      stage: 'pending',
+      tokenId: '7',
+      attempts: 0,
+      updatedAt: 0,
+    };
+
+    beforeEach(async () => {
+      ctx = setup({ maxAttempts: 2, retryDelay: 0 });
+      await ctx.queries.save({ ...PENDING });
+    });
+
+    it('resets the attempts once a failing stage goes through', async () => {
+      const { keeper, zkAdapter, provider } = ctx;
+      zkAdapter.getQuery.mockRejectedValueOnce(new Error('RPC down'));
+      await keeper.tick();
+      expect(await keeper.getQuery(QUERY_ID)).toMatchObject({ stage: 'pending', attempts: 1, failedStage: 'pending' });
+
+      // The proof is requested, then the process transaction is dropped
+      provider.waitForTransaction.mockRejectedValueOnce(timeout());
+      await keeper.tick();
+      expect(await keeper.getQuery(QUERY_ID)).toMatchObject({ stage: 'processing', attempts: 1, failedStage: 'processing' });
+
+      await keeper.tick();
+      expect(await keeper.getQuery(QUERY_ID)).toMatchObject({
+        stage: 'done',
+        attempts: 0,
+        error: undefined,
+        nextAttemptAt: undefined,
+      });
+    });
+
+    it('still dead-letters a proof that keeps failing', async () => {
+      const { keeper, jobs } = ctx;
+      jobs.get.mockImplementation(async (id: string) => ({ id, status: 'failed', error: 'Invalid query' }));
+
+      await keeper.tick();
+      expect(await keeper.getQuery(QUERY_ID)).toMatchObject({ stage: 'pending', attempts: 1, failedStage: 'proving' });
+
+      // Requesting a new proof does not count as getting past the proving stage
+      await keeper.tick();
+      expect(jobs.submit).toHaveBeenCalledTimes(2);
+      expect(await keeper.getQuery(QUERY_ID)).toMatchObject({ stage: 'dead', attempts: 2 });
+      expect(await keeper.deadLetters()).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,371 @@
+/**
+ * Prover Keeper
+ * Watches ZKAdapter ProofQuerySubmitted events, generates each proof with
+ * the configured coprocessors and submits `processProofAndUpdate`
+ * (requires DEFAULT_ADMIN_ROLE on the ZKAdapter)
+ *
+ * Failed queries are retried with exponential backoff and moved to the
+ * dead-letter list after `maxAttempts`; `retry()` re-queues them.
+ */
+
+import { ethers } from 'ethers';
+import { ZKAdapterContract, ProofQuerySubmittedEvent } from '../contracts/ZKAdapter';
+import { AgentAccount } from '../account/AgentAccount';
+import { waitForReceipt } from '../contracts/transaction';
+import { ProofJobManager } from '../zk/jobs';
+import { MemoryStore } from '../utils/store';
+import { KYASDKError, ZKProviderError } from '../utils/errors';
+import { sleep } from '../utils/retry';
+import { BlockCheckpoint, BlockCheckpointStore, BlockScanOptions, scanBlocks } from './checkpoint';
+
+export type ProverQueryStage = 'pending' | 'proving' | 'processing' | 'done' | 'dead';
+
+export interface ProverQuery {
+  /** ZKAdapter query ID */
+  id: string;
+  agentAddress: string;
+  proofType: string;
+  /** Block the query was submitted in */
+  blockNumber: number;
+  stage: ProverQueryStage;
+  tokenId?: string;
+  proofJobId?: string;
+  processTransactionHash?: string;
+  /** Failed attempts since the query last moved past a failing stage */
+  attempts: number;
+  /** Stage the last failed attempt was in */
+  failedStage?: ProverQueryStage;
+  /** Earliest time of the next attempt after a failure */
+  nextAttemptAt?: number;
+  error?: string;
+  updatedAt: number;
+}
+
+export interface ProverQueryStore {
+  get(id: string): Promise<ProverQuery | undefined>;
+  save(query: ProverQuery): Promise<void>;
+  values(filter?: (query: ProverQuery) => boolean): Promise<ProverQuery[]>;
+}
+
+export interface ProverKeeperOptions extends BlockScanOptions {
+  queries?: ProverQueryStore;
+  checkpoints?: BlockCheckpointStore;
+  /** Provider name for every proof; selected by proof type when omitted */
+  provider?: string;
+  /** Map a query's agent address to its token ID (default: the ERC-6551 account's token()) */
+  resolveTokenId?: (agentAddress: string) => Promise<bigint>;
+  /** Delay between ticks in start() (default 15000ms) */
+  pollInterval?: number;
+  /** Failed attempts before a query that makes no progress is dead-lettered (default 5) */
+  maxAttempts?: number;
+  /** First retry delay, doubled per attempt (default 30000ms) */
+  retryDelay?: number;
+  /** Upper bound for the retry delay (default 1 hour) */
+  maxRetryDelay?: number;
+  /**
+   * Milliseconds to wait for a processProofAndUpdate transaction (default 300000);
+   * the query is then re-checked on-chain and a dropped transaction sent again
+   */
+  confirmTimeout?: number;
+  /** Log intended actions without requesting proofs or sending transactions */
+  dryRun?: boolean;
+  log?: (message: string) => void;
+}
+
+const CHECKPOINT_ID = 'prover-keeper';
+
+/** Stages in the order a query moves through them */
+const STAGES: ProverQueryStage[] = ['pending', 'proving', 'processing', 'done'];
+
+export class ProverKeeper {
+  private zkAdapter: ZKAdapterContract;
+  private jobs: ProofJobManager;
+  private provider: ethers.Provider;
+  private queries: ProverQueryStore;
+  private checkpoints: BlockCheckpointStore;
+  private options: ProverKeeperOptions;
+  private log: (message: string) => void;
+
+  /**
+   * @param zkAdapter ZKAdapter with a DEFAULT_ADMIN_ROLE signer
+   * @param jobs Proof job manager over the Axiom/Brevis providers
+   */
+  constructor(
+    zkAdapter: ZKAdapterContract,
+    jobs: ProofJobManager,
+    provider: ethers.Provider,
+    options: ProverKeeperOptions = {}
+  ) {
+    this.zkAdapter = zkAdapter;
+    this.jobs = jobs;
+    this.provider = provider;
+    this.queries = options.queries ?? new MemoryStore<ProverQuery>();
+    this.checkpoints = options.checkpoints ?? new MemoryStore<BlockCheckpoint>();
+    this.options = options;
+    this.log = options.log ?? ((message) => console.log(`[prover-keeper] ${message}`));
+  }
+
+  /**
+   * Resume pending proof jobs, then run until the signal is aborted
+   * Tick errors are logged and retried on the next tick
+   */
+  async start(signal?: AbortSignal): Promise<void> {
+    const interval = this.options.pollInterval ?? 15000;
+    this.log(`Starting${this.options.dryRun ? ' (dry run)' : ''}`);
+    await this.jobs.resume();
+
+    while (!signal?.aborted) {
+      try {
+        await this.tick();
+      } catch (error: any) {
+        this.log(`Tick failed: ${error.message}`);
+      }
+      await sleep(interval, signal);
+    }
+
+    this.jobs.stop();
+    this.log('Stopped');
+  }
+
+  /**
+   * Scan new blocks, then advance every open query once
+   */
+  async tick(): Promise<void> {
+    const block = await scanBlocks(this.provider, this.checkpoints, CHECKPOINT_ID, this.options, async (from, to) => {
+      for (const event of await this.zkAdapter.queryProofQueries(from, to)) {
+        await this.handleEvent(event);
+      }
+    });
+
+    const now = Date.now();
+    const open = await this.queries.values((query) => query.stage !== 'done' && query.stage !== 'dead');
+    for (const query of open) {
+      if (!query.nextAttemptAt || query.nextAttemptAt <= now) {
+        await this.advance(query);
+      }
+    }
+
+    this.log(`Checkpoint at block ${block}, ${open.length} open quer${open.length === 1 ? 'y' : 'ies'}`);
+  }
+
+  /**
+   * List dead-lettered queries
+   */
+  async deadLetters(): Promise<ProverQuery[]> {
+    return await this.queries.values((query) => query.stage === 'dead');
+  }
+
+  /**
+   * Re-queue a dead-lettered query
+   */
+  async retry(queryId: string): Promise<ProverQuery> {
+    const query = await this.queries.get(queryId);
+    if (!query) {
+      throw new KYASDKError(`Query ${queryId} is not tracked`, 'QUERY_NOT_TRACKED');
+    }
+    if (query.stage === 'dead') {
+      await this.update(query, {
+        stage: query.processTransactionHash ? 'processing' : query.proofJobId ? 'proving' : 'pending',
+        attempts: 0,
+        nextAttemptAt: undefined,
+        failedStage: undefined,
+      });
+    }
+    return query;
+  }
+
+  /**
+   * Get a tracked query
+   */
+  async getQuery(queryId: string): Promise<ProverQuery | undefined> {
+    return await this.queries.get(queryId);
+  }
+
+  private async handleEvent(event: ProofQuerySubmittedEvent): Promise<void> {
+    if (await this.queries.get(event.queryId)) {
+      return;
+    }
+    this.log(`Query ${event.queryId}: ${event.proofType} for ${event.agentAddress}`);
+    await this.queries.save({
+      id: event.queryId,
+      agentAddress: event.agentAddress,
+      proofType: event.proofType,
+      blockNumber: event.blockNumber,
+      stage: 'pending',
+      attempts: 0,
+      updatedAt: Date.now(),
+    });
+  }
+
+  private async advance(query: ProverQuery): Promise<void> {
+    const steps = [
+      ['pending', this.requestProof],
+      ['proving', this.checkProof],
+      ['processing', this.processProof],
+    ] as const;
+
+    for (const [stage, step] of steps) {
+      if (query.stage !== stage) {
+        continue;
+      }
+      try {
+        await step.call(this, query);
+      } catch (error: any) {
+        await this.fail(query, stage, error);
+        return;
+      }
+      await this.clearFailures(query);
+    }
+  }
+
+  /**
+   * Reset the attempts once the query moves past the stage that failed, so
+   * transient failures at different stages don't add up to maxAttempts
+   * (a proof that keeps failing is requested again but still counts)
+   */
+  private async clearFailures(query: ProverQuery): Promise<void> {
+    if (query.failedStage && STAGES.indexOf(query.stage) > STAGES.indexOf(query.failedStage)) {
+      await this.update(query, { attempts: 0, error: undefined, nextAttemptAt: undefined, failedStage: undefined });
+    }
+  }
+
+  private async requestProof(query: ProverQuery): Promise<void> {
+    // Another prover may already have processed the query
+    const { status } = await this.zkAdapter.getProofStatus(query.id);
+    if (status !== 0) {
+      this.log(`Query ${query.id}: already processed`);
+      await this.update(query, { stage: 'done' });
+      return;
+    }
+
+    const tokenId = query.tokenId !== undefined
+      ? BigInt(query.tokenId)
+      : await this.resolveTokenId(query.agentAddress);
+
+    if (this.options.dryRun) {
+      this.log(`Query ${query.id}: would request ${query.proofType} proof for token ${tokenId}`);
+      return;
+    }
+
+    const proofQuery = await this.zkAdapter.getQuery(query.id);
+    const job = await this.jobs.submit(proofQuery, { provider: this.options.provider });
+    this.log(`Query ${query.id}: proof job ${job.id}`);
+    await this.update(query, { stage: 'proving', tokenId: tokenId.toString(), proofJobId: job.id });
+  }
+
+  private async checkProof(query: ProverQuery): Promise<void> {
+    const job = await this.jobs.get(query.proofJobId!);
+    if (!job || job.status === 'failed' || job.status === 'cancelled') {
+      // Request a new proof on the next attempt
+      await this.update(query, { stage: 'pending', proofJobId: undefined });
+      throw new ZKProviderError(
+        `Proof job ${query.proofJobId} ${job ? `${job.status}: ${job.error}` : 'not found'}`,
+        job?.errorCode ?? 'PROOF_FAILED'
+      );
+    }
+    if (job.status === 'pending') {
+      return;
+    }
+    if (!job.result!.verified) {
+      await this.update(query, { stage: 'pending', proofJobId: undefined });
+      throw new ZKProviderError(`Proof ${job.id} was not verified`, 'PROOF_NOT_VERIFIED');
+    }
+
+    await this.update(query, { stage: 'processing' });
+  }
+
+  private async processProof(query: ProverQuery): Promise<void> {
+    let hash = query.processTransactionHash;
+    if (!hash) {
+      const { status } = await this.zkAdapter.getProofStatus(query.id);
+      if (status !== 0) {
+        this.log(`Query ${query.id}: already processed`);
+        await this.update(query, { stage: 'done' });
+        return;
+      }
+
+      const job = await this.jobs.get(query.proofJobId!);
+      if (!job?.result) {
+        await this.update(query, { stage: 'pending', proofJobId: undefined });
+        throw new ZKProviderError(`Proof job ${query.proofJobId} has no result`, 'PROOF_FAILED');
+      }
+      if (this.options.dryRun) {
+        this.log(`Query ${query.id}: would call processProofAndUpdate for token ${query.tokenId}`);
+        return;
+      }
+
+      const tx = await this.zkAdapter.processProofAndUpdate(
+        query.id,
+        BigInt(query.tokenId!),
+        job.result.proof,
+        job.result.metadata,
+        { wait: false }
+      );
+      hash = tx.transactionHash;
+      // Record the hash before waiting so a restart never re-sends
+      await this.update(query, { processTransactionHash: hash });
+    }
+
+    const timeout = this.options.confirmTimeout ?? 300000;
+    const receipt = await waitForReceipt(this.provider, hash, this.options.confirmations ?? 2, timeout);
+    if (typeof receipt === 'string') {
+      // The query may have been processed anyway (e.g. by another prover)
+      const { status } = await this.zkAdapter.getProofStatus(query.id);
+      if (status !== 0) {
+        this.log(`Query ${query.id}: already processed`);
+        await this.update(query, { stage: 'done', processTransactionHash: undefined });
+        return;
+      }
+      if (receipt === 'dropped') {
+        await this.update(query, { processTransactionHash: undefined });
+      }
+      throw new KYASDKError(`processProofAndUpdate ${hash} not mined after ${timeout}ms (${receipt})`, 'TRANSACTION_NOT_MINED', undefined, {
+        contract: 'ZKAdapter',
+        method: 'processProofAndUpdate',
+        txHash: hash,
+        state: receipt,
+      });
+    }
+    if (receipt.status !== 1) {
+      await this.update(query, { processTransactionHash: undefined });
+      throw new KYASDKError(`processProofAndUpdate failed in ${hash}`, 'TRANSACTION_REVERTED', undefined, {
+        contract: 'ZKAdapter',
+        method: 'processProofAndUpdate',
+        txHash: hash,
+      });
+    }
+
+    this.log(`Query ${query.id}: processProofAndUpdate confirmed in ${receipt.hash}`);
+    await this.update(query, { stage: 'done' });
+  }
+
+  private async resolveTokenId(agentAddress: string): Promise<bigint> {
+    if (this.options.resolveTokenId) {
+      return await this.options.resolveTokenId(agentAddress);
+    }
+    return (await new AgentAccount(agentAddress, this.provider).token()).tokenId;
+  }
+
+  private async fail(query: ProverQuery, stage: ProverQueryStage, error: Error): Promise<void> {
+    const attempts = query.attempts + 1;
+    const maxAttempts = this.options.maxAttempts ?? 5;
+    const delay = Math.min(
+      (this.options.retryDelay ?? 30000) * Math.pow(2, attempts - 1),
+      this.options.maxRetryDelay ?? 3600000
+    );
+
+    if (attempts >= maxAttempts) {
+      this.log(`Query ${query.id}: dead-lettered after ${attempts} attempts: ${error.message}`);
+      await this.update(query, { stage: 'dead', attempts, error: error.message, nextAttemptAt: undefined, failedStage: stage });
+      return;
+    }
+
+    this.log(`Query ${query.id}: attempt ${attempts}/${maxAttempts} failed, retrying in ${delay}ms: ${error.message}`);
+    await this.update(query, { attempts, error: error.message, nextAttemptAt: Date.now() + delay, failedStage: stage });
+  }
+
+  private async update(query: ProverQuery, fields: Partial<ProverQuery>): Promise<void> {
+    Object.assign(query, fields, { updatedAt: Date.now() });
+    await this.queries.save(query);
+  }
+}
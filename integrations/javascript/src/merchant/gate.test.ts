@@ -0,0 +1,121 @@
+/**
+ * AgentGate tests (mocked contracts)
+ */
+
+import { ethers } from 'ethers';
+import { describe, expect, it, jest } from '@jest/globals';
+import { AgentGate, AgentGatePolicy } from './gate';
+import { VerificationResult } from '../contracts/MerchantSDK';
+import { ContractRevertError } from '../utils/errors';
+
+const MERCHANT_SDK = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const TBA = '0x1306b01bC3e4AD202612D3843387e94737673F53';
+const TOKEN_ID = 2n ** 64n + 7n;
+
+const VERIFIED: VerificationResult = {
+  isVerified: true,
+  stakeAmount: 1000_000000n,
+  reputationScore: 600n,
+  tier: 2,
+  isActive: true,
+};
+
+function revert(reason: string) {
+  const data = ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], [reason])]);
+  return ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+    action: 'call',
+    data,
+    reason,
+    transaction: { to: MERCHANT_SDK, data: '0x' },
+    invocation: null,
+    revert: { signature: 'Error(string)', name: 'Error', args: [reason] },
+  });
+}
+
+function createGate(policy: AgentGatePolicy, verifyAgent: () => Promise<VerificationResult>, badges: string[] = []) {
+  const merchantSDK = { verifyAgent: jest.fn(verifyAgent) };
+  const reputationScore = {
+    hasBadge: jest.fn(async (_tokenId: number | bigint, badge: string) => badges.includes(badge)),
+  };
+  const agentRegistry = { getAgentInfoByTokenId: jest.fn(async () => ({ tbaAddress: TBA })) };
+  const gate = new AgentGate(merchantSDK as any, policy, reputationScore as any, agentRegistry as any);
+  return { gate, merchantSDK, reputationScore, agentRegistry };
+}
+
+describe('AgentGate.check', () => {
+  it('allows an agent meeting the policy', async () => {
+    const { gate, agentRegistry } = createGate({ minTier: 2, minCoverage: 500_000000n, minReputation: 500n }, async () => VERIFIED);
+
+    const decision = await gate.check(TOKEN_ID);
+
+    expect(decision).toMatchObject({ allowed: true, tokenId: TOKEN_ID, tbaAddress: TBA, reasons: [], coverage: VERIFIED.stakeAmount });
+    expect(agentRegistry.getAgentInfoByTokenId).toHaveBeenCalledWith(TOKEN_ID);
+  });
+
+  it('lists every failed requirement', async () => {
+    const { gate } = createGate(
+      { minTier: 3, minCoverage: 5000_000000n, minReputation: 700n, requiredBadges: ['early', 'audited'] },
+      async () => ({ ...VERIFIED, isVerified: false, isActive: false }),
+      ['early']
+    );
+
+    const decision = await gate.check(TOKEN_ID, TBA);
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.reasons.map((reason) => reason.code)).toEqual([
+      'NOT_VERIFIED',
+      'NOT_ACTIVE',
+      'TIER_TOO_LOW',
+      'INSUFFICIENT_COVERAGE',
+      'REPUTATION_TOO_LOW',
+      'MISSING_BADGE',
+    ]);
+    expect(decision.missingBadges).toEqual(['audited']);
+  });
+
+  it('checks badges with the full token ID', async () => {
+    const { gate, reputationScore } = createGate({ requiredBadges: ['early'] }, async () => VERIFIED, ['early']);
+
+    await gate.check(TOKEN_ID, TBA);
+
+    expect(reputationScore.hasBadge).toHaveBeenCalledWith(TOKEN_ID, 'early');
+  });
+
+  it('denies a TBA that does not belong to the token', async () => {
+    const { gate } = createGate({}, async () => {
+      throw revert('MerchantSDK: invalid TBA address');
+    });
+
+    const decision = await gate.check(TOKEN_ID, TBA);
+
+    expect(decision.allowed).toBe(false);
+    expect(decision.reasons).toEqual([{ code: 'INVALID_TBA', message: `TBA ${TBA} does not belong to agent ${TOKEN_ID}` }]);
+  });
+
+  it('rethrows other reverts decoded', async () => {
+    const { gate } = createGate({}, async () => {
+      throw revert('AgentRegistry: agent not found');
+    });
+
+    const error = await gate.check(TOKEN_ID, TBA).catch((e) => e);
+
+    expect(error).toBeInstanceOf(ContractRevertError);
+    expect(error).toMatchObject({ message: 'Reverted: AgentRegistry: agent not found', context: { address: MERCHANT_SDK } });
+  });
+
+  it('rethrows network errors as they are', async () => {
+    const failure = ethers.makeError('network', 'NETWORK_ERROR', { event: 'noNetwork' });
+    const { gate } = createGate({}, async () => {
+      throw failure;
+    });
+
+    await expect(gate.check(TOKEN_ID, TBA)).rejects.toBe(failure);
+  });
+
+  it('requires a ReputationScoreContract to check badges', async () => {
+    const merchantSDK = { verifyAgent: async () => VERIFIED };
+    const gate = new AgentGate(merchantSDK as any, { requiredBadges: ['early'] });
+
+    await expect(gate.check(TOKEN_ID, TBA)).rejects.toMatchObject({ code: 'NOT_CONFIGURED' });
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Agent Gate
+ * Merchant-side verification gate evaluating an agent against a policy
+ * before accepting an agent-initiated payment
+ */
+
+import { MerchantSDKContract, VerificationResult } from '../contracts/MerchantSDK';
+import { ReputationScoreContract } from '../contracts/ReputationScore';
+import { AgentRegistryContract } from '../contracts/AgentRegistry';
+import { decodeContractError } from '../contracts/simulation';
+import { KYASDKError } from '../utils/errors';
+
+// MerchantSDK.verifyAgent's require message when the TBA does not belong to the token
+const INVALID_TBA_REASON = 'MerchantSDK: invalid TBA address';
+
+export interface AgentGatePolicy {
+  minTier?: number; // 0=None, 1=Bronze, 2=Silver, 3=Gold, 4=Platinum, 5=Whale
+  minCoverage?: bigint;
+  minReputation?: bigint;
+  requiredBadges?: string[];
+  requireVerified?: boolean; // Defaults to true
+  requireActive?: boolean; // Defaults to true
+}
+
+export type AgentGateReasonCode =
+  | 'INVALID_TBA'
+  | 'NOT_VERIFIED'
+  | 'NOT_ACTIVE'
+  | 'TIER_TOO_LOW'
+  | 'INSUFFICIENT_COVERAGE'
+  | 'REPUTATION_TOO_LOW'
+  | 'MISSING_BADGE';
+
+export interface AgentGateReason {
+  code: AgentGateReasonCode;
+  message: string;
+}
+
+export interface AgentGateDecision {
+  allowed: boolean;
+  tokenId: bigint;
+  tbaAddress: string;
+  reasons: AgentGateReason[];
+  verification?: VerificationResult;
+  coverage?: bigint;
+  missingBadges: string[];
+}
+
+export class AgentGate {
+  private merchantSDK: MerchantSDKContract;
+  private reputationScore?: ReputationScoreContract;
+  private agentRegistry?: AgentRegistryContract;
+  private policy: AgentGatePolicy;
+
+  /**
+   * @param reputationScore Required when the policy lists badges
+   * @param agentRegistry Required to resolve the TBA when `check` is called without one
+   */
+  constructor(
+    merchantSDK: MerchantSDKContract,
+    policy: AgentGatePolicy,
+    reputationScore?: ReputationScoreContract,
+    agentRegistry?: AgentRegistryContract
+  ) {
+    this.merchantSDK = merchantSDK;
+    this.policy = policy;
+    this.reputationScore = reputationScore;
+    this.agentRegistry = agentRegistry;
+  }
+
+  /**
+   * Evaluate an agent against the policy
+   * @param tokenId The agent's token ID
+   * @param tbaAddress The TBA presented by the agent (resolved from the registry if omitted)
+   * @returns Allow/deny decision with every failed requirement
+   */
+  async check(tokenId: number | bigint, tbaAddress?: string): Promise<AgentGateDecision> {
+    const policy = this.policy;
+    const tba = tbaAddress ?? (await this.resolveTBA(tokenId));
+    const decision: AgentGateDecision = {
+      allowed: false,
+      tokenId: BigInt(tokenId),
+      tbaAddress: tba,
+      reasons: [],
+      missingBadges: [],
+    };
+
+    let verification: VerificationResult;
+    try {
+      verification = await this.merchantSDK.verifyAgent(tokenId, tba);
+    } catch (error) {
+      const revert = decodeContractError(error, { method: 'verifyAgent' });
+      if (revert?.errorName === 'Error' && revert.errorArgs[0] === INVALID_TBA_REASON) {
+        decision.reasons.push({
+          code: 'INVALID_TBA',
+          message: `TBA ${tba} does not belong to agent ${tokenId}`,
+        });
+        return decision;
+      }
+      throw revert ?? error;
+    }
+    decision.verification = verification;
+    decision.coverage = verification.stakeAmount; // MerchantSDK coverage is the full stake
+
+    if ((policy.requireVerified ?? true) && !verification.isVerified) {
+      decision.reasons.push({ code: 'NOT_VERIFIED', message: 'Agent stake is not verified' });
+    }
+
+    if ((policy.requireActive ?? true) && !verification.isActive) {
+      decision.reasons.push({ code: 'NOT_ACTIVE', message: 'Agent license is suspended or revoked' });
+    }
+
+    if (policy.minTier !== undefined && verification.tier < policy.minTier) {
+      decision.reasons.push({
+        code: 'TIER_TOO_LOW',
+        message: `Tier ${verification.tier} is below required tier ${policy.minTier}`,
+      });
+    }
+
+    if (policy.minCoverage !== undefined && decision.coverage < policy.minCoverage) {
+      decision.reasons.push({
+        code: 'INSUFFICIENT_COVERAGE',
+        message: `Coverage ${decision.coverage} is below required ${policy.minCoverage}`,
+      });
+    }
+
+    if (policy.minReputation !== undefined && verification.reputationScore < policy.minReputation) {
+      decision.reasons.push({
+        code: 'REPUTATION_TOO_LOW',
+        message: `Reputation ${verification.reputationScore} is below required ${policy.minReputation}`,
+      });
+    }
+
+    if (policy.requiredBadges && policy.requiredBadges.length > 0) {
+      if (!this.reputationScore) {
+        throw new KYASDKError('ReputationScoreContract required to check badges', 'NOT_CONFIGURED');
+      }
+      const reputationScore = this.reputationScore;
+      const held = await Promise.all(
+        policy.requiredBadges.map((badge) => reputationScore.hasBadge(tokenId, badge))
+      );
+      decision.missingBadges = policy.requiredBadges.filter((_, i) => !held[i]);
+      for (const badge of decision.missingBadges) {
+        decision.reasons.push({ code: 'MISSING_BADGE', message: `Missing badge "${badge}"` });
+      }
+    }
+
+    decision.allowed = decision.reasons.length === 0;
+    return decision;
+  }
+
+  private async resolveTBA(tokenId: number | bigint): Promise<string> {
+    if (!this.agentRegistry) {
+      throw new KYASDKError('AgentRegistryContract required to resolve TBA address', 'NOT_CONFIGURED');
+    }
+    return (await this.agentRegistry.getAgentInfoByTokenId(tokenId)).tbaAddress;
+  }
+}
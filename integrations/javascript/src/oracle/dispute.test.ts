@@ -0,0 +1,198 @@
+/**
+ * Dispute oracle tests (in-process HTTP adapter and fake timers)
+ */
+
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { DisputeOracle } from './dispute';
+import { DisputeOracleRouter } from './router';
+import { UMAClient } from '../uma/client';
+import { KlerosClient } from '../kleros/client';
+import { ClaimData } from '../types';
+import { KlerosError, UMAError } from '../utils/errors';
+
+const CLAIM: ClaimData = {
+  claimId: '0x01',
+  tokenId: 7,
+  merchant: '0x70997970C51812dc3A010C7d01b50e0d17dc79C8',
+  amount: '1000000000',
+  reason: 'Undelivered order',
+};
+
+/**
+ * Answer the oracle's requests with `respond(method, url, body)`
+ */
+function serve(
+  oracle: UMAClient | KlerosClient,
+  respond: (method: string, url: string, body: any) => { status?: number; data: unknown }
+) {
+  const requests: { method: string; url: string; body: any }[] = [];
+  (oracle as any).api.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+    const request = { method: config.method!, url: config.url!, body: config.data ? JSON.parse(config.data) : undefined };
+    requests.push(request);
+    const { status = 200, data } = respond(request.method, request.url, request.body);
+    const response = { status, statusText: '', headers: {}, config, data };
+    if (status >= 400) {
+      throw new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_REQUEST', config, {}, response);
+    }
+    return response;
+  };
+  return requests;
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('HttpDisputeOracle', () => {
+  it('submits a claim with the oracle fields', async () => {
+    const uma = new UMAClient({ apiKey: 'key', network: 'base-sepolia', baseUrl: 'https://uma.test' });
+    const requests = serve(uma, () => ({ data: { requestId: 'uma-1' } }));
+
+    await expect(uma.submitClaim(CLAIM)).resolves.toBe('uma-1');
+    expect(requests[0]).toMatchObject({
+      method: 'post',
+      url: '/v1/claims',
+      body: { ...CLAIM, chainId: 84532, timestamp: expect.any(Number) },
+    });
+  });
+
+  it('maps the Kleros ruling to the resolution', async () => {
+    const kleros = new KlerosClient({ apiKey: 'key', network: 'base-sepolia', baseUrl: 'https://kleros.test' });
+    serve(kleros, () => ({ data: { resolved: true, ruling: 1, timestamp: 1700000000 } }));
+
+    await expect(kleros.getClaimStatus('12')).resolves.toEqual({
+      requestId: '12',
+      resolved: true,
+      result: true,
+      timestamp: 1700000000,
+      challenger: null,
+      resolutionData: 1,
+    });
+  });
+
+  it('posts escalations to the oracle endpoint and wraps failures', async () => {
+    const kleros = new KlerosClient({ apiKey: 'key', network: 'base-sepolia', baseUrl: 'https://kleros.test' });
+    let status = 200;
+    const requests = serve(kleros, () => ({ status, data: { appealId: 'appeal-1' } }));
+
+    await expect(kleros.appealDispute('12', CLAIM.merchant, { note: 'wrong ruling' })).resolves.toBe('appeal-1');
+    expect(requests[0]).toMatchObject({
+      url: '/v1/disputes/12/appeal',
+      body: { appellant: CLAIM.merchant, evidence: { note: 'wrong ruling' } },
+    });
+
+    status = 409;
+    const error = await kleros.appealDispute('12', CLAIM.merchant, {}).catch((e) => e);
+    expect(error).toBeInstanceOf(KlerosError);
+    expect(error.message).toBe('Failed to escalate kleros claim: Request failed with status code 409');
+  });
+
+  it('finalizes only resolved claims', async () => {
+    const uma = new UMAClient({ apiKey: 'key', network: 'base-sepolia', baseUrl: 'https://uma.test' });
+    let resolved = false;
+    const requests = serve(uma, () => ({ data: { resolved, result: true } }));
+
+    const error = await uma.finalize('uma-1').catch((e) => e);
+    expect(error).toBeInstanceOf(UMAError);
+    expect(error).toMatchObject({ code: 'NOT_RESOLVED', message: 'uma claim uma-1 is not resolved yet' });
+
+    resolved = true;
+    await expect(uma.finalize('uma-1')).resolves.toMatchObject({ requestId: 'uma-1', resolved: true, result: true });
+    expect(requests.every((request) => request.method === 'get')).toBe(true);
+  });
+
+  it('polls until the claim is resolved', async () => {
+    const uma = new UMAClient({ apiKey: 'key', network: 'base-sepolia', baseUrl: 'https://uma.test' });
+    let resolved = false;
+    const requests = serve(uma, () => ({ data: { resolved, result: true } }));
+
+    const resolution = uma.pollForResolution('uma-1', 5, 1000);
+    await jest.advanceTimersByTimeAsync(1000);
+    resolved = true;
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(resolution).resolves.toMatchObject({ requestId: 'uma-1', resolved: true, result: true });
+    expect(requests).toHaveLength(3);
+  });
+
+  it('times out after maxAttempts', async () => {
+    const uma = new UMAClient({ apiKey: 'key', network: 'base-sepolia', baseUrl: 'https://uma.test' });
+    serve(uma, () => ({ data: { resolved: false } }));
+
+    const resolution = uma.pollForResolution('uma-1', 2, 1000);
+    const settled = expect(resolution).rejects.toMatchObject({ code: 'RESOLUTION_TIMEOUT' });
+    await jest.advanceTimersByTimeAsync(2000);
+    await settled;
+    await expect(resolution).rejects.toBeInstanceOf(UMAError);
+  });
+
+  it('stops polling when the signal aborts', async () => {
+    const uma = new UMAClient({ apiKey: 'key', network: 'base-sepolia', baseUrl: 'https://uma.test' });
+    const requests = serve(uma, () => ({ data: { resolved: false } }));
+    const controller = new AbortController();
+    const reason = new Error('keeper stopping');
+
+    const resolution = uma.pollForResolution('uma-1', 60, 5000, controller.signal);
+    const settled = expect(resolution).rejects.toBe(reason);
+    await jest.advanceTimersByTimeAsync(1000);
+    controller.abort(reason);
+    await settled;
+
+    expect(requests).toHaveLength(1);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
+
+describe('DisputeOracleRouter', () => {
+  function fakeOracle(name: string) {
+    return {
+      name,
+      submitClaim: jest.fn(async () => `${name}-1`),
+      getClaimStatus: jest.fn(),
+      pollForResolution: jest.fn(),
+      escalate: jest.fn(),
+      finalize: jest.fn(),
+    };
+  }
+
+  it('routes claims by amount threshold, inclusive', async () => {
+    const uma = fakeOracle('uma');
+    const kleros = fakeOracle('kleros');
+    const router = DisputeOracleRouter.byThreshold(uma as DisputeOracle, kleros as DisputeOracle, 1000_000000n);
+
+    expect(router.select('1000000000').name).toBe('uma');
+    expect(router.select(1000_000001n).name).toBe('kleros');
+    await expect(router.submitClaim({ ...CLAIM, amount: '5000000000' })).resolves.toEqual({
+      oracle: 'kleros',
+      requestId: 'kleros-1',
+    });
+    expect(uma.submitClaim).not.toHaveBeenCalled();
+  });
+
+  it('orders capped routes before uncapped ones', () => {
+    const router = new DisputeOracleRouter([
+      { oracle: fakeOracle('catch-all') as DisputeOracle },
+      { oracle: fakeOracle('large') as DisputeOracle, maxAmount: 1000n },
+      { oracle: fakeOracle('small') as DisputeOracle, maxAmount: 10n },
+    ]);
+
+    expect([router.select(5n), router.select(500n), router.select(5000n)].map((o) => o.name)).toEqual([
+      'small',
+      'large',
+      'catch-all',
+    ]);
+  });
+
+  it('rejects unroutable claims and unknown oracles', () => {
+    const router = new DisputeOracleRouter([{ oracle: fakeOracle('uma') as DisputeOracle, maxAmount: 10n }]);
+
+    expect(() => router.select(11n)).toThrow(expect.objectContaining({ code: 'NO_ROUTE' }));
+    expect(() => router.get('kleros')).toThrow(expect.objectContaining({ code: 'NO_ROUTE' }));
+    expect(() => new DisputeOracleRouter([])).toThrow(expect.objectContaining({ code: 'INVALID_CONFIG' }));
+  });
+});
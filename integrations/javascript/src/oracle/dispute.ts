@@ -0,0 +1,185 @@
+/**
+ * Dispute Oracle
+ * Common claim lifecycle for dispute oracles (submit, status, escalate,
+ * finalize) and the shared HTTP implementation used by UMA and Kleros
+ */
+
+import { AxiosInstance } from 'axios';
+import { ClaimData, ResolutionResult } from '../types';
+import { retry, sleep } from '../utils/retry';
+import { HttpTransportOptions, createHttpTransport } from '../utils/http';
+import { ErrorCode, KYASDKError, toErrorCode } from '../utils/errors';
+
+export interface DisputeOracle {
+  readonly name: string;
+
+  /**
+   * Submit a claim for resolution
+   * @returns Oracle request ID for tracking
+   */
+  submitClaim(claimData: ClaimData): Promise<string>;
+
+  /**
+   * Get claim status and resolution
+   */
+  getClaimStatus(requestId: string): Promise<ResolutionResult>;
+
+  /**
+   * Poll until the claim is resolved
+   * @param signal Stops polling, rejecting with the signal's reason
+   */
+  pollForResolution(
+    requestId: string,
+    maxAttempts?: number,
+    delay?: number,
+    signal?: AbortSignal
+  ): Promise<ResolutionResult>;
+
+  /**
+   * Escalate a claim (UMA challenge, Kleros appeal)
+   * @returns Escalation ID
+   */
+  escalate(requestId: string, party: string, evidence: any): Promise<string>;
+
+  /**
+   * Finalize a resolved claim
+   * @returns Final resolution
+   * @throws NOT_RESOLVED while the oracle has not resolved the claim
+   */
+  finalize(requestId: string): Promise<ResolutionResult>;
+}
+
+export interface HttpDisputeOracleConfig {
+  name: string;
+  apiKey: string;
+  baseUrl: string;
+  /** Collection path, e.g. `/v1/claims` */
+  resource: string;
+  /** Response field holding the request ID on submission */
+  idField: string;
+  /** Escalation endpoint, response ID field and party field */
+  escalation: { path: string; idField: string; partyField: string };
+  /** Extra fields sent on submission */
+  submitFields?: Record<string, unknown>;
+  /** Map the status response to a resolution result */
+  toResolution: (requestId: string, data: any) => ResolutionResult;
+  pollAttempts: number;
+  pollDelay: number;
+  /** Timeout, rate limit, circuit breaker and interceptors */
+  http?: HttpTransportOptions;
+  createError: (message: string, code?: ErrorCode, cause?: Error) => KYASDKError;
+}
+
+export class HttpDisputeOracle implements DisputeOracle {
+  readonly name: string;
+  protected api: AxiosInstance;
+  private config: HttpDisputeOracleConfig;
+
+  constructor(config: HttpDisputeOracleConfig) {
+    this.name = config.name;
+    this.config = config;
+    this.api = createHttpTransport(config.name, config.baseUrl, {
+      'Authorization': `Bearer ${config.apiKey}`,
+      'Content-Type': 'application/json'
+    }, config.http);
+  }
+
+  async submitClaim(claimData: ClaimData): Promise<string> {
+    try {
+      const response = await retry(
+        () => this.api.post(this.config.resource, {
+          claimId: claimData.claimId,
+          tokenId: claimData.tokenId,
+          merchant: claimData.merchant,
+          amount: claimData.amount,
+          reason: claimData.reason,
+          evidence: claimData.evidence,
+          ...this.config.submitFields,
+          timestamp: Date.now()
+        }),
+        {
+          maxAttempts: 3,
+          delay: 1000,
+          backoff: 'exponential',
+        }
+      );
+
+      return response.data[this.config.idField];
+    } catch (error: any) {
+      throw this.wrapError(`Failed to submit claim to ${this.name}`, error);
+    }
+  }
+
+  async getClaimStatus(requestId: string): Promise<ResolutionResult> {
+    try {
+      const response = await retry(
+        () => this.api.get(`${this.config.resource}/${requestId}`),
+        {
+          maxAttempts: 3,
+          delay: 1000,
+        }
+      );
+
+      return this.config.toResolution(requestId, response.data);
+    } catch (error: any) {
+      throw this.wrapError(`Failed to get ${this.name} claim status`, error);
+    }
+  }
+
+  async pollForResolution(
+    requestId: string,
+    maxAttempts: number = this.config.pollAttempts,
+    delay: number = this.config.pollDelay,
+    signal?: AbortSignal
+  ): Promise<ResolutionResult> {
+    for (let i = 0; i < maxAttempts; i++) {
+      signal?.throwIfAborted();
+      const status = await this.getClaimStatus(requestId);
+
+      if (status.resolved) {
+        return status;
+      }
+
+      // Wait before next poll
+      await sleep(delay, signal);
+    }
+    signal?.throwIfAborted();
+
+    throw this.config.createError(`${this.name} resolution timeout for ${requestId}`, 'RESOLUTION_TIMEOUT');
+  }
+
+  async escalate(requestId: string, party: string, evidence: any): Promise<string> {
+    const { path, idField, partyField } = this.config.escalation;
+    try {
+      const response = await this.api.post(`${this.config.resource}/${requestId}/${path}`, {
+        [partyField]: party,
+        evidence: evidence,
+        timestamp: Date.now()
+      });
+
+      return response.data[idField];
+    } catch (error: any) {
+      throw this.wrapError(`Failed to escalate ${this.name} claim`, error);
+    }
+  }
+
+  /**
+   * UMA and Kleros settle resolved claims themselves, so finalizing only
+   * confirms the resolution; the outcome is applied on-chain through the
+   * OracleAdapter
+   */
+  async finalize(requestId: string): Promise<ResolutionResult> {
+    const status = await this.getClaimStatus(requestId);
+    if (!status.resolved) {
+      throw this.config.createError(`${this.name} claim ${requestId} is not resolved yet`, 'NOT_RESOLVED');
+    }
+    return status;
+  }
+
+  private wrapError(message: string, error: any): KYASDKError {
+    if (error instanceof KYASDKError) {
+      return error;
+    }
+    return this.config.createError(`${message}: ${error.message}`, toErrorCode(error, 'ORACLE_REJECTED'), error);
+  }
+}
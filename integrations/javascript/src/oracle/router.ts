@@ -0,0 +1,80 @@
+/**
+ * Dispute Oracle Router
+ * Routes claims to a dispute oracle based on claim amount thresholds
+ */
+
+import { ClaimData } from '../types';
+import { KYASDKError } from '../utils/errors';
+import { DisputeOracle } from './dispute';
+
+export interface DisputeRoute {
+  oracle: DisputeOracle;
+  /** Largest claim amount (inclusive, USDC base units) for this route; no cap when omitted */
+  maxAmount?: bigint;
+}
+
+export interface RoutedClaim {
+  oracle: string;
+  requestId: string;
+}
+
+export class DisputeOracleRouter {
+  private routes: DisputeRoute[];
+
+  /**
+   * @param routes Routes are ordered by `maxAmount`, uncapped routes last
+   */
+  constructor(routes: DisputeRoute[]) {
+    if (routes.length === 0) {
+      throw new KYASDKError('DisputeOracleRouter requires at least one route', 'INVALID_CONFIG');
+    }
+    this.routes = [...routes].sort((a, b) => {
+      if (a.maxAmount === undefined) return b.maxAmount === undefined ? 0 : 1;
+      if (b.maxAmount === undefined) return -1;
+      return a.maxAmount < b.maxAmount ? -1 : a.maxAmount > b.maxAmount ? 1 : 0;
+    });
+  }
+
+  /**
+   * Route claims up to `threshold` to UMA and larger claims to Kleros
+   */
+  static byThreshold(uma: DisputeOracle, kleros: DisputeOracle, threshold: bigint): DisputeOracleRouter {
+    return new DisputeOracleRouter([
+      { oracle: uma, maxAmount: threshold },
+      { oracle: kleros },
+    ]);
+  }
+
+  /**
+   * Select the oracle for a claim amount
+   */
+  select(amount: bigint | string): DisputeOracle {
+    const value = BigInt(amount);
+    const route = this.routes.find((r) => r.maxAmount === undefined || value <= r.maxAmount);
+    if (!route) {
+      throw new KYASDKError(`No dispute oracle accepts claims of ${value}`, 'NO_ROUTE');
+    }
+    return route.oracle;
+  }
+
+  /**
+   * Get a routed oracle by name
+   */
+  get(name: string): DisputeOracle {
+    const route = this.routes.find((r) => r.oracle.name === name);
+    if (!route) {
+      throw new KYASDKError(`Dispute oracle "${name}" is not routed`, 'NO_ROUTE');
+    }
+    return route.oracle;
+  }
+
+  /**
+   * Submit a claim to the oracle selected by its amount
+   * @returns The oracle name and its request ID
+   */
+  async submitClaim(claimData: ClaimData): Promise<RoutedClaim> {
+    const oracle = this.select(claimData.amount);
+    const requestId = await oracle.submitClaim(claimData);
+    return { oracle: oracle.name, requestId };
+  }
+}
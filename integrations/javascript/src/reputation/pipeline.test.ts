@@ -0,0 +1,132 @@
+/**
+ * Reputation proof pipeline tests
+ * Runs a request through a mocked ZKAdapter, ReputationScore, job manager and provider
+ */
+
+import { ethers } from 'ethers';
+import { beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ReputationProofPipeline } from './pipeline';
+import { ProofQuery } from '../types';
+
+const QUERY_ID = ethers.id('query-1');
+
+const QUERY: ProofQuery = {
+  agentAddress: '0x000000000000000000000000000000000000dEaD',
+  proofType: 'reputation',
+  queryData: { window: 30 },
+};
+
+const timeout = () => ethers.makeError('timeout', 'TIMEOUT', { operation: 'waitForTransaction', reason: 'timeout' });
+
+function setup() {
+  const onChain: { status: number; processedIn?: string } = { status: 0 };
+  const zkAdapter = {
+    submitQuery: jest.fn(async () => ({ transactionHash: '0xsubmit' })),
+    parseQuerySubmission: jest.fn(() => ({ queryId: QUERY_ID })),
+    getProofStatus: jest.fn(async () => ({ status: onChain.status })),
+    findProofGenerated: jest.fn(async () => onChain.processedIn),
+    processProofAndUpdate: jest.fn(async () => ({
+      transactionHash: `0xprocess${zkAdapter.processProofAndUpdate.mock.calls.length}`,
+    })),
+  };
+
+  const reputationScore = {
+    parseProofUpdate: jest.fn((receipt: ethers.TransactionReceipt, tokenId: bigint) => ({
+      tokenId,
+      proofType: 'reputation',
+      scoreIncrease: 10n,
+      oldScore: 100n,
+      newScore: 110n,
+      newTier: 1,
+      badgesAwarded: [],
+    })),
+    getTierForScore: jest.fn(async () => 1),
+  };
+
+  const jobs = {
+    submit: jest.fn(async () => ({ id: 'job-1' })),
+    wait: jest.fn(async () => ({ verified: true, proof: '0x1234', metadata: '0x' })),
+  };
+
+  const provider = {
+    waitForTransaction: jest.fn(
+      async (hash: string) => ({ hash, status: 1, blockNumber: 100 }) as unknown as ethers.TransactionReceipt
+    ),
+    getTransaction: jest.fn(async () => null),
+  };
+
+  const pipeline = new ReputationProofPipeline(zkAdapter as any, reputationScore as any, jobs as any, provider as any);
+  return { onChain, zkAdapter, jobs, provider, pipeline };
+}
+
+describe('ReputationProofPipeline', () => {
+  let ctx: ReturnType<typeof setup>;
+  const request = { tokenId: 7n, query: QUERY, key: 'run-1' };
+
+  beforeEach(() => {
+    ctx = setup();
+  });
+
+  it('submits the query, proves it and processes the proof', async () => {
+    const { pipeline, zkAdapter } = ctx;
+    const receipt = await pipeline.run(request);
+
+    expect(zkAdapter.processProofAndUpdate).toHaveBeenCalledWith(QUERY_ID, 7n, '0x1234', '0x', { wait: false });
+    expect(receipt).toMatchObject({
+      key: 'run-1',
+      queryId: QUERY_ID,
+      proofJobId: 'job-1',
+      newScore: 110n,
+      submitTransactionHash: '0xsubmit',
+      processTransactionHash: '0xprocess1',
+    });
+    expect((await pipeline.getRun('run-1'))!.stage).toBe('completed');
+  });
+
+  it('re-sends a dropped processProofAndUpdate on the next run', async () => {
+    const { pipeline, zkAdapter, provider } = ctx;
+    provider.waitForTransaction
+      .mockResolvedValueOnce({ hash: '0xsubmit', status: 1, blockNumber: 100 } as never)
+      .mockRejectedValueOnce(timeout());
+
+    await expect(pipeline.run(request)).rejects.toMatchObject({
+      code: 'TRANSACTION_NOT_MINED',
+      context: { txHash: '0xprocess1', state: 'dropped' },
+    });
+    expect((await pipeline.getRun('run-1'))!.processTransactionHash).toBeUndefined();
+
+    const receipt = await pipeline.run(request);
+    expect(zkAdapter.processProofAndUpdate).toHaveBeenCalledTimes(2);
+    expect(receipt.processTransactionHash).toBe('0xprocess2');
+  });
+
+  it('adopts the ProofGenerated transaction when the query was processed during the wait', async () => {
+    const { pipeline, zkAdapter, provider, onChain } = ctx;
+    provider.waitForTransaction
+      .mockResolvedValueOnce({ hash: '0xsubmit', status: 1, blockNumber: 100 } as never)
+      .mockImplementationOnce(async () => {
+        Object.assign(onChain, { status: 1, processedIn: '0xother' });
+        throw timeout();
+      });
+
+    await expect(pipeline.run(request)).rejects.toMatchObject({ code: 'TRANSACTION_NOT_MINED' });
+    expect((await pipeline.getRun('run-1'))!.processTransactionHash).toBe('0xother');
+
+    const receipt = await pipeline.run(request);
+    expect(zkAdapter.processProofAndUpdate).toHaveBeenCalledTimes(1);
+    expect(provider.waitForTransaction).toHaveBeenLastCalledWith('0xother', 1, 300000);
+    expect(receipt.processTransactionHash).toBe('0xother');
+  });
+
+  it('keeps waiting for a submitQuery still in the mempool', async () => {
+    const { pipeline, zkAdapter, provider } = ctx;
+    provider.waitForTransaction.mockRejectedValueOnce(timeout());
+    provider.getTransaction.mockResolvedValueOnce({ hash: '0xsubmit' } as never);
+
+    await expect(pipeline.run(request)).rejects.toMatchObject({ context: { state: 'pending' } });
+    expect((await pipeline.getRun('run-1'))!.submitTransactionHash).toBe('0xsubmit');
+
+    await pipeline.run(request);
+    expect(zkAdapter.submitQuery).toHaveBeenCalledTimes(1);
+  });
+});
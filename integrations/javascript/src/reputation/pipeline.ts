@@ -0,0 +1,305 @@
+/**
+ * Reputation Proof Pipeline
+ * Runs a proof end to end: submits the on-chain query to the ZKAdapter,
+ * generates the proof off-chain, calls processProofAndUpdate and decodes
+ * the resulting ReputationScore update
+ *
+ * Every step is checkpointed under an idempotency key, so re-running a
+ * request resumes where it stopped instead of submitting again.
+ */
+
+import { ethers } from 'ethers';
+import { ProofQuery, ProofResult } from '../types';
+import { ZKAdapterContract } from '../contracts/ZKAdapter';
+import { waitForReceipt } from '../contracts/transaction';
+import { ReputationScoreContract } from '../contracts/ReputationScore';
+import { ProofJobManager } from '../zk/jobs';
+import { MemoryStore } from '../utils/store';
+import { KYASDKError, ZKProviderError } from '../utils/errors';
+
+export type ReputationProofStage = 'querying' | 'proving' | 'processing' | 'completed';
+
+export interface ReputationProofRequest {
+  tokenId: number | bigint;
+  query: ProofQuery;
+  /** Idempotency key; derived from the token ID and query when omitted */
+  key?: string;
+  /** ZK provider name; selected by proof type when omitted */
+  provider?: string;
+}
+
+export interface ReputationProofRun {
+  /** Idempotency key */
+  id: string;
+  tokenId: string;
+  query: ProofQuery;
+  stage: ReputationProofStage;
+  submitTransactionHash?: string;
+  queryId?: string;
+  queryBlock?: number;
+  proofJobId?: string;
+  proof?: ProofResult;
+  processTransactionHash?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ReputationProofRunStore {
+  get(id: string): Promise<ReputationProofRun | undefined>;
+  save(run: ReputationProofRun): Promise<void>;
+}
+
+export interface ReputationProofReceipt {
+  key: string;
+  tokenId: bigint;
+  queryId: string;
+  proofType: string;
+  proofJobId: string;
+  scoreIncrease: bigint;
+  oldScore: bigint;
+  newScore: bigint;
+  oldTier: number;
+  newTier: number;
+  badgesAwarded: string[];
+  submitTransactionHash: string;
+  processTransactionHash: string;
+}
+
+export interface ReputationProofPipelineOptions {
+  /** Run checkpoints (in-memory when omitted; use a JsonFileStore to survive restarts) */
+  store?: ReputationProofRunStore;
+  /** Confirmations to wait for on each transaction (default 1) */
+  confirmations?: number;
+  /**
+   * Milliseconds to wait for each transaction (default 300000); a transaction
+   * the node has dropped by then is sent again on the next run
+   */
+  confirmTimeout?: number;
+}
+
+export class ReputationProofPipeline {
+  private zkAdapter: ZKAdapterContract;
+  private reputationScore: ReputationScoreContract;
+  private jobs: ProofJobManager;
+  private provider: ethers.Provider;
+  private store: ReputationProofRunStore;
+  private confirmations: number;
+  private confirmTimeout: number;
+  private inflight = new Map<string, Promise<ReputationProofReceipt>>();
+
+  constructor(
+    zkAdapter: ZKAdapterContract,
+    reputationScore: ReputationScoreContract,
+    jobs: ProofJobManager,
+    provider: ethers.Provider,
+    options: ReputationProofPipelineOptions = {}
+  ) {
+    this.zkAdapter = zkAdapter;
+    this.reputationScore = reputationScore;
+    this.jobs = jobs;
+    this.provider = provider;
+    this.store = options.store ?? new MemoryStore<ReputationProofRun>();
+    this.confirmations = options.confirmations ?? 1;
+    this.confirmTimeout = options.confirmTimeout ?? 300000;
+  }
+
+  /**
+   * Derive the default idempotency key for a request
+   */
+  static keyFor(tokenId: number | bigint, query: ProofQuery): string {
+    return ethers.id(JSON.stringify([
+      BigInt(tokenId).toString(),
+      query.agentAddress.toLowerCase(),
+      query.proofType,
+      query.queryData,
+      query.startBlock ?? null,
+      query.endBlock ?? null,
+    ]));
+  }
+
+  /**
+   * Run (or resume) the pipeline for a request
+   * Concurrent calls with the same key share one run
+   */
+  async run(request: ReputationProofRequest): Promise<ReputationProofReceipt> {
+    const key = request.key ?? ReputationProofPipeline.keyFor(request.tokenId, request.query);
+
+    let pending = this.inflight.get(key);
+    if (!pending) {
+      pending = this.execute(key, request).finally(() => this.inflight.delete(key));
+      this.inflight.set(key, pending);
+    }
+    return await pending;
+  }
+
+  /**
+   * Get the checkpoint for a key
+   */
+  async getRun(key: string): Promise<ReputationProofRun | undefined> {
+    return await this.store.get(key);
+  }
+
+  private async execute(key: string, request: ReputationProofRequest): Promise<ReputationProofReceipt> {
+    const now = Date.now();
+    const run: ReputationProofRun = (await this.store.get(key)) ?? {
+      id: key,
+      tokenId: BigInt(request.tokenId).toString(),
+      query: request.query,
+      stage: 'querying',
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    if (!run.queryId) {
+      await this.submitQuery(run);
+    }
+    if (!run.proof) {
+      await this.generateProof(run, request.provider);
+    }
+    const receipt = await this.processProof(run);
+
+    const update = this.reputationScore.parseProofUpdate(receipt, BigInt(run.tokenId));
+    if (!update) {
+      throw new KYASDKError(
+        `No reputation update for token ${run.tokenId} in ${receipt.hash}`,
+        'EVENT_NOT_FOUND'
+      );
+    }
+    const oldTier = await this.reputationScore.getTierForScore(update.oldScore);
+
+    if (run.stage !== 'completed') {
+      await this.checkpoint(run, { stage: 'completed' });
+    }
+
+    return {
+      key,
+      tokenId: update.tokenId,
+      queryId: run.queryId!,
+      proofType: update.proofType,
+      proofJobId: run.proofJobId!,
+      scoreIncrease: update.scoreIncrease,
+      oldScore: update.oldScore,
+      newScore: update.newScore,
+      oldTier,
+      newTier: update.newTier,
+      badgesAwarded: update.badgesAwarded,
+      submitTransactionHash: run.submitTransactionHash!,
+      processTransactionHash: run.processTransactionHash!,
+    };
+  }
+
+  private async submitQuery(run: ReputationProofRun): Promise<void> {
+    if (!run.submitTransactionHash) {
+      const tx = await this.zkAdapter.submitQuery(run.query, { wait: false });
+      // Record the hash before waiting so a restart never re-submits
+      await this.checkpoint(run, { submitTransactionHash: tx.transactionHash });
+    }
+
+    const receipt = await this.confirm(run.submitTransactionHash!, () =>
+      this.checkpoint(run, { submitTransactionHash: undefined })
+    );
+    if (receipt.status !== 1) {
+      await this.checkpoint(run, { submitTransactionHash: undefined });
+      throw new KYASDKError(`submitQuery reverted in ${receipt.hash}`, 'TRANSACTION_REVERTED', undefined, {
+        contract: 'ZKAdapter',
+        method: 'submitQuery',
+        txHash: receipt.hash,
+      });
+    }
+
+    await this.checkpoint(run, {
+      queryId: this.zkAdapter.parseQuerySubmission(receipt).queryId,
+      queryBlock: receipt.blockNumber,
+      stage: 'proving',
+    });
+  }
+
+  private async generateProof(run: ReputationProofRun, provider?: string): Promise<void> {
+    if (!run.proofJobId) {
+      const job = await this.jobs.submit(run.query, { provider });
+      await this.checkpoint(run, { proofJobId: job.id });
+    }
+
+    let proof: ProofResult;
+    try {
+      proof = await this.jobs.wait(run.proofJobId!);
+    } catch (error) {
+      // Failed, cancelled or unknown jobs are requested again on the next run
+      if (error instanceof ZKProviderError) {
+        await this.checkpoint(run, { proofJobId: undefined });
+      }
+      throw error;
+    }
+
+    if (!proof.verified) {
+      await this.checkpoint(run, { proofJobId: undefined });
+      throw new ZKProviderError(`Proof ${run.proofJobId} was not verified`, 'PROOF_NOT_VERIFIED');
+    }
+
+    await this.checkpoint(run, { proof, stage: 'processing' });
+  }
+
+  private async processProof(run: ReputationProofRun): Promise<ethers.TransactionReceipt> {
+    if (!run.processTransactionHash) {
+      // Another runner may already have processed this query
+      const existing = await this.findProcessed(run);
+      if (existing) {
+        await this.checkpoint(run, { processTransactionHash: existing });
+      } else {
+        const tx = await this.zkAdapter.processProofAndUpdate(
+          run.queryId!,
+          BigInt(run.tokenId),
+          run.proof!.proof,
+          run.proof!.metadata,
+          { wait: false }
+        );
+        await this.checkpoint(run, { processTransactionHash: tx.transactionHash });
+      }
+    }
+
+    // A dropped transaction is replaced by one that processed the query meanwhile, if any
+    const receipt = await this.confirm(run.processTransactionHash!, async () =>
+      this.checkpoint(run, { processTransactionHash: await this.findProcessed(run) })
+    );
+    if (receipt.status !== 1) {
+      await this.checkpoint(run, { processTransactionHash: undefined });
+      throw new KYASDKError(`processProofAndUpdate reverted in ${receipt.hash}`, 'TRANSACTION_REVERTED', undefined, {
+        contract: 'ZKAdapter',
+        method: 'processProofAndUpdate',
+        txHash: receipt.hash,
+      });
+    }
+    return receipt;
+  }
+
+  /**
+   * Transaction hash of the ProofGenerated event for the run's query, if it was processed
+   */
+  private async findProcessed(run: ReputationProofRun): Promise<string | undefined> {
+    const { status } = await this.zkAdapter.getProofStatus(run.queryId!);
+    return status !== 0 ? await this.zkAdapter.findProofGenerated(run.queryId!, run.queryBlock) : undefined;
+  }
+
+  /**
+   * Wait for a transaction; on timeout, forget a dropped one so the next run re-sends it
+   * @param onDropped Clear the recorded hash
+   */
+  private async confirm(hash: string, onDropped: () => Promise<void>): Promise<ethers.TransactionReceipt> {
+    const receipt = await waitForReceipt(this.provider, hash, this.confirmations, this.confirmTimeout);
+    if (receipt === 'dropped') {
+      await onDropped();
+    }
+    if (typeof receipt === 'string') {
+      throw new KYASDKError(`Transaction ${hash} not mined after ${this.confirmTimeout}ms (${receipt})`, 'TRANSACTION_NOT_MINED', undefined, {
+        txHash: hash,
+        state: receipt,
+      });
+    }
+    return receipt;
+  }
+
+  private async checkpoint(run: ReputationProofRun, fields: Partial<ReputationProofRun>): Promise<void> {
+    Object.assign(run, fields, { updatedAt: Date.now() });
+    await this.store.save(run);
+  }
+}
@@ -35,17 +35,71 @@ export interface ResolutionResult {
   resolutionData?: any;
 }
 
+export type EntryPointVersion = '0.6' | '0.7';
+
+/**
+ * Unpacked user operation
+ * v0.6 EntryPoints use initCode/paymasterAndData; v0.7 bundlers use the
+ * factory and paymaster fields (either form converts to the other)
+ */
 export interface UserOperation {
   sender: string;
-  nonce: number;
+  /** 192-bit key and 64-bit sequence, as returned by EntryPoint.getNonce */
+  nonce: bigint;
+  initCode?: string;
   callData: string;
   callGasLimit: number;
   verificationGasLimit: number;
   preVerificationGas: number;
-  maxFeePerGas: number;
-  maxPriorityFeePerGas: number;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
   paymasterAndData?: string;
   signature?: string;
+  factory?: string;
+  factoryData?: string;
+  paymaster?: string;
+  paymasterVerificationGasLimit?: bigint;
+  paymasterPostOpGasLimit?: bigint;
+  paymasterData?: string;
+}
+
+/**
+ * EntryPoint v0.7 PackedUserOperation
+ */
+export interface PackedUserOperation {
+  sender: string;
+  nonce: bigint;
+  initCode: string;
+  callData: string;
+  accountGasLimits: string; // verificationGasLimit (16 bytes) | callGasLimit (16 bytes)
+  preVerificationGas: bigint;
+  gasFees: string; // maxPriorityFeePerGas (16 bytes) | maxFeePerGas (16 bytes)
+  paymasterAndData: string;
+  signature: string;
+}
+
+export interface UserOperationGasEstimate {
+  preVerificationGas: bigint;
+  verificationGasLimit: bigint;
+  callGasLimit: bigint;
+}
+
+export interface UserOperationReceipt {
+  userOpHash: string;
+  sender: string;
+  nonce: bigint;
+  success: boolean;
+  actualGasCost: bigint;
+  actualGasUsed: bigint;
+  transactionHash: string;
+  blockNumber: number;
+}
+
+export interface UserOperationLookup {
+  userOperation: UserOperation;
+  entryPoint: string;
+  transactionHash: string | null;
+  blockNumber: number | null;
 }
 
 export interface PaymasterData {
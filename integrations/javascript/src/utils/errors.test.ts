@@ -0,0 +1,125 @@
+/**
+ * Error classification tests
+ */
+
+import { AxiosError, AxiosHeaders, AxiosResponse, CanceledError } from 'axios';
+import { ethers } from 'ethers';
+import { describe, expect, it } from '@jest/globals';
+import {
+  CircuitOpenError,
+  ErrorClassification,
+  KYASDKError,
+  UMAError,
+  classifyError,
+  parseRetryAfter,
+  toErrorCode,
+} from './errors';
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  const response = { status, statusText: '', headers, config, data: {} } as AxiosResponse;
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, {}, response);
+}
+
+function socketError(code: string): Error {
+  return Object.assign(new Error(`connect ${code}`), { code });
+}
+
+function rpcError(code: number, message: string) {
+  return ethers.makeError('could not coalesce error', 'UNKNOWN_ERROR', { error: { code, message } });
+}
+
+describe('classifyError', () => {
+  it.each<[string, unknown, Partial<ErrorClassification>]>([
+    // axios
+    ['HTTP 429', httpError(429), { retryable: true, reason: 'HTTP 429' }],
+    ['HTTP 503', httpError(503), { retryable: true, reason: 'HTTP 503' }],
+    ['HTTP 408', httpError(408), { retryable: true, reason: 'HTTP 408' }],
+    ['HTTP 400', httpError(400), { retryable: false, reason: 'HTTP 400' }],
+    ['HTTP 401', httpError(401), { retryable: false, reason: 'HTTP 401' }],
+    ['HTTP 501', httpError(501), { retryable: false, reason: 'HTTP 501' }],
+    ['axios timeout', new AxiosError('timeout of 10ms exceeded', 'ETIMEDOUT'), { retryable: true, reason: 'ETIMEDOUT' }],
+    ['axios network error', new AxiosError('Network Error', 'ERR_NETWORK'), { retryable: true, reason: 'ERR_NETWORK' }],
+    ['axios bad request config', new AxiosError('Invalid URL', 'ERR_INVALID_URL'), { retryable: false }],
+    ['axios cancel', new CanceledError(), { retryable: false, reason: 'aborted' }],
+    // ethers v6
+    ['ethers NETWORK_ERROR', ethers.makeError('network', 'NETWORK_ERROR', { event: 'noNetwork' }), { retryable: true, reason: 'ethers NETWORK_ERROR' }],
+    ['ethers TIMEOUT', ethers.makeError('timeout', 'TIMEOUT', { operation: 'call', reason: 'timeout' }), { retryable: true, reason: 'ethers TIMEOUT' }],
+    ['ethers CALL_EXCEPTION', ethers.makeError('execution reverted', 'CALL_EXCEPTION', { action: 'call', data: '0x', reason: null, transaction: { to: null, data: '0x' }, invocation: null, revert: null }), { retryable: false, reason: 'ethers CALL_EXCEPTION' }],
+    ['ethers NONCE_EXPIRED', ethers.makeError('nonce too low', 'NONCE_EXPIRED', { transaction: {} }), { retryable: false, reason: 'ethers NONCE_EXPIRED' }],
+    ['ethers INSUFFICIENT_FUNDS', ethers.makeError('insufficient funds', 'INSUFFICIENT_FUNDS', { transaction: {} }), { retryable: false }],
+    // JSON-RPC codes wrapped by ethers
+    ['JSON-RPC -32005 limit exceeded', rpcError(-32005, 'limit exceeded'), { retryable: true, reason: 'JSON-RPC -32005' }],
+    ['JSON-RPC -32603 internal error', rpcError(-32603, 'internal error'), { retryable: true }],
+    ['JSON-RPC -32000 header not found', rpcError(-32000, 'header not found'), { retryable: true }],
+    ['JSON-RPC -32000 execution reverted', rpcError(-32000, 'execution reverted'), { retryable: false }],
+    ['JSON-RPC -32602 invalid params', rpcError(-32602, 'invalid params'), { retryable: false }],
+    ['bare JSON-RPC error', { code: -32005, message: 'rate limited' }, { retryable: true }],
+    // Node sockets
+    ['ECONNRESET', socketError('ECONNRESET'), { retryable: true, reason: 'ECONNRESET' }],
+    ['ENOTFOUND', socketError('ENOTFOUND'), { retryable: true }],
+    ['EACCES', socketError('EACCES'), { retryable: false, reason: 'EACCES' }],
+    // SDK errors are judged by their cause
+    ['SDK error over HTTP 502', new UMAError('submit failed', 'SERVICE_UNAVAILABLE', httpError(502)), { retryable: true, reason: 'HTTP 502' }],
+    ['SDK error over HTTP 422', new UMAError('submit failed', 'ORACLE_REJECTED', httpError(422)), { retryable: false }],
+    ['SDK error without cause', new KYASDKError('bad input', 'INVALID_CONFIG'), { retryable: false, reason: 'INVALID_CONFIG' }],
+    ['open circuit', new CircuitOpenError('uma', 1000), { retryable: false, reason: 'circuit open' }],
+    // Fallbacks
+    ['timeout message', new Error('socket hang up'), { retryable: true, reason: 'message' }],
+    ['plain error', new Error('Invalid proof'), { retryable: false, reason: 'unclassified' }],
+    ['abort', Object.assign(new Error('aborted'), { name: 'AbortError' }), { retryable: false, reason: 'aborted' }],
+    ['string', 'boom', { retryable: false, reason: 'not an error' }],
+    ['undefined', undefined, { retryable: false }],
+  ])('%s', (_name, error, expected) => {
+    expect(classifyError(error)).toMatchObject(expected);
+  });
+
+  it('reads Retry-After in seconds', () => {
+    expect(classifyError(httpError(429, { 'retry-after': '3' }))).toEqual({
+      retryable: true,
+      reason: 'HTTP 429',
+      retryAfter: 3000,
+    });
+  });
+
+  it('reads Retry-After through an SDK error', () => {
+    const error = new UMAError('rate limited', 'RATE_LIMITED', httpError(503, { 'retry-after': '1.5' }));
+    expect(classifyError(error).retryAfter).toBe(1500);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it.each<[unknown, number | undefined]>([
+    ['0', 0],
+    ['120', 120000],
+    [2, 2000],
+    ['-5', 0],
+    ['', undefined],
+    ['soon', undefined],
+    [undefined, undefined],
+  ])('%p → %p', (value, expected) => {
+    expect(parseRetryAfter(value)).toBe(expected);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    const value = new Date(Date.now() + 10000).toUTCString();
+    const delay = parseRetryAfter(value)!;
+    expect(delay).toBeGreaterThan(8000);
+    expect(delay).toBeLessThanOrEqual(10000);
+  });
+});
+
+describe('toErrorCode', () => {
+  it.each<[string, unknown, string]>([
+    ['HTTP 429', httpError(429), 'RATE_LIMITED'],
+    ['HTTP 504', httpError(504), 'TIMEOUT'],
+    ['HTTP 500', httpError(500), 'SERVICE_UNAVAILABLE'],
+    ['HTTP 404', httpError(404), 'ORACLE_REJECTED'],
+    ['ETIMEDOUT', socketError('ETIMEDOUT'), 'TIMEOUT'],
+    ['ECONNREFUSED', socketError('ECONNREFUSED'), 'NETWORK_ERROR'],
+    ['SDK error', new KYASDKError('x', 'PROOF_TIMEOUT'), 'PROOF_TIMEOUT'],
+    ['plain error', new Error('x'), 'ORACLE_REJECTED'],
+  ])('%s', (_name, error, expected) => {
+    expect(toErrorCode(error, 'ORACLE_REJECTED')).toBe(expected);
+  });
+});
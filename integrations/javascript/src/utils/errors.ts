@@ -2,16 +2,248 @@
  * Custom error classes for KYA Protocol integrations
  */
 
+import axios from 'axios';
+import { ethers } from 'ethers';
+
+/**
+ * Stable error codes carried by every KYASDKError
+ * Codes are part of the public API: new ones may be added, existing ones
+ * keep their meaning
+ */
+export const ErrorCode = {
+  /** Not classified */
+  UNKNOWN: 'UNKNOWN',
+
+  // Configuration and input
+  /** Configuration failed validation (`ConfigValidationError.issues`) */
+  INVALID_CONFIG: 'INVALID_CONFIG',
+  /** A contract address or service the call needs is not configured */
+  NOT_CONFIGURED: 'NOT_CONFIGURED',
+  UNKNOWN_NETWORK: 'UNKNOWN_NETWORK',
+  /** Deployment file unreadable, for another chain or with bad addresses */
+  INVALID_DEPLOYMENT: 'INVALID_DEPLOYMENT',
+  /** No ABI bindings for the named contract */
+  UNKNOWN_CONTRACT: 'UNKNOWN_CONTRACT',
+  INVALID_INPUT: 'INVALID_INPUT',
+  INVALID_RANGE: 'INVALID_RANGE',
+
+  // Signers and permissions
+  /** A write was attempted without a signer */
+  SIGNER_REQUIRED: 'SIGNER_REQUIRED',
+  /** The configured signer could not be loaded (bad keystore password, external signer failure) */
+  SIGNER_UNAVAILABLE: 'SIGNER_UNAVAILABLE',
+  /** The caller lacks a role, or is not the owner of the account or token */
+  UNAUTHORIZED: 'UNAUTHORIZED',
+  /** The account passed does not match the one the operation acts for */
+  ACCOUNT_MISMATCH: 'ACCOUNT_MISMATCH',
+
+  // Transport
+  /** No response: connection refused or reset, DNS failure */
+  NETWORK_ERROR: 'NETWORK_ERROR',
+  TIMEOUT: 'TIMEOUT',
+  /** HTTP 429 or a provider rate limit */
+  RATE_LIMITED: 'RATE_LIMITED',
+  /** HTTP 5xx */
+  SERVICE_UNAVAILABLE: 'SERVICE_UNAVAILABLE',
+  /** Requests are failing fast after repeated failures (`CircuitOpenError`) */
+  CIRCUIT_OPEN: 'CIRCUIT_OPEN',
+
+  // Contract calls and transactions
+  /** A call reverted with an error not mapped to a more specific code */
+  CONTRACT_REVERT: 'CONTRACT_REVERT',
+  /** The contract is paused */
+  PAUSED: 'PAUSED',
+  INSUFFICIENT_BALANCE: 'INSUFFICIENT_BALANCE',
+  INSUFFICIENT_ALLOWANCE: 'INSUFFICIENT_ALLOWANCE',
+  INSUFFICIENT_STAKE: 'INSUFFICIENT_STAKE',
+  /** The agent token does not exist */
+  INVALID_TOKEN_ID: 'INVALID_TOKEN_ID',
+  /** The claim, query or request is not in a state that allows the call */
+  INVALID_STATE: 'INVALID_STATE',
+  /** The claim, query or request ID is unknown to the contract */
+  NOT_FOUND: 'NOT_FOUND',
+  /** The claim was already resolved or the proof already verified */
+  ALREADY_PROCESSED: 'ALREADY_PROCESSED',
+  CHALLENGE_PERIOD_EXPIRED: 'CHALLENGE_PERIOD_EXPIRED',
+  /** Stake is locked (cooldown not met or not eligible for unstaking) */
+  UNSTAKE_NOT_ALLOWED: 'UNSTAKE_NOT_ALLOWED',
+  TOKEN_TRANSFER_FAILED: 'TOKEN_TRANSFER_FAILED',
+  TRANSACTION_NOT_FOUND: 'TRANSACTION_NOT_FOUND',
+  TRANSACTION_NOT_MINED: 'TRANSACTION_NOT_MINED',
+  /** A sent transaction reverted on chain */
+  TRANSACTION_REVERTED: 'TRANSACTION_REVERTED',
+  RECEIPT_NOT_FOUND: 'RECEIPT_NOT_FOUND',
+  /** An expected event is missing from a receipt */
+  EVENT_NOT_FOUND: 'EVENT_NOT_FOUND',
+  /** The agent account's state changed between reading and executing */
+  STATE_MISMATCH: 'STATE_MISMATCH',
+
+  // ZK proofs
+  PROOF_FAILED: 'PROOF_FAILED',
+  PROOF_TIMEOUT: 'PROOF_TIMEOUT',
+  PROOF_CANCELLED: 'PROOF_CANCELLED',
+  /** The proof job was stopped before completing */
+  PROOF_STOPPED: 'PROOF_STOPPED',
+  /** The coprocessor or contract did not verify the proof */
+  PROOF_NOT_VERIFIED: 'PROOF_NOT_VERIFIED',
+  /** The contract rejected the proof or its type */
+  PROOF_INVALID: 'PROOF_INVALID',
+  /** The coprocessor refused the request (HTTP 4xx) */
+  PROOF_REJECTED: 'PROOF_REJECTED',
+  PROVIDER_NOT_FOUND: 'PROVIDER_NOT_FOUND',
+  ALL_PROVIDERS_FAILED: 'ALL_PROVIDERS_FAILED',
+  JOB_NOT_FOUND: 'JOB_NOT_FOUND',
+  QUERY_NOT_TRACKED: 'QUERY_NOT_TRACKED',
+
+  // Dispute oracles
+  /** The oracle refused the request (HTTP 4xx) */
+  ORACLE_REJECTED: 'ORACLE_REJECTED',
+  RESOLUTION_TIMEOUT: 'RESOLUTION_TIMEOUT',
+  NOT_RESOLVED: 'NOT_RESOLVED',
+  /** No oracle route matches the claim */
+  NO_ROUTE: 'NO_ROUTE',
+  CLAIM_NOT_FOUND: 'CLAIM_NOT_FOUND',
+  CLAIM_NOT_TRACKED: 'CLAIM_NOT_TRACKED',
+
+  // ERC-4337
+  /** The agent is not eligible for gas sponsorship */
+  NOT_ELIGIBLE: 'NOT_ELIGIBLE',
+  ENTRY_POINT_REQUIRED: 'ENTRY_POINT_REQUIRED',
+  BUNDLER_REQUIRED: 'BUNDLER_REQUIRED',
+  /** The bundler answered with a JSON-RPC error (`context.rpcCode`) */
+  BUNDLER_REJECTED: 'BUNDLER_REJECTED',
+  PAYMASTER_NOT_CONFIGURED: 'PAYMASTER_NOT_CONFIGURED',
+  /** The KYA Paymaster cannot decode this EntryPoint version's paymaster fields */
+  PAYMASTER_UNSUPPORTED: 'PAYMASTER_UNSUPPORTED',
+} as const;
+
+export type ErrorCode = (typeof ErrorCode)[keyof typeof ErrorCode];
+
+/**
+ * Where an error happened; any other JSON-friendly details may be added
+ */
+export interface ErrorContext {
+  contract?: string;
+  method?: string;
+  tokenId?: bigint | number | string;
+  txHash?: string;
+  address?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * JSON form of an error: name, code, message, context, subclass fields and
+ * cause, with bigints as decimal strings
+ */
+export interface SerializedError {
+  name: string;
+  code?: ErrorCode | string;
+  message: string;
+  context?: Record<string, unknown>;
+  cause?: SerializedError;
+  [field: string]: unknown;
+}
+
 export class KYASDKError extends Error {
-  constructor(message: string, public code?: string, public cause?: Error) {
+  public code: ErrorCode;
+  public context: ErrorContext;
+
+  constructor(message: string, code?: ErrorCode, public cause?: Error, context: ErrorContext = {}) {
     super(message);
+    this.code = code ?? ErrorCode.UNKNOWN;
+    this.context = context;
     this.name = 'KYASDKError';
     Object.setPrototypeOf(this, KYASDKError.prototype);
   }
+
+  /**
+   * Add context (e.g. the contract and method) and return the error
+   */
+  withContext(context: ErrorContext): this {
+    this.context = { ...this.context, ...context };
+    return this;
+  }
+
+  toJSON(): SerializedError {
+    return serializeError(this);
+  }
+}
+
+/**
+ * Serialize any error for logs or transport; KYASDKErrors keep their
+ * fields, other errors their name, message and code
+ */
+export function serializeError(error: unknown): SerializedError {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: String(error) };
+  }
+
+  const { cause, ...fields } = error as Error & { cause?: unknown };
+  const serialized: SerializedError = { name: error.name, message: error.message };
+  if (error instanceof KYASDKError) {
+    for (const [field, value] of Object.entries(fields)) {
+      serialized[field] = toJsonValue(value);
+    }
+  } else if ((error as any).code !== undefined) {
+    serialized.code = toJsonValue((error as any).code) as string;
+  }
+  if (cause !== undefined) {
+    serialized.cause = serializeError(cause);
+  }
+  return serialized;
+}
+
+function toJsonValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value instanceof Error) {
+    return serializeError(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(toJsonValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toJsonValue(item)]));
+  }
+  return value;
+}
+
+/**
+ * A write method was called on a wrapper without a signer
+ */
+export class SignerRequiredError extends KYASDKError {
+  constructor(contract: string, method: string) {
+    super(`Signer required for ${method}`, ErrorCode.SIGNER_REQUIRED, undefined, { contract, method });
+    this.name = 'SignerRequiredError';
+    Object.setPrototypeOf(this, SignerRequiredError.prototype);
+  }
+}
+
+/**
+ * Invalid configuration; `issues` lists every problem found (`path: problem`)
+ */
+export class ConfigValidationError extends KYASDKError {
+  constructor(public issues: string[]) {
+    super(`Invalid configuration:\n  - ${issues.join('\n  - ')}`, 'INVALID_CONFIG');
+    this.name = 'ConfigValidationError';
+    Object.setPrototypeOf(this, ConfigValidationError.prototype);
+  }
+}
+
+/**
+ * Request rejected without being sent because the service's circuit is open
+ */
+export class CircuitOpenError extends KYASDKError {
+  constructor(public service: string, public retryAfter: number) {
+    super(`${service} circuit open after repeated failures; retry in ${Math.ceil(retryAfter / 1000)}s`, 'CIRCUIT_OPEN');
+    this.name = 'CircuitOpenError';
+    Object.setPrototypeOf(this, CircuitOpenError.prototype);
+  }
 }
 
 export class AxiomError extends KYASDKError {
-  constructor(message: string, code?: string, cause?: Error) {
+  constructor(message: string, code?: ErrorCode, cause?: Error) {
     super(message, code, cause);
     this.name = 'AxiomError';
     Object.setPrototypeOf(this, AxiomError.prototype);
@@ -19,15 +251,28 @@ export class AxiomError extends KYASDKError {
 }
 
 export class BrevisError extends KYASDKError {
-  constructor(message: string, code?: string, cause?: Error) {
+  constructor(message: string, code?: ErrorCode, cause?: Error) {
     super(message, code, cause);
     this.name = 'BrevisError';
     Object.setPrototypeOf(this, BrevisError.prototype);
   }
 }
 
+export class ZKProviderError extends KYASDKError {
+  constructor(
+    message: string,
+    code?: ErrorCode,
+    cause?: Error,
+    public attempts: { provider: string; error: Error }[] = []
+  ) {
+    super(message, code, cause);
+    this.name = 'ZKProviderError';
+    Object.setPrototypeOf(this, ZKProviderError.prototype);
+  }
+}
+
 export class UMAError extends KYASDKError {
-  constructor(message: string, code?: string, cause?: Error) {
+  constructor(message: string, code?: ErrorCode, cause?: Error) {
     super(message, code, cause);
     this.name = 'UMAError';
     Object.setPrototypeOf(this, UMAError.prototype);
@@ -35,7 +280,7 @@ export class UMAError extends KYASDKError {
 }
 
 export class KlerosError extends KYASDKError {
-  constructor(message: string, code?: string, cause?: Error) {
+  constructor(message: string, code?: ErrorCode, cause?: Error) {
     super(message, code, cause);
     this.name = 'KlerosError';
     Object.setPrototypeOf(this, KlerosError.prototype);
@@ -43,30 +288,337 @@ export class KlerosError extends KYASDKError {
 }
 
 export class EntryPointError extends KYASDKError {
-  constructor(message: string, code?: string, cause?: Error) {
+  constructor(message: string, code?: ErrorCode, cause?: Error) {
     super(message, code, cause);
     this.name = 'EntryPointError';
     Object.setPrototypeOf(this, EntryPointError.prototype);
   }
 }
 
+export class PaymasterError extends KYASDKError {
+  constructor(message: string, code?: ErrorCode, cause?: Error) {
+    super(message, code, cause);
+    this.name = 'PaymasterError';
+    Object.setPrototypeOf(this, PaymasterError.prototype);
+  }
+}
+
 /**
- * Check if error is retryable
+ * Thrown when an agent is not eligible for gas sponsorship
+ * (unverified, outside the cold start period, or sponsorship quota used)
+ */
+export class PaymasterNotEligibleError extends PaymasterError {
+  constructor(
+    public tokenId: bigint,
+    public sponsoredCount: bigint,
+    public remainingTransactions: bigint = 0n
+  ) {
+    super(
+      `Agent ${tokenId} is not eligible for gas sponsorship (${sponsoredCount} sponsored transactions used)`,
+      'NOT_ELIGIBLE'
+    );
+    this.name = 'PaymasterNotEligibleError';
+    Object.setPrototypeOf(this, PaymasterNotEligibleError.prototype);
+  }
+}
+
+export class AgentAccountError extends KYASDKError {
+  constructor(message: string, code?: ErrorCode, cause?: Error) {
+    super(message, code, cause);
+    this.name = 'AgentAccountError';
+    Object.setPrototypeOf(this, AgentAccountError.prototype);
+  }
+}
+
+/**
+ * An account holds less USDC than an operation needs (base units)
  */
-export function isRetryableError(error: Error): boolean {
-  const retryableCodes = ['ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'ECONNREFUSED'];
-  const retryableMessages = ['timeout', 'network', 'connection'];
+export class InsufficientBalanceError extends KYASDKError {
+  constructor(
+    public account: string,
+    public balance: bigint,
+    public required: bigint
+  ) {
+    super(`${account} holds ${balance} USDC base units, ${required} required`, 'INSUFFICIENT_BALANCE');
+    this.name = 'InsufficientBalanceError';
+    Object.setPrototypeOf(this, InsufficientBalanceError.prototype);
+  }
+}
 
-  if ('code' in error && retryableCodes.includes(error.code as string)) {
-    return true;
+/**
+ * A spender is allowed to pull less USDC than an operation needs (base units)
+ */
+export class InsufficientAllowanceError extends KYASDKError {
+  constructor(
+    public owner: string,
+    public spender: string,
+    public allowance: bigint,
+    public required: bigint
+  ) {
+    super(
+      `${owner} allows ${spender} ${allowance} USDC base units, ${required} required`,
+      'INSUFFICIENT_ALLOWANCE'
+    );
+    this.name = 'InsufficientAllowanceError';
+    Object.setPrototypeOf(this, InsufficientAllowanceError.prototype);
+  }
+}
+
+/**
+ * Codes for the Solidity custom errors of the KYA contracts and the
+ * OpenZeppelin errors they bubble up; others map to CONTRACT_REVERT
+ */
+export const CUSTOM_ERROR_CODES: Readonly<Record<string, ErrorCode>> = {
+  AccessControlUnauthorizedAccount: ErrorCode.UNAUTHORIZED,
+  AccessControlBadConfirmation: ErrorCode.UNAUTHORIZED,
+  NotAuthorized: ErrorCode.UNAUTHORIZED,
+  ERC721IncorrectOwner: ErrorCode.UNAUTHORIZED,
+  ERC721InsufficientApproval: ErrorCode.UNAUTHORIZED,
+  EnforcedPause: ErrorCode.PAUSED,
+  InsufficientBalance: ErrorCode.INSUFFICIENT_BALANCE,
+  InsufficientFunds: ErrorCode.INSUFFICIENT_BALANCE,
+  ERC20InsufficientBalance: ErrorCode.INSUFFICIENT_BALANCE,
+  ERC20InsufficientAllowance: ErrorCode.INSUFFICIENT_ALLOWANCE,
+  InsufficientStake: ErrorCode.INSUFFICIENT_STAKE,
+  InvalidTokenId: ErrorCode.INVALID_TOKEN_ID,
+  ERC721NonexistentToken: ErrorCode.INVALID_TOKEN_ID,
+  InvalidStatus: ErrorCode.INVALID_STATE,
+  ClaimNotFound: ErrorCode.CLAIM_NOT_FOUND,
+  RequestNotFound: ErrorCode.NOT_FOUND,
+  QueryNotFound: ErrorCode.NOT_FOUND,
+  ClaimAlreadyResolved: ErrorCode.ALREADY_PROCESSED,
+  ProofAlreadyVerified: ErrorCode.ALREADY_PROCESSED,
+  ChallengePeriodExpired: ErrorCode.CHALLENGE_PERIOD_EXPIRED,
+  NotEligibleForUnstake: ErrorCode.UNSTAKE_NOT_ALLOWED,
+  UnstakeCooldownNotMet: ErrorCode.UNSTAKE_NOT_ALLOWED,
+  NotEligible: ErrorCode.NOT_ELIGIBLE,
+  InvalidProof: ErrorCode.PROOF_INVALID,
+  InvalidProofType: ErrorCode.PROOF_INVALID,
+  InvalidAmount: ErrorCode.INVALID_INPUT,
+  InvalidClaim: ErrorCode.INVALID_INPUT,
+  InvalidQuery: ErrorCode.INVALID_INPUT,
+  InvalidEntryPoint: ErrorCode.INVALID_INPUT,
+  SafeERC20FailedOperation: ErrorCode.TOKEN_TRANSFER_FAILED,
+};
+
+/**
+ * A contract call reverted
+ * `errorName` and `errorArgs` hold the decoded Solidity custom error
+ * (`Error` for require messages, `Panic` for assertion failures), and `code`
+ * its CUSTOM_ERROR_CODES entry
+ */
+export class ContractRevertError extends KYASDKError {
+  constructor(
+    message: string,
+    public errorName?: string,
+    public errorArgs: unknown[] = [],
+    public data?: string,
+    cause?: Error
+  ) {
+    super(message, (errorName && CUSTOM_ERROR_CODES[errorName]) || ErrorCode.CONTRACT_REVERT, cause);
+    this.name = 'ContractRevertError';
+    Object.setPrototypeOf(this, ContractRevertError.prototype);
   }
+}
 
-  if (error.message) {
-    return retryableMessages.some((msg) =>
-      error.message.toLowerCase().includes(msg)
+/**
+ * The caller lacks the role a contract call requires
+ * (`AccessControlUnauthorizedAccount` or `NotAuthorized`)
+ */
+export class UnauthorizedError extends ContractRevertError {
+  constructor(
+    public account?: string,
+    public role?: string,
+    errorName?: string,
+    errorArgs: unknown[] = [],
+    data?: string,
+    cause?: Error
+  ) {
+    super(
+      account && role ? `${account} is missing role ${role}` : 'Caller is not authorized',
+      errorName,
+      errorArgs,
+      data,
+      cause
     );
+    this.code = ErrorCode.UNAUTHORIZED;
+    this.name = 'UnauthorizedError';
+    Object.setPrototypeOf(this, UnauthorizedError.prototype);
+  }
+}
+
+export interface ErrorClassification {
+  retryable: boolean;
+  /** What decided it, e.g. `HTTP 503`, `ETIMEDOUT`, `ethers NETWORK_ERROR`, `JSON-RPC -32005` */
+  reason: string;
+  /** Milliseconds the server asked to wait (Retry-After) */
+  retryAfter?: number;
+}
+
+// Transient socket and DNS failures
+const RETRYABLE_NODE_CODES = new Set([
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ECONNABORTED',
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'ERR_NETWORK',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+// Timeouts, rate limits and gateway errors
+const RETRYABLE_HTTP_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+const RETRYABLE_ETHERS_CODES = new Set(['NETWORK_ERROR', 'TIMEOUT', 'SERVER_ERROR']);
+
+// Limit exceeded, internal error, resource unavailable; 429 as sent by some RPC providers
+const RETRYABLE_RPC_CODES = new Set([-32005, -32603, -32002, 429]);
+
+// -32000 is a catch-all that also covers reverts and nonce errors
+const RETRYABLE_RPC_MESSAGES = /header not found|timeout|timed out|rate limit|too many requests|try again|busy/i;
+
+/**
+ * Decide whether an error is worth retrying
+ * Understands axios errors (status codes and Retry-After), ethers v6 error
+ * codes, JSON-RPC error codes and Node socket codes; SDK errors are judged by
+ * their cause
+ */
+export function classifyError(error: unknown): ErrorClassification {
+  const err = error as any;
+  if (!err || typeof err !== 'object') {
+    return { retryable: false, reason: 'not an error' };
+  }
+  if (axios.isCancel(err) || err.name === 'AbortError' || err.code === 'ERR_CANCELED') {
+    return { retryable: false, reason: 'aborted' };
   }
 
-  return false;
+  if (err instanceof KYASDKError) {
+    if (err.code === 'CIRCUIT_OPEN') {
+      return { retryable: false, reason: 'circuit open' };
+    }
+    return err.cause ? classifyError(err.cause) : { retryable: false, reason: err.code ?? err.name };
+  }
+
+  if (axios.isAxiosError(err)) {
+    if (err.response) {
+      return classifyStatus(err.response.status, err.response.headers?.['retry-after']);
+    }
+    return { retryable: !!err.code && RETRYABLE_NODE_CODES.has(err.code), reason: err.code ?? 'no response' };
+  }
+
+  // ethers v6 errors (made with a shortMessage); JSON-RPC errors are carried in `error` or `info.error`
+  if (typeof err.shortMessage === 'string' && ethers.isError(err, err.code)) {
+    // CALL_EXCEPTION, NONCE_EXPIRED, ... are final even when the node reported a generic RPC code
+    if (!RETRYABLE_ETHERS_CODES.has(err.code) && err.code !== 'UNKNOWN_ERROR') {
+      return { retryable: false, reason: `ethers ${err.code}` };
+    }
+    const rpcError = err.error ?? err.info?.error;
+    if (typeof rpcError?.code === 'number') {
+      return classifyRpcError(rpcError.code, rpcError.message);
+    }
+    const { response } = error as any;
+    if (err.code === 'SERVER_ERROR' && typeof response?.statusCode === 'number') {
+      return classifyStatus(response.statusCode, response.getHeader?.('retry-after'));
+    }
+    return { retryable: RETRYABLE_ETHERS_CODES.has(err.code), reason: `ethers ${err.code}` };
+  }
+
+  if (typeof err.code === 'number') {
+    return classifyRpcError(err.code, err.message);
+  }
+  if (typeof err.code === 'string') {
+    return { retryable: RETRYABLE_NODE_CODES.has(err.code), reason: err.code };
+  }
+  if (typeof err.status === 'number') {
+    return classifyStatus(err.status, err.headers?.['retry-after']);
+  }
+
+  // Errors without a code: fall back to the message
+  const retryable = /timeout|timed out|network|socket hang up|connection/i.test(err.message ?? '');
+  return { retryable, reason: retryable ? 'message' : 'unclassified' };
+}
+
+/**
+ * Stable code for an error from a dependency: transport failures by kind,
+ * ethers errors by meaning, KYASDKErrors keep theirs
+ * @param fallback Code for anything else, e.g. ORACLE_REJECTED for a service's HTTP 4xx
+ */
+export function toErrorCode(error: unknown, fallback: ErrorCode = ErrorCode.UNKNOWN): ErrorCode {
+  const err = error as any;
+  if (err instanceof KYASDKError) {
+    return err.code;
+  }
+
+  if (axios.isAxiosError(err) && err.response) {
+    const status = err.response.status;
+    if (status === 429) {
+      return ErrorCode.RATE_LIMITED;
+    }
+    if (status === 408 || status === 504) {
+      return ErrorCode.TIMEOUT;
+    }
+    return status >= 500 ? ErrorCode.SERVICE_UNAVAILABLE : fallback;
+  }
+
+  switch (err?.code) {
+    case 'TIMEOUT':
+    case 'ETIMEDOUT':
+    case 'ECONNABORTED':
+    case 'UND_ERR_CONNECT_TIMEOUT':
+      return ErrorCode.TIMEOUT;
+    case 'CALL_EXCEPTION':
+      return ErrorCode.CONTRACT_REVERT;
+    case 'INSUFFICIENT_FUNDS':
+      return ErrorCode.INSUFFICIENT_BALANCE;
+    case 'ACTION_REJECTED':
+      return ErrorCode.SIGNER_UNAVAILABLE;
+    case 'SERVER_ERROR':
+      return ErrorCode.SERVICE_UNAVAILABLE;
+    case 'NETWORK_ERROR':
+      return ErrorCode.NETWORK_ERROR;
+  }
+  if (typeof err?.code === 'string' && RETRYABLE_NODE_CODES.has(err.code)) {
+    return ErrorCode.NETWORK_ERROR;
+  }
+  return fallback;
 }
 
+/**
+ * Check if error is retryable
+ */
+export function isRetryableError(error: unknown): boolean {
+  return classifyError(error).retryable;
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (String(value).trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function classifyStatus(status: number, retryAfter: unknown): ErrorClassification {
+  return {
+    retryable: RETRYABLE_HTTP_STATUSES.has(status),
+    reason: `HTTP ${status}`,
+    retryAfter: parseRetryAfter(retryAfter),
+  };
+}
+
+function classifyRpcError(code: number, message?: string): ErrorClassification {
+  const retryable = RETRYABLE_RPC_CODES.has(code) || (code === -32000 && RETRYABLE_RPC_MESSAGES.test(message ?? ''));
+  return { retryable, reason: `JSON-RPC ${code}` };
+}
@@ -0,0 +1,238 @@
+/**
+ * HTTP transport tests (fake timers, no network)
+ */
+
+import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { CircuitBreaker, TokenBucket, createHttpTransport, isServiceFailure } from './http';
+import { CircuitOpenError } from './errors';
+
+type Adapter = (config: InternalAxiosRequestConfig) => Promise<unknown>;
+
+/** Answer requests in-process instead of over the network */
+function mockAdapter(api: AxiosInstance, handle: (config: InternalAxiosRequestConfig) => number) {
+  const adapter = jest.fn<Adapter>(async (config) => {
+    const status = handle(config);
+    if (status === 0) {
+      throw new AxiosError('Network Error', 'ERR_NETWORK', config);
+    }
+    const response = { status, statusText: '', headers: {}, config, data: { ok: status < 400 } };
+    if (status >= 400) {
+      throw new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, {}, response);
+    }
+    return response;
+  });
+  api.defaults.adapter = adapter as any;
+  return adapter;
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('TokenBucket', () => {
+  it('allows a burst up to capacity, then one token per 1/rate seconds', async () => {
+    const bucket = new TokenBucket(2, 3);
+    const taken: number[] = [];
+    const start = Date.now();
+
+    for (let i = 0; i < 5; i++) {
+      bucket.take().then(() => taken.push(Date.now() - start));
+    }
+    await jest.advanceTimersByTimeAsync(0);
+    expect(taken).toEqual([0, 0, 0]);
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(taken).toEqual([0, 0, 0, 500]);
+    await jest.advanceTimersByTimeAsync(500);
+    expect(taken).toEqual([0, 0, 0, 500, 1000]);
+  });
+
+  it('refills while idle but never beyond capacity', async () => {
+    const bucket = new TokenBucket(1, 2);
+    await bucket.take();
+    await bucket.take();
+
+    jest.advanceTimersByTime(60000);
+
+    const taken: number[] = [];
+    const start = Date.now();
+    for (let i = 0; i < 3; i++) {
+      bucket.take().then(() => taken.push(Date.now() - start));
+    }
+    await jest.advanceTimersByTimeAsync(0);
+    expect(taken).toEqual([0, 0]);
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(taken).toEqual([0, 0, 1000]);
+  });
+
+  it('rejects a non-positive rate or a burst below 1', () => {
+    expect(() => new TokenBucket(0)).toThrow(RangeError);
+    expect(() => new TokenBucket(1, 0.5)).toThrow(RangeError);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  const options = { failureThreshold: 2, resetTimeout: 1000 };
+
+  it('opens after failureThreshold consecutive failures', () => {
+    const breaker = new CircuitBreaker('uma', options);
+    breaker.onFailure();
+    expect(breaker.state).toBe('closed');
+    breaker.onSuccess();
+    breaker.onFailure();
+    expect(breaker.state).toBe('closed');
+    breaker.onFailure();
+    expect(breaker.state).toBe('open');
+
+    jest.advanceTimersByTime(400);
+    let error: unknown;
+    try {
+      breaker.acquire();
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ code: 'CIRCUIT_OPEN', service: 'uma', retryAfter: 600 });
+  });
+
+  it('admits one trial request when half-open and closes on its success', () => {
+    const breaker = new CircuitBreaker('uma', options);
+    breaker.onFailure();
+    breaker.onFailure();
+
+    jest.advanceTimersByTime(1000);
+    expect(breaker.state).toBe('half-open');
+    expect(() => breaker.acquire()).not.toThrow();
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+
+    breaker.onSuccess();
+    expect(breaker.state).toBe('closed');
+    expect(() => breaker.acquire()).not.toThrow();
+  });
+
+  it('re-opens for another resetTimeout when the trial fails', () => {
+    const breaker = new CircuitBreaker('uma', options);
+    breaker.onFailure();
+    breaker.onFailure();
+    jest.advanceTimersByTime(1000);
+    breaker.acquire();
+
+    breaker.onFailure();
+    expect(breaker.state).toBe('open');
+    jest.advanceTimersByTime(999);
+    expect(breaker.state).toBe('open');
+    jest.advanceTimersByTime(1);
+    expect(breaker.state).toBe('half-open');
+  });
+});
+
+describe('isServiceFailure', () => {
+  it.each<[string, unknown, boolean]>([
+    ['no response', new AxiosError('Network Error', 'ERR_NETWORK'), true],
+    ['HTTP 429', new AxiosError('x', 'ERR_BAD_REQUEST', undefined, {}, { status: 429 } as any), true],
+    ['HTTP 503', new AxiosError('x', 'ERR_BAD_RESPONSE', undefined, {}, { status: 503 } as any), true],
+    ['HTTP 404', new AxiosError('x', 'ERR_BAD_REQUEST', undefined, {}, { status: 404 } as any), false],
+    ['not an axios error', new Error('x'), false],
+  ])('%s → %p', (_name, error, expected) => {
+    expect(isServiceFailure(error)).toBe(expected);
+  });
+});
+
+describe('createHttpTransport', () => {
+  it('opens the circuit on service failures and closes it after a successful trial', async () => {
+    const api = createHttpTransport('uma', 'https://uma.test', {}, {
+      circuitBreaker: { failureThreshold: 2, resetTimeout: 1000 },
+    });
+    let status = 503;
+    const adapter = mockAdapter(api, () => status);
+
+    await expect(api.get('/a')).rejects.toMatchObject({ response: { status: 503 } });
+    await expect(api.get('/a')).rejects.toMatchObject({ response: { status: 503 } });
+    await expect(api.get('/a')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(adapter).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(1000);
+    status = 200;
+    await expect(api.get('/a')).resolves.toMatchObject({ status: 200 });
+    await expect(api.get('/a')).resolves.toMatchObject({ status: 200 });
+  });
+
+  it('does not count client errors against the circuit', async () => {
+    const api = createHttpTransport('uma', 'https://uma.test', {}, {
+      circuitBreaker: { failureThreshold: 1, resetTimeout: 1000 },
+    });
+    mockAdapter(api, () => 404);
+
+    await expect(api.get('/a')).rejects.toMatchObject({ response: { status: 404 } });
+    await expect(api.get('/a')).rejects.toMatchObject({ response: { status: 404 } });
+  });
+
+  it('releases the half-open trial when a request interceptor throws', async () => {
+    let failHook = false;
+    const api = createHttpTransport('uma', 'https://uma.test', {}, {
+      circuitBreaker: { failureThreshold: 1, resetTimeout: 1000 },
+      interceptors: [{
+        request: (config) => {
+          if (failHook) {
+            throw new Error('token refresh failed');
+          }
+          return config;
+        },
+      }],
+    });
+    let status = 0;
+    mockAdapter(api, () => status);
+
+    await expect(api.get('/a')).rejects.toMatchObject({ code: 'ERR_NETWORK' });
+    jest.advanceTimersByTime(1000);
+
+    failHook = true;
+    await expect(api.get('/a')).rejects.toThrow('token refresh failed');
+
+    failHook = false;
+    status = 200;
+    await expect(api.get('/a')).resolves.toMatchObject({ status: 200 });
+  });
+
+  it('runs request hooks after the rate-limit wait', async () => {
+    const calls: number[] = [];
+    const start = Date.now();
+    const api = createHttpTransport('uma', 'https://uma.test', {}, {
+      rateLimit: { requestsPerSecond: 1, burst: 1 },
+      interceptors: [{
+        request: (config) => {
+          calls.push(Date.now() - start);
+          return config;
+        },
+      }],
+    });
+    mockAdapter(api, () => 200);
+
+    const requests = [api.get('/a'), api.get('/b')];
+    await jest.advanceTimersByTimeAsync(1000);
+    await Promise.all(requests);
+
+    expect(calls).toEqual([0, 1000]);
+  });
+
+  it('lets an error hook recover a failed request', async () => {
+    const api = createHttpTransport('uma', 'https://uma.test', {}, {
+      interceptors: [{
+        error: async (error, instance) => {
+          if (error.response?.status === 401) {
+            return await instance.request({ ...error.config!, url: '/retry' });
+          }
+          throw error;
+        },
+      }],
+    });
+    mockAdapter(api, (config) => (config.url === '/retry' ? 200 : 401));
+
+    await expect(api.get('/a')).resolves.toMatchObject({ status: 200, config: { url: '/retry' } });
+  });
+});
@@ -0,0 +1,233 @@
+/**
+ * HTTP Transport
+ * Axios instances shared by the external service clients, with request
+ * timeouts, token-bucket rate limiting, a circuit breaker and custom
+ * interceptors
+ */
+
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { CircuitOpenError } from './errors';
+import { sleep } from './retry';
+
+export interface HttpInterceptor {
+  /** Adjust a request right before it is sent (auth headers, request signing) */
+  request?: (config: InternalAxiosRequestConfig) => InternalAxiosRequestConfig | Promise<InternalAxiosRequestConfig>;
+  /** Inspect or transform a response (logging, unwrapping) */
+  response?: (response: AxiosResponse) => AxiosResponse | Promise<AxiosResponse>;
+  /**
+   * Handle a failed request: rethrow, or resolve with a response to recover
+   * (e.g. refresh a token and resend `error.config` through `api.request`)
+   */
+  error?: (error: AxiosError, api: AxiosInstance) => Promise<AxiosResponse>;
+}
+
+export interface RateLimitOptions {
+  requestsPerSecond: number;
+  /** Requests allowed at once after an idle period (default requestsPerSecond) */
+  burst?: number;
+}
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit (default 5) */
+  failureThreshold?: number;
+  /** Milliseconds the circuit stays open before a trial request (default 30000) */
+  resetTimeout?: number;
+}
+
+export interface HttpTransportOptions {
+  /** Milliseconds before a request fails with ETIMEDOUT (default 30000, 0 disables) */
+  timeout?: number;
+  /** Client-side rate limit (default none) */
+  rateLimit?: RateLimitOptions;
+  /** Circuit breaker settings, or false to disable it */
+  circuitBreaker?: CircuitBreakerOptions | false;
+  /** Applied in order: request hooks run last-to-first before sending, response hooks first-to-last */
+  interceptors?: HttpInterceptor[];
+}
+
+/**
+ * Token bucket rate limiter
+ * Callers reserve a token and wait for it, so concurrent requests are
+ * served in order at the configured rate
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(
+    private ratePerSecond: number,
+    private capacity: number = ratePerSecond
+  ) {
+    if (!(ratePerSecond > 0) || !(capacity >= 1)) {
+      throw new RangeError('Rate limit needs a positive rate and a burst of at least 1');
+    }
+    this.tokens = capacity;
+  }
+
+  /**
+   * Take a token, waiting until one is available
+   */
+  async take(): Promise<void> {
+    this.refill();
+    this.tokens -= 1;
+    if (this.tokens < 0) {
+      await sleep((-this.tokens / this.ratePerSecond) * 1000);
+    }
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond);
+    this.updatedAt = now;
+  }
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Circuit breaker
+ * Opens after `failureThreshold` consecutive failures and rejects requests
+ * until `resetTimeout` has passed; then one trial request decides whether it
+ * closes again
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private failureThreshold: number;
+  private resetTimeout: number;
+
+  constructor(
+    readonly name: string,
+    options: CircuitBreakerOptions = {}
+  ) {
+    this.failureThreshold = options.failureThreshold ?? 5;
+    this.resetTimeout = options.resetTimeout ?? 30000;
+  }
+
+  get state(): CircuitState {
+    if (this.failures < this.failureThreshold) {
+      return 'closed';
+    }
+    return Date.now() - this.openedAt >= this.resetTimeout ? 'half-open' : 'open';
+  }
+
+  /**
+   * Admit a request
+   * @throws CircuitOpenError while open, or while the half-open trial is in flight
+   */
+  acquire(): void {
+    const state = this.state;
+    if (state === 'closed') {
+      return;
+    }
+    if (state === 'half-open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+    const retryAfter = Math.max(0, this.openedAt + this.resetTimeout - Date.now());
+    throw new CircuitOpenError(this.name, retryAfter);
+  }
+
+  onSuccess(): void {
+    this.failures = 0;
+    this.trialInFlight = false;
+  }
+
+  onFailure(): void {
+    this.trialInFlight = false;
+    this.failures += 1;
+    if (this.failures >= this.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+/**
+ * Failures that count against the circuit: no response, timeouts, 429 and 5xx
+ * Other 4xx responses mean the service is up and rejected the request
+ */
+export function isServiceFailure(error: unknown): boolean {
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) {
+    return false;
+  }
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Create the axios instance used by an external service client
+ * @param name Service name, used in circuit breaker errors
+ */
+export function createHttpTransport(
+  name: string,
+  baseUrl: string,
+  headers: Record<string, string>,
+  options: HttpTransportOptions = {}
+): AxiosInstance {
+  const api = axios.create({
+    baseURL: baseUrl,
+    headers,
+    timeout: options.timeout ?? 30000,
+    // Timeouts reject with ETIMEDOUT (retryable) instead of ECONNABORTED
+    transitional: { clarifyTimeoutError: true },
+  });
+
+  const limiter = options.rateLimit
+    ? new TokenBucket(options.rateLimit.requestsPerSecond, options.rateLimit.burst)
+    : undefined;
+  const breaker = options.circuitBreaker === false ? undefined : new CircuitBreaker(name, options.circuitBreaker);
+  // Requests admitted by the breaker, so failures before sending are not counted twice
+  const admitted = new WeakSet<InternalAxiosRequestConfig>();
+
+  // Request interceptors run last-to-first: rate limit, custom hooks, then admission right before
+  // sending, so a failing hook never holds the half-open trial
+  api.interceptors.request.use((config) => {
+    breaker?.acquire();
+    admitted.add(config);
+    return config;
+  });
+
+  for (const interceptor of options.interceptors ?? []) {
+    if (interceptor.request) {
+      api.interceptors.request.use(interceptor.request);
+    }
+  }
+
+  if (limiter) {
+    api.interceptors.request.use(async (config) => {
+      await limiter.take();
+      return config;
+    });
+  }
+
+  api.interceptors.response.use(
+    (response) => {
+      if (admitted.has(response.config)) {
+        breaker?.onSuccess();
+      }
+      return response;
+    },
+    (error) => {
+      if (error?.config && admitted.has(error.config)) {
+        if (isServiceFailure(error)) {
+          breaker?.onFailure();
+        } else {
+          breaker?.onSuccess();
+        }
+      }
+      throw error;
+    }
+  );
+
+  for (const interceptor of options.interceptors ?? []) {
+    if (interceptor.response || interceptor.error) {
+      api.interceptors.response.use(
+        interceptor.response,
+        interceptor.error ? (error) => interceptor.error!(error, api) : undefined
+      );
+    }
+  }
+
+  return api;
+}
@@ -0,0 +1,196 @@
+/**
+ * Retry tests (fake timers)
+ */
+
+import { AxiosError, AxiosHeaders, AxiosResponse } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { retry, retryWithHandler, sleep } from './retry';
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  const config = { headers: new AxiosHeaders() };
+  const response = { status, statusText: '', headers, config, data: {} } as AxiosResponse;
+  return new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_RESPONSE', config, {}, response);
+}
+
+describe('retry', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('retries transient errors with exponential backoff', async () => {
+    const fn = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValue('ok');
+    const onRetry = jest.fn();
+
+    const result = retry(fn, { delay: 1000, jitter: 0, onRetry });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+
+    await jest.advanceTimersByTimeAsync(2000);
+    await expect(result).resolves.toBe('ok');
+    expect(onRetry.mock.calls.map(([, attempt, delay]) => [attempt, delay])).toEqual([[1, 1000], [2, 2000]]);
+  });
+
+  it('uses linear backoff when asked', async () => {
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValue(httpError(502));
+    const onRetry = jest.fn();
+
+    const result = retry(fn, { maxAttempts: 4, delay: 100, backoff: 'linear', jitter: 0, onRetry });
+    const settled = expect(result).rejects.toMatchObject({ response: { status: 502 } });
+    await jest.advanceTimersByTimeAsync(600);
+    await settled;
+
+    expect(onRetry.mock.calls.map(([, , delay]) => delay)).toEqual([100, 200, 300]);
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+
+  it('keeps jittered delays between (1 - jitter) and 1 times the backoff', async () => {
+    const random = jest.spyOn(Math, 'random');
+    random.mockReturnValueOnce(0).mockReturnValueOnce(0.999);
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValue(httpError(503));
+    const onRetry = jest.fn();
+
+    const settled = expect(retry(fn, { delay: 1000, jitter: 0.5, onRetry })).rejects.toBeDefined();
+    await jest.advanceTimersByTimeAsync(3000);
+    await settled;
+    random.mockRestore();
+
+    expect(onRetry.mock.calls.map(([, , delay]) => delay)).toEqual([1000, 1001]);
+  });
+
+  it('does not retry permanent errors', async () => {
+    const error = httpError(400);
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValue(error);
+
+    await expect(retry(fn)).rejects.toBe(error);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries extra codes listed in retryableErrors', async () => {
+    const fn = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(Object.assign(new Error('busy'), { code: 'LOCKED' }))
+      .mockResolvedValue('ok');
+
+    const result = retry(fn, { delay: 10, jitter: 0, retryableErrors: ['LOCKED'] });
+    await jest.advanceTimersByTimeAsync(10);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('throws the last error after maxAttempts', async () => {
+    const errors = [httpError(503), httpError(504)];
+    const fn = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(errors[0])
+      .mockRejectedValueOnce(errors[1]);
+
+    const settled = expect(retry(fn, { maxAttempts: 2, delay: 10, jitter: 0 })).rejects.toBe(errors[1]);
+    await jest.advanceTimersByTimeAsync(10);
+    await settled;
+  });
+
+  it('waits as long as Retry-After asks', async () => {
+    const fn = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '5' }))
+      .mockResolvedValue('ok');
+
+    const result = retry(fn, { delay: 100, jitter: 0 });
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toBe('ok');
+  });
+
+  it('caps Retry-After at maxDelay', async () => {
+    const fn = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(httpError(429, { 'retry-after': '3600' }))
+      .mockResolvedValue('ok');
+    const onRetry = jest.fn();
+
+    const result = retry(fn, { delay: 100, jitter: 0, maxDelay: 2000, onRetry });
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('ok');
+    expect(onRetry).toHaveBeenCalledWith(expect.anything(), 1, 2000);
+  });
+
+  it('caps the backoff at maxDelay', async () => {
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValue(httpError(503));
+    const onRetry = jest.fn();
+
+    const settled = expect(retry(fn, { maxAttempts: 5, delay: 1000, jitter: 0, maxDelay: 3000, onRetry })).rejects.toBeDefined();
+    await jest.advanceTimersByTimeAsync(20000);
+    await settled;
+
+    expect(onRetry.mock.calls.map(([, , delay]) => delay)).toEqual([1000, 2000, 3000, 3000]);
+  });
+
+  it('stops during the wait when aborted', async () => {
+    const controller = new AbortController();
+    const fn = jest.fn<() => Promise<string>>().mockRejectedValue(httpError(503));
+
+    const result = retry(fn, { delay: 60000, jitter: 0, signal: controller.signal });
+    const settled = expect(result).rejects.toThrow('This operation was aborted');
+    await jest.advanceTimersByTimeAsync(100);
+    controller.abort();
+    await jest.advanceTimersByTimeAsync(0);
+
+    await settled;
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('does not start when already aborted', async () => {
+    const fn = jest.fn<() => Promise<string>>();
+    await expect(retry(fn, { signal: AbortSignal.abort() })).rejects.toThrow('This operation was aborted');
+    expect(fn).not.toHaveBeenCalled();
+  });
+});
+
+describe('retryWithHandler', () => {
+  it('lets the handler decide', async () => {
+    const fn = jest.fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error('Invalid proof'))
+      .mockResolvedValue('ok');
+    const handler = jest.fn(() => true);
+
+    await expect(retryWithHandler(fn, handler, { delay: 0, jitter: 0 })).resolves.toBe('ok');
+    expect(handler).toHaveBeenCalledWith(expect.any(Error), 1);
+  });
+});
+
+describe('sleep', () => {
+  it('resolves early when aborted', async () => {
+    jest.useFakeTimers();
+    const controller = new AbortController();
+    const done = jest.fn();
+
+    sleep(60000, controller.signal).then(done);
+    await jest.advanceTimersByTimeAsync(10);
+    expect(done).not.toHaveBeenCalled();
+
+    controller.abort();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(done).toHaveBeenCalled();
+    expect(jest.getTimerCount()).toBe(0);
+    jest.useRealTimers();
+  });
+
+  it('resolves at once when already aborted', async () => {
+    jest.useFakeTimers();
+    await sleep(60000, AbortSignal.abort());
+    expect(jest.getTimerCount()).toBe(0);
+    jest.useRealTimers();
+  });
+});
@@ -2,60 +2,86 @@
  * Retry utility for API calls
  */
 
+import { classifyError } from './errors';
+
 export interface RetryOptions {
   maxAttempts?: number;
+  /** Base delay in milliseconds */
   delay?: number;
   backoff?: 'linear' | 'exponential';
+  /** Longest wait between attempts, Retry-After included (default 30000) */
+  maxDelay?: number;
+  /** Fraction of each delay that is randomized (default 0.5, 0 disables) */
+  jitter?: number;
+  /** Error codes to retry in addition to those `classifyError` accepts */
   retryableErrors?: string[];
+  /** Replace `classifyError` in deciding whether to retry; Retry-After is still honoured */
+  shouldRetry?: (error: Error, attempt: number) => boolean;
+  /** Called before each wait */
+  onRetry?: (error: Error, attempt: number, delay: number) => void;
+  /** Stops retrying when aborted; the wait in progress ends early */
+  signal?: AbortSignal;
 }
 
-const DEFAULT_OPTIONS: Required<RetryOptions> = {
+const DEFAULT_OPTIONS: Required<Omit<RetryOptions, 'shouldRetry' | 'onRetry' | 'signal'>> = {
   maxAttempts: 3,
   delay: 1000,
   backoff: 'exponential',
-  retryableErrors: ['ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'ECONNREFUSED'],
+  maxDelay: 30000,
+  jitter: 0.5,
+  retryableErrors: [],
 };
 
 /**
- * Retry a function with exponential backoff
+ * Wait for a delay, resolving early when the signal is aborted
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Retry a function with backoff while its errors are transient
+ * (see `classifyError`), waiting at least as long as a Retry-After asks
+ * @throws The last error, or the signal's reason once aborted
  */
 export async function retry<T>(
   fn: () => Promise<T>,
   options: RetryOptions = {}
 ): Promise<T> {
   const opts = { ...DEFAULT_OPTIONS, ...options };
-  let lastError: Error | null = null;
 
-  for (let attempt = 1; attempt <= opts.maxAttempts; attempt++) {
+  for (let attempt = 1; ; attempt++) {
+    opts.signal?.throwIfAborted();
     try {
       return await fn();
     } catch (error: any) {
-      lastError = error;
-
-      // Check if error is retryable
-      const isRetryable = opts.retryableErrors.some(
-        (retryableError) => error.code === retryableError || error.message?.includes(retryableError)
-      );
+      const classification = classifyError(error);
+      const shouldRetry = opts.shouldRetry
+        ? opts.shouldRetry(error, attempt)
+        : classification.retryable || opts.retryableErrors.includes(error?.code);
 
       // Don't retry on last attempt or non-retryable errors
-      if (attempt === opts.maxAttempts || !isRetryable) {
+      if (attempt >= opts.maxAttempts || !shouldRetry || opts.signal?.aborted) {
         throw error;
       }
 
-      // Calculate delay
-      let delay = opts.delay;
-      if (opts.backoff === 'exponential') {
-        delay = opts.delay * Math.pow(2, attempt - 1);
-      } else {
-        delay = opts.delay * attempt;
-      }
-
-      // Wait before retry
-      await new Promise((resolve) => setTimeout(resolve, delay));
+      const delay = retryDelay(opts, attempt, classification.retryAfter);
+      opts.onRetry?.(error, attempt, delay);
+      await sleep(delay, opts.signal);
     }
   }
-
-  throw lastError || new Error('Retry failed');
 }
 
 /**
@@ -66,34 +92,15 @@ export async function retryWithHandler<T>(
   errorHandler: (error: Error, attempt: number) => boolean,
   options: RetryOptions = {}
 ): Promise<T> {
-  const opts = { ...DEFAULT_OPTIONS, ...options };
-  let lastError: Error | null = null;
-
-  for (let attempt = 1; attempt <= opts.maxAttempts; attempt++) {
-    try {
-      return await fn();
-    } catch (error: any) {
-      lastError = error;
-
-      // Check if should retry
-      const shouldRetry = errorHandler(error, attempt);
-
-      if (attempt === opts.maxAttempts || !shouldRetry) {
-        throw error;
-      }
-
-      // Calculate delay
-      let delay = opts.delay;
-      if (opts.backoff === 'exponential') {
-        delay = opts.delay * Math.pow(2, attempt - 1);
-      } else {
-        delay = opts.delay * attempt;
-      }
-
-      await new Promise((resolve) => setTimeout(resolve, delay));
-    }
-  }
-
-  throw lastError || new Error('Retry failed');
+  return await retry(fn, { ...options, shouldRetry: errorHandler });
 }
 
+/**
+ * Backoff delay before the next attempt, jittered and capped at `maxDelay`
+ * A server's Retry-After raises the delay (up to the cap)
+ */
+function retryDelay(opts: typeof DEFAULT_OPTIONS, attempt: number, retryAfter?: number): number {
+  const base = opts.backoff === 'exponential' ? opts.delay * Math.pow(2, attempt - 1) : opts.delay * attempt;
+  const jittered = base * (1 - opts.jitter * Math.random());
+  return Math.round(Math.min(opts.maxDelay, Math.max(jittered, retryAfter ?? 0)));
+}
@@ -0,0 +1,88 @@
+/**
+ * Record store tests (temporary directory)
+ */
+
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { JsonFileStore, MemoryStore } from './store';
+
+interface Run {
+  id: string;
+  stage: string;
+  steps: string[];
+}
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'kya-store-'));
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe.each([
+  ['MemoryStore', () => new MemoryStore<Run>()],
+  ['JsonFileStore', () => new JsonFileStore<Run>(path.join(dir, 'runs.json'))],
+])('%s', (_name, create) => {
+  it('saves, filters and deletes records', async () => {
+    const store = create();
+    await store.save({ id: 'a', stage: 'pending', steps: [] });
+    await store.save({ id: 'b', stage: 'done', steps: ['submit'] });
+    await store.save({ id: 'a', stage: 'done', steps: ['submit', 'process'] });
+
+    expect(await store.get('a')).toEqual({ id: 'a', stage: 'done', steps: ['submit', 'process'] });
+    expect((await store.values((run) => run.stage === 'done')).map((run) => run.id)).toEqual(['a', 'b']);
+
+    await store.delete('a');
+    expect(await store.get('a')).toBeUndefined();
+    expect(await store.values()).toHaveLength(1);
+  });
+
+  it('hands out copies, so callers cannot change stored records', async () => {
+    const store = create();
+    const run = { id: 'a', stage: 'pending', steps: [] as string[] };
+    await store.save(run);
+
+    run.steps.push('mutated');
+    (await store.get('a'))!.steps.push('mutated');
+    (await store.values())[0].stage = 'mutated';
+
+    expect(await store.get('a')).toEqual({ id: 'a', stage: 'pending', steps: [] });
+  });
+});
+
+describe('JsonFileStore', () => {
+  it('starts empty without a file and persists records across instances', async () => {
+    const file = path.join(dir, 'runs.json');
+    const store = new JsonFileStore<Run>(file);
+    expect(await store.values()).toEqual([]);
+
+    await store.save({ id: 'a', stage: 'pending', steps: [] });
+    await store.save({ id: 'b', stage: 'done', steps: ['submit'] });
+    await store.delete('b');
+
+    expect(await new JsonFileStore<Run>(file).values()).toEqual([{ id: 'a', stage: 'pending', steps: [] }]);
+    expect(await fs.readdir(dir)).toEqual(['runs.json']);
+  });
+
+  it('writes concurrent saves in order', async () => {
+    const file = path.join(dir, 'runs.json');
+    const store = new JsonFileStore<Run>(file);
+
+    await Promise.all(['a', 'b', 'c', 'd'].map((id) => store.save({ id, stage: 'pending', steps: [] })));
+
+    const saved: Run[] = JSON.parse(await fs.readFile(file, 'utf8'));
+    expect(saved.map((run) => run.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('fails on a corrupt file instead of starting over', async () => {
+    const file = path.join(dir, 'runs.json');
+    await fs.writeFile(file, '[{"id": "a"');
+
+    await expect(new JsonFileStore<Run>(file).values()).rejects.toThrow(SyntaxError);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Record stores
+ * Keyed persistence shared by proof jobs, pipelines and keepers
+ */
+
+import { promises as fs } from 'fs';
+
+export interface StoredRecord {
+  id: string;
+}
+
+/**
+ * In-memory store (records are lost on restart)
+ */
+export class MemoryStore<T extends StoredRecord> {
+  private records = new Map<string, T>();
+
+  async get(id: string): Promise<T | undefined> {
+    const record = this.records.get(id);
+    return record ? structuredClone(record) : undefined;
+  }
+
+  async save(record: T): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  async values(filter: (record: T) => boolean = () => true): Promise<T[]> {
+    return Array.from(this.records.values())
+      .filter(filter)
+      .map((record) => structuredClone(record));
+  }
+}
+
+/**
+ * JSON file store
+ * Records must be JSON-serializable. Writes replace the file atomically.
+ */
+export class JsonFileStore<T extends StoredRecord> {
+  private path: string;
+  private records?: Promise<Map<string, T>>;
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    const record = (await this.load()).get(id);
+    return record ? structuredClone(record) : undefined;
+  }
+
+  async save(record: T): Promise<void> {
+    (await this.load()).set(record.id, JSON.parse(JSON.stringify(record)));
+    await this.flush();
+  }
+
+  async delete(id: string): Promise<void> {
+    if ((await this.load()).delete(id)) {
+      await this.flush();
+    }
+  }
+
+  async values(filter: (record: T) => boolean = () => true): Promise<T[]> {
+    return Array.from((await this.load()).values())
+      .filter(filter)
+      .map((record) => structuredClone(record));
+  }
+
+  private load(): Promise<Map<string, T>> {
+    if (!this.records) {
+      this.records = this.read();
+    }
+    return this.records;
+  }
+
+  private async read(): Promise<Map<string, T>> {
+    let records: T[] = [];
+    try {
+      records = JSON.parse(await fs.readFile(this.path, 'utf8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    return new Map(records.map((record) => [record.id, record]));
+  }
+
+  private async flush(): Promise<void> {
+    const data = JSON.stringify(Array.from((await this.load()).values()), null, 2);
+    const tmp = `${this.path}.tmp`;
+
+    // Serialize writes so an older snapshot never overwrites a newer one
+    this.writes = this.writes
+      .catch(() => undefined)
+      .then(async () => {
+        await fs.writeFile(tmp, data);
+        await fs.rename(tmp, this.path);
+      });
+    return this.writes;
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Proof job manager tests (fake provider and timers)
+ */
+
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ProofJobManager, ProofPollingOptions } from './jobs';
+import { ProofStatus, ZKProofProvider } from './provider';
+import { ZKProviderRegistry } from './registry';
+import { InMemoryProofJobStore, ProofJob } from './store';
+import { ProofQuery, ProofResult } from '../types';
+
+const QUERY: ProofQuery = {
+  agentAddress: '0x1306b01bC3e4AD202612D3843387e94737673F53',
+  proofType: 'reputation',
+  queryData: { protocol: 'aave' },
+};
+
+const RESULT: ProofResult = { queryId: 'q1', verified: true, proof: '0x01', metadata: '' };
+
+function fakeProvider() {
+  const provider = {
+    name: 'axiom',
+    capabilities: { supportsCancel: true },
+    generateProof: jest.fn(async () => RESULT),
+    submitProof: jest.fn(async () => 'q1'),
+    getProofStatus: jest.fn<(queryId: string) => Promise<ProofStatus>>(async () => ({ state: 'pending' })),
+    cancel: jest.fn<(queryId: string) => Promise<void>>(async () => undefined),
+  };
+  return provider as ZKProofProvider & typeof provider;
+}
+
+function createManager(polling: ProofPollingOptions = {}, store = new InMemoryProofJobStore()) {
+  const provider = fakeProvider();
+  const jobs = new ProofJobManager(new ZKProviderRegistry([provider]), { store, polling });
+  return { jobs, provider, store };
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('ProofJobManager', () => {
+  it('polls a submitted job until it completes', async () => {
+    const { jobs, provider } = createManager({ interval: 1000 });
+    const events: string[] = [];
+    for (const event of ['submitted', 'progress', 'completed'] as const) {
+      jobs.on(event, (job) => events.push(`${event}:${job.polls}`));
+    }
+    provider.getProofStatus
+      .mockResolvedValueOnce({ state: 'pending' })
+      .mockResolvedValueOnce({ state: 'completed', result: RESULT });
+
+    const job = await jobs.submit(QUERY);
+    expect(job).toMatchObject({ id: 'axiom:q1', provider: 'axiom', queryId: 'q1', status: 'pending' });
+
+    const result = jobs.wait(job.id);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(result).resolves.toEqual(RESULT);
+    expect(events).toEqual(['submitted:0', 'progress:1', 'completed:2']);
+    expect(await jobs.get(job.id)).toMatchObject({ status: 'completed', result: RESULT });
+  });
+
+  it('doubles the delay between polls up to maxInterval', async () => {
+    const { jobs, provider } = createManager({ interval: 1000, backoff: 'exponential', maxInterval: 4000, timeout: 60000 });
+
+    await jobs.submit(QUERY);
+    const pollTimes: number[] = [];
+    const start = Date.now();
+    provider.getProofStatus.mockImplementation(async () => {
+      pollTimes.push(Date.now() - start);
+      return { state: 'pending' };
+    });
+    await jest.advanceTimersByTimeAsync(15000);
+    jobs.stop();
+
+    expect(pollTimes).toEqual([1000, 3000, 7000, 11000, 15000]);
+  });
+
+  it('keeps polling through transient errors and records the last one', async () => {
+    const { jobs, provider } = createManager({ interval: 1000 });
+    provider.getProofStatus
+      .mockRejectedValueOnce(new Error('HTTP 503'))
+      .mockResolvedValueOnce({ state: 'completed', result: RESULT });
+
+    const job = await jobs.submit(QUERY);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(await jobs.get(job.id)).toMatchObject({ status: 'pending', error: 'HTTP 503', polls: 1 });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(await jobs.get(job.id)).toMatchObject({ status: 'completed' });
+  });
+
+  it('fails a job still pending after the timeout', async () => {
+    const { jobs, provider } = createManager({ interval: 1000, timeout: 2500 });
+    const failed = jest.fn();
+    jobs.on('failed', failed);
+
+    const job = await jobs.submit(QUERY);
+    const result = jobs.wait(job.id);
+    const settled = expect(result).rejects.toMatchObject({ code: 'PROOF_TIMEOUT' });
+    await jest.advanceTimersByTimeAsync(3000);
+    await settled;
+
+    expect(provider.getProofStatus).toHaveBeenCalledTimes(4);
+    expect(failed).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed', errorCode: 'PROOF_TIMEOUT' }));
+  });
+
+  it('fails a job the provider reports failed', async () => {
+    const { jobs, provider } = createManager();
+    provider.getProofStatus.mockResolvedValue({ state: 'failed', error: 'Invalid query' });
+
+    const job = await jobs.submit(QUERY);
+    await expect(jobs.wait(job.id)).rejects.toMatchObject({ code: 'PROOF_FAILED', message: 'Proof job axiom:q1 failed: Invalid query' });
+  });
+
+  it('resumes pending jobs left by a previous run', async () => {
+    const store = new InMemoryProofJobStore();
+    const pending: ProofJob = {
+      id: 'axiom:q1',
+      provider: 'axiom',
+      queryId: 'q1',
+      query: QUERY,
+      status: 'pending',
+      polls: 7,
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+    };
+    await store.save(pending);
+    await store.save({ ...pending, id: 'axiom:q0', queryId: 'q0', status: 'completed', result: RESULT });
+
+    const { jobs, provider } = createManager({}, store);
+    provider.getProofStatus.mockResolvedValue({ state: 'completed', result: RESULT });
+
+    const resumed = await jobs.resume();
+    expect(resumed.map((job) => job.id)).toEqual(['axiom:q1']);
+    await expect(jobs.wait('axiom:q1')).resolves.toEqual(RESULT);
+    expect(provider.getProofStatus).toHaveBeenCalledTimes(1);
+    expect(provider.getProofStatus).toHaveBeenCalledWith('q1');
+    expect(await store.get('axiom:q1')).toMatchObject({ status: 'completed', polls: 8 });
+  });
+
+  it('leaves jobs pending on stop() for a later resume()', async () => {
+    const { jobs, store } = createManager({ interval: 1000 });
+
+    const job = await jobs.submit(QUERY);
+    await jest.advanceTimersByTimeAsync(0);
+    jobs.stop();
+    await jest.advanceTimersByTimeAsync(0);
+
+    await expect((async () => (await store.get(job.id))?.status)()).resolves.toBe('pending');
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('cancels the provider request', async () => {
+    const { jobs, provider } = createManager({ interval: 1000 });
+    const cancelled = jest.fn();
+    jobs.on('cancelled', cancelled);
+
+    const job = await jobs.submit(QUERY);
+    await jest.advanceTimersByTimeAsync(0);
+
+    await expect(jobs.cancel(job.id)).resolves.toMatchObject({ status: 'cancelled' });
+    expect(provider.cancel).toHaveBeenCalledWith('q1');
+    expect(cancelled).toHaveBeenCalled();
+    await expect(jobs.wait(job.id)).rejects.toMatchObject({ code: 'PROOF_CANCELLED' });
+  });
+
+  it('marks the job cancelled and reports the error when the provider fails to cancel', async () => {
+    const { jobs, provider, store } = createManager({ interval: 1000 });
+    const failure = new Error('HTTP 409');
+    provider.cancel.mockRejectedValue(failure);
+    const cancelled = jest.fn();
+    jobs.on('cancelled', cancelled);
+
+    const job = await jobs.submit(QUERY);
+    await jest.advanceTimersByTimeAsync(0);
+
+    await expect(jobs.cancel(job.id)).rejects.toBe(failure);
+    expect(await store.get(job.id)).toMatchObject({ status: 'cancelled', error: 'Provider cancel failed: HTTP 409' });
+    expect(cancelled).toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(provider.getProofStatus).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels a job when its signal aborts', async () => {
+    const { jobs, provider } = createManager({ interval: 1000 });
+    const controller = new AbortController();
+
+    const job = await jobs.submit(QUERY, { signal: controller.signal });
+    const result = jobs.wait(job.id);
+    const settled = expect(result).rejects.toMatchObject({ code: 'PROOF_CANCELLED' });
+    controller.abort();
+    await jest.advanceTimersByTimeAsync(0);
+
+    await settled;
+    expect(provider.cancel).toHaveBeenCalledWith('q1');
+  });
+});
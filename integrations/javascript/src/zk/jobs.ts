@@ -0,0 +1,305 @@
+/**
+ * Proof Job Manager
+ * Tracks proof requests as persisted jobs: submits them to a provider,
+ * polls in the background, emits progress events and resumes pending
+ * jobs after a restart
+ *
+ * Events: `submitted`, `progress`, `completed`, `failed`, `cancelled`,
+ * each called with the updated job
+ */
+
+import { EventEmitter } from 'events';
+import { ProofQuery, ProofResult } from '../types';
+import { ZKProviderError, toErrorCode } from '../utils/errors';
+import { sleep } from '../utils/retry';
+import { ZKProviderRegistry } from './registry';
+import { ZKProofProvider } from './provider';
+import { ProofJob, ProofJobStatus, ProofJobStore, InMemoryProofJobStore } from './store';
+
+export interface ProofPollingOptions {
+  /** Delay before the first re-poll in milliseconds (default 5000) */
+  interval?: number;
+  /** Grow the delay between polls (default 'fixed') */
+  backoff?: 'fixed' | 'exponential';
+  /** Upper bound for the exponential delay (default 60000) */
+  maxInterval?: number;
+  /** Job lifetime in milliseconds from submission before it fails with PROOF_TIMEOUT (default 300000) */
+  timeout?: number;
+}
+
+export interface ProofJobManagerOptions {
+  /** Job store (in-memory when omitted) */
+  store?: ProofJobStore;
+  polling?: ProofPollingOptions;
+}
+
+export interface SubmitProofJobOptions {
+  /** Provider name; selected by proof type when omitted */
+  provider?: string;
+  /** Cancels the job when aborted */
+  signal?: AbortSignal;
+}
+
+export interface ProofJobEvents {
+  submitted: (job: ProofJob) => void;
+  progress: (job: ProofJob) => void;
+  completed: (job: ProofJob) => void;
+  failed: (job: ProofJob) => void;
+  cancelled: (job: ProofJob) => void;
+}
+
+export interface ProofJobManager {
+  on<E extends keyof ProofJobEvents>(event: E, listener: ProofJobEvents[E]): this;
+  once<E extends keyof ProofJobEvents>(event: E, listener: ProofJobEvents[E]): this;
+  off<E extends keyof ProofJobEvents>(event: E, listener: ProofJobEvents[E]): this;
+  emit<E extends keyof ProofJobEvents>(event: E, ...args: Parameters<ProofJobEvents[E]>): boolean;
+}
+
+// Abort reason distinguishing cancel() from stop()
+const CANCEL = 'cancel';
+
+const DEFAULT_POLLING: Required<ProofPollingOptions> = {
+  interval: 5000,
+  backoff: 'fixed',
+  maxInterval: 60000,
+  timeout: 300000,
+};
+
+export class ProofJobManager extends EventEmitter {
+  private providers: ZKProviderRegistry;
+  private store: ProofJobStore;
+  private polling: Required<ProofPollingOptions>;
+  private active = new Map<string, { controller: AbortController; done: Promise<ProofJob> }>();
+
+  constructor(providers: ZKProviderRegistry, options: ProofJobManagerOptions = {}) {
+    super();
+    this.providers = providers;
+    this.store = options.store ?? new InMemoryProofJobStore();
+    this.polling = { ...DEFAULT_POLLING, ...options.polling };
+  }
+
+  /**
+   * Submit a proof request and track it in the background
+   * @returns The pending job
+   */
+  async submit(query: ProofQuery, options: SubmitProofJobOptions = {}): Promise<ProofJob> {
+    options.signal?.throwIfAborted();
+
+    const provider = options.provider
+      ? this.providers.get(options.provider)
+      : this.providers.select(query.proofType);
+    const queryId = await provider.submitProof(query);
+
+    const now = Date.now();
+    const job: ProofJob = {
+      id: `${provider.name}:${queryId}`,
+      provider: provider.name,
+      queryId,
+      query,
+      status: 'pending',
+      polls: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.store.save(job);
+    this.emit('submitted', job);
+
+    this.track(job, options.signal);
+    return job;
+  }
+
+  /**
+   * Submit a proof request and wait for its result
+   */
+  async generateProof(query: ProofQuery, options: SubmitProofJobOptions = {}): Promise<ProofResult> {
+    const job = await this.submit(query, options);
+    return await this.wait(job.id);
+  }
+
+  /**
+   * Wait for a job to finish
+   * @throws ZKProviderError when the job fails or is cancelled
+   */
+  async wait(id: string): Promise<ProofResult> {
+    // Join a running poll before reading the store, or a job finishing during
+    // the read would be polled again from its stale pending copy
+    const active = this.active.get(id);
+    let job = active ? await active.done : await this.require(id);
+    if (job.status === 'pending' && !active) {
+      job = await this.track(job);
+    }
+
+    switch (job.status) {
+      case 'completed':
+        return job.result!;
+      case 'pending':
+        throw new ZKProviderError(`Proof job ${id} stopped before completion`, 'PROOF_STOPPED');
+      case 'cancelled':
+        throw new ZKProviderError(`Proof job ${id} was cancelled`, 'PROOF_CANCELLED');
+      default:
+        throw new ZKProviderError(`Proof job ${id} failed: ${job.error}`, job.errorCode ?? 'PROOF_FAILED');
+    }
+  }
+
+  /**
+   * Cancel a pending job, cancelling the provider request when supported
+   * @throws The provider's error when it fails to cancel (the job is cancelled regardless)
+   */
+  async cancel(id: string): Promise<ProofJob> {
+    const entry = this.active.get(id);
+    if (entry) {
+      entry.controller.abort(CANCEL);
+      return await entry.done;
+    }
+
+    const job = await this.require(id);
+    if (job.status !== 'pending') {
+      return job;
+    }
+    return await this.cancelJob(job, this.providers.get(job.provider));
+  }
+
+  /**
+   * Resume polling every pending job in the store
+   * @returns The resumed jobs
+   */
+  async resume(): Promise<ProofJob[]> {
+    const jobs = await this.store.list('pending');
+    for (const job of jobs) {
+      this.track(job);
+    }
+    return jobs;
+  }
+
+  /**
+   * Stop background polling; pending jobs stay in the store for resume()
+   */
+  stop(): void {
+    for (const entry of this.active.values()) {
+      entry.controller.abort();
+    }
+  }
+
+  /**
+   * Get a job by ID
+   */
+  async get(id: string): Promise<ProofJob | undefined> {
+    return await this.store.get(id);
+  }
+
+  /**
+   * List jobs, optionally filtered by status
+   */
+  async list(status?: ProofJobStatus): Promise<ProofJob[]> {
+    return await this.store.list(status);
+  }
+
+  private track(job: ProofJob, signal?: AbortSignal): Promise<ProofJob> {
+    const existing = this.active.get(job.id);
+    if (existing) {
+      return existing.done;
+    }
+
+    const controller = new AbortController();
+    const done = this.poll(job, controller.signal).finally(() => this.active.delete(job.id));
+    // Failures surface through wait() and the `failed` event
+    done.catch(() => undefined);
+    this.active.set(job.id, { controller, done });
+
+    if (signal) {
+      const onAbort = () => { this.cancel(job.id).catch(() => undefined); };
+      if (signal.aborted) {
+        onAbort();
+      } else {
+        signal.addEventListener('abort', onAbort, { once: true });
+      }
+    }
+    return done;
+  }
+
+  private async poll(job: ProofJob, signal: AbortSignal): Promise<ProofJob> {
+    let provider: ZKProofProvider;
+    try {
+      provider = this.providers.get(job.provider);
+    } catch (error: any) {
+      return await this.finish(job, 'failed', { error: error.message, errorCode: toErrorCode(error, 'PROVIDER_NOT_FOUND') });
+    }
+
+    let delay = this.polling.interval;
+    while (!signal.aborted) {
+      try {
+        const status = await provider.getProofStatus(job.queryId);
+        if (signal.aborted) {
+          break;
+        }
+
+        if (status.state === 'completed') {
+          return await this.finish(job, 'completed', { result: status.result, polls: job.polls + 1 });
+        }
+        if (status.state === 'failed') {
+          return await this.finish(job, 'failed', { error: status.error, errorCode: 'PROOF_FAILED', polls: job.polls + 1 });
+        }
+        job.error = undefined;
+      } catch (error: any) {
+        if (signal.aborted) {
+          break;
+        }
+        // Transient polling errors are recorded and retried until the job times out
+        job.error = error.message;
+      }
+
+      job.polls++;
+      if (Date.now() - job.createdAt >= this.polling.timeout) {
+        return await this.finish(job, 'failed', { error: 'Proof generation timeout', errorCode: 'PROOF_TIMEOUT' });
+      }
+
+      job.updatedAt = Date.now();
+      await this.store.save(job);
+      this.emit('progress', job);
+
+      await sleep(delay, signal);
+      if (this.polling.backoff === 'exponential') {
+        delay = Math.min(delay * 2, this.polling.maxInterval);
+      }
+    }
+
+    if (signal.reason === CANCEL) {
+      return await this.cancelJob(job, provider);
+    }
+    return job;
+  }
+
+  /**
+   * Cancel the provider request and mark the job cancelled; a provider that
+   * fails to cancel is recorded on the job and its error rethrown, but
+   * nothing polls the job anymore either way
+   */
+  private async cancelJob(job: ProofJob, provider: ZKProofProvider): Promise<ProofJob> {
+    try {
+      if (provider.capabilities.supportsCancel) {
+        await provider.cancel(job.queryId);
+      }
+    } catch (error: any) {
+      job.error = `Provider cancel failed: ${error.message}`;
+      throw error;
+    } finally {
+      await this.finish(job, 'cancelled', {});
+    }
+    return job;
+  }
+
+  private async finish(job: ProofJob, status: ProofJobStatus, fields: Partial<ProofJob>): Promise<ProofJob> {
+    Object.assign(job, fields, { status, updatedAt: Date.now() });
+    await this.store.save(job);
+    this.emit(status as Exclude<ProofJobStatus, 'pending'>, job);
+    return job;
+  }
+
+  private async require(id: string): Promise<ProofJob> {
+    const job = await this.store.get(id);
+    if (!job) {
+      throw new ZKProviderError(`Proof job ${id} not found`, 'JOB_NOT_FOUND');
+    }
+    return job;
+  }
+}
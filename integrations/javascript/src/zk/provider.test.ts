@@ -0,0 +1,88 @@
+/**
+ * HTTP ZK proof provider tests (in-process HTTP adapter and fake timers)
+ */
+
+import { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { AxiomClient } from '../axiom/client';
+import { ProofQuery } from '../types';
+import { AxiomError } from '../utils/errors';
+
+const QUERY: ProofQuery = {
+  agentAddress: '0x1306b01bC3e4AD202612D3843387e94737673F53',
+  proofType: 'reputation',
+  queryData: { transactions: 120 },
+};
+
+/**
+ * Answer the provider's requests with `respond(method, url)`
+ */
+function serve(axiom: AxiomClient, respond: (method: string, url: string) => { status?: number; data: unknown }) {
+  const requests: { method: string; url: string }[] = [];
+  (axiom as any).api.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+    const request = { method: config.method!, url: config.url! };
+    requests.push(request);
+    const { status = 200, data } = respond(request.method, request.url);
+    const response = { status, statusText: '', headers: {}, config, data };
+    if (status >= 400) {
+      throw new AxiosError(`Request failed with status code ${status}`, 'ERR_BAD_REQUEST', config, {}, response);
+    }
+    return response;
+  };
+  return requests;
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('HttpZKProofProvider', () => {
+  it('reports pending, completed and failed proofs', async () => {
+    const axiom = new AxiomClient({ apiKey: 'key', network: 'base-sepolia', baseUrl: 'https://axiom.test' });
+    let data: unknown = { status: 'pending' };
+    const requests = serve(axiom, () => ({ data }));
+
+    await expect(axiom.getProofStatus('q1')).resolves.toEqual({ state: 'pending' });
+
+    data = { status: 'completed', verified: true, proof: '0x01', metadata: '0x02' };
+    await expect(axiom.getProofStatus('q1')).resolves.toEqual({
+      state: 'completed',
+      result: { queryId: 'q1', verified: true, proof: '0x01', metadata: '0x02' },
+    });
+
+    data = { status: 'failed', error: 'Invalid query' };
+    await expect(axiom.getProofStatus('q1')).resolves.toEqual({ state: 'failed', error: 'Invalid query' });
+    expect(requests.map((request) => request.url)).toEqual(['/v1/proofs/q1', '/v1/proofs/q1', '/v1/proofs/q1']);
+  });
+
+  it('wraps status failures in the provider error', async () => {
+    const axiom = new AxiomClient({ apiKey: 'key', network: 'base-sepolia', baseUrl: 'https://axiom.test' });
+    serve(axiom, () => ({ status: 404, data: {} }));
+
+    const error = await axiom.getProofStatus('q1').catch((e) => e);
+    expect(error).toBeInstanceOf(AxiomError);
+    expect(error.message).toBe('Failed to get axiom proof status: Request failed with status code 404');
+  });
+
+  it('generates a proof by polling its status', async () => {
+    const axiom = new AxiomClient({ apiKey: 'key', network: 'base-sepolia', baseUrl: 'https://axiom.test', pollInterval: 1000 });
+    let polls = 0;
+    serve(axiom, (method) => {
+      if (method === 'post') {
+        return { data: { queryId: 'q1' } };
+      }
+      polls++;
+      return { data: polls < 2 ? { status: 'pending' } : { status: 'completed', verified: true, proof: '0x01', metadata: '0x' } };
+    });
+
+    const proof = axiom.generateProof(QUERY);
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(proof).resolves.toEqual({ queryId: 'q1', verified: true, proof: '0x01', metadata: '0x' });
+    expect(polls).toBe(2);
+  });
+});
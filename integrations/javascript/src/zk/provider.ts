@@ -0,0 +1,234 @@
+/**
+ * ZK Proof Provider
+ * Common interface for ZK coprocessors and the shared HTTP implementation
+ * used by Axiom and Brevis
+ */
+
+import { AxiosInstance } from 'axios';
+import { ProofQuery, ProofResult } from '../types';
+import { retry, sleep } from '../utils/retry';
+import { HttpTransportOptions, createHttpTransport } from '../utils/http';
+import { ErrorCode, KYASDKError, toErrorCode } from '../utils/errors';
+
+export interface ZKProviderCapabilities {
+  /** Supported proof types; undefined means any proof type */
+  proofTypes?: string[];
+  supportsCancel: boolean;
+}
+
+export type ProofState = 'pending' | 'completed' | 'failed';
+
+export interface ProofStatus {
+  state: ProofState;
+  /** Proof result once completed */
+  result?: ProofResult;
+  /** Failure reason once failed */
+  error?: string;
+}
+
+export interface ZKProofProvider {
+  readonly name: string;
+  readonly capabilities: ZKProviderCapabilities;
+
+  /**
+   * Generate a proof, resolving once it is completed
+   * @param signal Aborting stops waiting and cancels the submitted request
+   */
+  generateProof(query: ProofQuery, signal?: AbortSignal): Promise<ProofResult>;
+
+  /**
+   * Submit a proof request without waiting for it
+   * @returns Provider query ID
+   */
+  submitProof(query: ProofQuery): Promise<string>;
+
+  /**
+   * Get the generation status of a submitted proof
+   */
+  getProofStatus(queryId: string): Promise<ProofStatus>;
+
+  /**
+   * Cancel a pending proof request
+   */
+  cancel(queryId: string): Promise<void>;
+}
+
+export interface HttpZKProofProviderConfig {
+  name: string;
+  apiKey: string;
+  network: string;
+  baseUrl: string;
+  proofTypes?: string[];
+  /** Delay between status polls in generateProof (default 5000ms) */
+  pollInterval?: number;
+  /** Status polls before generateProof times out (default 60) */
+  pollAttempts?: number;
+  /** Timeout, rate limit, circuit breaker and interceptors */
+  http?: HttpTransportOptions;
+  createError: (message: string, code?: ErrorCode, cause?: Error) => KYASDKError;
+}
+
+/**
+ * Check if a provider supports a proof type
+ */
+export function supportsProofType(provider: ZKProofProvider, proofType: string): boolean {
+  const proofTypes = provider.capabilities.proofTypes;
+  return !proofTypes || proofTypes.includes(proofType);
+}
+
+/**
+ * HTTP coprocessor provider
+ * Submits proof queries to `/v1/proofs/generate` and polls `/v1/proofs/:id`
+ */
+export class HttpZKProofProvider implements ZKProofProvider {
+  readonly name: string;
+  readonly capabilities: ZKProviderCapabilities;
+  protected api: AxiosInstance;
+  private network: string;
+  private pollInterval: number;
+  private pollAttempts: number;
+  private createError: HttpZKProofProviderConfig['createError'];
+
+  constructor(config: HttpZKProofProviderConfig) {
+    this.name = config.name;
+    this.network = config.network;
+    this.pollInterval = config.pollInterval ?? 5000;
+    this.pollAttempts = config.pollAttempts ?? 60;
+    this.createError = config.createError;
+    this.capabilities = {
+      proofTypes: config.proofTypes,
+      supportsCancel: true,
+    };
+    this.api = createHttpTransport(config.name, config.baseUrl, {
+      'Authorization': `Bearer ${config.apiKey}`,
+      'Content-Type': 'application/json'
+    }, config.http);
+  }
+
+  /**
+   * Generate ZK proof for agent reputation
+   * Blocks until the proof completes; use ProofJobManager for resumable jobs
+   * @param query Proof query parameters
+   * @param signal Aborting stops polling and cancels the query
+   * @returns Proof result
+   */
+  async generateProof(query: ProofQuery, signal?: AbortSignal): Promise<ProofResult> {
+    signal?.throwIfAborted();
+    const queryId = await this.submitProof(query);
+
+    try {
+      return await this.pollForProof(queryId, signal);
+    } catch (error: any) {
+      if (signal?.aborted) {
+        // Best effort: the caller has moved on, and the abort reason matters more
+        await this.cancel(queryId).catch(() => undefined);
+        throw signal.reason;
+      }
+      throw this.wrapError(`Failed to generate ${this.name} proof`, error);
+    }
+  }
+
+  /**
+   * Submit a proof request
+   * @param query Proof query parameters
+   * @returns Provider query ID
+   */
+  async submitProof(query: ProofQuery): Promise<string> {
+    try {
+      const response = await retry(
+        () => this.api.post('/v1/proofs/generate', {
+          agentAddress: query.agentAddress,
+          proofType: query.proofType,
+          queryData: query.queryData,
+          startBlock: query.startBlock,
+          endBlock: query.endBlock,
+          network: this.network
+        }),
+        {
+          maxAttempts: 3,
+          delay: 1000,
+          backoff: 'exponential',
+        }
+      );
+
+      return response.data.queryId;
+    } catch (error: any) {
+      throw this.wrapError(`Failed to submit ${this.name} proof`, error);
+    }
+  }
+
+  /**
+   * Get proof generation status
+   * @param queryId Query identifier
+   * @returns Pending, completed (with result) or failed (with reason)
+   */
+  async getProofStatus(queryId: string): Promise<ProofStatus> {
+    try {
+      const response = await this.api.get(`/v1/proofs/${queryId}`);
+
+      if (response.data.status === 'completed') {
+        return {
+          state: 'completed',
+          result: {
+            queryId: queryId,
+            verified: response.data.verified,
+            proof: response.data.proof,
+            metadata: response.data.metadata
+          }
+        };
+      }
+
+      if (response.data.status === 'failed') {
+        return { state: 'failed', error: response.data.error };
+      }
+
+      return { state: 'pending' };
+    } catch (error: any) {
+      throw this.wrapError(`Failed to get ${this.name} proof status`, error);
+    }
+  }
+
+  /**
+   * Cancel a pending proof request
+   * @param queryId Query identifier
+   */
+  async cancel(queryId: string): Promise<void> {
+    try {
+      await this.api.delete(`/v1/proofs/${queryId}`);
+    } catch (error: any) {
+      throw this.wrapError(`Failed to cancel ${this.name} proof`, error);
+    }
+  }
+
+  /**
+   * Poll for proof generation status
+   * @param queryId Query identifier
+   * @returns Proof result when ready
+   */
+  private async pollForProof(queryId: string, signal?: AbortSignal): Promise<ProofResult> {
+    for (let i = 0; i < this.pollAttempts; i++) {
+      signal?.throwIfAborted();
+      const status = await this.getProofStatus(queryId);
+
+      if (status.state === 'completed') {
+        return status.result!;
+      }
+
+      if (status.state === 'failed') {
+        throw this.createError(`Proof generation failed: ${status.error}`, 'PROOF_FAILED');
+      }
+
+      // Wait before next poll
+      await sleep(this.pollInterval, signal);
+    }
+
+    throw this.createError('Proof generation timeout', 'PROOF_TIMEOUT');
+  }
+
+  private wrapError(message: string, error: any): KYASDKError {
+    if (error instanceof KYASDKError) {
+      return error;
+    }
+    return this.createError(`${message}: ${error.message}`, toErrorCode(error, 'PROOF_REJECTED'), error);
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * ZK provider registry tests (fake providers and timers)
+ */
+
+import { InternalAxiosRequestConfig } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { ZKProviderRegistry } from './registry';
+import { HttpZKProofProvider, ZKProofProvider } from './provider';
+import { ProofQuery, ProofResult } from '../types';
+import { AxiomError, ZKProviderError } from '../utils/errors';
+
+const QUERY: ProofQuery = {
+  agentAddress: '0x1306b01bC3e4AD202612D3843387e94737673F53',
+  proofType: 'reputation',
+  queryData: { protocol: 'aave' },
+};
+
+function result(queryId: string): ProofResult {
+  return { queryId, verified: true, proof: '0x01', metadata: '' };
+}
+
+/**
+ * Provider whose generateProof settles when told to, recording aborts
+ */
+function fakeProvider(name: string, proofTypes?: string[]) {
+  const aborted: unknown[] = [];
+  const provider = {
+    name,
+    capabilities: { proofTypes, supportsCancel: true },
+    generateProof: jest.fn((_query: ProofQuery, signal?: AbortSignal) => {
+      signal?.addEventListener('abort', () => aborted.push(signal.reason));
+      return new Promise<ProofResult>(() => undefined);
+    }),
+    submitProof: jest.fn(async () => `${name}-1`),
+    getProofStatus: jest.fn(async () => ({ state: 'pending' as const })),
+    cancel: jest.fn(async () => undefined),
+  };
+  return { provider: provider as ZKProofProvider & typeof provider, aborted };
+}
+
+beforeEach(() => {
+  jest.useFakeTimers();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('ZKProviderRegistry', () => {
+  it('picks candidates by proof type in policy order', () => {
+    const axiom = fakeProvider('axiom', ['reputation']).provider;
+    const brevis = fakeProvider('brevis').provider;
+    const zk = new ZKProviderRegistry([axiom, brevis]);
+
+    expect(zk.candidates('reputation').map((p) => p.name)).toEqual(['axiom', 'brevis']);
+    expect(zk.candidates('AaveLender').map((p) => p.name)).toEqual(['brevis']);
+    expect(zk.candidates('reputation', { order: ['brevis', 'axiom'], maxProviders: 1 }).map((p) => p.name)).toEqual(['brevis']);
+    expect(() => zk.get('risc0')).toThrow(ZKProviderError);
+  });
+
+  it('falls back to the next provider on failure', async () => {
+    const axiom = fakeProvider('axiom').provider;
+    const brevis = fakeProvider('brevis').provider;
+    axiom.generateProof.mockRejectedValue(new Error('Invalid query'));
+    brevis.generateProof.mockResolvedValue(result('brevis-1'));
+
+    await expect(new ZKProviderRegistry([axiom, brevis]).generateProof(QUERY)).resolves.toEqual(result('brevis-1'));
+  });
+
+  it('aborts a provider that times out before falling back', async () => {
+    const { provider: axiom, aborted } = fakeProvider('axiom');
+    const brevis = fakeProvider('brevis').provider;
+    brevis.generateProof.mockResolvedValue(result('brevis-1'));
+    const zk = new ZKProviderRegistry([axiom, brevis], { timeout: 1000 });
+
+    const proof = zk.generateProof(QUERY);
+    await jest.advanceTimersByTimeAsync(999);
+    expect(brevis.generateProof).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1);
+
+    await expect(proof).resolves.toEqual(result('brevis-1'));
+    expect(aborted).toEqual([expect.objectContaining({ code: 'PROOF_TIMEOUT' })]);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('lists every attempt when all providers fail', async () => {
+    const axiom = fakeProvider('axiom').provider;
+    const brevis = fakeProvider('brevis').provider;
+    brevis.generateProof.mockRejectedValue(new Error('quota exceeded'));
+    const zk = new ZKProviderRegistry([axiom, brevis], { timeout: 500 });
+
+    const proof = zk.generateProof(QUERY);
+    const settled = expect(proof).rejects.toMatchObject({
+      code: 'ALL_PROVIDERS_FAILED',
+      message: 'All ZK providers failed (axiom: axiom timed out after 500ms; brevis: quota exceeded)',
+    });
+    await jest.advanceTimersByTimeAsync(500);
+    await settled;
+  });
+
+  it('uses only the named provider when asked', async () => {
+    const axiom = fakeProvider('axiom').provider;
+    const brevis = fakeProvider('brevis').provider;
+    brevis.generateProof.mockResolvedValue(result('brevis-1'));
+
+    await expect(new ZKProviderRegistry([axiom, brevis]).generateProof(QUERY, { provider: 'brevis' })).resolves.toEqual(result('brevis-1'));
+    expect(axiom.generateProof).not.toHaveBeenCalled();
+  });
+});
+
+describe('HttpZKProofProvider.generateProof', () => {
+  function httpProvider() {
+    const provider = new HttpZKProofProvider({
+      name: 'axiom',
+      apiKey: 'key',
+      network: 'base-sepolia',
+      baseUrl: 'https://axiom.test',
+      pollInterval: 1000,
+      pollAttempts: 3,
+      createError: (message, code, cause) => new AxiomError(message, code, cause),
+    });
+    const requests: string[] = [];
+    let status = 'pending';
+    (provider as any).api.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+      requests.push(`${config.method} ${config.url}`);
+      const data = config.method === 'post' ? { queryId: 'q1' } : { status, verified: true, proof: '0x01', metadata: '' };
+      return { status: 200, statusText: '', headers: {}, config, data };
+    };
+    return { provider, requests, complete: () => (status = 'completed') };
+  }
+
+  it('polls until the proof completes', async () => {
+    const { provider, requests, complete } = httpProvider();
+
+    const proof = provider.generateProof(QUERY);
+    await jest.advanceTimersByTimeAsync(1000);
+    complete();
+    await jest.advanceTimersByTimeAsync(1000);
+
+    await expect(proof).resolves.toEqual(result('q1'));
+    expect(requests).toEqual(['post /v1/proofs/generate', 'get /v1/proofs/q1', 'get /v1/proofs/q1', 'get /v1/proofs/q1']);
+  });
+
+  it('cancels the query when aborted while polling', async () => {
+    const { provider, requests } = httpProvider();
+    const controller = new AbortController();
+    const reason = new ZKProviderError('axiom timed out after 1500ms', 'PROOF_TIMEOUT');
+
+    const proof = provider.generateProof(QUERY, controller.signal);
+    const settled = expect(proof).rejects.toBe(reason);
+    await jest.advanceTimersByTimeAsync(1500);
+    controller.abort(reason);
+    await settled;
+
+    expect(requests).toEqual(['post /v1/proofs/generate', 'get /v1/proofs/q1', 'get /v1/proofs/q1', 'delete /v1/proofs/q1']);
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('times out after pollAttempts', async () => {
+    const { provider } = httpProvider();
+
+    const proof = provider.generateProof(QUERY);
+    const settled = expect(proof).rejects.toMatchObject({ code: 'PROOF_TIMEOUT' });
+    await jest.advanceTimersByTimeAsync(3000);
+    await settled;
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * ZK Provider Registry
+ * Selects a ZK proof provider by name or proof type and falls back to
+ * the next provider when a proof request fails or times out
+ */
+
+import { ProofQuery, ProofResult } from '../types';
+import { ZKProviderError } from '../utils/errors';
+import { ZKProofProvider, supportsProofType } from './provider';
+
+export interface FallbackPolicy {
+  /** Provider names in preference order; defaults to registration order */
+  order?: string[];
+  /** Per-provider timeout in milliseconds before falling back (no timeout when omitted) */
+  timeout?: number;
+  /** Maximum number of providers to try */
+  maxProviders?: number;
+}
+
+export interface ProofGenerationOptions {
+  /** Use this provider only (no fallback) */
+  provider?: string;
+  policy?: FallbackPolicy;
+}
+
+export interface ProviderAttempt {
+  provider: string;
+  error: Error;
+}
+
+export class ZKProviderRegistry {
+  private providers = new Map<string, ZKProofProvider>();
+  private defaultPolicy: FallbackPolicy;
+
+  constructor(providers: ZKProofProvider[] = [], defaultPolicy: FallbackPolicy = {}) {
+    this.defaultPolicy = defaultPolicy;
+    for (const provider of providers) {
+      this.register(provider);
+    }
+  }
+
+  /**
+   * Register a provider (replaces any provider with the same name)
+   */
+  register(provider: ZKProofProvider): this {
+    this.providers.set(provider.name, provider);
+    return this;
+  }
+
+  /**
+   * Get a provider by name
+   */
+  get(name: string): ZKProofProvider {
+    const provider = this.providers.get(name);
+    if (!provider) {
+      throw new ZKProviderError(`ZK provider "${name}" is not registered`, 'PROVIDER_NOT_FOUND');
+    }
+    return provider;
+  }
+
+  /**
+   * List registered provider names
+   */
+  list(): string[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Get the providers able to serve a proof type, in policy order
+   */
+  candidates(proofType: string, policy: FallbackPolicy = this.defaultPolicy): ZKProofProvider[] {
+    const names = policy.order ?? this.list();
+    const candidates = names
+      .map((name) => this.get(name))
+      .filter((provider) => supportsProofType(provider, proofType));
+
+    return policy.maxProviders !== undefined ? candidates.slice(0, policy.maxProviders) : candidates;
+  }
+
+  /**
+   * Select the preferred provider for a proof type
+   */
+  select(proofType: string): ZKProofProvider {
+    const [provider] = this.candidates(proofType);
+    if (!provider) {
+      throw new ZKProviderError(`No ZK provider supports proof type "${proofType}"`, 'PROVIDER_NOT_FOUND');
+    }
+    return provider;
+  }
+
+  /**
+   * Generate a proof, falling back to the next candidate provider on failure or timeout
+   * @throws ZKProviderError with every attempt when all providers fail
+   */
+  async generateProof(query: ProofQuery, options: ProofGenerationOptions = {}): Promise<ProofResult> {
+    if (options.provider) {
+      return await this.get(options.provider).generateProof(query);
+    }
+
+    const policy = { ...this.defaultPolicy, ...options.policy };
+    const candidates = this.candidates(query.proofType, policy);
+    if (candidates.length === 0) {
+      throw new ZKProviderError(`No ZK provider supports proof type "${query.proofType}"`, 'PROVIDER_NOT_FOUND');
+    }
+
+    const attempts: ProviderAttempt[] = [];
+    for (const provider of candidates) {
+      try {
+        return await this.withTimeout(provider, query, policy.timeout);
+      } catch (error: any) {
+        attempts.push({ provider: provider.name, error });
+      }
+    }
+
+    const summary = attempts.map((attempt) => `${attempt.provider}: ${attempt.error.message}`).join('; ');
+    throw new ZKProviderError(`All ZK providers failed (${summary})`, 'ALL_PROVIDERS_FAILED', attempts[attempts.length - 1].error, attempts);
+  }
+
+  /**
+   * Generate with one provider, aborting its request once the timeout passes
+   * so it does not keep proving next to the fallback
+   */
+  private async withTimeout(
+    provider: ZKProofProvider,
+    query: ProofQuery,
+    timeout?: number
+  ): Promise<ProofResult> {
+    if (timeout === undefined) {
+      return await provider.generateProof(query);
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(
+      () => controller.abort(new ZKProviderError(`${provider.name} timed out after ${timeout}ms`, 'PROOF_TIMEOUT')),
+      timeout
+    );
+    // Providers ignoring the signal still lose the race
+    const timedOut = new Promise<never>((_, reject) => {
+      controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+    });
+
+    try {
+      return await Promise.race([provider.generateProof(query, controller.signal), timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Proof Job Stores
+ * Persistence for proof jobs so pending proofs survive a process restart
+ * Only in-memory and JSON file stores ship, to keep the package free of
+ * native dependencies; a database-backed store (e.g. SQLite) implements
+ * ProofJobStore
+ */
+
+import { ProofQuery, ProofResult } from '../types';
+import { MemoryStore, JsonFileStore } from '../utils/store';
+import { ErrorCode } from '../utils/errors';
+
+export type ProofJobStatus = 'pending' | 'completed' | 'failed' | 'cancelled';
+
+export interface ProofJob {
+  /** Job ID (`<provider>:<queryId>`) */
+  id: string;
+  provider: string;
+  /** Provider query ID */
+  queryId: string;
+  query: ProofQuery;
+  status: ProofJobStatus;
+  /** Status polls made so far */
+  polls: number;
+  createdAt: number;
+  updatedAt: number;
+  result?: ProofResult;
+  /** Failure reason, or the last polling error while pending */
+  error?: string;
+  errorCode?: ErrorCode;
+}
+
+export interface ProofJobStore {
+  get(id: string): Promise<ProofJob | undefined>;
+  save(job: ProofJob): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(status?: ProofJobStatus): Promise<ProofJob[]>;
+}
+
+/**
+ * In-memory store (jobs are lost on restart)
+ */
+export class InMemoryProofJobStore extends MemoryStore<ProofJob> implements ProofJobStore {
+  async list(status?: ProofJobStatus): Promise<ProofJob[]> {
+    return await this.values((job) => !status || job.status === status);
+  }
+}
+
+/**
+ * JSON file store
+ * Query data must be JSON-serializable
+ */
+export class FileProofJobStore extends JsonFileStore<ProofJob> implements ProofJobStore {
+  async list(status?: ProofJobStatus): Promise<ProofJob[]> {
+    return await this.values((job) => !status || job.status === status);
+  }
+}
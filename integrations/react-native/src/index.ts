@@ -3,7 +3,7 @@
  * @module @kya-protocol/react-native
  */
 
-import { KYAClient } from '@kya-protocol/integrations';
+import { KYAClient, KYAClientConfig, AgentInfo } from '@kya-protocol/integrations';
 import { WalletConnectModal } from '@walletconnect/react-native-dapp';
 import { ethers } from 'ethers';
 